@@ -0,0 +1,117 @@
+-- Shared artist/artwork catalog
+-- Each ArtStation account and artwork is stored once in catalog_artists / catalog_artworks and
+-- scraped once for all followers. artists and artworks keep their ids but only hold the
+-- per-user follow and seen/favorite state.
+
+-- Older databases may lack this column (it was never part of a migration)
+ALTER TABLE artworks
+ADD COLUMN IF NOT EXISTS high_quality_image_url TEXT;
+
+CREATE TABLE IF NOT EXISTS catalog_artists (
+  id SERIAL PRIMARY KEY,
+  username VARCHAR(100) NOT NULL,
+  display_name VARCHAR(200),
+  profile_url TEXT NOT NULL,
+  avatar_url TEXT,
+  last_checked TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_catalog_artists_username ON catalog_artists(LOWER(username));
+
+CREATE TABLE IF NOT EXISTS catalog_artworks (
+  id SERIAL PRIMARY KEY,
+  catalog_artist_id INTEGER NOT NULL REFERENCES catalog_artists(id) ON DELETE CASCADE,
+  artwork_id VARCHAR(100) NOT NULL,
+  title TEXT NOT NULL,
+  thumbnail_url TEXT NOT NULL,
+  high_quality_image_url TEXT,
+  artwork_url TEXT NOT NULL,
+  upload_date TIMESTAMP,
+  last_updated_at TIMESTAMP,
+  revision INTEGER NOT NULL DEFAULT 1,
+  discovered_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(catalog_artist_id, artwork_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_catalog_artworks_artist ON catalog_artworks(catalog_artist_id);
+
+-- One catalog artist per username (case-insensitive), keeping the most complete metadata
+INSERT INTO catalog_artists (username, display_name, profile_url, avatar_url, last_checked, created_at)
+SELECT DISTINCT ON (LOWER(username))
+  username,
+  display_name,
+  profile_url,
+  avatar_url,
+  MAX(last_checked) OVER (PARTITION BY LOWER(username)),
+  MIN(created_at) OVER (PARTITION BY LOWER(username))
+FROM artists
+ORDER BY LOWER(username), (display_name IS NULL), (avatar_url IS NULL), last_checked DESC NULLS LAST
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE artists
+ADD COLUMN IF NOT EXISTS catalog_artist_id INTEGER REFERENCES catalog_artists(id) ON DELETE CASCADE;
+
+UPDATE artists a
+SET catalog_artist_id = ca.id
+FROM catalog_artists ca
+WHERE LOWER(ca.username) = LOWER(a.username);
+
+-- One catalog artwork per (artist, artwork), keeping the most recently updated copy
+INSERT INTO catalog_artworks (catalog_artist_id, artwork_id, title, thumbnail_url, high_quality_image_url,
+                              artwork_url, upload_date, last_updated_at, discovered_at)
+SELECT DISTINCT ON (a.catalog_artist_id, aw.artwork_id)
+  a.catalog_artist_id,
+  aw.artwork_id,
+  aw.title,
+  aw.thumbnail_url,
+  aw.high_quality_image_url,
+  aw.artwork_url,
+  aw.upload_date,
+  aw.last_updated_at,
+  MIN(aw.discovered_at) OVER (PARTITION BY a.catalog_artist_id, aw.artwork_id)
+FROM artworks aw
+JOIN artists a ON a.id = aw.artist_id
+ORDER BY a.catalog_artist_id, aw.artwork_id, aw.last_updated_at DESC NULLS LAST
+ON CONFLICT (catalog_artist_id, artwork_id) DO NOTHING;
+
+ALTER TABLE artworks
+ADD COLUMN IF NOT EXISTS catalog_artwork_id INTEGER REFERENCES catalog_artworks(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS synced_revision INTEGER NOT NULL DEFAULT 1;
+
+UPDATE artworks aw
+SET catalog_artwork_id = cw.id
+FROM artists a, catalog_artworks cw
+WHERE a.id = aw.artist_id
+  AND cw.catalog_artist_id = a.catalog_artist_id
+  AND cw.artwork_id = aw.artwork_id;
+
+ALTER TABLE artists ALTER COLUMN catalog_artist_id SET NOT NULL;
+ALTER TABLE artworks ALTER COLUMN catalog_artwork_id SET NOT NULL;
+
+-- Content now lives in the catalog (dropping the columns also drops the old unique constraints)
+ALTER TABLE artworks
+DROP COLUMN artwork_id,
+DROP COLUMN title,
+DROP COLUMN thumbnail_url,
+DROP COLUMN high_quality_image_url,
+DROP COLUMN artwork_url,
+DROP COLUMN upload_date,
+DROP COLUMN last_updated_at;
+
+ALTER TABLE artists
+DROP COLUMN username,
+DROP COLUMN display_name,
+DROP COLUMN profile_url,
+DROP COLUMN avatar_url,
+DROP COLUMN last_checked;
+
+ALTER TABLE artists ADD CONSTRAINT artists_user_catalog_key UNIQUE (user_id, catalog_artist_id);
+ALTER TABLE artworks ADD CONSTRAINT artworks_user_catalog_key UNIQUE (user_id, catalog_artwork_id);
+
+CREATE INDEX IF NOT EXISTS idx_artists_catalog ON artists(catalog_artist_id);
+CREATE INDEX IF NOT EXISTS idx_artworks_catalog ON artworks(catalog_artwork_id);
+
+COMMENT ON TABLE catalog_artists IS 'ArtStation accounts, shared by every user who follows them';
+COMMENT ON TABLE catalog_artworks IS 'Artworks scraped once per account; revision is bumped on every content change';
+COMMENT ON COLUMN artworks.synced_revision IS 'Catalog revision this user has already been notified about';
@@ -0,0 +1,19 @@
+-- Artwork revision history
+-- Stores the previous title/thumbnail/urls each time a scrape picks up an edit to a catalog artwork.
+
+CREATE TABLE IF NOT EXISTS artwork_revisions (
+  id SERIAL PRIMARY KEY,
+  catalog_artwork_id INTEGER NOT NULL REFERENCES catalog_artworks(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  thumbnail_url TEXT NOT NULL,
+  high_quality_image_url TEXT,
+  artwork_url TEXT NOT NULL,
+  upload_date TIMESTAMP,
+  last_updated_at TIMESTAMP,
+  replaced_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_artwork_revisions_artwork ON artwork_revisions(catalog_artwork_id, revision DESC);
+
+COMMENT ON TABLE artwork_revisions IS 'Previous versions of catalog artworks; revision is the catalog revision the values belonged to';
@@ -0,0 +1,14 @@
+-- Full-text search over artwork titles and artist names
+-- 'simple' keeps words as written (titles are in many languages); queries use prefix matching.
+-- Title words are weighted A, artist names B, so title matches rank higher.
+
+ALTER TABLE catalog_artworks
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (setweight(to_tsvector('simple', COALESCE(title, '')), 'A')) STORED;
+
+ALTER TABLE catalog_artists
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (setweight(to_tsvector('simple', username || ' ' || COALESCE(display_name, '')), 'B')) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_catalog_artworks_search ON catalog_artworks USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_catalog_artists_search ON catalog_artists USING GIN (search_vector);
@@ -0,0 +1,29 @@
+-- Artist trash
+-- Unfollowing moves the artist and its artworks (with seen/favorite state) here under the same ids,
+-- so they can be restored; the scheduler purges entries older than ARTIST_TRASH_RETENTION_DAYS.
+
+CREATE TABLE IF NOT EXISTS deleted_artists (
+  id INTEGER PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  catalog_artist_id INTEGER NOT NULL REFERENCES catalog_artists(id) ON DELETE CASCADE,
+  created_at TIMESTAMP,
+  deleted_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS deleted_artworks (
+  id INTEGER PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  artist_id INTEGER NOT NULL REFERENCES deleted_artists(id) ON DELETE CASCADE,
+  catalog_artwork_id INTEGER NOT NULL REFERENCES catalog_artworks(id) ON DELETE CASCADE,
+  is_new INTEGER DEFAULT 1,
+  is_favorite INTEGER DEFAULT 0,
+  synced_revision INTEGER NOT NULL DEFAULT 1,
+  discovered_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_deleted_artists_user ON deleted_artists(user_id);
+CREATE INDEX IF NOT EXISTS idx_deleted_artists_deleted_at ON deleted_artists(deleted_at);
+CREATE INDEX IF NOT EXISTS idx_deleted_artworks_artist ON deleted_artworks(artist_id);
+
+COMMENT ON TABLE deleted_artists IS 'Unfollowed artists, restorable until purged';
+COMMENT ON TABLE deleted_artworks IS 'Artworks of trashed artists, including seen/favorite state';
@@ -0,0 +1,32 @@
+-- Artwork details
+-- Data from each ArtStation project page (description, tags, mediums, software, categories,
+-- like/view counts and every image/video asset), stored once per catalog artwork.
+
+CREATE TABLE IF NOT EXISTS catalog_artwork_details (
+  catalog_artwork_id INTEGER PRIMARY KEY REFERENCES catalog_artworks(id) ON DELETE CASCADE,
+  description TEXT,
+  tags JSONB NOT NULL DEFAULT '[]',
+  mediums JSONB NOT NULL DEFAULT '[]',
+  software JSONB NOT NULL DEFAULT '[]',
+  categories JSONB NOT NULL DEFAULT '[]',
+  likes_count INTEGER,
+  views_count INTEGER,
+  fetched_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS catalog_artwork_assets (
+  id SERIAL PRIMARY KEY,
+  catalog_artwork_id INTEGER NOT NULL REFERENCES catalog_artworks(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  asset_type VARCHAR(50) NOT NULL,
+  image_url TEXT,
+  video_url TEXT,
+  width INTEGER,
+  height INTEGER,
+  title TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_catalog_artwork_assets_artwork ON catalog_artwork_assets(catalog_artwork_id, position);
+
+COMMENT ON TABLE catalog_artwork_details IS 'Project page data; tags/mediums/software/categories are JSON arrays of names';
+COMMENT ON TABLE catalog_artwork_assets IS 'Images and videos of a project in display order (the cover is not included)';
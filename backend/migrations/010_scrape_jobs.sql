@@ -0,0 +1,35 @@
+-- Scrape job queue
+-- Scrapes and following imports run as background jobs so a restart doesn't lose progress.
+-- Each item (artist, catalog account or user) is retried with backoff on its own; items
+-- that run out of attempts stay behind as 'dead' until retried by hand.
+
+CREATE TABLE IF NOT EXISTS scrape_jobs (
+  id SERIAL PRIMARY KEY,
+  type VARCHAR(30) NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  payload JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP,
+  finished_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS scrape_job_items (
+  id SERIAL PRIMARY KEY,
+  job_id INTEGER NOT NULL REFERENCES scrape_jobs(id) ON DELETE CASCADE,
+  target_id INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  last_error TEXT,
+  result JSONB,
+  finished_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_jobs_status ON scrape_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_scrape_jobs_user ON scrape_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_scrape_job_items_job ON scrape_job_items(job_id);
+
+COMMENT ON TABLE scrape_jobs IS 'Queued and finished scrape jobs; user_id is NULL for scheduled jobs covering every user';
+COMMENT ON TABLE scrape_job_items IS 'Per-target progress of a scrape job with its own attempts and backoff';
@@ -0,0 +1,48 @@
+-- Scrape run history
+-- Every scrape job gets a run with its trigger, timing and totals, and every attempt at an
+-- artist gets an outcome (pages fetched, new/updated counts, error or block reason).
+-- Runs outlive their jobs, so job_id has no foreign key.
+
+CREATE TABLE IF NOT EXISTS scrape_runs (
+  id SERIAL PRIMARY KEY,
+  job_id INTEGER NOT NULL,
+  type VARCHAR(30) NOT NULL,
+  trigger VARCHAR(20) NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP,
+  finished_at TIMESTAMP,
+  duration_ms INTEGER,
+  total INTEGER NOT NULL DEFAULT 0,
+  completed INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  new_artworks INTEGER NOT NULL DEFAULT 0,
+  updated_artworks INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS scrape_run_outcomes (
+  id SERIAL PRIMARY KEY,
+  run_id INTEGER NOT NULL REFERENCES scrape_runs(id) ON DELETE CASCADE,
+  catalog_artist_id INTEGER REFERENCES catalog_artists(id) ON DELETE CASCADE,
+  username VARCHAR(255) NOT NULL,
+  attempt INTEGER NOT NULL,
+  status VARCHAR(20) NOT NULL,
+  pages_fetched INTEGER NOT NULL DEFAULT 0,
+  new_artworks INTEGER NOT NULL DEFAULT 0,
+  updated_artworks INTEGER NOT NULL DEFAULT 0,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  reason TEXT,
+  error TEXT,
+  block_reason VARCHAR(20),
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_runs_job ON scrape_runs(job_id);
+CREATE INDEX IF NOT EXISTS idx_scrape_runs_user ON scrape_runs(user_id);
+CREATE INDEX IF NOT EXISTS idx_scrape_run_outcomes_run ON scrape_run_outcomes(run_id);
+CREATE INDEX IF NOT EXISTS idx_scrape_run_outcomes_artist ON scrape_run_outcomes(catalog_artist_id);
+
+COMMENT ON TABLE scrape_runs IS 'One row per scrape job: trigger, timing and totals; user_id is NULL for scheduled runs';
+COMMENT ON TABLE scrape_run_outcomes IS 'One row per attempt at an artist during a scrape run';
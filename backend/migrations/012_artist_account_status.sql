@@ -0,0 +1,8 @@
+-- ArtStation account status
+-- Scrapers record when an account was renamed (followed to its new handle in place, so the
+-- artwork history stays), deleted ('gone') or made private.
+
+ALTER TABLE catalog_artists
+ADD COLUMN IF NOT EXISTS account_status VARCHAR(20) NOT NULL DEFAULT 'active',
+ADD COLUMN IF NOT EXISTS account_status_changed_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS previous_username VARCHAR(100);
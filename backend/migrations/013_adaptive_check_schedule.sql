@@ -0,0 +1,11 @@
+-- Adaptive check schedule
+-- Scheduled checks only look at accounts whose next_check_at has passed. It is set after every
+-- check from the account's posting cadence, unless a follower pinned a fixed interval.
+
+ALTER TABLE catalog_artists
+ADD COLUMN IF NOT EXISTS next_check_at TIMESTAMP;
+
+ALTER TABLE artists
+ADD COLUMN IF NOT EXISTS check_interval_hours INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_catalog_artists_next_check ON catalog_artists(next_check_at);
@@ -0,0 +1,9 @@
+-- Artworks removed from ArtStation
+-- Full rescans mark stored artworks that are missing from the artist's complete project list.
+-- Users can opt in to a Discord message about them.
+
+ALTER TABLE catalog_artworks
+ADD COLUMN IF NOT EXISTS removed_at TIMESTAMP;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS notify_removed_artworks BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,26 @@
+-- Artist profiles
+-- Data from each ArtStation profile (headline, bio, location, cover image, social links and
+-- follower counts), refreshed on every check, plus one follower count per account and day.
+
+CREATE TABLE IF NOT EXISTS catalog_artist_profiles (
+  catalog_artist_id INTEGER PRIMARY KEY REFERENCES catalog_artists(id) ON DELETE CASCADE,
+  headline TEXT,
+  bio TEXT,
+  location TEXT,
+  cover_url TEXT,
+  links JSONB NOT NULL DEFAULT '[]',
+  followers_count INTEGER,
+  following_count INTEGER,
+  fetched_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS artist_follower_counts (
+  catalog_artist_id INTEGER NOT NULL REFERENCES catalog_artists(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  followers_count INTEGER NOT NULL,
+  following_count INTEGER,
+  PRIMARY KEY (catalog_artist_id, date)
+);
+
+COMMENT ON TABLE catalog_artist_profiles IS 'Profile page data; links is a JSON array of {network, url}';
+COMMENT ON TABLE artist_follower_counts IS 'Follower counts over time, the last check of each UTC day';
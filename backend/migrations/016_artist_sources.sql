@@ -0,0 +1,9 @@
+-- Artist sources
+-- Artists can come from other providers than ArtStation (see src/providers). Feed artists are
+-- keyed by their feed URL (`username` holds a short form of it) and read from `feed_url`.
+
+ALTER TABLE catalog_artists
+ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'artstation';
+
+ALTER TABLE catalog_artists
+ADD COLUMN IF NOT EXISTS feed_url TEXT;
@@ -0,0 +1,24 @@
+-- Image archive
+-- Users can have the images of their artworks downloaded (see src/imageArchive.ts). Files are
+-- stored once by SHA-256 on disk; each row is one user's reference to one of them, so quotas
+-- can be counted per user and files nobody references any more can be removed.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS image_archive VARCHAR(10) NOT NULL DEFAULT 'off';
+
+CREATE TABLE IF NOT EXISTS archived_images (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  catalog_artwork_id INTEGER NOT NULL REFERENCES catalog_artworks(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  source_url TEXT NOT NULL,
+  hash CHAR(64) NOT NULL,
+  byte_size INTEGER NOT NULL,
+  content_type VARCHAR(100),
+  archived_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, catalog_artwork_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_archived_images_hash ON archived_images(hash);
+
+COMMENT ON COLUMN users.image_archive IS 'off, covers (cover images) or all (every image asset too)';
+COMMENT ON COLUMN archived_images.position IS '0 is the cover, image assets follow from 1 in display order';
@@ -0,0 +1,14 @@
+-- Perceptual image hashes
+-- Catalog artworks get the pHash of their thumbnail (see src/utils/imageHash.ts), so likely
+-- reposts can be found within one artist and across artists. image_hash_url is the thumbnail
+-- the hash was computed from; an edited artwork with a new thumbnail is hashed again.
+
+ALTER TABLE catalog_artworks
+ADD COLUMN IF NOT EXISTS image_hash CHAR(16),
+ADD COLUMN IF NOT EXISTS image_hash_url TEXT;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS mute_repost_notifications BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN catalog_artworks.image_hash IS '64-bit perceptual hash of the thumbnail as 16 hex digits';
+COMMENT ON COLUMN users.mute_repost_notifications IS 'Skip Discord notifications for new artworks that look like reposts';
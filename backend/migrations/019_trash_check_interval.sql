@@ -0,0 +1,5 @@
+-- Pinned check interval in the trash
+-- An unfollowed artist keeps the interval its follower pinned, so restoring it brings that back.
+
+ALTER TABLE deleted_artists
+ADD COLUMN IF NOT EXISTS check_interval_hours INTEGER;
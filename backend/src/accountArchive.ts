@@ -0,0 +1,280 @@
+import * as db from './database';
+import { isDiscordUserId, isDiscordWebhookUrl } from './notifications/discord';
+import { artstationProvider } from './providers/artstation';
+
+// Portable account archive used by GET /api/user/export and POST /api/user/import.
+// Built only from the storage-agnostic functions in database.ts so an archive taken
+// from one backend (JSON, SQLite, PostgreSQL) can be restored into any other.
+//
+// Archives are user-supplied, while artists and artworks live in the shared catalog: an import
+// only restores this user's follows, seen flags and favorites. It never creates or changes
+// catalog rows from the archive's contents; the next scrape fills in what the catalog lacks.
+
+export const ARCHIVE_FORMAT = 'arttracker-account';
+export const ARCHIVE_VERSION = 1;
+
+export interface ArchivedArtwork {
+  artwork_id: string;
+  title: string;
+  thumbnail_url: string;
+  high_quality_image_url?: string;
+  artwork_url: string;
+  upload_date?: string;
+  last_updated_at?: string;
+  is_new: number;
+  is_favorite: number;
+  discovered_at: string;
+}
+
+export interface ArchivedArtist {
+  source?: db.ArtistSource; // Missing in older archives, which only had ArtStation artists
+  username: string;
+  display_name?: string;
+  profile_url: string;
+  feed_url?: string;
+  avatar_url?: string;
+  last_checked?: string;
+  created_at: string;
+  artworks: ArchivedArtwork[];
+}
+
+export interface AccountArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  profile: {
+    username: string;
+    artstation_username?: string;
+    discord_webhook_url?: string;
+    discord_user_id?: string;
+    created_at: string;
+  };
+  artists: ArchivedArtist[];
+  persistent_favorites: Array<{
+    artist_username: string;
+    artwork_id: string;
+    artwork_url: string;
+  }>;
+}
+
+export interface ImportSummary {
+  artists_added: number;
+  artists_existing: number;
+  artists_skipped: number; // Feeds the catalog doesn't have, and usernames that aren't handles
+  artworks_added: number;
+  artworks_existing: number;
+  artworks_skipped: number; // Not in the catalog (yet): the next scrape adds them
+  marked_seen: number;
+  favorites_restored: number;
+  persistent_favorites: number;
+  profile_fields_updated: string[];
+}
+
+export async function buildAccountArchive(user: db.User): Promise<AccountArchive> {
+  const artists = await db.getAllArtists(user.id);
+  const artworks = await db.getAllArtworks(user.id);
+  const persistentFavorites = await db.getPersistentFavorites(user.id);
+
+  const artworksByArtist = new Map<number, db.Artwork[]>();
+  for (const artwork of artworks) {
+    const list = artworksByArtist.get(artwork.artist_id) || [];
+    list.push(artwork);
+    artworksByArtist.set(artwork.artist_id, list);
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    // Token is deliberately left out: the archive must not grant access to the account
+    profile: {
+      username: user.username,
+      artstation_username: user.artstation_username,
+      discord_webhook_url: user.discord_webhook_url,
+      discord_user_id: user.discord_user_id,
+      created_at: user.created_at
+    },
+    artists: artists.map(artist => ({
+      source: artist.source,
+      username: artist.username,
+      display_name: artist.display_name,
+      profile_url: artist.profile_url,
+      feed_url: artist.feed_url,
+      avatar_url: artist.avatar_url,
+      last_checked: artist.last_checked,
+      created_at: artist.created_at,
+      artworks: (artworksByArtist.get(artist.id) || []).map(artwork => ({
+        artwork_id: artwork.artwork_id,
+        title: artwork.title,
+        thumbnail_url: artwork.thumbnail_url,
+        high_quality_image_url: artwork.high_quality_image_url,
+        artwork_url: artwork.artwork_url,
+        upload_date: artwork.upload_date,
+        last_updated_at: artwork.last_updated_at,
+        is_new: artwork.is_new,
+        is_favorite: artwork.is_favorite || 0,
+        discovered_at: artwork.discovered_at
+      }))
+    })),
+    persistent_favorites: persistentFavorites.map(favorite => ({
+      artist_username: favorite.artist_username,
+      artwork_id: favorite.artwork_id,
+      artwork_url: favorite.artwork_url
+    }))
+  };
+}
+
+// Returns an error message if the payload isn't an archive this version can read
+export function validateAccountArchive(payload: any): string | null {
+  if (!payload || typeof payload !== 'object') {
+    return 'Archive must be a JSON object';
+  }
+  if (payload.format !== ARCHIVE_FORMAT) {
+    return `Unsupported archive format. Expected "${ARCHIVE_FORMAT}"`;
+  }
+  if (typeof payload.version !== 'number' || payload.version > ARCHIVE_VERSION) {
+    return `Unsupported archive version ${payload.version}. This server reads up to version ${ARCHIVE_VERSION}`;
+  }
+  if (!Array.isArray(payload.artists)) {
+    return 'Archive is missing the artists list';
+  }
+  const badArtist = payload.artists.find((a: any) => !a || typeof a.username !== 'string' || !Array.isArray(a.artworks || []));
+  if (badArtist) {
+    return 'Archive contains an artist without a username';
+  }
+  return null;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Merge an archive into the given user's account.
+ * Artists in the catalog are followed, and so are ArtStation handles it doesn't have yet (as if
+ * added by hand); artworks are only linked if the catalog has them. Seen and favorite state
+ * only ever moves towards the archive (seen stays seen, favorites are added).
+ */
+export async function importAccountArchive(user: db.User, archive: AccountArchive): Promise<ImportSummary> {
+  const summary: ImportSummary = {
+    artists_added: 0,
+    artists_existing: 0,
+    artists_skipped: 0,
+    artworks_added: 0,
+    artworks_existing: 0,
+    artworks_skipped: 0,
+    marked_seen: 0,
+    favorites_restored: 0,
+    persistent_favorites: 0,
+    profile_fields_updated: []
+  };
+
+  // Profile settings only fill in what this account doesn't have yet. Discord settings get the
+  // same checks as PATCH /api/user; invalid ones are skipped
+  const profileUpdates: Partial<db.User> = {};
+  if (!user.artstation_username && archive.profile?.artstation_username) {
+    profileUpdates.artstation_username = archive.profile.artstation_username;
+  }
+  const webhookUrl = archive.profile?.discord_webhook_url;
+  if (!user.discord_webhook_url && typeof webhookUrl === 'string' && isDiscordWebhookUrl(webhookUrl)) {
+    profileUpdates.discord_webhook_url = webhookUrl;
+  }
+  const discordUserId = archive.profile?.discord_user_id;
+  if (!user.discord_user_id && typeof discordUserId === 'string' && isDiscordUserId(discordUserId)) {
+    profileUpdates.discord_user_id = discordUserId;
+  }
+  if (Object.keys(profileUpdates).length > 0) {
+    await db.updateUser(user.id, profileUpdates);
+    summary.profile_fields_updated = Object.keys(profileUpdates);
+  }
+
+  // Persistent favorites first, so addArtwork picks them up while inserting
+  const favorites = [...(archive.persistent_favorites || [])];
+  for (const artist of archive.artists) {
+    for (const artwork of artist.artworks || []) {
+      if (artwork.is_favorite === 1 && isHttpUrl(artwork.artwork_url)) {
+        favorites.push({ artist_username: artist.username, artwork_id: artwork.artwork_id, artwork_url: artwork.artwork_url });
+      }
+    }
+  }
+  for (const favorite of favorites) {
+    if (typeof favorite.artwork_url !== 'string' || !isHttpUrl(favorite.artwork_url)) {
+      continue;
+    }
+    await db.addPersistentFavorite(user.id, favorite.artist_username, favorite.artwork_id, favorite.artwork_url);
+  }
+  summary.persistent_favorites = new Set(
+    favorites.map(f => `${f.artist_username.toLowerCase()}:${f.artwork_id}`)
+  ).size;
+
+  const existingArtists = await db.getAllArtists(user.id);
+  const artistsByUsername = new Map(existingArtists.map(a => [a.username.toLowerCase(), a]));
+  const existingArtworks = new Map(
+    (await db.getAllArtworks(user.id)).map(a => [`${a.artist_id}:${a.artwork_id}`, a])
+  );
+
+  for (const archivedArtist of archive.artists) {
+    let artist = artistsByUsername.get(archivedArtist.username.toLowerCase());
+
+    if (artist) {
+      summary.artists_existing++;
+    } else {
+      // The catalog's own row, or a new one made from the handle alone
+      const account = await db.getCatalogAccount(archivedArtist.username)
+        || (archivedArtist.source !== 'rss' ? await artstationProvider.resolveProfile(archivedArtist.username) : null);
+      if (!account) {
+        summary.artists_skipped++;
+        continue;
+      }
+      artist = await db.addArtist(user.id, account.username, account.profile_url, account.source, account.feed_url);
+      artistsByUsername.set(artist.username.toLowerCase(), artist);
+      summary.artists_added++;
+    }
+
+    for (const archivedArtwork of archivedArtist.artworks || []) {
+      if (!archivedArtwork.artwork_id) {
+        continue;
+      }
+
+      // Artworks already in this account keep their current metadata
+      let artwork = existingArtworks.get(`${artist.id}:${archivedArtwork.artwork_id}`);
+      if (artwork) {
+        summary.artworks_existing++;
+      } else {
+        // Only the catalog's content is used; the archive's is just a placeholder
+        const result = await db.addArtwork(
+          user.id,
+          artist.id,
+          archivedArtwork.artwork_id,
+          'Untitled',
+          '',
+          '',
+          undefined,
+          undefined,
+          undefined,
+          { catalogOnly: true, markUpdatesAsNew: false }
+        );
+        if (!result.artwork) {
+          summary.artworks_skipped++;
+          continue;
+        }
+        artwork = result.artwork;
+        summary.artworks_added++;
+      }
+
+      if (archivedArtwork.is_new === 0 && artwork.is_new === 1) {
+        await db.markArtworkSeen(artwork.id, user.id);
+        summary.marked_seen++;
+      }
+    }
+  }
+
+  summary.favorites_restored = await db.restoreAllFavoritesForUser(user.id);
+
+  return summary;
+}
@@ -0,0 +1,128 @@
+// Works out why an ArtStation account stopped serving its projects.
+//
+// When the first page of projects doesn't load, the scrapers ask /users/<name>.json without
+// following redirects: a redirect (or a profile with another handle) means the account was
+// renamed, 404/410 that it's gone, 401/403 or an empty profile that it's private. Renamed
+// accounts are moved to their new handle in place, so artworks, seen flags and favorites stay.
+// Every follower is told once per change; the status is cleared when the account loads again.
+
+import * as db from './database';
+import { fetchStatus } from './fetcher';
+import { sendDiscordAccountStatusNotification } from './notifications/discord';
+import { artstationUrl, getArtStationBaseUrl } from './utils/artstation';
+
+export type AccountProbe =
+  | { status: 'active' }
+  | { status: 'renamed'; username: string }
+  | { status: 'gone' }
+  | { status: 'private' };
+
+export interface AccountStatusChange {
+  status: Exclude<db.ArtistAccountStatus, 'active'>;
+  username: string; // Handle to use from now on (the new one after a rename)
+  moved: boolean; // Renamed in place: scrape again under the new handle
+}
+
+// Handle from a redirect target like /users/<name>.json or https://www.artstation.com/<name>
+export function usernameFromLocation(location: string): string | null {
+  const { pathname } = new URL(location, getArtStationBaseUrl());
+  const match = pathname.match(/^\/users\/([^/]+?)(?:\.json)?(?:\/|$)/) || pathname.match(/^\/([^/.]+)\/?$/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+// Null when the answer doesn't tell (a Cloudflare challenge, a server error, a redirect elsewhere)
+export async function probeAccount(username: string): Promise<AccountProbe | null> {
+  const response = await fetchStatus(artstationUrl(`/users/${username}.json`));
+  if (!response) {
+    return null;
+  }
+
+  if (response.status >= 300 && response.status < 400) {
+    const renamedTo = response.location ? usernameFromLocation(response.location) : null;
+    if (!renamedTo || renamedTo.toLowerCase() === username.toLowerCase()) {
+      return null;
+    }
+    return { status: 'renamed', username: renamedTo };
+  }
+  if (response.status === 404 || response.status === 410) {
+    return { status: 'gone' };
+  }
+  if (response.status === 401 || response.status === 403) {
+    return { status: 'private' };
+  }
+  if (response.status < 200 || response.status >= 300) {
+    return null;
+  }
+
+  const profileName = response.data?.username;
+  if (!profileName) {
+    return { status: 'private' }; // ArtStation serves hidden profiles without their details
+  }
+  if (String(profileName).toLowerCase() !== username.toLowerCase()) {
+    return { status: 'renamed', username: String(profileName) };
+  }
+  return { status: 'active' };
+}
+
+// Everyone following the account hears about it, not just the user whose scrape found out
+async function notifyFollowers(artist: db.Artist, status: AccountStatusChange['status'], newUsername?: string) {
+  const followers = await db.getFollowersOfCatalogArtist(artist.catalog_artist_id);
+  for (const follower of followers) {
+    await sendDiscordAccountStatusNotification(follower.user_id, artist, status, newUsername);
+  }
+}
+
+// Called when the first page of an account's projects came back empty. Records what happened
+// to the account (in the shared catalog, so for every follower) and returns it, or null when
+// the account looks fine or can't be checked, so the caller carries on as before.
+export async function resolveMissingAccount(stale: db.Artist): Promise<AccountStatusChange | null> {
+  const artist = await db.getArtistById(stale.id, stale.user_id);
+  if (!artist) {
+    return null;
+  }
+  if (artist.username !== stale.username) {
+    // Renamed by another scrape since these entries were read
+    return { status: 'renamed', username: artist.username, moved: true };
+  }
+
+  const probe = await probeAccount(artist.username);
+  if (!probe || probe.status === 'active') {
+    return null;
+  }
+
+  if (probe.status === 'renamed') {
+    const profileUrl = `https://www.artstation.com/${probe.username}`;
+    if (await db.renameCatalogArtist(artist.catalog_artist_id, probe.username, profileUrl)) {
+      console.log(`  ✏️ @${artist.username} is now @${probe.username}, following the new handle`);
+      await notifyFollowers(artist, 'renamed', probe.username);
+      return { status: 'renamed', username: probe.username, moved: true };
+    }
+    // The new handle is already in the catalog as an account of its own
+    console.warn(`  ⚠ @${artist.username} is now @${probe.username}, which is tracked separately`);
+  } else {
+    console.warn(`  ⚠ @${artist.username} is ${probe.status === 'gone' ? 'gone from ArtStation' : 'private'}`);
+  }
+
+  const now = new Date().toISOString();
+  const changed = artist.account_status !== probe.status;
+  await db.updateArtist(artist.id, artist.user_id, {
+    last_checked: now,
+    ...(changed ? { account_status: probe.status, account_status_changed_at: now } : {})
+  });
+  if (changed) {
+    await notifyFollowers(artist, probe.status, probe.status === 'renamed' ? probe.username : undefined);
+  }
+  return { status: probe.status, username: artist.username, moved: false };
+}
+
+// The account loaded again: a gone or private status no longer applies (renames stay on record)
+export async function clearAccountStatus(artist: db.Artist) {
+  if (artist.account_status !== 'gone' && artist.account_status !== 'private') {
+    return;
+  }
+  console.log(`  ✓ @${artist.username} is back on ArtStation`);
+  await db.updateArtist(artist.id, artist.user_id, {
+    account_status: 'active',
+    account_status_changed_at: new Date().toISOString()
+  });
+}
@@ -0,0 +1,413 @@
+/**
+ * One shared headless browser for every scraper.
+ *
+ * Pages are handed out through withPage(): at most BROWSER_MAX_PAGES are open at the same
+ * time (further callers wait for a free one) and finished pages are kept for the next caller
+ * instead of being closed. When Chromium crashes or disconnects, the next request launches a
+ * new one. closeBrowserPool() is called on shutdown (see index.ts).
+ */
+
+import puppeteer, { Browser, Page } from 'puppeteer';
+
+// Keep this at 1 on small hosts (every open page costs ~100MB); raise it with CONCURRENT_ARTIST_LIMIT
+export const BROWSER_MAX_PAGES = Math.max(1, parseInt(process.env.BROWSER_MAX_PAGES || '1'));
+const RESET_PAGE_TIMEOUT = 10000;
+const CLOSE_TIMEOUT = 10000;
+
+let browser: Browser | null = null;
+let launching: Promise<Browser> | null = null;
+let closing = false;
+const idlePages: Page[] = [];
+let pagesInUse = 0;
+const waitingForPage: Array<() => void> = [];
+
+export interface BrowserPoolStats {
+  running: boolean;
+  max_pages: number;
+  pages_in_use: number;
+  idle_pages: number;
+  waiting: number;
+}
+
+async function launchBrowser(): Promise<Browser> {
+  console.log('🚀 Launching browser...');
+  
+  const fs = require('fs');
+  const path = require('path');
+  const launchOptions: any = {
+    headless: true, // Headless mode (use true for compatibility)
+    // Shutdown is handled by closeBrowserPool, so the browser isn't killed before in-flight pages finish
+    handleSIGINT: false,
+    handleSIGTERM: false,
+    handleSIGHUP: false,
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-blink-features=AutomationControlled', // Remove automation flags (helps bypass Cloudflare)
+      '--disable-features=IsolateOrigins,site-per-process',
+      '--window-size=1920,1080',
+      '--start-maximized'
+    ]
+  };
+
+  // Set up cache directory for Puppeteer (must be set before Puppeteer operations)
+  const cacheDir = process.env.PUPPETEER_CACHE_DIR || '/opt/render/.cache/puppeteer';
+  
+  // CRITICAL: Set environment variable BEFORE any Puppeteer operations
+  // This ensures Puppeteer knows where to look for Chrome
+  if (!process.env.PUPPETEER_CACHE_DIR) {
+    process.env.PUPPETEER_CACHE_DIR = cacheDir;
+  }
+  
+  // Also set Puppeteer's cache directory environment variable
+  process.env.PUPPETEER_DOWNLOAD_PATH = cacheDir;
+  
+  console.log(`   📂 Cache directory: ${cacheDir}`);
+  
+  // Ensure cache directory exists
+  try {
+    if (!fs.existsSync(cacheDir)) {
+      fs.mkdirSync(cacheDir, { recursive: true });
+      console.log(`   📁 Created cache directory: ${cacheDir}`);
+    }
+    // Verify write permissions
+    fs.accessSync(cacheDir, fs.constants.W_OK);
+    console.log(`   ✅ Cache directory is writable`);
+  } catch (e: any) {
+    console.warn(`   ⚠️  Cache directory issue: ${e.message}`);
+  }
+
+  let executablePath: string | null = null;
+  
+  // Method 1: Try Puppeteer's executablePath first (respects PUPPETEER_CACHE_DIR)
+  // This is the most reliable method if Chrome was installed via 'puppeteer browsers install'
+  try {
+    const suggestedPath = puppeteer.executablePath();
+    if (suggestedPath && fs.existsSync(suggestedPath)) {
+      executablePath = suggestedPath;
+      console.log(`   ✅ Found Chrome via Puppeteer: ${executablePath}`);
+    }
+  } catch (e) {
+    console.log('   ⚠️  Puppeteer.executablePath() failed, searching manually...');
+  }
+
+  // Method 2: Search Puppeteer cache directory structure
+  // Puppeteer stores Chrome as: {cacheDir}/chrome/{platform}-{revision}/chrome-{platform}/chrome
+  if (!executablePath) {
+    try {
+      const chromeCacheDir = path.join(cacheDir, 'chrome');
+      if (fs.existsSync(chromeCacheDir)) {
+        // Look for chrome directories
+        const entries = fs.readdirSync(chromeCacheDir);
+        for (const entry of entries) {
+          const platformDir = path.join(chromeCacheDir, entry);
+          if (fs.statSync(platformDir).isDirectory()) {
+            // Look for chrome-* directories
+            const subEntries = fs.readdirSync(platformDir);
+            for (const subEntry of subEntries) {
+              if (subEntry.startsWith('chrome-')) {
+                const chromeDir = path.join(platformDir, subEntry);
+                // Chrome executable is usually in the root of chrome-* directory
+                const chromeExe = path.join(chromeDir, 'chrome');
+                if (fs.existsSync(chromeExe)) {
+                  executablePath = chromeExe;
+                  console.log(`   ✅ Found Chrome in cache structure: ${executablePath}`);
+                  break;
+                }
+              }
+            }
+            if (executablePath) break;
+          }
+        }
+      }
+    } catch (e: any) {
+      console.log(`   ⚠️  Error searching cache structure: ${e.message}`);
+    }
+  }
+
+  // Method 3: Use find command as fallback (works on Linux)
+  if (!executablePath) {
+    try {
+      const { execSync } = require('child_process');
+      const result = execSync(
+        `find "${cacheDir}" -type f \( -name "chrome" -o -name "chromium" \) -executable 2>/dev/null | head -1`,
+        { encoding: 'utf8', timeout: 5000 }
+      ).trim();
+      if (result && fs.existsSync(result)) {
+        executablePath = result;
+        console.log(`   ✅ Found Chrome via find: ${executablePath}`);
+      }
+    } catch (e) {
+      // find command failed or no Chrome found
+    }
+  }
+
+  // Method 4: Search system Chrome locations (fastest if available)
+  if (!executablePath) {
+    const systemPaths = [
+      '/usr/bin/google-chrome',
+      '/usr/bin/google-chrome-stable',
+      '/usr/bin/chromium',
+      '/usr/bin/chromium-browser',
+      '/snap/bin/chromium'
+    ];
+    
+    for (const systemPath of systemPaths) {
+      try {
+        if (fs.existsSync(systemPath)) {
+          executablePath = systemPath;
+          console.log(`   ✅ Found system Chrome at: ${systemPath}`);
+          break;
+        }
+      } catch (e) {
+        // Continue searching
+      }
+    }
+  }
+
+  // Set executable path if we found one
+  if (executablePath) {
+    launchOptions.executablePath = executablePath;
+    console.log(`   🎯 Using Chrome at: ${executablePath}`);
+  } else {
+    // Chrome not found - try to install it at runtime
+    console.log('   📥 Chrome not found in any location');
+    console.log('   ⏳ Attempting to install Chrome at runtime...');
+    console.log(`   📂 Cache directory: ${cacheDir}`);
+    console.log('   ⏱️  This may take 3-5 minutes on first request');
+    
+    // Don't set executablePath - let Puppeteer download Chrome
+    // This will use PUPPETEER_CACHE_DIR if set
+    try {
+      // Try to install Chrome using Puppeteer's browser installer
+      const { execSync } = require('child_process');
+      console.log('   🔄 Installing Chrome via Puppeteer...');
+      execSync('npx puppeteer browsers install chrome', {
+        env: {
+          ...process.env,
+          PUPPETEER_CACHE_DIR: cacheDir,
+          PUPPETEER_DOWNLOAD_PATH: cacheDir,
+          PUPPETEER_SKIP_CHROMIUM_DOWNLOAD: 'false'
+        },
+        stdio: 'inherit',
+        timeout: 600000 // 10 minutes timeout for runtime installation
+      });
+      console.log('   ✅ Chrome installation completed');
+      
+      // Try to find Chrome again after installation
+      try {
+        const result = execSync(
+          `find "${cacheDir}" -type f -name "chrome" -executable 2>/dev/null | head -1`,
+          { encoding: 'utf8', timeout: 5000 }
+        ).trim();
+        if (result && fs.existsSync(result)) {
+          executablePath = result;
+          launchOptions.executablePath = executablePath;
+          console.log(`   ✅ Found Chrome after installation: ${executablePath}`);
+        } else {
+          // Try Puppeteer's executablePath after installation
+          try {
+            const suggestedPath = puppeteer.executablePath();
+            if (suggestedPath && fs.existsSync(suggestedPath)) {
+              executablePath = suggestedPath;
+              launchOptions.executablePath = executablePath;
+              console.log(`   ✅ Found Chrome via Puppeteer: ${executablePath}`);
+            }
+          } catch (e) {
+            // Still not found, but let Puppeteer try to launch anyway
+          }
+        }
+      } catch (e) {
+        console.warn('   ⚠️  Could not verify Chrome installation');
+      }
+    } catch (installError: any) {
+      const installErrorMsg = installError?.message || String(installError);
+      console.warn(`   ⚠️  Chrome installation failed: ${installErrorMsg}`);
+      console.warn('   💡 Trying to launch browser anyway - Puppeteer may handle it');
+      // Continue to launch attempt - Puppeteer might still work
+    }
+  }
+
+  // Launch browser
+  try {
+    const launched = await puppeteer.launch(launchOptions);
+    console.log('   ✅ Browser launched successfully');
+    return launched;
+  } catch (error: any) {
+    const errorMsg = error?.message || String(error);
+    console.error('   ❌ Failed to launch browser:', errorMsg);
+    
+    // Provide helpful error message with retry suggestion
+    if (errorMsg.includes('Could not find Chrome') || errorMsg.includes('Browser was not found')) {
+      throw new Error(
+        `Chrome not found and installation failed.\n` +
+        `This can happen on Render free tier due to:\n` +
+        `1. Disk space limitations (Chrome needs ~200MB)\n` +
+        `2. Network timeouts during download\n` +
+        `3. Build timeout preventing Chrome installation\n\n` +
+        `Solutions:\n` +
+        `- Wait a few minutes and try again (first install takes time)\n` +
+        `- Check Render logs for disk space warnings\n` +
+        `- Verify PUPPETEER_CACHE_DIR is set: ${process.env.PUPPETEER_CACHE_DIR || 'not set'}\n` +
+        `- Consider upgrading to Render paid tier for faster builds\n\n` +
+        `Error: ${errorMsg}`
+      );
+    }
+    throw error;
+  }
+}
+
+async function getBrowser(): Promise<Browser> {
+  if (browser && browser.connected) {
+    return browser;
+  }
+
+  if (!launching) {
+    launching = launchBrowser()
+      .then(launched => {
+        browser = launched;
+        launched.on('disconnected', () => {
+          if (browser !== launched) return;
+          browser = null;
+          idlePages.length = 0;
+          if (!closing) {
+            console.warn('⚠️  Browser disconnected, a new one is launched on the next request');
+          }
+        });
+        return launched;
+      })
+      .finally(() => {
+        launching = null;
+      });
+  }
+  return launching;
+}
+
+// Settings every page gets once, when it is created
+async function preparePage(page: Page) {
+  await page.setViewport({ width: 1920, height: 1080 });
+  await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+
+  // Remove webdriver property (Cloudflare detects this)
+  await page.evaluateOnNewDocument(() => {
+    // @ts-ignore - navigator is available in browser context
+    Object.defineProperty(navigator, 'webdriver', {
+      get: () => undefined,
+    });
+  });
+
+  // Add realistic browser headers
+  await page.setExtraHTTPHeaders({
+    'Accept-Language': 'en-US,en;q=0.9',
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+    'Accept-Encoding': 'gzip, deflate, br',
+    'DNT': '1',
+    'Connection': 'keep-alive',
+    'Upgrade-Insecure-Requests': '1',
+    'Sec-Fetch-Dest': 'document',
+    'Sec-Fetch-Mode': 'navigate',
+    'Sec-Fetch-Site': 'none',
+    'Sec-Fetch-User': '?1',
+    'Cache-Control': 'max-age=0'
+  });
+}
+
+async function acquireSlot() {
+  if (pagesInUse < BROWSER_MAX_PAGES) {
+    pagesInUse++;
+    return;
+  }
+  // releaseSlot hands its slot straight to us
+  await new Promise<void>(resolve => waitingForPage.push(resolve));
+}
+
+function releaseSlot() {
+  const next = waitingForPage.shift();
+  if (next) {
+    next();
+  } else {
+    pagesInUse--;
+  }
+}
+
+async function acquirePage(): Promise<Page> {
+  await acquireSlot();
+  try {
+    const current = await getBrowser();
+    while (idlePages.length > 0) {
+      const page = idlePages.pop()!;
+      if (!page.isClosed() && page.browser() === current) {
+        return page;
+      }
+    }
+    const page = await current.newPage();
+    await preparePage(page);
+    return page;
+  } catch (error) {
+    releaseSlot();
+    throw error;
+  }
+}
+
+async function releasePage(page: Page) {
+  try {
+    page.removeAllListeners();
+    if (!closing && browser?.connected && page.browser() === browser && !page.isClosed()) {
+      // Drop the previous document (and its memory) before the page is reused
+      await page.goto('about:blank', { timeout: RESET_PAGE_TIMEOUT });
+      idlePages.push(page);
+    } else if (!page.isClosed()) {
+      await page.close();
+    }
+  } catch (error) {
+    await page.close().catch(() => {});
+  } finally {
+    releaseSlot();
+  }
+}
+
+// Run fn with a page from the pool; the page goes back to the pool afterwards, even if fn throws
+export async function withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+  const page = await acquirePage();
+  try {
+    return await fn(page);
+  } finally {
+    await releasePage(page);
+  }
+}
+
+export function getBrowserPoolStats(): BrowserPoolStats {
+  return {
+    running: !!browser?.connected,
+    max_pages: BROWSER_MAX_PAGES,
+    pages_in_use: pagesInUse,
+    idle_pages: idlePages.length,
+    waiting: waitingForPage.length
+  };
+}
+
+export async function closeBrowserPool(): Promise<void> {
+  closing = true;
+  try {
+    const current = browser || (launching ? await launching.catch(() => null) : null);
+    browser = null;
+    idlePages.length = 0;
+    if (current) {
+      console.log('🛑 Closing browser...');
+      await Promise.race([
+        current.close(),
+        new Promise(resolve => setTimeout(resolve, CLOSE_TIMEOUT))
+      ]);
+    }
+  } catch (error: any) {
+    console.error('Failed to close browser:', error.message);
+  } finally {
+    closing = false;
+  }
+}
+
+// Last resort when the process exits without closeBrowserPool (exit handlers can't wait)
+process.on('exit', () => {
+  browser?.process()?.kill();
+});
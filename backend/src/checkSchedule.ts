@@ -0,0 +1,79 @@
+// When each ArtStation account is checked next.
+//
+// The check cron (CRON_ARTWORK_CHECK_SCHEDULE) only looks at accounts whose next_check_at has
+// passed. After every check the next one is scheduled from the account's posting cadence: the
+// median gap between its most recent uploads, or the time since its last upload if that is
+// longer (so dormant artists slow down), spread over CHECKS_PER_POST checks and kept between
+// CHECK_INTERVAL_MIN_HOURS and CHECK_INTERVAL_MAX_HOURS. A follower can pin a fixed interval
+// instead; with several followers the account is checked as often as the most eager one wants.
+
+import * as db from './database';
+
+export const CHECK_INTERVAL_MIN_HOURS = Math.max(0.25, parseFloat(process.env.CHECK_INTERVAL_MIN_HOURS || '3'));
+export const CHECK_INTERVAL_MAX_HOURS = Math.max(
+  CHECK_INTERVAL_MIN_HOURS,
+  parseFloat(process.env.CHECK_INTERVAL_MAX_HOURS || '168') // A week
+);
+// Longest interval a user can pin
+export const MAX_PINNED_INTERVAL_HOURS = 24 * 30;
+
+// Interval while there are too few uploads to tell a cadence (the old fixed schedule)
+const DEFAULT_INTERVAL_HOURS = 6;
+const CADENCE_SAMPLE_SIZE = 10; // Most recent uploads the cadence is worked out from
+const CHECKS_PER_POST = 4; // Checks per typical gap between uploads
+
+const HOUR_MS = 3600000;
+
+function clampInterval(hours: number): number {
+  return Math.min(CHECK_INTERVAL_MAX_HOURS, Math.max(CHECK_INTERVAL_MIN_HOURS, hours));
+}
+
+// Hours between checks for an account with these upload dates (newest first or in any order)
+export function adaptiveIntervalHours(uploadDates: string[], now: number = Date.now()): number {
+  const times = uploadDates
+    .map(date => new Date(date).getTime())
+    .filter(time => !isNaN(time))
+    .sort((a, b) => b - a);
+  if (times.length < 2) {
+    return clampInterval(DEFAULT_INTERVAL_HOURS);
+  }
+
+  const gaps = times.slice(1).map((time, i) => times[i] - time).sort((a, b) => a - b);
+  const medianGap = gaps[Math.floor(gaps.length / 2)];
+  const expectedGap = Math.max(medianGap, now - times[0]);
+  return clampInterval(expectedGap / HOUR_MS / CHECKS_PER_POST);
+}
+
+// followers: every follow of one catalog account
+export async function checkIntervalHours(followers: db.Artist[]): Promise<number> {
+  const artist = followers[0];
+  const pinned = followers.map(f => f.check_interval_hours).filter((hours): hours is number => hours !== undefined);
+  if (pinned.length === followers.length) {
+    return Math.min(...pinned);
+  }
+
+  // Nothing new will show up at a deleted or hidden account until it comes back
+  const adaptive = artist.account_status === 'gone' || artist.account_status === 'private'
+    ? CHECK_INTERVAL_MAX_HOURS
+    : adaptiveIntervalHours(await db.getRecentUploadDates(artist.catalog_artist_id, CADENCE_SAMPLE_SIZE));
+  return Math.min(adaptive, ...pinned);
+}
+
+// Set when the account is checked next, counting from checkedAt (default: its last check).
+// Returns the new time, or null when nobody follows the account any more.
+export async function scheduleNextCheck(catalogArtistId: number, checkedAt?: string): Promise<string | null> {
+  const followers = await db.getFollowersOfCatalogArtist(catalogArtistId);
+  if (followers.length === 0) {
+    return null;
+  }
+
+  const hours = await checkIntervalHours(followers);
+  const from = checkedAt || followers[0].last_checked;
+  const nextCheckAt = new Date((from ? new Date(from).getTime() : Date.now()) + hours * HOUR_MS).toISOString();
+  await db.setNextCheckAt(catalogArtistId, nextCheckAt);
+  return nextCheckAt;
+}
+
+export function isCheckDue(artist: db.Artist, now: number = Date.now()): boolean {
+  return !artist.next_check_at || new Date(artist.next_check_at).getTime() <= now;
+}
@@ -3,16 +3,69 @@
 
 import fs from 'fs';
 import path from 'path';
-import type { PublicFeaturedArtwork } from './database';
+import type {
+  PublicFeaturedArtwork,
+  ArtworkRevision,
+  ArtworkHistory,
+  ArtworkPageQuery,
+  ArtworkPage,
+  ArtworkSort,
+  ArtworkSearchQuery,
+  ArtworkSearchResult,
+  ArtworkDetails,
+  ArtworkWithDetails,
+  TrashedArtist,
+  ScrapeJob,
+  ScrapeJobFilter,
+  ScrapeJobItem,
+  ScrapeJobItemUpdate,
+  ScrapeJobType,
+  ScrapeJobUpdate,
+  ScrapeRun,
+  ScrapeRunUpdate,
+  NewScrapeRun,
+  ScrapeOutcome,
+  NewScrapeOutcome,
+  ScrapeHistoryEntry,
+  ArtistAccountStatus,
+  ArtistSource,
+  RemovedArtworksSync,
+  ArtistProfile,
+  FollowerCountPoint,
+  ArchivedImage,
+  ImageArchiveMode,
+  ImageArchiveUsage,
+  CatalogImageHash,
+  ArtworkImageHash,
+  CatalogAccount
+} from './database';
+import {
+  ARTIST_WEIGHT,
+  TITLE_WEIGHT,
+  SearchIndex,
+  buildSearchIndex,
+  highlightMatches,
+  parseSearchTerms,
+  searchIndex
+} from './utils/textSearch';
 
 const DB_PATH = process.env.DATABASE_PATH || './data/arttracker.json';
 
+// Saves within this window are merged into one write (scrapes call addArtwork many times per second)
+const SAVE_DEBOUNCE_MS = parseInt(process.env.JSON_SAVE_DEBOUNCE_MS || '250');
+// Timestamped copies of the last good file, at most one per interval
+const BACKUP_COUNT = parseInt(process.env.JSON_BACKUP_COUNT || '5');
+const BACKUP_INTERVAL_MS = parseInt(process.env.JSON_BACKUP_INTERVAL_MS || '3600000'); // 1 hour
+
 // Ensure data directory exists
 const dbDir = path.dirname(DB_PATH);
 if (!fs.existsSync(dbDir)) {
   fs.mkdirSync(dbDir, { recursive: true });
 }
 
+const BACKUP_DIR = process.env.JSON_BACKUP_DIR || path.join(dbDir, 'backups');
+const BACKUP_PREFIX = path.basename(DB_PATH, path.extname(DB_PATH)) + '-';
+
 export interface User {
   id: number;
   username: string;
@@ -21,16 +74,27 @@ export interface User {
   created_at: string;
   discord_webhook_url?: string;
   discord_user_id?: string;
+  notify_removed_artworks?: boolean;
+  image_archive?: ImageArchiveMode;
+  mute_repost_notifications?: boolean;
 }
 
 export interface Artist {
   id: number;
   user_id: number;
+  catalog_artist_id: number;
+  source: ArtistSource;
   username: string;
+  feed_url?: string;
   display_name?: string;
   profile_url: string;
   avatar_url?: string;
   last_checked?: string;
+  account_status: ArtistAccountStatus;
+  account_status_changed_at?: string;
+  previous_username?: string;
+  check_interval_hours?: number;
+  next_check_at?: string;
   created_at: string;
 }
 
@@ -48,34 +112,166 @@ export interface Artwork {
   is_new: number;
   is_favorite?: number;
   discovered_at: string;
+  removed_at?: string;
 }
 
-interface PersistentFavorite {
+export interface PersistentFavorite {
   user_id: number;
   artist_username: string;
   artwork_id: string;
   artwork_url: string;
 }
 
+// Shared catalog: one entry per ArtStation account and artwork, scraped once for all followers
+interface CatalogArtist {
+  id: number;
+  source?: ArtistSource; // Missing means 'artstation'
+  username: string;
+  feed_url?: string;
+  display_name?: string;
+  profile_url: string;
+  avatar_url?: string;
+  last_checked?: string;
+  account_status?: ArtistAccountStatus; // Missing means 'active'
+  account_status_changed_at?: string;
+  previous_username?: string;
+  next_check_at?: string;
+  created_at: string;
+}
+
+interface CatalogArtwork {
+  id: number;
+  catalog_artist_id: number;
+  artwork_id: string;
+  title: string;
+  thumbnail_url: string;
+  high_quality_image_url?: string;
+  artwork_url: string;
+  upload_date?: string;
+  last_updated_at?: string;
+  revision: number; // Bumped on every content change
+  discovered_at: string;
+  removed_at?: string;
+  image_hash?: string;
+  image_hash_url?: string;
+}
+
+// Per-user rows only hold the follow itself and seen/favorite state
+interface StoredArtist {
+  id: number;
+  user_id: number;
+  catalog_artist_id: number;
+  check_interval_hours?: number;
+  created_at: string;
+}
+
+interface StoredArtwork {
+  id: number;
+  user_id: number;
+  artist_id: number;
+  catalog_artwork_id: number;
+  is_new: number;
+  is_favorite?: number;
+  synced_revision: number; // Catalog revision this user has already been told about
+  discovered_at: string;
+}
+
+interface StoredArtworkDetails extends ArtworkDetails {
+  catalog_artwork_id: number;
+}
+
+// display_name and avatar_url live on the catalog artist
+interface StoredArtistProfile extends Omit<ArtistProfile, 'display_name' | 'avatar_url'> {
+  catalog_artist_id: number;
+}
+
+interface StoredFollowerCount extends FollowerCountPoint {
+  catalog_artist_id: number;
+}
+
+// Kept by catalog artwork, so references survive the artist's trip through the trash
+interface StoredArchivedImage extends Omit<ArchivedImage, 'artwork_id'> {
+  user_id: number;
+  catalog_artwork_id: number;
+}
+
+// Unfollowed artists wait in the trash (with their artworks) until restored or purged
+interface TrashedStoredArtist extends StoredArtist {
+  deleted_at: string;
+}
+
+interface StoredArtworkRevision extends ArtworkRevision {
+  catalog_artwork_id: number;
+}
+
+type StoredScrapeJob = Omit<ScrapeJob, 'items'>;
+
 interface Database {
   users: User[];
-  artists: Artist[];
-  artworks: Artwork[];
+  catalogArtists: CatalogArtist[];
+  catalogArtworks: CatalogArtwork[];
+  artists: StoredArtist[];
+  artworks: StoredArtwork[];
+  artworkRevisions: StoredArtworkRevision[];
+  artworkDetails: StoredArtworkDetails[];
+  artistProfiles: StoredArtistProfile[];
+  followerCounts: StoredFollowerCount[];
+  archivedImages: StoredArchivedImage[];
+  trashedArtists: TrashedStoredArtist[];
+  trashedArtworks: StoredArtwork[];
   persistentFavorites?: PersistentFavorite[]; // Optional for backward compatibility
+  scrapeJobs: StoredScrapeJob[];
+  scrapeJobItems: ScrapeJobItem[];
+  scrapeRuns: ScrapeRun[];
+  scrapeOutcomes: ScrapeOutcome[];
   nextUserId: number;
+  nextCatalogArtistId: number;
+  nextCatalogArtworkId: number;
   nextArtistId: number;
   nextArtworkId: number;
+  nextArtworkRevisionId: number;
+  nextScrapeJobId: number;
+  nextScrapeJobItemId: number;
+  nextScrapeRunId: number;
+  nextScrapeOutcomeId: number;
+}
+
+function emptyDatabase(): Database {
+  return {
+    users: [],
+    catalogArtists: [],
+    catalogArtworks: [],
+    artists: [],
+    artworks: [],
+    artworkRevisions: [],
+    artworkDetails: [],
+    artistProfiles: [],
+    followerCounts: [],
+    archivedImages: [],
+    trashedArtists: [],
+    trashedArtworks: [],
+    persistentFavorites: [],
+    scrapeJobs: [],
+    scrapeJobItems: [],
+    scrapeRuns: [],
+    scrapeOutcomes: [],
+    nextUserId: 1,
+    nextCatalogArtistId: 1,
+    nextCatalogArtworkId: 1,
+    nextArtistId: 1,
+    nextArtworkId: 1,
+    nextArtworkRevisionId: 1,
+    nextScrapeJobId: 1,
+    nextScrapeJobItemId: 1,
+    nextScrapeRunId: 1,
+    nextScrapeOutcomeId: 1
+  };
 }
 
-let db: Database = {
-  users: [],
-  artists: [],
-  artworks: [],
-  persistentFavorites: [],
-  nextUserId: 1,
-  nextArtistId: 1,
-  nextArtworkId: 1
-};
+let db: Database = emptyDatabase();
+
+// Search index over the shared catalog, rebuilt on the first search after a write
+let catalogSearchIndex: SearchIndex | null = null;
 
 function generateToken(username: string): string {
   const crypto = require('crypto');
@@ -84,24 +280,22 @@ function generateToken(username: string): string {
 
 function loadDatabase(): { db: Database; wasMigrated: boolean } {
   if (!fs.existsSync(DB_PATH)) {
-    return {
-      db: {
-        users: [],
-        artists: [],
-        artworks: [],
-        nextUserId: 1,
-        nextArtistId: 1,
-        nextArtworkId: 1
-      },
-      wasMigrated: false
-    };
+    return { db: emptyDatabase(), wasMigrated: false };
   }
   
+  let parsed: any;
+  let wasRecovered = false;
+
+  try {
+    parsed = readDatabaseFile(DB_PATH);
+  } catch (error: any) {
+    console.error(`❌ Could not read ${DB_PATH}: ${error.message}`);
+    parsed = recoverFromBackup();
+    wasRecovered = true;
+  }
+
   try {
-    const data = fs.readFileSync(DB_PATH, 'utf-8');
-    const parsed = JSON.parse(data);
     let wasMigrated = false;
-    
     const needsUsersMigration = !parsed.users || !Array.isArray(parsed.users);
     
     if (needsUsersMigration) {
@@ -153,8 +347,10 @@ function loadDatabase(): { db: Database; wasMigrated: boolean } {
       wasMigrated = true;
     }
     
+    const needsCatalogMigration = !Array.isArray(parsed.catalogArtists);
+
     // Migrate existing favorites to persistentFavorites if not already migrated
-    if (parsed.artworks && parsed.artists && parsed.persistentFavorites.length === 0) {
+    if (needsCatalogMigration && parsed.artworks && parsed.artists && parsed.persistentFavorites.length === 0) {
       const favoritesToMigrate: PersistentFavorite[] = [];
       parsed.artworks.forEach((artwork: any) => {
         if (artwork.is_favorite === 1) {
@@ -177,40 +373,338 @@ function loadDatabase(): { db: Database; wasMigrated: boolean } {
       }
     }
     
-    return { db: parsed as Database, wasMigrated };
+    // Split per-user artists/artworks into the shared catalog plus per-user state
+    if (needsCatalogMigration) {
+      migrateToSharedCatalog(parsed);
+      wasMigrated = true;
+    }
+
+    // Initialize artworkRevisions if it doesn't exist
+    if (!Array.isArray(parsed.artworkRevisions)) {
+      parsed.artworkRevisions = [];
+      parsed.nextArtworkRevisionId = 1;
+      wasMigrated = true;
+    }
+
+    // Initialize artworkDetails if it doesn't exist
+    if (!Array.isArray(parsed.artworkDetails)) {
+      parsed.artworkDetails = [];
+      wasMigrated = true;
+    }
+
+    // Initialize artist profiles and follower counts if they don't exist
+    if (!Array.isArray(parsed.artistProfiles) || !Array.isArray(parsed.followerCounts)) {
+      parsed.artistProfiles = [];
+      parsed.followerCounts = [];
+      wasMigrated = true;
+    }
+
+    // Initialize the image archive references if they don't exist
+    if (!Array.isArray(parsed.archivedImages)) {
+      parsed.archivedImages = [];
+      wasMigrated = true;
+    }
+
+    // Initialize the artist trash if it doesn't exist
+    if (!Array.isArray(parsed.trashedArtists) || !Array.isArray(parsed.trashedArtworks)) {
+      parsed.trashedArtists = [];
+      parsed.trashedArtworks = [];
+      wasMigrated = true;
+    }
+
+    // Initialize the scrape job queue if it doesn't exist
+    if (!Array.isArray(parsed.scrapeJobs) || !Array.isArray(parsed.scrapeJobItems)) {
+      parsed.scrapeJobs = [];
+      parsed.scrapeJobItems = [];
+      parsed.nextScrapeJobId = 1;
+      parsed.nextScrapeJobItemId = 1;
+      wasMigrated = true;
+    }
+
+    // Initialize the scrape history if it doesn't exist
+    if (!Array.isArray(parsed.scrapeRuns) || !Array.isArray(parsed.scrapeOutcomes)) {
+      parsed.scrapeRuns = [];
+      parsed.scrapeOutcomes = [];
+      parsed.nextScrapeRunId = 1;
+      parsed.nextScrapeOutcomeId = 1;
+      wasMigrated = true;
+    }
+
+    // A recovered copy is written back as the main file, same as a migrated one
+    return { db: parsed as Database, wasMigrated: wasMigrated || wasRecovered };
   } catch (error) {
-    console.error('Error loading database:', error);
+    console.error('Error migrating database:', error);
+    throw error;
+  }
+}
+
+// Older files store a full artist/artwork copy per user. Copies of the same ArtStation
+// account or artwork collapse into one catalog entry; the per-user rows keep their ids
+// so existing API ids stay valid.
+function migrateToSharedCatalog(parsed: any) {
+  const catalogArtists: CatalogArtist[] = [];
+  const catalogArtworks: CatalogArtwork[] = [];
+  const catalogArtistsByUsername = new Map<string, CatalogArtist>();
+  const catalogArtworksByKey = new Map<string, CatalogArtwork>();
+  const catalogIdByArtistId = new Map<number, number>();
+
+  const artists: StoredArtist[] = (parsed.artists || []).map((legacy: any) => {
+    const key = legacy.username.toLowerCase();
+    let catalog = catalogArtistsByUsername.get(key);
+
+    if (!catalog) {
+      catalog = {
+        id: catalogArtists.length + 1,
+        username: legacy.username,
+        display_name: legacy.display_name,
+        profile_url: legacy.profile_url,
+        avatar_url: legacy.avatar_url,
+        last_checked: legacy.last_checked,
+        created_at: legacy.created_at
+      };
+      catalogArtists.push(catalog);
+      catalogArtistsByUsername.set(key, catalog);
+    } else {
+      catalog.display_name = catalog.display_name || legacy.display_name;
+      catalog.avatar_url = catalog.avatar_url || legacy.avatar_url;
+      if (legacy.last_checked && (!catalog.last_checked || legacy.last_checked > catalog.last_checked)) {
+        catalog.last_checked = legacy.last_checked;
+      }
+    }
+
+    catalogIdByArtistId.set(legacy.id, catalog.id);
     return {
-      db: {
-        users: [],
-        artists: [],
-        artworks: [],
-        nextUserId: 1,
-        nextArtistId: 1,
-        nextArtworkId: 1
-      },
-      wasMigrated: false
+      id: legacy.id,
+      user_id: legacy.user_id,
+      catalog_artist_id: catalog.id,
+      created_at: legacy.created_at
     };
+  });
+
+  const artworks: StoredArtwork[] = [];
+  for (const legacy of parsed.artworks || []) {
+    const catalogArtistId = catalogIdByArtistId.get(legacy.artist_id);
+    if (!catalogArtistId) {
+      continue; // Orphaned artwork without an artist
+    }
+
+    const key = `${catalogArtistId}:${legacy.artwork_id}`;
+    let catalog = catalogArtworksByKey.get(key);
+    const content = {
+      title: legacy.title,
+      thumbnail_url: legacy.thumbnail_url,
+      high_quality_image_url: legacy.high_quality_image_url,
+      artwork_url: legacy.artwork_url,
+      upload_date: legacy.upload_date,
+      last_updated_at: legacy.last_updated_at
+    };
+
+    if (!catalog) {
+      catalog = {
+        id: catalogArtworks.length + 1,
+        catalog_artist_id: catalogArtistId,
+        artwork_id: legacy.artwork_id,
+        ...content,
+        revision: 1,
+        discovered_at: legacy.discovered_at
+      };
+      catalogArtworks.push(catalog);
+      catalogArtworksByKey.set(key, catalog);
+    } else if ((legacy.last_updated_at || '') > (catalog.last_updated_at || '')) {
+      // Keep the most recently updated copy
+      Object.assign(catalog, content);
+    }
+
+    artworks.push({
+      id: legacy.id,
+      user_id: legacy.user_id,
+      artist_id: legacy.artist_id,
+      catalog_artwork_id: catalog.id,
+      is_new: legacy.is_new,
+      is_favorite: legacy.is_favorite || 0,
+      synced_revision: 1,
+      discovered_at: legacy.discovered_at
+    });
   }
+
+  parsed.catalogArtists = catalogArtists;
+  parsed.catalogArtworks = catalogArtworks;
+  parsed.artists = artists;
+  parsed.artworks = artworks;
+  parsed.nextCatalogArtistId = catalogArtists.length + 1;
+  parsed.nextCatalogArtworkId = catalogArtworks.length + 1;
+  parsed.nextArtistId = parsed.nextArtistId || artists.reduce((max, a) => Math.max(max, a.id), 0) + 1;
+  parsed.nextArtworkId = parsed.nextArtworkId || artworks.reduce((max, a) => Math.max(max, a.id), 0) + 1;
+
+  console.log(`🔄 Moved ${artists.length} followed artist(s) into a shared catalog of ${catalogArtists.length} artist(s) and ${catalogArtworks.length} artwork(s)`);
 }
 
-function saveDatabase() {
+function readDatabaseFile(filePath: string): any {
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('file does not contain a database object');
+  }
+  return parsed;
+}
+
+function listBackups(): string[] {
+  if (!fs.existsSync(BACKUP_DIR)) {
+    return [];
+  }
+  // Timestamps are ISO-based, so lexical order is chronological; newest first
+  return fs.readdirSync(BACKUP_DIR)
+    .filter(name => name.startsWith(BACKUP_PREFIX) && name.endsWith('.json'))
+    .sort()
+    .reverse()
+    .map(name => path.join(BACKUP_DIR, name));
+}
+
+// Load the newest backup that parses. The unreadable main file is kept aside for inspection.
+function recoverFromBackup(): any {
+  for (const backupPath of listBackups()) {
+    try {
+      const parsed = readDatabaseFile(backupPath);
+      const corruptPath = `${DB_PATH}.corrupt-${Date.now()}`;
+      fs.renameSync(DB_PATH, corruptPath);
+      console.warn(`🛟 Recovered database from backup ${backupPath}`);
+      console.warn(`   The unreadable file was moved to ${corruptPath}`);
+      return parsed;
+    } catch (error: any) {
+      console.warn(`   ⚠️  Backup ${backupPath} is not usable: ${error.message}`);
+    }
+  }
+
+  // Refuse to continue: starting empty would overwrite everyone's data on the next save
+  throw new Error(
+    `${DB_PATH} is unreadable and no valid backup was found in ${BACKUP_DIR}. ` +
+    `Fix or remove the file manually before starting the server.`
+  );
+}
+
+// Write to a temp file, fsync it, then rename over the original so a crash
+// or full disk mid-write never leaves a truncated database behind
+function writeFileAtomic(filePath: string, contents: string) {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+
+  try {
+    const fd = fs.openSync(tmpPath, 'w');
+    try {
+      fs.writeFileSync(fd, contents, 'utf-8');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, filePath);
+  } catch (error) {
+    fs.rmSync(tmpPath, { force: true });
+    throw error;
+  }
+
+  // Persist the rename itself (not supported on every platform, e.g. Windows)
+  try {
+    const dirFd = fs.openSync(path.dirname(filePath), 'r');
+    try {
+      fs.fsyncSync(dirFd);
+    } finally {
+      fs.closeSync(dirFd);
+    }
+  } catch {
+    // Best effort
+  }
+}
+
+let lastBackupAt = 0;
+
+// Copy the current (known good) file into the backup folder and prune old copies
+function backupDatabase(force: boolean = false) {
+  if (BACKUP_COUNT <= 0 || !fs.existsSync(DB_PATH)) {
+    return;
+  }
+  if (!force && Date.now() - lastBackupAt < BACKUP_INTERVAL_MS) {
+    return;
+  }
+
+  try {
+    fs.mkdirSync(BACKUP_DIR, { recursive: true });
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    fs.copyFileSync(DB_PATH, path.join(BACKUP_DIR, `${BACKUP_PREFIX}${timestamp}.json`));
+    lastBackupAt = Date.now();
+
+    for (const oldBackup of listBackups().slice(BACKUP_COUNT)) {
+      fs.rmSync(oldBackup, { force: true });
+    }
+  } catch (error) {
+    // A failed backup must not block the save itself
+    console.error('Error creating database backup:', error);
+  }
+}
+
+let saveTimer: NodeJS.Timeout | null = null;
+let hasPendingChanges = false;
+
+// Write any pending changes right now
+export function flushDatabase() {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  if (!hasPendingChanges) {
+    return;
+  }
+
   try {
-    fs.writeFileSync(DB_PATH, JSON.stringify(db, null, 2), 'utf-8');
+    backupDatabase();
+    writeFileAtomic(DB_PATH, JSON.stringify(db, null, 2));
+    hasPendingChanges = false;
   } catch (error) {
+    // Changes stay pending and are retried with the next save
     console.error('Error saving database:', error);
     throw error;
   }
 }
 
+function saveDatabase() {
+  hasPendingChanges = true;
+  catalogSearchIndex = null;
+
+  if (SAVE_DEBOUNCE_MS <= 0) {
+    flushDatabase();
+    return;
+  }
+
+  if (!saveTimer) {
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      try {
+        flushDatabase();
+      } catch {
+        // Already logged in flushDatabase
+      }
+    }, SAVE_DEBOUNCE_MS);
+  }
+}
+
 export function initDatabase() {
   const { db: loadedDb, wasMigrated } = loadDatabase();
   
   db = loadedDb;
+
+  // Take a startup snapshot of the file we just loaded successfully
+  backupDatabase(true);
+
+  // Don't lose merged-but-unwritten saves on shutdown (index.ts turns SIGTERM/SIGINT into an exit)
+  process.on('exit', () => {
+    try {
+      flushDatabase();
+    } catch {
+      // Already logged in flushDatabase
+    }
+  });
   
   if (wasMigrated) {
     try {
-      saveDatabase();
+      hasPendingChanges = true;
+      flushDatabase();
       console.log('💾 Database migrated and saved');
     } catch (error) {
       console.error('Failed to save migrated database:', error);
@@ -281,45 +775,305 @@ export function updateUser(id: number, updates: Partial<User>): boolean {
   return true;
 }
 
+// Catalog helpers
+function findCatalogArtist(id: number): CatalogArtist | undefined {
+  return db.catalogArtists.find(c => c.id === id);
+}
+
+function findCatalogArtistByUsername(username: string): CatalogArtist | undefined {
+  return db.catalogArtists.find(c => c.username.toLowerCase() === username.toLowerCase());
+}
+
+function toArtist(stored: StoredArtist): Artist {
+  const catalog = findCatalogArtist(stored.catalog_artist_id)!;
+  return {
+    id: stored.id,
+    user_id: stored.user_id,
+    catalog_artist_id: stored.catalog_artist_id,
+    source: catalog.source || 'artstation',
+    username: catalog.username,
+    feed_url: catalog.feed_url,
+    display_name: catalog.display_name,
+    profile_url: catalog.profile_url,
+    avatar_url: catalog.avatar_url,
+    last_checked: catalog.last_checked,
+    account_status: catalog.account_status || 'active',
+    account_status_changed_at: catalog.account_status_changed_at,
+    previous_username: catalog.previous_username,
+    check_interval_hours: stored.check_interval_hours,
+    next_check_at: catalog.next_check_at,
+    created_at: stored.created_at
+  };
+}
+
+function toArtwork(stored: StoredArtwork, catalog: CatalogArtwork): Artwork {
+  return {
+    id: stored.id,
+    user_id: stored.user_id,
+    artist_id: stored.artist_id,
+    artwork_id: catalog.artwork_id,
+    title: catalog.title,
+    thumbnail_url: catalog.thumbnail_url,
+    high_quality_image_url: catalog.high_quality_image_url,
+    artwork_url: catalog.artwork_url,
+    upload_date: catalog.upload_date,
+    last_updated_at: catalog.last_updated_at,
+    is_new: stored.is_new,
+    is_favorite: stored.is_favorite || 0,
+    discovered_at: stored.discovered_at,
+    removed_at: catalog.removed_at
+  };
+}
+
+// Artworks the artist took down only stay listed as favorites
+function isListed(artwork: Pick<Artwork, 'removed_at' | 'is_favorite'>): boolean {
+  return !artwork.removed_at || artwork.is_favorite === 1;
+}
+
 // Artist operations
 export function getAllArtists(user_id: number): Artist[] {
   return db.artists
     .filter(a => a.user_id === user_id)
-    .sort((a, b) => 
+    .map(toArtist)
+    .sort((a, b) =>
       new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
     );
 }
 
+// Every follow of every user, grouped by catalog artist (used to scrape each account once)
+export function getAllFollowedArtists(): Artist[] {
+  return db.artists
+    .map(toArtist)
+    .sort((a, b) => a.catalog_artist_id - b.catalog_artist_id || a.id - b.id);
+}
+
+export function getCatalogAccount(username: string): CatalogAccount | undefined {
+  const catalogArtist = findCatalogArtistByUsername(username);
+  if (!catalogArtist) return undefined;
+  const { id, source = 'artstation', profile_url, feed_url } = catalogArtist;
+  return { id, source, username: catalogArtist.username, profile_url, feed_url };
+}
+
+export function getFollowersOfCatalogArtist(catalog_artist_id: number): Artist[] {
+  return db.artists
+    .filter(a => a.catalog_artist_id === catalog_artist_id)
+    .map(toArtist)
+    .sort((a, b) => a.id - b.id);
+}
+
 export function getArtistById(id: number, user_id: number): Artist | undefined {
   const artist = db.artists.find(a => a.id === id);
   if (!artist || artist.user_id !== user_id) return undefined;
-  return artist;
+  return toArtist(artist);
 }
 
-export function addArtist(user_id: number, username: string, profile_url: string): Artist {
-  const existing = db.artists.find(a => a.user_id === user_id && a.username.toLowerCase() === username.toLowerCase());
+export function addArtist(
+  user_id: number,
+  username: string,
+  profile_url: string,
+  source: ArtistSource = 'artstation',
+  feed_url?: string
+): Artist {
+  const existing = getAllArtists(user_id).find(a => a.username.toLowerCase() === username.toLowerCase());
   if (existing) {
     throw new Error('ARTIST_EXISTS');
   }
 
-  const artist: Artist = {
+  // Following a recently unfollowed artist again brings back its artworks and flags
+  const trashed = db.trashedArtists.find(a =>
+    a.user_id === user_id && findCatalogArtist(a.catalog_artist_id)?.username.toLowerCase() === username.toLowerCase()
+  );
+  if (trashed) {
+    return restoreArtist(trashed.id, user_id)!;
+  }
+
+  const now = new Date().toISOString();
+  let catalog = findCatalogArtistByUsername(username);
+  if (!catalog) {
+    catalog = {
+      id: db.nextCatalogArtistId++,
+      username,
+      profile_url,
+      created_at: now
+    };
+    if (source !== 'artstation') {
+      catalog.source = source;
+      catalog.feed_url = feed_url;
+    }
+    db.catalogArtists.push(catalog);
+  }
+
+  const artist: StoredArtist = {
     id: db.nextArtistId++,
     user_id,
-    username,
-    profile_url,
-    created_at: new Date().toISOString()
+    catalog_artist_id: catalog.id,
+    created_at: now
   };
-
   db.artists.push(artist);
+
+  // Artworks already scraped for another follower are linked right away
+  for (const catalogArtwork of db.catalogArtworks.filter(c => c.catalog_artist_id === catalog!.id)) {
+    db.artworks.push({
+      id: db.nextArtworkId++,
+      user_id,
+      artist_id: artist.id,
+      catalog_artwork_id: catalogArtwork.id,
+      is_new: 1,
+      is_favorite: isPersistentFavorite(user_id, catalog.username, catalogArtwork.artwork_id) ? 1 : 0,
+      synced_revision: catalogArtwork.revision,
+      discovered_at: now
+    });
+  }
+
   saveDatabase();
-  return artist;
+  return toArtist(artist);
 }
 
+// Profile fields live in the catalog, so an update is visible to every follower
 export function updateArtist(id: number, user_id: number, updates: Partial<Artist>): boolean {
-  const index = db.artists.findIndex(a => a.id === id && a.user_id === user_id);
-  if (index === -1) return false;
+  const artist = db.artists.find(a => a.id === id && a.user_id === user_id);
+  if (!artist) return false;
+
+  const catalog = findCatalogArtist(artist.catalog_artist_id);
+  if (!catalog) return false;
+
+  if (updates.display_name !== undefined) {
+    catalog.display_name = updates.display_name;
+  }
+  if (updates.avatar_url !== undefined) {
+    catalog.avatar_url = updates.avatar_url;
+  }
+  if (updates.last_checked !== undefined) {
+    catalog.last_checked = updates.last_checked;
+  }
+  if (updates.account_status !== undefined) {
+    catalog.account_status = updates.account_status;
+  }
+  if (updates.account_status_changed_at !== undefined) {
+    catalog.account_status_changed_at = updates.account_status_changed_at;
+  }
+  saveDatabase();
+  return true;
+}
+
+export function setArtistCheckInterval(id: number, user_id: number, hours: number | null): boolean {
+  const artist = db.artists.find(a => a.id === id && a.user_id === user_id);
+  if (!artist) return false;
+
+  if (hours === null) {
+    delete artist.check_interval_hours;
+  } else {
+    artist.check_interval_hours = hours;
+  }
+  saveDatabase();
+  return true;
+}
+
+export function setNextCheckAt(catalog_artist_id: number, next_check_at: string): void {
+  const catalog = findCatalogArtist(catalog_artist_id);
+  if (!catalog) return;
+  catalog.next_check_at = next_check_at;
+  saveDatabase();
+}
+
+export function getRecentUploadDates(catalog_artist_id: number, limit: number): string[] {
+  return db.catalogArtworks
+    .filter(c => c.catalog_artist_id === catalog_artist_id && c.upload_date)
+    .map(c => c.upload_date!)
+    .sort((a, b) => new Date(b).getTime() - new Date(a).getTime())
+    .slice(0, limit);
+}
+
+export function syncRemovedArtworks(catalog_artist_id: number, listed_artwork_ids: string[]): RemovedArtworksSync {
+  const listed = new Set(listed_artwork_ids);
+  const now = new Date().toISOString();
+  const result: RemovedArtworksSync = { removed: [], restored: [] };
+
+  for (const catalog of db.catalogArtworks) {
+    if (catalog.catalog_artist_id !== catalog_artist_id) continue;
+    if (!catalog.removed_at && !listed.has(catalog.artwork_id)) {
+      catalog.removed_at = now;
+      result.removed.push(catalog.artwork_id);
+    } else if (catalog.removed_at && listed.has(catalog.artwork_id)) {
+      delete catalog.removed_at;
+      result.restored.push(catalog.artwork_id);
+    }
+  }
+
+  if (result.removed.length > 0 || result.restored.length > 0) {
+    saveDatabase();
+  }
+  return result;
+}
 
-  db.artists[index] = { ...db.artists[index], ...updates };
+export function saveArtistProfile(catalog_artist_id: number, profile: ArtistProfile): void {
+  const catalog = findCatalogArtist(catalog_artist_id);
+  if (!catalog) return;
+
+  const { display_name, avatar_url, ...stored } = profile;
+  if (display_name) catalog.display_name = display_name;
+  if (avatar_url) catalog.avatar_url = avatar_url;
+
+  db.artistProfiles = db.artistProfiles.filter(p => p.catalog_artist_id !== catalog_artist_id);
+  db.artistProfiles.push({ ...stored, catalog_artist_id });
+
+  if (profile.followers_count !== undefined) {
+    const date = profile.fetched_at.slice(0, 10);
+    db.followerCounts = db.followerCounts.filter(c => c.catalog_artist_id !== catalog_artist_id || c.date !== date);
+    db.followerCounts.push({
+      catalog_artist_id,
+      date,
+      followers_count: profile.followers_count,
+      following_count: profile.following_count
+    });
+  }
+  saveDatabase();
+}
+
+export function getArtistProfile(catalog_artist_id: number): ArtistProfile | null {
+  const catalog = findCatalogArtist(catalog_artist_id);
+  const stored = db.artistProfiles.find(p => p.catalog_artist_id === catalog_artist_id);
+  if (!catalog || !stored) return null;
+
+  return { ...toArtistProfile(stored), display_name: catalog.display_name, avatar_url: catalog.avatar_url };
+}
+
+function toArtistProfile({ catalog_artist_id, ...profile }: StoredArtistProfile): ArtistProfile {
+  return profile;
+}
+
+function toFollowerCountPoint({ catalog_artist_id, ...point }: StoredFollowerCount): FollowerCountPoint {
+  return point;
+}
+
+export function getFollowerCountHistory(catalog_artist_id: number, days: number): FollowerCountPoint[] {
+  return db.followerCounts
+    .filter(c => c.catalog_artist_id === catalog_artist_id)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-days)
+    .map(toFollowerCountPoint);
+}
+
+export function renameCatalogArtist(catalog_artist_id: number, username: string, profile_url: string): boolean {
+  const catalog = findCatalogArtist(catalog_artist_id);
+  if (!catalog) return false;
+
+  const existing = findCatalogArtistByUsername(username);
+  if (existing && existing.id !== catalog.id) return false;
+
+  // Persistent favorites are keyed by handle so they survive an unfollow
+  const oldKey = catalog.username.toLowerCase();
+  for (const favorite of db.persistentFavorites || []) {
+    if (favorite.artist_username === oldKey) {
+      favorite.artist_username = username.toLowerCase();
+    }
+  }
+
+  catalog.previous_username = catalog.username;
+  catalog.username = username;
+  catalog.profile_url = profile_url;
+  catalog.account_status = 'renamed';
+  catalog.account_status_changed_at = new Date().toISOString();
   saveDatabase();
   return true;
 }
@@ -328,28 +1082,104 @@ export function deleteArtist(id: number, user_id: number): boolean {
   const index = db.artists.findIndex(a => a.id === id && a.user_id === user_id);
   if (index === -1) return false;
 
-  db.artists.splice(index, 1);
-  db.artworks = db.artworks.filter(a => !(a.artist_id === id && a.user_id === user_id));
+  // Moved to the trash with their seen/favorite state so a restore brings everything back
+  const [artist] = db.artists.splice(index, 1);
+  db.trashedArtists.push({ ...artist, deleted_at: new Date().toISOString() });
+  db.trashedArtworks.push(...db.artworks.filter(a => a.artist_id === id));
+  db.artworks = db.artworks.filter(a => a.artist_id !== id);
   saveDatabase();
   return true;
 }
 
+export function getTrashedArtists(user_id: number): Omit<TrashedArtist, 'purge_at'>[] {
+  return db.trashedArtists
+    .filter(a => a.user_id === user_id)
+    .map(a => ({
+      ...toArtist(a),
+      deleted_at: a.deleted_at,
+      artwork_count: db.trashedArtworks.filter(aw => aw.artist_id === a.id).length
+    }))
+    .sort((a, b) => new Date(b.deleted_at).getTime() - new Date(a.deleted_at).getTime());
+}
+
+// Puts an artist from the trash back under its old id; undefined when it isn't in the trash
+export function restoreArtist(id: number, user_id: number): Artist | undefined {
+  const index = db.trashedArtists.findIndex(a => a.id === id && a.user_id === user_id);
+  if (index === -1) return undefined;
+
+  const trashed = db.trashedArtists[index];
+  if (db.artists.some(a => a.user_id === user_id && a.catalog_artist_id === trashed.catalog_artist_id)) {
+    throw new Error('ARTIST_EXISTS');
+  }
+
+  db.trashedArtists.splice(index, 1);
+  const artist: StoredArtist = {
+    id: trashed.id,
+    user_id: trashed.user_id,
+    catalog_artist_id: trashed.catalog_artist_id,
+    check_interval_hours: trashed.check_interval_hours,
+    created_at: trashed.created_at
+  };
+  db.artists.push(artist);
+  db.artworks.push(...db.trashedArtworks.filter(a => a.artist_id === id));
+  db.trashedArtworks = db.trashedArtworks.filter(a => a.artist_id !== id);
+
+  // Artworks scraped for other followers while this one was in the trash
+  const catalog = findCatalogArtist(artist.catalog_artist_id)!;
+  const now = new Date().toISOString();
+  for (const catalogArtwork of db.catalogArtworks.filter(c => c.catalog_artist_id === catalog.id)) {
+    if (db.artworks.some(a => a.user_id === user_id && a.catalog_artwork_id === catalogArtwork.id)) continue;
+    db.artworks.push({
+      id: db.nextArtworkId++,
+      user_id,
+      artist_id: artist.id,
+      catalog_artwork_id: catalogArtwork.id,
+      is_new: 1,
+      is_favorite: isPersistentFavorite(user_id, catalog.username, catalogArtwork.artwork_id) ? 1 : 0,
+      synced_revision: catalogArtwork.revision,
+      discovered_at: now
+    });
+  }
+
+  saveDatabase();
+  return toArtist(artist);
+}
+
+// Permanently removes trash entries (of every user) deleted before the given time
+export function purgeTrashedArtists(before: string): number {
+  const cutoff = new Date(before).getTime();
+  const expired = new Set(
+    db.trashedArtists.filter(a => new Date(a.deleted_at).getTime() < cutoff).map(a => a.id)
+  );
+  if (expired.size === 0) return 0;
+
+  db.trashedArtists = db.trashedArtists.filter(a => !expired.has(a.id));
+  db.trashedArtworks = db.trashedArtworks.filter(a => !expired.has(a.artist_id));
+  saveDatabase();
+  return expired.size;
+}
+
 // Artwork operations
 export function getAllArtworks(user_id: number, filters?: { artist_id?: number; new_only?: boolean; favorites_only?: boolean }): Artwork[] {
-  let artworks = db.artworks.filter(a => a.user_id === user_id);
+  let stored = db.artworks.filter(a => a.user_id === user_id);
 
   if (filters?.artist_id) {
-    artworks = artworks.filter(a => a.artist_id === filters.artist_id);
+    stored = stored.filter(a => a.artist_id === filters.artist_id);
   }
 
   if (filters?.new_only) {
-    artworks = artworks.filter(a => a.is_new === 1);
+    stored = stored.filter(a => a.is_new === 1);
   }
 
   if (filters?.favorites_only) {
-    artworks = artworks.filter(a => (a.is_favorite || 0) === 1);
+    stored = stored.filter(a => (a.is_favorite || 0) === 1);
   }
 
+  const catalogById = new Map(db.catalogArtworks.map(c => [c.id, c]));
+  const artworks = stored
+    .filter(a => catalogById.has(a.catalog_artwork_id))
+    .map(a => toArtwork(a, catalogById.get(a.catalog_artwork_id)!));
+
   return artworks.sort((a, b) => {
     const dateA = new Date(a.upload_date || a.discovered_at).getTime();
     const dateB = new Date(b.upload_date || b.discovered_at).getTime();
@@ -359,9 +1189,10 @@ export function getAllArtworks(user_id: number, filters?: { artist_id?: number;
 
 export function getArtworksWithArtistInfo(user_id: number, filters?: { artist_id?: number; new_only?: boolean; favorites_only?: boolean }) {
   const artworks = getAllArtworks(user_id, filters);
-  
+  const artistsMap = new Map(getAllArtists(user_id).map(artist => [artist.id, artist]));
+
   return artworks.map(artwork => {
-    const artist = db.artists.find(a => a.id === artwork.artist_id && a.user_id === user_id);
+    const artist = artistsMap.get(artwork.artist_id);
     return {
       ...artwork,
       username: artist?.username,
@@ -370,9 +1201,124 @@ export function getArtworksWithArtistInfo(user_id: number, filters?: { artist_id
   });
 }
 
+// Date an artwork is sorted and range-filtered by
+function artworkDate(artwork: Artwork, sort: ArtworkSort): number {
+  switch (sort) {
+    case 'discovered_at':
+      return new Date(artwork.discovered_at).getTime();
+    case 'last_updated_at':
+      return new Date(artwork.last_updated_at || artwork.upload_date || artwork.discovered_at).getTime();
+    default:
+      return new Date(artwork.upload_date || artwork.discovered_at).getTime();
+  }
+}
+
+export function getArtworksPage(user_id: number, query: ArtworkPageQuery): ArtworkPage {
+  let artworks = getArtworksWithArtistInfo(user_id, query).filter(isListed);
+
+  // getAllArtworks is newest first, so the first artwork seen per artist is the latest
+  if (query.latest_per_artist) {
+    const seenArtists = new Set<number>();
+    artworks = artworks.filter(artwork => {
+      if (seenArtists.has(artwork.artist_id)) return false;
+      seenArtists.add(artwork.artist_id);
+      return true;
+    });
+  }
+
+  const from = query.from ? new Date(query.from).getTime() : undefined;
+  const to = query.to ? new Date(query.to).getTime() : undefined;
+  if (from !== undefined || to !== undefined) {
+    artworks = artworks.filter(artwork => {
+      const date = artworkDate(artwork, query.sort);
+      return (from === undefined || date >= from) && (to === undefined || date <= to);
+    });
+  }
+
+  const sortValue = (artwork: typeof artworks[number]): string | number =>
+    query.sort === 'artist' ? (artwork.username || '').toLowerCase() : artworkDate(artwork, query.sort);
+  const direction = query.order === 'asc' ? 1 : -1;
+  const compare = (valueA: string | number, idA: number, valueB: string | number, idB: number) => {
+    if (valueA !== valueB) return (valueA < valueB ? -1 : 1) * direction;
+    return (idA - idB) * direction;
+  };
+
+  let sorted = artworks
+    .map(artwork => ({ artwork, value: sortValue(artwork) }))
+    .sort((a, b) => compare(a.value, a.artwork.id, b.value, b.artwork.id));
+
+  if (query.after) {
+    const { value, id } = query.after;
+    sorted = sorted.filter(entry => compare(entry.value, entry.artwork.id, value, id) > 0);
+  }
+
+  const page = sorted.slice(0, query.limit);
+  const last = page[page.length - 1];
+  return {
+    artworks: page.map(entry => entry.artwork),
+    next: sorted.length > query.limit ? { value: last.value, id: last.artwork.id } : null
+  };
+}
+
+function getCatalogSearchIndex(): SearchIndex {
+  if (!catalogSearchIndex) {
+    const catalogArtists = new Map(db.catalogArtists.map(c => [c.id, c]));
+    catalogSearchIndex = buildSearchIndex(db.catalogArtworks.map(catalog => {
+      const artist = catalogArtists.get(catalog.catalog_artist_id);
+      return {
+        id: catalog.id,
+        fields: [
+          { text: catalog.title, weight: TITLE_WEIGHT },
+          { text: `${artist?.username || ''} ${artist?.display_name || ''}`, weight: ARTIST_WEIGHT }
+        ]
+      };
+    }));
+  }
+  return catalogSearchIndex;
+}
+
+export function searchArtworks(user_id: number, query: ArtworkSearchQuery): ArtworkSearchResult[] {
+  const terms = parseSearchTerms(query.q);
+  if (terms.length === 0) return [];
+
+  const ranks = searchIndex(getCatalogSearchIndex(), terms);
+  if (ranks.size === 0) return [];
+
+  const catalogById = new Map(db.catalogArtworks.map(c => [c.id, c]));
+  const artistsMap = new Map(getAllArtists(user_id).map(artist => [artist.id, artist]));
+
+  return db.artworks
+    .filter(a =>
+      a.user_id === user_id &&
+      ranks.has(a.catalog_artwork_id) &&
+      (!query.artist_id || a.artist_id === query.artist_id) &&
+      (!query.new_only || a.is_new === 1) &&
+      (!query.favorites_only || a.is_favorite === 1)
+    )
+    .map(a => ({ artwork: toArtwork(a, catalogById.get(a.catalog_artwork_id)!), rank: ranks.get(a.catalog_artwork_id)! }))
+    .filter(({ artwork }) => isListed(artwork))
+    .sort((a, b) =>
+      b.rank - a.rank ||
+      artworkDate(b.artwork, 'upload_date') - artworkDate(a.artwork, 'upload_date')
+    )
+    .slice(0, query.limit)
+    .map(({ artwork, rank }) => {
+      const artist = artistsMap.get(artwork.artist_id);
+      return {
+        ...artwork,
+        username: artist?.username,
+        display_name: artist?.display_name,
+        rank,
+        title_highlight: highlightMatches(artwork.title, terms),
+        artist_highlight: highlightMatches(artist?.username || '', terms)
+      };
+    });
+}
+
 interface AddArtworkOptions {
   allowInsert?: boolean;
   markUpdatesAsNew?: boolean;
+  catalogOnly?: boolean;
 }
 
 export function addArtwork(
@@ -387,83 +1333,269 @@ export function addArtwork(
   high_quality_image_url?: string,
   options: AddArtworkOptions = {}
 ): { artwork: Artwork | null; isNew: boolean; wasUpdated?: boolean; skipped?: boolean } {
-  const { allowInsert = true, markUpdatesAsNew = true } = options;
-  
+  const { allowInsert = true, markUpdatesAsNew = true, catalogOnly = false } = options;
+
   // Get artist for favorite lookup
   const artist = db.artists.find(a => a.id === artist_id && a.user_id === user_id);
-  if (!artist) {
+  const catalogArtist = artist && findCatalogArtist(artist.catalog_artist_id);
+  if (!artist || !catalogArtist) {
     throw new Error('Artist not found');
   }
-  
+
   // Check if this should be a favorite from persistent storage
-  const shouldBeFavorite = isPersistentFavorite(user_id, artist.username, artwork_id);
-  
-  const existing = db.artworks.find(
-    a => a.user_id === user_id && a.artist_id === artist_id && a.artwork_id === artwork_id
+  const shouldBeFavorite = isPersistentFavorite(user_id, catalogArtist.username, artwork_id);
+
+  let catalogArtwork = db.catalogArtworks.find(
+    c => c.catalog_artist_id === catalogArtist.id && c.artwork_id === artwork_id
   );
-  
+  const existing = catalogArtwork
+    ? db.artworks.find(a => a.user_id === user_id && a.catalog_artwork_id === catalogArtwork!.id)
+    : undefined;
+
+  if (!existing && (!allowInsert || (catalogOnly && !catalogArtwork))) {
+    return { artwork: null, isNew: false, wasUpdated: false, skipped: true };
+  }
+
+  const now = new Date().toISOString();
+
+  if (catalogArtwork && !catalogOnly) {
+    // Only check for meaningful content changes (ignore timestamp-only changes)
+    // We ignore upload_date and updated_at changes to prevent false positives
+    const contentChanged =
+      catalogArtwork.title !== title ||
+      catalogArtwork.thumbnail_url !== thumbnail_url ||
+      (catalogArtwork.high_quality_image_url || null) !== (high_quality_image_url || null) ||
+      catalogArtwork.artwork_url !== artwork_url;
+
+    if (contentChanged) {
+      // Keep what the artwork looked like before the edit
+      db.artworkRevisions.push({
+        id: db.nextArtworkRevisionId++,
+        catalog_artwork_id: catalogArtwork.id,
+        revision: catalogArtwork.revision,
+        title: catalogArtwork.title,
+        thumbnail_url: catalogArtwork.thumbnail_url,
+        high_quality_image_url: catalogArtwork.high_quality_image_url,
+        artwork_url: catalogArtwork.artwork_url,
+        upload_date: catalogArtwork.upload_date,
+        last_updated_at: catalogArtwork.last_updated_at,
+        replaced_at: now
+      });
+
+      catalogArtwork.title = title;
+      catalogArtwork.thumbnail_url = thumbnail_url;
+      catalogArtwork.high_quality_image_url = high_quality_image_url;
+      catalogArtwork.artwork_url = artwork_url;
+      catalogArtwork.upload_date = upload_date;
+      catalogArtwork.last_updated_at = updated_at || upload_date || catalogArtwork.last_updated_at;
+      catalogArtwork.revision++;
+    }
+  } else if (!catalogArtwork) {
+    catalogArtwork = {
+      id: db.nextCatalogArtworkId++,
+      catalog_artist_id: catalogArtist.id,
+      artwork_id,
+      title,
+      thumbnail_url,
+      high_quality_image_url,
+      artwork_url,
+      upload_date,
+      last_updated_at: updated_at || upload_date || now,
+      revision: 1,
+      discovered_at: now
+    };
+    db.catalogArtworks.push(catalogArtwork);
+  }
+
   if (existing) {
     // Restore favorite status if it should be a favorite
     const favoriteStatus = shouldBeFavorite ? 1 : (existing.is_favorite || 0);
-    
-    // Only check for meaningful content changes (ignore timestamp-only changes)
-    // We ignore upload_date and updated_at changes to prevent false positives
+
+    // A newer revision also covers edits picked up while scraping for another follower
     const changed =
-      existing.title !== title ||
-      existing.thumbnail_url !== thumbnail_url ||
-      (existing.high_quality_image_url || null) !== (high_quality_image_url || null) ||
-      existing.artwork_url !== artwork_url ||
+      existing.synced_revision < catalogArtwork.revision ||
       (existing.is_favorite || 0) !== favoriteStatus;
 
     if (changed) {
-      existing.title = title;
-      existing.thumbnail_url = thumbnail_url;
-      existing.high_quality_image_url = high_quality_image_url;
-      existing.artwork_url = artwork_url;
-      existing.upload_date = upload_date;
-      existing.last_updated_at = updated_at || upload_date || existing.last_updated_at;
+      existing.synced_revision = catalogArtwork.revision;
       existing.is_favorite = favoriteStatus;
       if (markUpdatesAsNew) {
         existing.is_new = 1;
       }
       saveDatabase();
-      return { artwork: existing, isNew: false, wasUpdated: true };
+      return { artwork: toArtwork(existing, catalogArtwork), isNew: false, wasUpdated: true };
     }
 
-    // Update favorite status even if nothing else changed
-    if ((existing.is_favorite || 0) !== favoriteStatus) {
-      existing.is_favorite = favoriteStatus;
-      saveDatabase();
-    }
-
-    return { artwork: existing, isNew: false, wasUpdated: false };
-  }
-
-  if (!allowInsert) {
-    return { artwork: null, isNew: false, wasUpdated: false, skipped: true };
+    return { artwork: toArtwork(existing, catalogArtwork), isNew: false, wasUpdated: false };
   }
 
   // Insert new artwork with favorite status if it should be a favorite
-  const favoriteValue = shouldBeFavorite ? 1 : 0;
-  const artwork: Artwork = {
+  const artwork: StoredArtwork = {
     id: db.nextArtworkId++,
     user_id,
     artist_id,
-    artwork_id,
-    title,
-    thumbnail_url,
-    high_quality_image_url,
-    artwork_url,
-    upload_date,
-    last_updated_at: updated_at || upload_date || new Date().toISOString(),
+    catalog_artwork_id: catalogArtwork.id,
     is_new: 1,
-    is_favorite: favoriteValue,
-    discovered_at: new Date().toISOString()
+    is_favorite: shouldBeFavorite ? 1 : 0,
+    synced_revision: catalogArtwork.revision,
+    discovered_at: now
   };
 
   db.artworks.push(artwork);
   saveDatabase();
-  return { artwork, isNew: true, wasUpdated: false };
+  return { artwork: toArtwork(artwork, catalogArtwork), isNew: true, wasUpdated: false };
+}
+
+export function getArtworkHistory(id: number, user_id: number): ArtworkHistory | null {
+  const stored = db.artworks.find(a => a.id === id && a.user_id === user_id);
+  const catalog = stored && db.catalogArtworks.find(c => c.id === stored.catalog_artwork_id);
+  if (!stored || !catalog) return null;
+
+  const revisions = db.artworkRevisions
+    .filter(r => r.catalog_artwork_id === catalog.id)
+    .sort((a, b) => b.revision - a.revision)
+    .map(({ catalog_artwork_id, ...revision }) => revision);
+
+  return { artwork: toArtwork(stored, catalog), revisions };
+}
+
+export function getArtworkWithDetails(id: number, user_id: number): ArtworkWithDetails | null {
+  const stored = db.artworks.find(a => a.id === id && a.user_id === user_id);
+  const catalog = stored && db.catalogArtworks.find(c => c.id === stored.catalog_artwork_id);
+  const artist = stored && db.artists.find(a => a.id === stored.artist_id);
+  if (!stored || !catalog || !artist) return null;
+
+  const catalogArtist = findCatalogArtist(artist.catalog_artist_id);
+  const details = db.artworkDetails.find(d => d.catalog_artwork_id === catalog.id);
+  return {
+    ...toArtwork(stored, catalog),
+    username: catalogArtist?.username,
+    display_name: catalogArtist?.display_name,
+    details: details ? toArtworkDetails(details) : null
+  };
+}
+
+function toArtworkDetails({ catalog_artwork_id, ...details }: StoredArtworkDetails): ArtworkDetails {
+  return details;
+}
+
+export function getArtworkDetailsFetchedAt(catalog_artist_id: number): Map<string, string> {
+  const artworkIds = new Map(
+    db.catalogArtworks.filter(c => c.catalog_artist_id === catalog_artist_id).map(c => [c.id, c.artwork_id])
+  );
+  const fetchedAt = new Map<string, string>();
+  for (const details of db.artworkDetails) {
+    const artworkId = artworkIds.get(details.catalog_artwork_id);
+    if (artworkId) {
+      fetchedAt.set(artworkId, details.fetched_at);
+    }
+  }
+  return fetchedAt;
+}
+
+export function saveArtworkDetails(catalog_artist_id: number, artwork_id: string, details: ArtworkDetails): boolean {
+  const catalog = db.catalogArtworks.find(c => c.catalog_artist_id === catalog_artist_id && c.artwork_id === artwork_id);
+  if (!catalog) return false;
+
+  db.artworkDetails = db.artworkDetails.filter(d => d.catalog_artwork_id !== catalog.id);
+  db.artworkDetails.push({ ...details, catalog_artwork_id: catalog.id });
+  saveDatabase();
+  return true;
+}
+
+export function getCatalogImageHashes(catalog_artist_id: number): Map<string, CatalogImageHash> {
+  const hashes = new Map<string, CatalogImageHash>();
+  for (const catalog of db.catalogArtworks) {
+    if (catalog.catalog_artist_id === catalog_artist_id && catalog.image_hash && catalog.image_hash_url) {
+      hashes.set(catalog.artwork_id, { image_hash: catalog.image_hash, image_hash_url: catalog.image_hash_url });
+    }
+  }
+  return hashes;
+}
+
+export function saveCatalogImageHashes(catalog_artist_id: number, hashes: Map<string, CatalogImageHash>): number {
+  let stored = 0;
+  for (const catalog of db.catalogArtworks) {
+    const hash = catalog.catalog_artist_id === catalog_artist_id ? hashes.get(catalog.artwork_id) : undefined;
+    if (hash) {
+      catalog.image_hash = hash.image_hash;
+      catalog.image_hash_url = hash.image_hash_url;
+      stored++;
+    }
+  }
+  if (stored > 0) {
+    saveDatabase();
+  }
+  return stored;
+}
+
+export function getUserImageHashes(user_id: number): ArtworkImageHash[] {
+  const catalogById = new Map(db.catalogArtworks.filter(c => c.image_hash).map(c => [c.id, c]));
+  const hashes: ArtworkImageHash[] = [];
+  for (const artwork of db.artworks) {
+    const catalog = artwork.user_id === user_id ? catalogById.get(artwork.catalog_artwork_id) : undefined;
+    if (catalog) {
+      hashes.push({
+        id: artwork.id,
+        artist_id: artwork.artist_id,
+        image_hash: catalog.image_hash!,
+        upload_date: catalog.upload_date,
+        discovered_at: artwork.discovered_at
+      });
+    }
+  }
+  return hashes;
+}
+
+function toArchivedImage(artwork_id: number, { user_id, catalog_artwork_id, ...image }: StoredArchivedImage): ArchivedImage {
+  return { artwork_id, ...image };
+}
+
+export function getArchivedImages(user_id: number, artwork_id?: number): ArchivedImage[] {
+  const artworkIds = new Map(
+    db.artworks
+      .filter(a => a.user_id === user_id && (artwork_id === undefined || a.id === artwork_id))
+      .map(a => [a.catalog_artwork_id, a.id])
+  );
+  return db.archivedImages
+    .filter(image => image.user_id === user_id && artworkIds.has(image.catalog_artwork_id))
+    .map(image => toArchivedImage(artworkIds.get(image.catalog_artwork_id)!, image))
+    .sort((a, b) => a.artwork_id - b.artwork_id || a.position - b.position);
+}
+
+export function saveArchivedImage(user_id: number, image: ArchivedImage): boolean {
+  const artwork = db.artworks.find(a => a.id === image.artwork_id && a.user_id === user_id);
+  if (!artwork) return false;
+
+  const { artwork_id, ...stored } = image;
+  db.archivedImages = db.archivedImages.filter(existing =>
+    !(existing.user_id === user_id && existing.catalog_artwork_id === artwork.catalog_artwork_id && existing.position === image.position)
+  );
+  db.archivedImages.push({ ...stored, user_id, catalog_artwork_id: artwork.catalog_artwork_id });
+  saveDatabase();
+  return true;
+}
+
+export function getImageArchiveUsage(user_id: number): ImageArchiveUsage {
+  const images = db.archivedImages.filter(image => image.user_id === user_id);
+  return { files: images.length, bytes: images.reduce((sum, image) => sum + image.byte_size, 0) };
+}
+
+export function deleteOrphanedArchivedImages(): number {
+  const kept = new Set(
+    [...db.artworks, ...db.trashedArtworks].map(a => `${a.user_id}:${a.catalog_artwork_id}`)
+  );
+  const before = db.archivedImages.length;
+  db.archivedImages = db.archivedImages.filter(image => kept.has(`${image.user_id}:${image.catalog_artwork_id}`));
+  const removed = before - db.archivedImages.length;
+  if (removed > 0) {
+    saveDatabase();
+  }
+  return removed;
+}
+
+export function getArchivedImageHashes(): Set<string> {
+  return new Set(db.archivedImages.map(image => image.hash));
 }
 
 export function markArtworkSeen(id: number, user_id: number): boolean {
@@ -493,20 +1625,27 @@ export function markAllArtworksSeen(user_id: number, artist_id?: number): number
 }
 
 export function getNewArtworksCount(user_id: number): number {
-  return db.artworks.filter(a => a.user_id === user_id && a.is_new === 1).length;
+  const catalogById = new Map(db.catalogArtworks.map(c => [c.id, c]));
+  return db.artworks.filter(a =>
+    a.user_id === user_id &&
+    a.is_new === 1 &&
+    isListed({ removed_at: catalogById.get(a.catalog_artwork_id)?.removed_at, is_favorite: a.is_favorite || 0 })
+  ).length;
 }
 
 export function toggleFavorite(id: number, user_id: number): boolean {
-  const artwork = db.artworks.find(a => a.id === id && a.user_id === user_id);
-  if (!artwork) return false;
+  const stored = db.artworks.find(a => a.id === id && a.user_id === user_id);
+  if (!stored) return false;
 
-  const artist = db.artists.find(a => a.id === artwork.artist_id);
-  if (!artist) return false;
+  const storedArtist = db.artists.find(a => a.id === stored.artist_id);
+  const artist = storedArtist && findCatalogArtist(storedArtist.catalog_artist_id);
+  const artwork = db.catalogArtworks.find(c => c.id === stored.catalog_artwork_id);
+  if (!artist || !artwork) return false;
 
-  const currentFavorite = (artwork.is_favorite || 0) === 1;
+  const currentFavorite = (stored.is_favorite || 0) === 1;
   const newFavorite = !currentFavorite;
   
-  artwork.is_favorite = newFavorite ? 1 : 0;
+  stored.is_favorite = newFavorite ? 1 : 0;
   
   // Also update persistent favorites
   if (!db.persistentFavorites) {
@@ -548,30 +1687,35 @@ export function deleteAllArtworks(user_id: number): number {
   return count;
 }
 
+// Permanent, including the user's trash
 export function deleteAllArtists(user_id: number): number {
   const count = db.artists.filter(a => a.user_id === user_id).length;
+  const trashedCount = db.trashedArtists.filter(a => a.user_id === user_id).length;
   db.artists = db.artists.filter(a => a.user_id !== user_id);
   db.artworks = db.artworks.filter(a => a.user_id !== user_id);
-  if (count > 0) {
+  db.trashedArtists = db.trashedArtists.filter(a => a.user_id !== user_id);
+  db.trashedArtworks = db.trashedArtworks.filter(a => a.user_id !== user_id);
+  if (count > 0 || trashedCount > 0) {
     saveDatabase();
   }
   return count;
 }
 
 export function getPublicFeaturedArtworks(limit: number = 10): PublicFeaturedArtwork[] {
-  if (db.artworks.length === 0) {
+  const available = db.catalogArtworks.filter(a => !a.removed_at);
+  if (available.length === 0) {
     return [];
   }
 
-  const candidates = db.artworks.filter(a => a.thumbnail_url && a.thumbnail_url.trim().length > 0);
-  const pool = candidates.length ? candidates : db.artworks;
+  const candidates = available.filter(a => a.thumbnail_url && a.thumbnail_url.trim().length > 0);
+  const pool = candidates.length ? candidates : available;
   const shuffled = [...pool].sort(() => Math.random() - 0.5);
 
   return shuffled.slice(0, limit).map(artwork => {
-    const artist = db.artists.find(a => a.id === artwork.artist_id);
+    const artist = findCatalogArtist(artwork.catalog_artist_id);
     return {
       id: artwork.id,
-      artist_id: artwork.artist_id,
+      artist_id: artwork.catalog_artist_id,
       title: artwork.title || 'Untitled',
       thumbnail_url: artwork.thumbnail_url,
       artwork_url: artwork.artwork_url,
@@ -651,6 +1795,17 @@ export function isPersistentFavorite(
   );
 }
 
+// List a user's persistent favorites
+export function getPersistentFavorites(user_id: number): PersistentFavorite[] {
+  if (!db.persistentFavorites) {
+    return [];
+  }
+
+  return db.persistentFavorites
+    .filter(pf => pf.user_id === user_id)
+    .map(pf => ({ ...pf }));
+}
+
 // Restore favorite status for all artworks that match persistent favorites
 export function restoreFavoritesFromPersistent(user_id: number): number {
   if (!db.persistentFavorites) {
@@ -662,13 +1817,18 @@ export function restoreFavoritesFromPersistent(user_id: number): number {
   db.persistentFavorites.forEach(fav => {
     if (fav.user_id !== user_id) return;
     
-    const artist = db.artists.find(a => a.user_id === user_id && a.username.toLowerCase() === fav.artist_username);
+    const artist = getAllArtists(user_id).find(a => a.username.toLowerCase() === fav.artist_username);
     if (!artist) return;
     
+    const catalogArtwork = db.catalogArtworks.find(
+      c => c.catalog_artist_id === artist.catalog_artist_id && c.artwork_id === fav.artwork_id
+    );
+    if (!catalogArtwork) return;
+
     const artwork = db.artworks.find(
       a => a.user_id === user_id && 
            a.artist_id === artist.id && 
-           a.artwork_id === fav.artwork_id
+           a.catalog_artwork_id === catalogArtwork.id
     );
     
     if (artwork && (artwork.is_favorite || 0) !== 1) {
@@ -689,3 +1849,187 @@ export function restoreAllFavoritesForUser(user_id: number): number {
   return restoreFavoritesFromPersistent(user_id);
 }
 
+// Scrape job queue operations
+function withItems(job: StoredScrapeJob): ScrapeJob {
+  return {
+    ...job,
+    items: db.scrapeJobItems.filter(item => item.job_id === job.id).sort((a, b) => a.id - b.id)
+  };
+}
+
+export function createScrapeJob(
+  type: ScrapeJobType,
+  user_id: number | null,
+  payload: any,
+  items: Array<{ target_id: number; label: string }>
+): ScrapeJob {
+  const now = new Date().toISOString();
+  const job: StoredScrapeJob = {
+    id: db.nextScrapeJobId++,
+    type,
+    user_id,
+    status: 'queued',
+    payload,
+    created_at: now
+  };
+  db.scrapeJobs.push(job);
+
+  for (const item of items) {
+    db.scrapeJobItems.push({
+      id: db.nextScrapeJobItemId++,
+      job_id: job.id,
+      target_id: item.target_id,
+      label: item.label,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: now
+    });
+  }
+
+  saveDatabase();
+  return withItems(job);
+}
+
+export function getScrapeJob(id: number): ScrapeJob | undefined {
+  const job = db.scrapeJobs.find(j => j.id === id);
+  return job ? withItems(job) : undefined;
+}
+
+export function getScrapeJobs(filter: ScrapeJobFilter = {}): ScrapeJob[] {
+  let jobs = db.scrapeJobs.filter(job =>
+    (filter.user_id === undefined || job.user_id === filter.user_id) &&
+    (!filter.statuses || filter.statuses.includes(job.status))
+  );
+  jobs = jobs.sort((a, b) => b.id - a.id);
+  if (filter.limit) {
+    jobs = jobs.slice(0, filter.limit);
+  }
+  return jobs.map(withItems);
+}
+
+export function updateScrapeJob(id: number, updates: ScrapeJobUpdate): boolean {
+  const job = db.scrapeJobs.find(j => j.id === id);
+  if (!job) return false;
+
+  Object.assign(job, updates);
+  saveDatabase();
+  return true;
+}
+
+export function updateScrapeJobItem(id: number, updates: ScrapeJobItemUpdate): boolean {
+  const item = db.scrapeJobItems.find(i => i.id === id);
+  if (!item) return false;
+
+  Object.assign(item, updates);
+  saveDatabase();
+  return true;
+}
+
+export function deleteScrapeJobsFinishedBefore(before: string): number {
+  const cutoff = new Date(before).getTime();
+  const expired = new Set(
+    db.scrapeJobs
+      .filter(job => (job.status === 'completed' || job.status === 'failed') &&
+        job.finished_at && new Date(job.finished_at).getTime() < cutoff)
+      .map(job => job.id)
+  );
+  if (expired.size === 0) return 0;
+
+  db.scrapeJobs = db.scrapeJobs.filter(job => !expired.has(job.id));
+  db.scrapeJobItems = db.scrapeJobItems.filter(item => !expired.has(item.job_id));
+  saveDatabase();
+  return expired.size;
+}
+
+// Scrape history operations
+export function createScrapeRun(run: NewScrapeRun): ScrapeRun {
+  const created: ScrapeRun = {
+    id: db.nextScrapeRunId++,
+    ...run,
+    status: 'queued',
+    created_at: new Date().toISOString(),
+    completed: 0,
+    skipped: 0,
+    failed: 0,
+    new_artworks: 0,
+    updated_artworks: 0
+  };
+  db.scrapeRuns.push(created);
+  saveDatabase();
+  return { ...created };
+}
+
+export function getScrapeRun(id: number): ScrapeRun | undefined {
+  const run = db.scrapeRuns.find(r => r.id === id);
+  return run ? { ...run } : undefined;
+}
+
+export function getScrapeRunForJob(job_id: number): ScrapeRun | undefined {
+  const run = db.scrapeRuns.find(r => r.job_id === job_id);
+  return run ? { ...run } : undefined;
+}
+
+function isVisibleRun(run: ScrapeRun, user_id: number): boolean {
+  return run.user_id === null || run.user_id === user_id;
+}
+
+export function getScrapeRuns(user_id: number, limit: number): ScrapeRun[] {
+  return db.scrapeRuns
+    .filter(run => isVisibleRun(run, user_id))
+    .sort((a, b) => b.id - a.id)
+    .slice(0, limit)
+    .map(run => ({ ...run }));
+}
+
+export function updateScrapeRun(id: number, updates: ScrapeRunUpdate): boolean {
+  const run = db.scrapeRuns.find(r => r.id === id);
+  if (!run) return false;
+
+  Object.assign(run, updates);
+  saveDatabase();
+  return true;
+}
+
+export function addScrapeOutcome(outcome: NewScrapeOutcome): void {
+  db.scrapeOutcomes.push({
+    id: db.nextScrapeOutcomeId++,
+    ...outcome,
+    created_at: new Date().toISOString()
+  });
+  saveDatabase();
+}
+
+export function getScrapeOutcomes(run_id: number): ScrapeOutcome[] {
+  return db.scrapeOutcomes
+    .filter(outcome => outcome.run_id === run_id)
+    .sort((a, b) => a.id - b.id)
+    .map(outcome => ({ ...outcome }));
+}
+
+export function getArtistScrapeHistory(catalog_artist_id: number, user_id: number, limit: number): ScrapeHistoryEntry[] {
+  const runs = new Map(db.scrapeRuns.filter(run => isVisibleRun(run, user_id)).map(run => [run.id, run]));
+
+  return db.scrapeOutcomes
+    .filter(outcome => outcome.catalog_artist_id === catalog_artist_id && runs.has(outcome.run_id))
+    .sort((a, b) => b.id - a.id)
+    .slice(0, limit)
+    .map(outcome => {
+      const run = runs.get(outcome.run_id)!;
+      return { ...outcome, type: run.type, trigger: run.trigger };
+    });
+}
+
+export function deleteScrapeRunsFinishedBefore(before: string): number {
+  const cutoff = new Date(before).getTime();
+  const expired = new Set(
+    db.scrapeRuns
+      .filter(run => run.finished_at && new Date(run.finished_at).getTime() < cutoff)
+      .map(run => run.id)
+  );
+  if (expired.size === 0) return 0;
+
+  db.scrapeRuns = db.scrapeRuns.filter(run => !expired.has(run.id));
+  db.scrapeOutcomes = db.scrapeOutcomes.filter(outcome => !expired.has(outcome.run_id));
+  saveDatabase();
+  return expired.size;
+}
@@ -1,7 +1,45 @@
 import pg from 'pg';
 const { Pool } = pg;
 import crypto from 'crypto';
-import type { PublicFeaturedArtwork } from './database';
+import type {
+  PublicFeaturedArtwork,
+  ArtworkRevision,
+  ArtworkHistory,
+  ArtworkPageQuery,
+  ArtworkPage,
+  ArtworkSort,
+  ArtworkSearchQuery,
+  ArtworkSearchResult,
+  ArtworkAsset,
+  ArtworkDetails,
+  ArtworkWithDetails,
+  TrashedArtist,
+  ScrapeJob,
+  ScrapeJobFilter,
+  ScrapeJobItem,
+  ScrapeJobItemUpdate,
+  ScrapeJobType,
+  ScrapeJobUpdate,
+  ScrapeRun,
+  ScrapeRunUpdate,
+  NewScrapeRun,
+  ScrapeOutcome,
+  NewScrapeOutcome,
+  ScrapeHistoryEntry,
+  ArtistAccountStatus,
+  ArtistSource,
+  RemovedArtworksSync,
+  ArtistProfile,
+  FollowerCountPoint,
+  ArchivedImage,
+  ImageArchiveMode,
+  ImageArchiveUsage,
+  CatalogImageHash,
+  ArtworkImageHash,
+  CatalogAccount
+} from './database';
+import { HIGHLIGHT_END, HIGHLIGHT_START, parseSearchTerms } from './utils/textSearch';
+import { runMigrations } from './migrations';
 
 // Export interfaces (same as database.ts)
 export interface User {
@@ -12,16 +50,27 @@ export interface User {
   created_at: string;
   discord_webhook_url?: string;
   discord_user_id?: string;
+  notify_removed_artworks?: boolean;
+  image_archive?: ImageArchiveMode;
+  mute_repost_notifications?: boolean;
 }
 
 export interface Artist {
   id: number;
   user_id: number;
+  catalog_artist_id: number;
+  source: ArtistSource;
   username: string;
+  feed_url?: string;
   display_name?: string;
   profile_url: string;
   avatar_url?: string;
   last_checked?: string;
+  account_status: ArtistAccountStatus;
+  account_status_changed_at?: string;
+  previous_username?: string;
+  check_interval_hours?: number;
+  next_check_at?: string;
   created_at: string;
 }
 
@@ -39,11 +88,20 @@ export interface Artwork {
   is_new: number;
   is_favorite?: number;
   discovered_at: string;
+  removed_at?: string;
+}
+
+export interface PersistentFavorite {
+  user_id: number;
+  artist_username: string;
+  artwork_id: string;
+  artwork_url: string;
 }
 
 interface AddArtworkOptions {
   allowInsert?: boolean;
   markUpdatesAsNew?: boolean;
+  catalogOnly?: boolean;
 }
 
 let pool: pg.Pool | null = null;
@@ -52,7 +110,20 @@ function generateToken(username: string): string {
   return crypto.createHash('sha256').update(username + Date.now().toString()).digest('hex').substring(0, 32);
 }
 
-export function initDatabase(): void {
+export function createPool(databaseUrl: string): pg.Pool {
+  return new Pool({
+    connectionString: databaseUrl,
+    ssl: databaseUrl.includes('localhost') || databaseUrl.includes('127.0.0.1') 
+      ? false 
+      : { rejectUnauthorized: false },
+    // Add connection timeout and retry logic
+    connectionTimeoutMillis: 10000,
+    idleTimeoutMillis: 30000,
+    max: 20
+  });
+}
+
+export async function initDatabase(): Promise<void> {
   const databaseUrl = process.env.DATABASE_URL;
   
   if (!databaseUrl) {
@@ -68,26 +139,20 @@ export function initDatabase(): void {
     console.warn('   📖 Get it from: Supabase Dashboard → Settings → Database → Connection Pooling → Transaction mode');
   }
 
-  pool = new Pool({
-    connectionString: databaseUrl,
-    ssl: databaseUrl.includes('localhost') || databaseUrl.includes('127.0.0.1') 
-      ? false 
-      : { rejectUnauthorized: false },
-    // Add connection timeout and retry logic
-    connectionTimeoutMillis: 10000,
-    idleTimeoutMillis: 30000,
-    max: 20
-  });
+  pool = createPool(databaseUrl);
 
-  // Test connection (async, but we don't wait - connection will be tested on first query)
-  pool.query('SELECT NOW()')
-    .then(() => {
-      console.log('✅ Database initialized (PostgreSQL)');
-    })
-    .catch((err: Error) => {
-      console.error('❌ Database connection error:', err);
-      console.error('   Make sure DATABASE_URL is correct and the database is accessible');
-    });
+  // Apply pending migrations before serving requests; refuses to start if the schema is ahead of this build
+  try {
+    const applied = await runMigrations(pool);
+    if (applied.length > 0) {
+      console.log(`   ✓ Applied ${applied.length} migration(s)`);
+    }
+    console.log('✅ Database initialized (PostgreSQL)');
+  } catch (err: any) {
+    console.error('❌ Database initialization failed:', err.message);
+    console.error('   Make sure DATABASE_URL is correct and the database is accessible');
+    throw err;
+  }
 }
 
 async function query(text: string, params?: any[]): Promise<pg.QueryResult> {
@@ -107,7 +172,10 @@ export async function getAllUsers(): Promise<User[]> {
     token: row.token,
     created_at: row.created_at.toISOString(),
     discord_webhook_url: row.discord_webhook_url || undefined,
-    discord_user_id: row.discord_user_id || undefined
+    discord_user_id: row.discord_user_id || undefined,
+    notify_removed_artworks: !!row.notify_removed_artworks,
+    image_archive: row.image_archive || 'off',
+    mute_repost_notifications: !!row.mute_repost_notifications
   }));
 }
 
@@ -122,7 +190,10 @@ export async function getUserById(id: number): Promise<User | undefined> {
     token: row.token,
     created_at: row.created_at.toISOString(),
     discord_webhook_url: row.discord_webhook_url || undefined,
-    discord_user_id: row.discord_user_id || undefined
+    discord_user_id: row.discord_user_id || undefined,
+    notify_removed_artworks: !!row.notify_removed_artworks,
+    image_archive: row.image_archive || 'off',
+    mute_repost_notifications: !!row.mute_repost_notifications
   };
 }
 
@@ -137,7 +208,10 @@ export async function getUserByUsername(username: string): Promise<User | undefi
     token: row.token,
     created_at: row.created_at.toISOString(),
     discord_webhook_url: row.discord_webhook_url || undefined,
-    discord_user_id: row.discord_user_id || undefined
+    discord_user_id: row.discord_user_id || undefined,
+    notify_removed_artworks: !!row.notify_removed_artworks,
+    image_archive: row.image_archive || 'off',
+    mute_repost_notifications: !!row.mute_repost_notifications
   };
 }
 
@@ -152,7 +226,10 @@ export async function getUserByToken(token: string): Promise<User | undefined> {
     token: row.token,
     created_at: row.created_at.toISOString(),
     discord_webhook_url: row.discord_webhook_url || undefined,
-    discord_user_id: row.discord_user_id || undefined
+    discord_user_id: row.discord_user_id || undefined,
+    notify_removed_artworks: !!row.notify_removed_artworks,
+    image_archive: row.image_archive || 'off',
+    mute_repost_notifications: !!row.mute_repost_notifications
   };
 }
 
@@ -206,6 +283,18 @@ export async function updateUser(id: number, updates: Partial<User>): Promise<bo
     fields.push(`discord_user_id = $${paramIndex++}`);
     values.push(updates.discord_user_id || null);
   }
+  if (updates.notify_removed_artworks !== undefined) {
+    fields.push(`notify_removed_artworks = $${paramIndex++}`);
+    values.push(updates.notify_removed_artworks);
+  }
+  if (updates.image_archive !== undefined) {
+    fields.push(`image_archive = $${paramIndex++}`);
+    values.push(updates.image_archive);
+  }
+  if (updates.mute_repost_notifications !== undefined) {
+    fields.push(`mute_repost_notifications = $${paramIndex++}`);
+    values.push(updates.mute_repost_notifications);
+  }
 
   if (fields.length === 0) return false;
 
@@ -219,69 +308,156 @@ export async function updateUser(id: number, updates: Partial<User>): Promise<bo
 }
 
 // Artist operations
-export async function getAllArtists(user_id: number): Promise<Artist[]> {
-  const result = await query(
-    'SELECT * FROM artists WHERE user_id = $1 ORDER BY created_at DESC',
-    [user_id]
-  );
-  
-  return result.rows.map((row: any) => ({
+// Artists and artworks are read through the shared catalog (see migrations/005_shared_artist_catalog.sql)
+const ARTIST_SELECT = `
+  SELECT a.id, a.user_id, a.catalog_artist_id, a.created_at,
+         ca.source, ca.username, ca.feed_url, ca.display_name, ca.profile_url, ca.avatar_url, ca.last_checked,
+         ca.account_status, ca.account_status_changed_at, ca.previous_username,
+         a.check_interval_hours, ca.next_check_at
+  FROM artists a
+  JOIN catalog_artists ca ON ca.id = a.catalog_artist_id
+`;
+
+const ARTWORK_SELECT = `
+  SELECT aw.id, aw.user_id, aw.artist_id, aw.is_new, aw.is_favorite, aw.discovered_at,
+         cw.artwork_id, cw.title, cw.thumbnail_url, cw.high_quality_image_url, cw.artwork_url,
+         cw.upload_date, cw.last_updated_at, cw.removed_at
+  FROM artworks aw
+  JOIN catalog_artworks cw ON cw.id = aw.catalog_artwork_id
+`;
+
+function rowToArtist(row: any): Artist {
+  return {
     id: row.id,
     user_id: row.user_id,
+    catalog_artist_id: row.catalog_artist_id,
+    source: row.source || 'artstation',
     username: row.username,
+    feed_url: row.feed_url || undefined,
     display_name: row.display_name || undefined,
     profile_url: row.profile_url,
     avatar_url: row.avatar_url || undefined,
     last_checked: row.last_checked ? row.last_checked.toISOString() : undefined,
+    account_status: row.account_status || 'active',
+    account_status_changed_at: row.account_status_changed_at ? row.account_status_changed_at.toISOString() : undefined,
+    previous_username: row.previous_username || undefined,
+    check_interval_hours: row.check_interval_hours ?? undefined,
+    next_check_at: row.next_check_at ? row.next_check_at.toISOString() : undefined,
     created_at: row.created_at.toISOString()
-  }));
+  };
 }
 
-export async function getArtistById(id: number, user_id: number): Promise<Artist | undefined> {
-  const result = await query('SELECT * FROM artists WHERE id = $1 AND user_id = $2', [id, user_id]);
-  if (result.rows.length === 0) return undefined;
-  const row = result.rows[0];
+function rowToArtwork(row: any): Artwork {
   return {
     id: row.id,
     user_id: row.user_id,
-    username: row.username,
-    display_name: row.display_name || undefined,
-    profile_url: row.profile_url,
-    avatar_url: row.avatar_url || undefined,
-    last_checked: row.last_checked ? row.last_checked.toISOString() : undefined,
-    created_at: row.created_at.toISOString()
+    artist_id: row.artist_id,
+    artwork_id: row.artwork_id,
+    title: row.title,
+    thumbnail_url: row.thumbnail_url,
+    high_quality_image_url: row.high_quality_image_url || undefined,
+    artwork_url: row.artwork_url,
+    upload_date: row.upload_date ? row.upload_date.toISOString() : undefined,
+    last_updated_at: row.last_updated_at ? row.last_updated_at.toISOString() : undefined,
+    is_new: row.is_new,
+    is_favorite: row.is_favorite || 0,
+    discovered_at: row.discovered_at.toISOString(),
+    removed_at: row.removed_at ? row.removed_at.toISOString() : undefined
   };
 }
 
-export async function addArtist(user_id: number, username: string, profile_url: string): Promise<Artist> {
+export async function getAllArtists(user_id: number): Promise<Artist[]> {
+  const result = await query(
+    `${ARTIST_SELECT} WHERE a.user_id = $1 ORDER BY a.created_at DESC`,
+    [user_id]
+  );
+  return result.rows.map(rowToArtist);
+}
+
+// Every follow of every user, grouped by catalog artist (used to scrape each account once)
+export async function getAllFollowedArtists(): Promise<Artist[]> {
+  const result = await query(`${ARTIST_SELECT} ORDER BY a.catalog_artist_id, a.id`);
+  return result.rows.map(rowToArtist);
+}
+
+export async function getCatalogAccount(username: string): Promise<CatalogAccount | undefined> {
+  const result = await query(
+    'SELECT id, source, username, profile_url, feed_url FROM catalog_artists WHERE LOWER(username) = LOWER($1)',
+    [username]
+  );
+  const row = result.rows[0];
+  return row ? { ...row, feed_url: row.feed_url || undefined } : undefined;
+}
+
+export async function getFollowersOfCatalogArtist(catalog_artist_id: number): Promise<Artist[]> {
+  const result = await query(`${ARTIST_SELECT} WHERE a.catalog_artist_id = $1 ORDER BY a.id`, [catalog_artist_id]);
+  return result.rows.map(rowToArtist);
+}
+
+export async function getArtistById(id: number, user_id: number): Promise<Artist | undefined> {
+  const result = await query(`${ARTIST_SELECT} WHERE a.id = $1 AND a.user_id = $2`, [id, user_id]);
+  if (result.rows.length === 0) return undefined;
+  return rowToArtist(result.rows[0]);
+}
+
+export async function addArtist(
+  user_id: number,
+  username: string,
+  profile_url: string,
+  source: ArtistSource = 'artstation',
+  feed_url?: string
+): Promise<Artist> {
   // Check if artist already exists
   const existing = await query(
-    'SELECT id FROM artists WHERE user_id = $1 AND LOWER(username) = LOWER($2)',
+    `${ARTIST_SELECT} WHERE a.user_id = $1 AND LOWER(ca.username) = LOWER($2)`,
     [user_id, username]
   );
-  
+
   if (existing.rows.length > 0) {
     throw new Error('ARTIST_EXISTS');
   }
 
+  // Following a recently unfollowed artist again brings back its artworks and flags
+  const trashed = await query(
+    `SELECT d.id FROM deleted_artists d
+     JOIN catalog_artists ca ON ca.id = d.catalog_artist_id
+     WHERE d.user_id = $1 AND LOWER(ca.username) = LOWER($2)`,
+    [user_id, username]
+  );
+  if (trashed.rows.length > 0) {
+    return (await restoreArtist(trashed.rows[0].id, user_id))!;
+  }
+
+  const catalogResult = await query(
+    `INSERT INTO catalog_artists (username, source, feed_url, profile_url) VALUES ($1, $2, $3, $4)
+     ON CONFLICT ((LOWER(username))) DO UPDATE SET username = catalog_artists.username
+     RETURNING id, username`,
+    [username, source, feed_url || null, profile_url]
+  );
+  const catalog = catalogResult.rows[0];
+
   const result = await query(
-    'INSERT INTO artists (user_id, username, profile_url) VALUES ($1, $2, $3) RETURNING *',
-    [user_id, username, profile_url]
+    'INSERT INTO artists (user_id, catalog_artist_id) VALUES ($1, $2) RETURNING id',
+    [user_id, catalog.id]
   );
-  
-  const row = result.rows[0];
-  return {
-    id: row.id,
-    user_id: row.user_id,
-    username: row.username,
-    display_name: row.display_name || undefined,
-    profile_url: row.profile_url,
-    avatar_url: row.avatar_url || undefined,
-    last_checked: row.last_checked ? row.last_checked.toISOString() : undefined,
-    created_at: row.created_at.toISOString()
-  };
+  const artistId = result.rows[0].id;
+
+  // Artworks already scraped for another follower are linked right away
+  await query(
+    `INSERT INTO artworks (user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision)
+     SELECT $1, $2, cw.id, 1, CASE WHEN pf.id IS NULL THEN 0 ELSE 1 END, cw.revision
+     FROM catalog_artworks cw
+     LEFT JOIN persistent_favorites pf
+       ON pf.user_id = $1 AND pf.artist_username = LOWER($3) AND pf.artwork_id = cw.artwork_id
+     WHERE cw.catalog_artist_id = $4
+     ON CONFLICT (user_id, catalog_artwork_id) DO NOTHING`,
+    [user_id, artistId, catalog.username, catalog.id]
+  );
+
+  return (await getArtistById(artistId, user_id))!;
 }
 
+// Profile fields live in the catalog, so an update is visible to every follower
 export async function updateArtist(id: number, user_id: number, updates: Partial<Artist>): Promise<boolean> {
   const fields: string[] = [];
   const values: any[] = [];
@@ -299,79 +475,327 @@ export async function updateArtist(id: number, user_id: number, updates: Partial
     fields.push(`last_checked = $${paramIndex++}`);
     values.push(updates.last_checked ? new Date(updates.last_checked) : null);
   }
+  if (updates.account_status !== undefined) {
+    fields.push(`account_status = $${paramIndex++}`);
+    values.push(updates.account_status);
+  }
+  if (updates.account_status_changed_at !== undefined) {
+    fields.push(`account_status_changed_at = $${paramIndex++}`);
+    values.push(updates.account_status_changed_at ? new Date(updates.account_status_changed_at) : null);
+  }
 
   if (fields.length === 0) return false;
 
   values.push(id, user_id);
   const result = await query(
-    `UPDATE artists SET ${fields.join(', ')} WHERE id = $${paramIndex} AND user_id = $${paramIndex + 1}`,
+    `UPDATE catalog_artists SET ${fields.join(', ')}
+     WHERE id = (SELECT catalog_artist_id FROM artists WHERE id = $${paramIndex} AND user_id = $${paramIndex + 1})`,
     values
   );
 
   return (result.rowCount ?? 0) > 0;
 }
 
-export async function deleteArtist(id: number, user_id: number): Promise<boolean> {
-  const result = await query('DELETE FROM artists WHERE id = $1 AND user_id = $2', [id, user_id]);
+export async function setArtistCheckInterval(id: number, user_id: number, hours: number | null): Promise<boolean> {
+  const result = await query(
+    'UPDATE artists SET check_interval_hours = $1 WHERE id = $2 AND user_id = $3',
+    [hours, id, user_id]
+  );
   return (result.rowCount ?? 0) > 0;
 }
 
+export async function setNextCheckAt(catalog_artist_id: number, next_check_at: string): Promise<void> {
+  await query('UPDATE catalog_artists SET next_check_at = $1 WHERE id = $2', [new Date(next_check_at), catalog_artist_id]);
+}
+
+export async function getRecentUploadDates(catalog_artist_id: number, limit: number): Promise<string[]> {
+  const result = await query(
+    `SELECT upload_date FROM catalog_artworks
+     WHERE catalog_artist_id = $1 AND upload_date IS NOT NULL
+     ORDER BY upload_date DESC
+     LIMIT $2`,
+    [catalog_artist_id, limit]
+  );
+  return result.rows.map(row => row.upload_date.toISOString());
+}
+
+export async function syncRemovedArtworks(catalog_artist_id: number, listed_artwork_ids: string[]): Promise<RemovedArtworksSync> {
+  const removed = await query(
+    `UPDATE catalog_artworks SET removed_at = NOW()
+     WHERE catalog_artist_id = $1 AND removed_at IS NULL AND NOT (artwork_id = ANY($2::text[]))
+     RETURNING artwork_id`,
+    [catalog_artist_id, listed_artwork_ids]
+  );
+  const restored = await query(
+    `UPDATE catalog_artworks SET removed_at = NULL
+     WHERE catalog_artist_id = $1 AND removed_at IS NOT NULL AND artwork_id = ANY($2::text[])
+     RETURNING artwork_id`,
+    [catalog_artist_id, listed_artwork_ids]
+  );
+  return {
+    removed: removed.rows.map(row => row.artwork_id),
+    restored: restored.rows.map(row => row.artwork_id)
+  };
+}
+
+export async function saveArtistProfile(catalog_artist_id: number, profile: ArtistProfile): Promise<void> {
+  await query(
+    `UPDATE catalog_artists
+     SET display_name = COALESCE($1, display_name), avatar_url = COALESCE($2, avatar_url)
+     WHERE id = $3`,
+    [profile.display_name || null, profile.avatar_url || null, catalog_artist_id]
+  );
+
+  await query(
+    `INSERT INTO catalog_artist_profiles
+       (catalog_artist_id, headline, bio, location, cover_url, links, followers_count, following_count, fetched_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     ON CONFLICT (catalog_artist_id) DO UPDATE SET
+       headline = EXCLUDED.headline,
+       bio = EXCLUDED.bio,
+       location = EXCLUDED.location,
+       cover_url = EXCLUDED.cover_url,
+       links = EXCLUDED.links,
+       followers_count = EXCLUDED.followers_count,
+       following_count = EXCLUDED.following_count,
+       fetched_at = EXCLUDED.fetched_at`,
+    [
+      catalog_artist_id,
+      profile.headline || null,
+      profile.bio || null,
+      profile.location || null,
+      profile.cover_url || null,
+      JSON.stringify(profile.links),
+      profile.followers_count ?? null,
+      profile.following_count ?? null,
+      new Date(profile.fetched_at)
+    ]
+  );
+
+  if (profile.followers_count !== undefined) {
+    await query(
+      `INSERT INTO artist_follower_counts (catalog_artist_id, date, followers_count, following_count)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (catalog_artist_id, date) DO UPDATE SET
+         followers_count = EXCLUDED.followers_count,
+         following_count = EXCLUDED.following_count`,
+      [catalog_artist_id, profile.fetched_at.slice(0, 10), profile.followers_count, profile.following_count ?? null]
+    );
+  }
+}
+
+export async function getArtistProfile(catalog_artist_id: number): Promise<ArtistProfile | null> {
+  const result = await query(
+    `SELECT p.*, ca.display_name, ca.avatar_url
+     FROM catalog_artist_profiles p
+     JOIN catalog_artists ca ON ca.id = p.catalog_artist_id
+     WHERE p.catalog_artist_id = $1`,
+    [catalog_artist_id]
+  );
+  if (result.rows.length === 0) return null;
+  const row = result.rows[0];
+
+  return {
+    display_name: row.display_name || undefined,
+    avatar_url: row.avatar_url || undefined,
+    headline: row.headline || undefined,
+    bio: row.bio || undefined,
+    location: row.location || undefined,
+    cover_url: row.cover_url || undefined,
+    links: row.links,
+    followers_count: row.followers_count ?? undefined,
+    following_count: row.following_count ?? undefined,
+    fetched_at: row.fetched_at.toISOString()
+  };
+}
+
+export async function getFollowerCountHistory(catalog_artist_id: number, days: number): Promise<FollowerCountPoint[]> {
+  const result = await query(
+    `SELECT date::text AS date, followers_count, following_count FROM artist_follower_counts
+     WHERE catalog_artist_id = $1
+     ORDER BY date DESC
+     LIMIT $2`,
+    [catalog_artist_id, days]
+  );
+
+  return result.rows.reverse().map((row: any) => ({
+    date: row.date,
+    followers_count: row.followers_count,
+    following_count: row.following_count ?? undefined
+  }));
+}
+
+// One statement: the catalog row is only renamed when no other row has the new handle, and
+// persistent favorites (keyed by handle so they survive an unfollow) move along with it
+export async function renameCatalogArtist(catalog_artist_id: number, username: string, profile_url: string): Promise<boolean> {
+  const result = await query(
+    `WITH target AS (
+       SELECT id, username FROM catalog_artists
+       WHERE id = $1
+         AND NOT EXISTS (SELECT 1 FROM catalog_artists WHERE LOWER(username) = LOWER($2) AND id <> $1)
+     ),
+     renamed AS (
+       UPDATE catalog_artists ca
+       SET previous_username = target.username, username = $2, profile_url = $3,
+           account_status = 'renamed', account_status_changed_at = CURRENT_TIMESTAMP
+       FROM target
+       WHERE ca.id = target.id
+       RETURNING target.username AS old_username
+     ),
+     favorites AS (
+       UPDATE persistent_favorites pf
+       SET artist_username = LOWER($2)
+       FROM renamed
+       WHERE pf.artist_username = LOWER(renamed.old_username)
+         AND NOT EXISTS (
+           SELECT 1 FROM persistent_favorites dup
+           WHERE dup.user_id = pf.user_id AND dup.artist_username = LOWER($2) AND dup.artwork_id = pf.artwork_id
+         )
+     )
+     SELECT COUNT(*)::int AS renamed FROM renamed`,
+    [catalog_artist_id, username, profile_url]
+  );
+  return result.rows[0].renamed > 0;
+}
+
+// Moved to the trash with their seen/favorite state so a restore brings everything back.
+// The CTEs read the artworks before the artist's ON DELETE CASCADE removes them.
+export async function deleteArtist(id: number, user_id: number): Promise<boolean> {
+  const result = await query(
+    `WITH moved AS (
+       DELETE FROM artists WHERE id = $1 AND user_id = $2
+       RETURNING id, user_id, catalog_artist_id, check_interval_hours, created_at
+     ), trashed AS (
+       INSERT INTO deleted_artists (id, user_id, catalog_artist_id, check_interval_hours, created_at)
+       SELECT id, user_id, catalog_artist_id, check_interval_hours, created_at FROM moved
+       RETURNING id
+     ), trashed_artworks AS (
+       INSERT INTO deleted_artworks (id, user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision, discovered_at)
+       SELECT aw.id, aw.user_id, aw.artist_id, aw.catalog_artwork_id, aw.is_new, aw.is_favorite, aw.synced_revision, aw.discovered_at
+       FROM artworks aw
+       JOIN moved ON moved.id = aw.artist_id
+     )
+     SELECT COUNT(*)::int AS count FROM trashed`,
+    [id, user_id]
+  );
+  return result.rows[0].count > 0;
+}
+
+export async function getTrashedArtists(user_id: number): Promise<Omit<TrashedArtist, 'purge_at'>[]> {
+  const result = await query(
+    `SELECT d.id, d.user_id, d.catalog_artist_id, d.created_at, d.deleted_at,
+            ca.username, ca.display_name, ca.profile_url, ca.avatar_url, ca.last_checked,
+            (SELECT COUNT(*)::int FROM deleted_artworks dw WHERE dw.artist_id = d.id) AS artwork_count
+     FROM deleted_artists d
+     JOIN catalog_artists ca ON ca.id = d.catalog_artist_id
+     WHERE d.user_id = $1
+     ORDER BY d.deleted_at DESC`,
+    [user_id]
+  );
+  return result.rows.map((row: any) => ({
+    ...rowToArtist(row),
+    deleted_at: row.deleted_at.toISOString(),
+    artwork_count: row.artwork_count
+  }));
+}
+
+// Puts an artist from the trash back under its old id; undefined when it isn't in the trash
+export async function restoreArtist(id: number, user_id: number): Promise<Artist | undefined> {
+  const trashedResult = await query(
+    `SELECT d.catalog_artist_id, ca.username FROM deleted_artists d
+     JOIN catalog_artists ca ON ca.id = d.catalog_artist_id
+     WHERE d.id = $1 AND d.user_id = $2`,
+    [id, user_id]
+  );
+  if (trashedResult.rows.length === 0) return undefined;
+  const trashed = trashedResult.rows[0];
+
+  const following = await query(
+    'SELECT 1 FROM artists WHERE user_id = $1 AND catalog_artist_id = $2',
+    [user_id, trashed.catalog_artist_id]
+  );
+  if (following.rows.length > 0) {
+    throw new Error('ARTIST_EXISTS');
+  }
+
+  // Same approach as deleteArtist, in reverse
+  await query(
+    `WITH restored AS (
+       DELETE FROM deleted_artists WHERE id = $1 AND user_id = $2
+       RETURNING id, user_id, catalog_artist_id, check_interval_hours, created_at
+     ), artist AS (
+       INSERT INTO artists (id, user_id, catalog_artist_id, check_interval_hours, created_at)
+       SELECT id, user_id, catalog_artist_id, check_interval_hours, created_at FROM restored
+     )
+     INSERT INTO artworks (id, user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision, discovered_at)
+     SELECT dw.id, dw.user_id, dw.artist_id, dw.catalog_artwork_id, dw.is_new, dw.is_favorite, dw.synced_revision, dw.discovered_at
+     FROM deleted_artworks dw
+     JOIN restored ON restored.id = dw.artist_id`,
+    [id, user_id]
+  );
+
+  // Artworks scraped for other followers while this one was in the trash
+  await query(
+    `INSERT INTO artworks (user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision)
+     SELECT $1, $2, cw.id, 1, CASE WHEN pf.id IS NULL THEN 0 ELSE 1 END, cw.revision
+     FROM catalog_artworks cw
+     LEFT JOIN persistent_favorites pf
+       ON pf.user_id = $1 AND pf.artist_username = LOWER($3) AND pf.artwork_id = cw.artwork_id
+     WHERE cw.catalog_artist_id = $4
+     ON CONFLICT (user_id, catalog_artwork_id) DO NOTHING`,
+    [user_id, id, trashed.username, trashed.catalog_artist_id]
+  );
+
+  return getArtistById(id, user_id);
+}
+
+// Permanently removes trash entries (of every user) deleted before the given time
+export async function purgeTrashedArtists(before: string): Promise<number> {
+  const result = await query('DELETE FROM deleted_artists WHERE deleted_at < $1', [new Date(before)]);
+  return result.rowCount || 0;
+}
+
 // Artwork operations
 export async function getAllArtworks(user_id: number, filters?: { artist_id?: number; new_only?: boolean; favorites_only?: boolean }): Promise<Artwork[]> {
-  let queryText = 'SELECT * FROM artworks WHERE user_id = $1';
+  let queryText = `${ARTWORK_SELECT} WHERE aw.user_id = $1`;
   const params: any[] = [user_id];
   let paramIndex = 2;
 
   if (filters?.artist_id) {
-    queryText += ` AND artist_id = $${paramIndex++}`;
+    queryText += ` AND aw.artist_id = $${paramIndex++}`;
     params.push(filters.artist_id);
   }
 
   if (filters?.new_only) {
-    queryText += ` AND is_new = 1`;
+    queryText += ` AND aw.is_new = 1`;
   }
 
   if (filters?.favorites_only) {
-    queryText += ` AND is_favorite = 1`;
+    queryText += ` AND aw.is_favorite = 1`;
   }
 
-  queryText += ' ORDER BY COALESCE(upload_date, discovered_at) DESC';
+  queryText += ' ORDER BY COALESCE(cw.upload_date, aw.discovered_at) DESC';
 
   const result = await query(queryText, params);
-  
-  return result.rows.map((row: any) => ({
-    id: row.id,
-    user_id: row.user_id,
-    artist_id: row.artist_id,
-    artwork_id: row.artwork_id,
-    title: row.title,
-    thumbnail_url: row.thumbnail_url,
-    high_quality_image_url: row.high_quality_image_url || undefined,
-    artwork_url: row.artwork_url,
-    upload_date: row.upload_date ? row.upload_date.toISOString() : undefined,
-    last_updated_at: row.last_updated_at ? row.last_updated_at.toISOString() : undefined,
-    is_new: row.is_new,
-    is_favorite: row.is_favorite || 0,
-    discovered_at: row.discovered_at.toISOString()
-  }));
+  return result.rows.map(rowToArtwork);
 }
 
 export async function getArtworksWithArtistInfo(user_id: number, filters?: { artist_id?: number; new_only?: boolean; favorites_only?: boolean }) {
   const artworks = await getAllArtworks(user_id, filters);
-  
+
   // Get all unique artist IDs
   const artistIds = [...new Set(artworks.map(a => a.artist_id))];
-  
+
   if (artistIds.length === 0) {
     return artworks.map(artwork => ({ ...artwork, username: undefined, display_name: undefined }));
   }
 
   // Fetch all artists in one query
   const artistsResult = await query(
-    `SELECT id, username, display_name FROM artists WHERE user_id = $1 AND id = ANY($2)`,
+    `${ARTIST_SELECT} WHERE a.user_id = $1 AND a.id = ANY($2)`,
     [user_id, artistIds]
   );
-  
+
   const artistsMap = new Map(
     artistsResult.rows.map((row: any) => [row.id, { username: row.username, display_name: row.display_name }])
   );
@@ -386,6 +810,401 @@ export async function getArtworksWithArtistInfo(user_id: number, filters?: { art
   });
 }
 
+async function getArtworkRow(id: number): Promise<Artwork> {
+  const result = await query(`${ARTWORK_SELECT} WHERE aw.id = $1`, [id]);
+  return rowToArtwork(result.rows[0]);
+}
+
+function rowToArtworkRevision(row: any): ArtworkRevision {
+  return {
+    id: row.id,
+    revision: row.revision,
+    title: row.title,
+    thumbnail_url: row.thumbnail_url,
+    high_quality_image_url: row.high_quality_image_url || undefined,
+    artwork_url: row.artwork_url,
+    upload_date: row.upload_date ? row.upload_date.toISOString() : undefined,
+    last_updated_at: row.last_updated_at ? row.last_updated_at.toISOString() : undefined,
+    replaced_at: row.replaced_at.toISOString()
+  };
+}
+
+export async function getArtworkHistory(id: number, user_id: number): Promise<ArtworkHistory | null> {
+  const result = await query('SELECT catalog_artwork_id FROM artworks WHERE id = $1 AND user_id = $2', [id, user_id]);
+  if (result.rows.length === 0) return null;
+
+  const revisions = await query(
+    'SELECT * FROM artwork_revisions WHERE catalog_artwork_id = $1 ORDER BY revision DESC',
+    [result.rows[0].catalog_artwork_id]
+  );
+
+  return { artwork: await getArtworkRow(id), revisions: revisions.rows.map(rowToArtworkRevision) };
+}
+
+function rowToArtworkAsset(row: any): ArtworkAsset {
+  return {
+    position: row.position,
+    asset_type: row.asset_type,
+    image_url: row.image_url || undefined,
+    video_url: row.video_url || undefined,
+    width: row.width ?? undefined,
+    height: row.height ?? undefined,
+    title: row.title || undefined
+  };
+}
+
+export async function getArtworkWithDetails(id: number, user_id: number): Promise<ArtworkWithDetails | null> {
+  const result = await query(
+    `SELECT aw.catalog_artwork_id, ca.username, ca.display_name
+     FROM artworks aw
+     JOIN artists a ON a.id = aw.artist_id
+     JOIN catalog_artists ca ON ca.id = a.catalog_artist_id
+     WHERE aw.id = $1 AND aw.user_id = $2`,
+    [id, user_id]
+  );
+  if (result.rows.length === 0) return null;
+  const row = result.rows[0];
+
+  const detailsResult = await query('SELECT * FROM catalog_artwork_details WHERE catalog_artwork_id = $1', [row.catalog_artwork_id]);
+  let details: ArtworkDetails | null = null;
+  if (detailsResult.rows.length > 0) {
+    const detailsRow = detailsResult.rows[0];
+    const assets = await query(
+      'SELECT * FROM catalog_artwork_assets WHERE catalog_artwork_id = $1 ORDER BY position, id',
+      [row.catalog_artwork_id]
+    );
+    details = {
+      description: detailsRow.description || undefined,
+      tags: detailsRow.tags,
+      mediums: detailsRow.mediums,
+      software: detailsRow.software,
+      categories: detailsRow.categories,
+      likes_count: detailsRow.likes_count ?? undefined,
+      views_count: detailsRow.views_count ?? undefined,
+      assets: assets.rows.map(rowToArtworkAsset),
+      fetched_at: detailsRow.fetched_at.toISOString()
+    };
+  }
+
+  return {
+    ...(await getArtworkRow(id)),
+    username: row.username,
+    display_name: row.display_name || undefined,
+    details
+  };
+}
+
+export async function getArtworkDetailsFetchedAt(catalog_artist_id: number): Promise<Map<string, string>> {
+  const result = await query(
+    `SELECT cw.artwork_id, d.fetched_at
+     FROM catalog_artwork_details d
+     JOIN catalog_artworks cw ON cw.id = d.catalog_artwork_id
+     WHERE cw.catalog_artist_id = $1`,
+    [catalog_artist_id]
+  );
+  return new Map(result.rows.map((row: any) => [row.artwork_id, row.fetched_at.toISOString()]));
+}
+
+export async function getCatalogImageHashes(catalog_artist_id: number): Promise<Map<string, CatalogImageHash>> {
+  const result = await query(
+    `SELECT artwork_id, image_hash, image_hash_url
+     FROM catalog_artworks
+     WHERE catalog_artist_id = $1 AND image_hash IS NOT NULL AND image_hash_url IS NOT NULL`,
+    [catalog_artist_id]
+  );
+  return new Map(result.rows.map((row: any) => [row.artwork_id, { image_hash: row.image_hash, image_hash_url: row.image_hash_url }]));
+}
+
+export async function saveCatalogImageHashes(catalog_artist_id: number, hashes: Map<string, CatalogImageHash>): Promise<number> {
+  let stored = 0;
+  for (const [artworkId, hash] of hashes) {
+    const result = await query(
+      'UPDATE catalog_artworks SET image_hash = $1, image_hash_url = $2 WHERE catalog_artist_id = $3 AND artwork_id = $4',
+      [hash.image_hash, hash.image_hash_url, catalog_artist_id, artworkId]
+    );
+    stored += result.rowCount ?? 0;
+  }
+  return stored;
+}
+
+export async function getUserImageHashes(user_id: number): Promise<ArtworkImageHash[]> {
+  const result = await query(
+    `SELECT a.id, a.artist_id, cw.image_hash, cw.upload_date, a.discovered_at
+     FROM artworks a
+     JOIN catalog_artworks cw ON cw.id = a.catalog_artwork_id
+     WHERE a.user_id = $1 AND cw.image_hash IS NOT NULL`,
+    [user_id]
+  );
+  return result.rows.map((row: any) => ({
+    id: row.id,
+    artist_id: row.artist_id,
+    image_hash: row.image_hash,
+    upload_date: row.upload_date ? row.upload_date.toISOString() : undefined,
+    discovered_at: row.discovered_at.toISOString()
+  }));
+}
+
+function rowToArchivedImage(row: any): ArchivedImage {
+  return {
+    artwork_id: row.artwork_id,
+    position: row.position,
+    source_url: row.source_url,
+    hash: row.hash,
+    byte_size: row.byte_size,
+    content_type: row.content_type || undefined,
+    archived_at: row.archived_at.toISOString()
+  };
+}
+
+export async function getArchivedImages(user_id: number, artwork_id?: number): Promise<ArchivedImage[]> {
+  const result = await query(
+    `SELECT aw.id AS artwork_id, ai.position, ai.source_url, ai.hash, ai.byte_size, ai.content_type, ai.archived_at
+     FROM archived_images ai
+     JOIN artworks aw ON aw.user_id = ai.user_id AND aw.catalog_artwork_id = ai.catalog_artwork_id
+     WHERE ai.user_id = $1 AND ($2::INTEGER IS NULL OR aw.id = $2)
+     ORDER BY aw.id, ai.position`,
+    [user_id, artwork_id ?? null]
+  );
+  return result.rows.map(rowToArchivedImage);
+}
+
+export async function saveArchivedImage(user_id: number, image: ArchivedImage): Promise<boolean> {
+  const result = await query(
+    `INSERT INTO archived_images
+       (user_id, catalog_artwork_id, position, source_url, hash, byte_size, content_type, archived_at)
+     SELECT user_id, catalog_artwork_id, $1, $2, $3, $4, $5, $6
+     FROM artworks WHERE id = $7 AND user_id = $8
+     ON CONFLICT (user_id, catalog_artwork_id, position) DO UPDATE SET
+       source_url = EXCLUDED.source_url,
+       hash = EXCLUDED.hash,
+       byte_size = EXCLUDED.byte_size,
+       content_type = EXCLUDED.content_type,
+       archived_at = EXCLUDED.archived_at`,
+    [
+      image.position,
+      image.source_url,
+      image.hash,
+      image.byte_size,
+      image.content_type || null,
+      new Date(image.archived_at),
+      image.artwork_id,
+      user_id
+    ]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function getImageArchiveUsage(user_id: number): Promise<ImageArchiveUsage> {
+  const result = await query(
+    'SELECT COUNT(*) AS files, COALESCE(SUM(byte_size), 0) AS bytes FROM archived_images WHERE user_id = $1',
+    [user_id]
+  );
+  return { files: parseInt(result.rows[0].files), bytes: parseInt(result.rows[0].bytes) };
+}
+
+export async function deleteOrphanedArchivedImages(): Promise<number> {
+  const result = await query(
+    `DELETE FROM archived_images ai
+     WHERE NOT EXISTS (
+       SELECT 1 FROM artworks aw WHERE aw.user_id = ai.user_id AND aw.catalog_artwork_id = ai.catalog_artwork_id
+     )
+     AND NOT EXISTS (
+       SELECT 1 FROM deleted_artworks dw WHERE dw.user_id = ai.user_id AND dw.catalog_artwork_id = ai.catalog_artwork_id
+     )`
+  );
+  return result.rowCount ?? 0;
+}
+
+export async function getArchivedImageHashes(): Promise<Set<string>> {
+  const result = await query('SELECT DISTINCT hash FROM archived_images');
+  return new Set(result.rows.map((row: any) => row.hash));
+}
+
+export async function saveArtworkDetails(catalog_artist_id: number, artwork_id: string, details: ArtworkDetails): Promise<boolean> {
+  const catalog = await query(
+    'SELECT id FROM catalog_artworks WHERE catalog_artist_id = $1 AND artwork_id = $2',
+    [catalog_artist_id, artwork_id]
+  );
+  if (catalog.rows.length === 0) return false;
+  const catalogArtworkId = catalog.rows[0].id;
+
+  await query(
+    `INSERT INTO catalog_artwork_details
+       (catalog_artwork_id, description, tags, mediums, software, categories, likes_count, views_count, fetched_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     ON CONFLICT (catalog_artwork_id) DO UPDATE SET
+       description = EXCLUDED.description,
+       tags = EXCLUDED.tags,
+       mediums = EXCLUDED.mediums,
+       software = EXCLUDED.software,
+       categories = EXCLUDED.categories,
+       likes_count = EXCLUDED.likes_count,
+       views_count = EXCLUDED.views_count,
+       fetched_at = EXCLUDED.fetched_at`,
+    [
+      catalogArtworkId,
+      details.description || null,
+      JSON.stringify(details.tags),
+      JSON.stringify(details.mediums),
+      JSON.stringify(details.software),
+      JSON.stringify(details.categories),
+      details.likes_count ?? null,
+      details.views_count ?? null,
+      new Date(details.fetched_at)
+    ]
+  );
+
+  // Replace the assets in one statement
+  await query(
+    `WITH cleared AS (
+       DELETE FROM catalog_artwork_assets WHERE catalog_artwork_id = $1
+     )
+     INSERT INTO catalog_artwork_assets (catalog_artwork_id, position, asset_type, image_url, video_url, width, height, title)
+     SELECT $1, a.position, a.asset_type, a.image_url, a.video_url, a.width, a.height, a.title
+     FROM jsonb_to_recordset($2::jsonb)
+       AS a(position INTEGER, asset_type TEXT, image_url TEXT, video_url TEXT, width INTEGER, height INTEGER, title TEXT)`,
+    [catalogArtworkId, JSON.stringify(details.assets)]
+  );
+
+  return true;
+}
+
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`;
+
+// Uses the search_vector columns from migrations/007_artwork_search.sql
+export async function searchArtworks(user_id: number, searchQuery: ArtworkSearchQuery): Promise<ArtworkSearchResult[]> {
+  const terms = parseSearchTerms(searchQuery.q);
+  if (terms.length === 0) return [];
+
+  // Terms only contain letters and digits, so they are safe to_tsquery input; :* makes them prefix matches
+  const params: any[] = [user_id, terms.map(term => `${term}:*`).join(' & '), HEADLINE_OPTIONS];
+  const conditions = ['aw.user_id = $1', '(cw.removed_at IS NULL OR aw.is_favorite = 1)'];
+
+  if (searchQuery.artist_id) {
+    params.push(searchQuery.artist_id);
+    conditions.push(`aw.artist_id = $${params.length}`);
+  }
+  if (searchQuery.new_only) {
+    conditions.push('aw.is_new = 1');
+  }
+  if (searchQuery.favorites_only) {
+    conditions.push('aw.is_favorite = 1');
+  }
+  params.push(searchQuery.limit);
+
+  // The OR lets each GIN index narrow the rows; the combined vector then requires
+  // every term to match in either the title or the artist name
+  const result = await query(
+    `SELECT aw.id, aw.user_id, aw.artist_id, aw.is_new, aw.is_favorite, aw.discovered_at,
+            cw.artwork_id, cw.title, cw.thumbnail_url, cw.high_quality_image_url, cw.artwork_url,
+            cw.upload_date, cw.last_updated_at, cw.removed_at, ca.username, ca.display_name,
+            ts_rank(cw.search_vector || ca.search_vector, q.query) AS rank,
+            ts_headline('simple', cw.title, q.query, $3) AS title_highlight,
+            ts_headline('simple', ca.username, q.query, $3) AS artist_highlight
+     FROM artworks aw
+     JOIN catalog_artworks cw ON cw.id = aw.catalog_artwork_id
+     JOIN artists a ON a.id = aw.artist_id
+     JOIN catalog_artists ca ON ca.id = a.catalog_artist_id
+     CROSS JOIN to_tsquery('simple', $2) AS q(query)
+     WHERE ${conditions.join(' AND ')}
+       AND (cw.search_vector @@ q.query OR ca.search_vector @@ q.query)
+       AND (cw.search_vector || ca.search_vector) @@ q.query
+     ORDER BY rank DESC, COALESCE(cw.upload_date, aw.discovered_at) DESC
+     LIMIT $${params.length}`,
+    params
+  );
+
+  return result.rows.map((row: any) => ({
+    ...rowToArtwork(row),
+    username: row.username,
+    display_name: row.display_name || undefined,
+    rank: row.rank,
+    title_highlight: row.title_highlight,
+    artist_highlight: row.artist_highlight
+  }));
+}
+
+// Date an artwork is sorted and range-filtered by
+const ARTWORK_DATE_EXPR: Record<ArtworkSort, string> = {
+  upload_date: 'COALESCE(cw.upload_date, aw.discovered_at)',
+  discovered_at: 'aw.discovered_at',
+  last_updated_at: 'COALESCE(cw.last_updated_at, cw.upload_date, aw.discovered_at)',
+  artist: 'COALESCE(cw.upload_date, aw.discovered_at)'
+};
+
+export async function getArtworksPage(user_id: number, pageQuery: ArtworkPageQuery): Promise<ArtworkPage> {
+  const isArtistSort = pageQuery.sort === 'artist';
+  const dateExpr = ARTWORK_DATE_EXPR[pageQuery.sort];
+  // Artworks the artist took down only stay listed as favorites
+  const conditions = ['aw.user_id = $1', '(cw.removed_at IS NULL OR aw.is_favorite = 1)'];
+  const params: any[] = [user_id];
+
+  if (pageQuery.artist_id) {
+    params.push(pageQuery.artist_id);
+    conditions.push(`aw.artist_id = $${params.length}`);
+  }
+  if (pageQuery.new_only) {
+    conditions.push('aw.is_new = 1');
+  }
+  if (pageQuery.favorites_only) {
+    conditions.push('aw.is_favorite = 1');
+  }
+
+  const pageConditions: string[] = [];
+  if (pageQuery.from) {
+    params.push(pageQuery.from);
+    pageConditions.push(`filter_date >= $${params.length}::timestamp`);
+  }
+  if (pageQuery.to) {
+    params.push(pageQuery.to);
+    pageConditions.push(`filter_date <= $${params.length}::timestamp`);
+  }
+  if (pageQuery.after) {
+    params.push(pageQuery.after.value, pageQuery.after.id);
+    pageConditions.push(
+      `(sort_key, id) ${pageQuery.order === 'asc' ? '>' : '<'} ($${params.length - 1}${isArtistSort ? '' : '::timestamp'}, $${params.length})`
+    );
+  }
+  params.push(pageQuery.limit + 1);
+
+  const direction = pageQuery.order === 'asc' ? 'ASC' : 'DESC';
+  const result = await query(
+    `SELECT page.*,
+            ${isArtistSort ? 'sort_key' : `to_char(sort_key, 'YYYY-MM-DD"T"HH24:MI:SS.US')`} AS sort_cursor
+     FROM (
+       SELECT ${pageQuery.latest_per_artist ? 'DISTINCT ON (aw.artist_id)' : ''}
+              aw.id, aw.user_id, aw.artist_id, aw.is_new, aw.is_favorite, aw.discovered_at,
+              cw.artwork_id, cw.title, cw.thumbnail_url, cw.high_quality_image_url, cw.artwork_url,
+              cw.upload_date, cw.last_updated_at, cw.removed_at, ca.username, ca.display_name,
+              ${isArtistSort ? 'LOWER(ca.username)' : dateExpr} AS sort_key,
+              ${dateExpr} AS filter_date
+       FROM artworks aw
+       JOIN catalog_artworks cw ON cw.id = aw.catalog_artwork_id
+       JOIN artists a ON a.id = aw.artist_id
+       JOIN catalog_artists ca ON ca.id = a.catalog_artist_id
+       WHERE ${conditions.join(' AND ')}
+       ${pageQuery.latest_per_artist ? 'ORDER BY aw.artist_id, COALESCE(cw.upload_date, aw.discovered_at) DESC, aw.id DESC' : ''}
+     ) page
+     ${pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : ''}
+     ORDER BY sort_key ${direction}, id ${direction}
+     LIMIT $${params.length}`,
+    params
+  );
+
+  const hasMore = result.rows.length > pageQuery.limit;
+  const rows = result.rows.slice(0, pageQuery.limit);
+  const last = rows[rows.length - 1];
+
+  return {
+    artworks: rows.map((row: any) => ({
+      ...rowToArtwork(row),
+      username: row.username,
+      display_name: row.display_name || undefined
+    })),
+    next: hasMore ? { value: last.sort_cursor, id: last.id } : null
+  };
+}
+
 export async function addArtwork(
   user_id: number,
   artist_id: number,
@@ -398,153 +1217,145 @@ export async function addArtwork(
   high_quality_image_url?: string,
   options: AddArtworkOptions = {}
 ): Promise<{ artwork: Artwork | null; isNew: boolean; wasUpdated?: boolean; skipped?: boolean }> {
-  const { allowInsert = true, markUpdatesAsNew = true } = options;
-  
+  const { allowInsert = true, markUpdatesAsNew = true, catalogOnly = false } = options;
+
   // Get artist username for favorite lookup
-  const artistResult = await query('SELECT username FROM artists WHERE id = $1 AND user_id = $2', [artist_id, user_id]);
+  const artistResult = await query(
+    `SELECT a.catalog_artist_id, ca.username
+     FROM artists a
+     JOIN catalog_artists ca ON ca.id = a.catalog_artist_id
+     WHERE a.id = $1 AND a.user_id = $2`,
+    [artist_id, user_id]
+  );
   if (artistResult.rows.length === 0) {
     throw new Error('Artist not found');
   }
-  const artist_username = artistResult.rows[0].username;
-  
+  const { catalog_artist_id, username: artist_username } = artistResult.rows[0];
+
   // Check if this should be a favorite from persistent storage
   const shouldBeFavorite = await isPersistentFavorite(user_id, artist_username, artwork_id);
-  
-  // Check if artwork already exists
-  const existingResult = await query(
-    'SELECT * FROM artworks WHERE user_id = $1 AND artist_id = $2 AND artwork_id = $3',
-    [user_id, artist_id, artwork_id]
+
+  // Check if artwork already exists in the catalog and for this user
+  const catalogResult = await query(
+    'SELECT * FROM catalog_artworks WHERE catalog_artist_id = $1 AND artwork_id = $2',
+    [catalog_artist_id, artwork_id]
   );
+  let catalogRow = catalogResult.rows[0];
+  const existingResult = catalogRow
+    ? await query('SELECT * FROM artworks WHERE user_id = $1 AND catalog_artwork_id = $2', [user_id, catalogRow.id])
+    : null;
+  const row = existingResult?.rows[0];
 
-  if (existingResult.rows.length > 0) {
-    const row = existingResult.rows[0];
-    const newUploadDate = upload_date ? new Date(upload_date) : null;
-    
-    // Restore favorite status if it should be a favorite
-    const favoriteStatus = shouldBeFavorite ? 1 : (row.is_favorite || 0);
-    
+  if (!row && (!allowInsert || (catalogOnly && !catalogRow))) {
+    return {
+      artwork: null,
+      isNew: false,
+      wasUpdated: false,
+      skipped: true
+    };
+  }
+
+  if (catalogRow && !catalogOnly) {
     // Only check for meaningful content changes (ignore timestamp-only changes)
-    const titleChanged = row.title !== title;
-    const thumbChanged = row.thumbnail_url !== thumbnail_url;
-    const highQualityChanged = (row.high_quality_image_url || null) !== (high_quality_image_url || null);
-    const urlChanged = row.artwork_url !== artwork_url;
-    const favoriteChanged = (row.is_favorite || 0) !== favoriteStatus;
+    const titleChanged = catalogRow.title !== title;
+    const thumbChanged = catalogRow.thumbnail_url !== thumbnail_url;
+    const highQualityChanged = (catalogRow.high_quality_image_url || null) !== (high_quality_image_url || null);
+    const urlChanged = catalogRow.artwork_url !== artwork_url;
 
-    // Only mark as updated if actual content changed (title, images, URL, or favorite status)
     // We ignore upload_date and updated_at changes to prevent false positives
-    if (titleChanged || thumbChanged || highQualityChanged || urlChanged || favoriteChanged) {
+    // The previous values are kept in artwork_revisions (same statement, so nothing is lost between the two)
+    if (titleChanged || thumbChanged || highQualityChanged || urlChanged) {
       const updateResult = await query(
-        `UPDATE artworks
+        `WITH previous AS (
+           INSERT INTO artwork_revisions (catalog_artwork_id, revision, title, thumbnail_url, high_quality_image_url,
+                                          artwork_url, upload_date, last_updated_at)
+           SELECT id, revision, title, thumbnail_url, high_quality_image_url, artwork_url, upload_date, last_updated_at
+           FROM catalog_artworks WHERE id = $7
+         )
+         UPDATE catalog_artworks
          SET title = $1,
              thumbnail_url = $2,
              high_quality_image_url = $3,
              artwork_url = $4,
              upload_date = $5,
              last_updated_at = $6,
-             is_new = CASE WHEN $7 THEN 1 ELSE is_new END,
-             is_favorite = $8
-         WHERE id = $9
+             revision = revision + 1
+         WHERE id = $7
          RETURNING *`,
         [
-          title, 
-          thumbnail_url, 
-          high_quality_image_url || null, 
-          artwork_url, 
-          newUploadDate, 
-          updated_at ? new Date(updated_at) : row.last_updated_at, 
-          markUpdatesAsNew,
-          favoriteStatus,
-          row.id
+          title,
+          thumbnail_url,
+          high_quality_image_url || null,
+          artwork_url,
+          upload_date ? new Date(upload_date) : null,
+          updated_at ? new Date(updated_at) : catalogRow.last_updated_at,
+          catalogRow.id
         ]
       );
-      const updated = updateResult.rows[0];
+      catalogRow = updateResult.rows[0];
+    }
+  } else if (!catalogRow) {
+    const insertResult = await query(
+      `INSERT INTO catalog_artworks (catalog_artist_id, artwork_id, title, thumbnail_url, high_quality_image_url,
+                                     artwork_url, upload_date, last_updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (catalog_artist_id, artwork_id) DO UPDATE SET title = EXCLUDED.title
+       RETURNING *`,
+      [
+        catalog_artist_id,
+        artwork_id,
+        title,
+        thumbnail_url,
+        high_quality_image_url || null,
+        artwork_url,
+        upload_date ? new Date(upload_date) : null,
+        updated_at ? new Date(updated_at) : upload_date ? new Date(upload_date) : new Date()
+      ]
+    );
+    catalogRow = insertResult.rows[0];
+  }
+
+  if (row) {
+    // Restore favorite status if it should be a favorite
+    const favoriteStatus = shouldBeFavorite ? 1 : (row.is_favorite || 0);
+
+    // A newer revision also covers edits picked up while scraping for another follower
+    const revisionChanged = row.synced_revision < catalogRow.revision;
+    const favoriteChanged = (row.is_favorite || 0) !== favoriteStatus;
+
+    if (revisionChanged || favoriteChanged) {
+      await query(
+        `UPDATE artworks
+         SET synced_revision = $1,
+             is_new = CASE WHEN $2 THEN 1 ELSE is_new END,
+             is_favorite = $3
+         WHERE id = $4`,
+        [catalogRow.revision, markUpdatesAsNew, favoriteStatus, row.id]
+      );
       return {
-        artwork: {
-          id: updated.id,
-          user_id: updated.user_id,
-          artist_id: updated.artist_id,
-          artwork_id: updated.artwork_id,
-          title: updated.title,
-          thumbnail_url: updated.thumbnail_url,
-          high_quality_image_url: updated.high_quality_image_url || undefined,
-          artwork_url: updated.artwork_url,
-          upload_date: updated.upload_date ? updated.upload_date.toISOString() : undefined,
-          last_updated_at: updated.last_updated_at ? updated.last_updated_at.toISOString() : undefined,
-          is_new: updated.is_new,
-          is_favorite: updated.is_favorite || 0,
-          discovered_at: updated.discovered_at.toISOString()
-        },
+        artwork: await getArtworkRow(row.id),
         isNew: false,
         wasUpdated: true
       };
     }
 
     return {
-      artwork: {
-        id: row.id,
-        user_id: row.user_id,
-        artist_id: row.artist_id,
-        artwork_id: row.artwork_id,
-        title: row.title,
-        thumbnail_url: row.thumbnail_url,
-        high_quality_image_url: row.high_quality_image_url || undefined,
-        artwork_url: row.artwork_url,
-        upload_date: row.upload_date ? row.upload_date.toISOString() : undefined,
-        last_updated_at: row.last_updated_at ? row.last_updated_at.toISOString() : undefined,
-        is_new: row.is_new,
-        is_favorite: favoriteStatus,
-        discovered_at: row.discovered_at.toISOString()
-      },
+      artwork: await getArtworkRow(row.id),
       isNew: false,
       wasUpdated: false
     };
   }
 
-  if (!allowInsert) {
-    return {
-      artwork: null,
-      isNew: false,
-      wasUpdated: false,
-      skipped: true
-    };
-  }
-
   // Insert new artwork with favorite status if it should be a favorite
   const favoriteValue = shouldBeFavorite ? 1 : 0;
   const result = await query(
-    `INSERT INTO artworks (user_id, artist_id, artwork_id, title, thumbnail_url, high_quality_image_url, artwork_url, upload_date, last_updated_at, is_new, is_favorite)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 1, $10) RETURNING *`,
-    [
-      user_id,
-      artist_id,
-      artwork_id,
-      title,
-      thumbnail_url,
-      high_quality_image_url || null,
-      artwork_url,
-      upload_date ? new Date(upload_date) : null,
-      updated_at ? new Date(updated_at) : upload_date ? new Date(upload_date) : new Date(),
-      favoriteValue
-    ]
+    `INSERT INTO artworks (user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision)
+     VALUES ($1, $2, $3, 1, $4, $5) RETURNING id`,
+    [user_id, artist_id, catalogRow.id, favoriteValue, catalogRow.revision]
   );
 
-  const row = result.rows[0];
   return {
-    artwork: {
-      id: row.id,
-      user_id: row.user_id,
-      artist_id: row.artist_id,
-      artwork_id: row.artwork_id,
-      title: row.title,
-      thumbnail_url: row.thumbnail_url,
-      high_quality_image_url: row.high_quality_image_url || undefined,
-      artwork_url: row.artwork_url,
-      upload_date: row.upload_date ? row.upload_date.toISOString() : undefined,
-      last_updated_at: row.last_updated_at ? row.last_updated_at.toISOString() : undefined,
-      is_new: row.is_new,
-      is_favorite: row.is_favorite || 0,
-      discovered_at: row.discovered_at.toISOString()
-    },
+    artwork: await getArtworkRow(result.rows[0].id),
     isNew: true,
     wasUpdated: false
   };
@@ -569,7 +1380,13 @@ export async function markAllArtworksSeen(user_id: number, artist_id?: number):
 }
 
 export async function getNewArtworksCount(user_id: number): Promise<number> {
-  const result = await query('SELECT COUNT(*) as count FROM artworks WHERE user_id = $1 AND is_new = 1', [user_id]);
+  const result = await query(
+    `SELECT COUNT(*) as count
+     FROM artworks aw
+     JOIN catalog_artworks cw ON cw.id = aw.catalog_artwork_id
+     WHERE aw.user_id = $1 AND aw.is_new = 1 AND (cw.removed_at IS NULL OR aw.is_favorite = 1)`,
+    [user_id]
+  );
   return parseInt(result.rows[0].count, 10);
 }
 
@@ -578,7 +1395,9 @@ export async function deleteAllArtworks(user_id: number): Promise<number> {
   return result.rowCount || 0;
 }
 
+// Permanent, including the user's trash
 export async function deleteAllArtists(user_id: number): Promise<number> {
+  await query('DELETE FROM deleted_artists WHERE user_id = $1', [user_id]);
   const result = await query('DELETE FROM artists WHERE user_id = $1', [user_id]);
   return result.rowCount || 0;
 }
@@ -587,7 +1406,7 @@ export async function getPublicFeaturedArtworks(limit: number = 10): Promise<Pub
   const filteredQuery = `
     SELECT 
       a.id,
-      a.artist_id,
+      a.catalog_artist_id AS artist_id,
       a.title,
       a.thumbnail_url,
       a.artwork_url,
@@ -595,9 +1414,9 @@ export async function getPublicFeaturedArtworks(limit: number = 10): Promise<Pub
       a.discovered_at,
       ar.display_name,
       ar.username
-    FROM artworks a
-    INNER JOIN artists ar ON ar.id = a.artist_id
-    WHERE a.thumbnail_url IS NOT NULL AND a.thumbnail_url <> ''
+    FROM catalog_artworks a
+    INNER JOIN catalog_artists ar ON ar.id = a.catalog_artist_id
+    WHERE a.removed_at IS NULL AND a.thumbnail_url IS NOT NULL AND a.thumbnail_url <> ''
     ORDER BY RANDOM()
     LIMIT $1
   `;
@@ -605,7 +1424,7 @@ export async function getPublicFeaturedArtworks(limit: number = 10): Promise<Pub
   const fallbackQuery = `
     SELECT 
       a.id,
-      a.artist_id,
+      a.catalog_artist_id AS artist_id,
       a.title,
       a.thumbnail_url,
       a.artwork_url,
@@ -613,8 +1432,9 @@ export async function getPublicFeaturedArtworks(limit: number = 10): Promise<Pub
       a.discovered_at,
       ar.display_name,
       ar.username
-    FROM artworks a
-    INNER JOIN artists ar ON ar.id = a.artist_id
+    FROM catalog_artworks a
+    INNER JOIN catalog_artists ar ON ar.id = a.catalog_artist_id
+    WHERE a.removed_at IS NULL
     ORDER BY RANDOM()
     LIMIT $1
   `;
@@ -640,9 +1460,10 @@ export async function getPublicFeaturedArtworks(limit: number = 10): Promise<Pub
 export async function toggleFavorite(id: number, user_id: number): Promise<boolean> {
   // First check if artwork exists and belongs to user, get artist info too
   const checkResult = await query(
-    `SELECT aw.artwork_id, aw.is_favorite, aw.artwork_url, a.username as artist_username
+    `SELECT cw.artwork_id, aw.is_favorite, cw.artwork_url, ca.username as artist_username
      FROM artworks aw
-     JOIN artists a ON aw.artist_id = a.id
+     JOIN catalog_artworks cw ON cw.id = aw.catalog_artwork_id
+     JOIN catalog_artists ca ON ca.id = cw.catalog_artist_id
      WHERE aw.id = $1 AND aw.user_id = $2`,
     [id, user_id]
   );
@@ -724,17 +1545,35 @@ export async function isPersistentFavorite(
   return result.rows.length > 0;
 }
 
+// List a user's persistent favorites
+export async function getPersistentFavorites(user_id: number): Promise<PersistentFavorite[]> {
+  const result = await query(
+    `SELECT user_id, artist_username, artwork_id, artwork_url
+     FROM persistent_favorites
+     WHERE user_id = $1
+     ORDER BY id`,
+    [user_id]
+  );
+  return result.rows.map((row: any) => ({
+    user_id: row.user_id,
+    artist_username: row.artist_username,
+    artwork_id: row.artwork_id,
+    artwork_url: row.artwork_url
+  }));
+}
+
 // Restore favorite status for all artworks that match persistent favorites
 export async function restoreFavoritesFromPersistent(user_id: number): Promise<number> {
   const result = await query(
     `UPDATE artworks aw
      SET is_favorite = 1
-     FROM artists a, persistent_favorites pf
+     FROM catalog_artworks cw, catalog_artists ca, persistent_favorites pf
      WHERE aw.user_id = $1
-       AND aw.artist_id = a.id
+       AND cw.id = aw.catalog_artwork_id
+       AND ca.id = cw.catalog_artist_id
        AND pf.user_id = aw.user_id
-       AND LOWER(pf.artist_username) = LOWER(a.username)
-       AND pf.artwork_id = aw.artwork_id
+       AND LOWER(pf.artist_username) = LOWER(ca.username)
+       AND pf.artwork_id = cw.artwork_id
        AND (aw.is_favorite IS NULL OR aw.is_favorite = 0)`,
     [user_id]
   );
@@ -746,3 +1585,303 @@ export async function restoreAllFavoritesForUser(user_id: number): Promise<numbe
   return await restoreFavoritesFromPersistent(user_id);
 }
 
+// Scrape job queue operations
+function rowToScrapeJobItem(row: any): ScrapeJobItem {
+  return {
+    id: row.id,
+    job_id: row.job_id,
+    target_id: row.target_id,
+    label: row.label,
+    status: row.status,
+    attempts: row.attempts,
+    next_attempt_at: row.next_attempt_at.toISOString(),
+    last_error: row.last_error || undefined,
+    result: row.result ?? undefined,
+    finished_at: row.finished_at ? row.finished_at.toISOString() : undefined
+  };
+}
+
+async function rowsToScrapeJobs(rows: any[]): Promise<ScrapeJob[]> {
+  if (rows.length === 0) return [];
+
+  const items = await query(
+    'SELECT * FROM scrape_job_items WHERE job_id = ANY($1::int[]) ORDER BY id',
+    [rows.map(row => row.id)]
+  );
+  const itemsByJob = new Map<number, ScrapeJobItem[]>();
+  for (const itemRow of items.rows) {
+    const list = itemsByJob.get(itemRow.job_id) || [];
+    list.push(rowToScrapeJobItem(itemRow));
+    itemsByJob.set(itemRow.job_id, list);
+  }
+
+  return rows.map(row => ({
+    id: row.id,
+    type: row.type,
+    user_id: row.user_id ?? null,
+    status: row.status,
+    payload: row.payload,
+    created_at: row.created_at.toISOString(),
+    started_at: row.started_at ? row.started_at.toISOString() : undefined,
+    finished_at: row.finished_at ? row.finished_at.toISOString() : undefined,
+    items: itemsByJob.get(row.id) || []
+  }));
+}
+
+export async function createScrapeJob(
+  type: ScrapeJobType,
+  user_id: number | null,
+  payload: any,
+  items: Array<{ target_id: number; label: string }>
+): Promise<ScrapeJob> {
+  const result = await query(
+    `WITH job AS (
+       INSERT INTO scrape_jobs (type, user_id, payload) VALUES ($1, $2, $3) RETURNING *
+     ), inserted AS (
+       INSERT INTO scrape_job_items (job_id, target_id, label)
+       SELECT job.id, i.target_id, i.label
+       FROM job, jsonb_to_recordset($4::jsonb) AS i(target_id INTEGER, label TEXT)
+     )
+     SELECT * FROM job`,
+    [type, user_id, JSON.stringify(payload ?? {}), JSON.stringify(items)]
+  );
+  return (await getScrapeJob(result.rows[0].id))!;
+}
+
+export async function getScrapeJob(id: number): Promise<ScrapeJob | undefined> {
+  const result = await query('SELECT * FROM scrape_jobs WHERE id = $1', [id]);
+  return (await rowsToScrapeJobs(result.rows))[0];
+}
+
+export async function getScrapeJobs(filter: ScrapeJobFilter = {}): Promise<ScrapeJob[]> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filter.user_id === null) {
+    conditions.push('user_id IS NULL');
+  } else if (filter.user_id !== undefined) {
+    params.push(filter.user_id);
+    conditions.push(`user_id = $${params.length}`);
+  }
+  if (filter.statuses) {
+    params.push(filter.statuses);
+    conditions.push(`status = ANY($${params.length}::text[])`);
+  }
+
+  let queryText = 'SELECT * FROM scrape_jobs';
+  if (conditions.length > 0) {
+    queryText += ` WHERE ${conditions.join(' AND ')}`;
+  }
+  queryText += ' ORDER BY id DESC';
+  if (filter.limit) {
+    params.push(filter.limit);
+    queryText += ` LIMIT $${params.length}`;
+  }
+
+  const result = await query(queryText, params);
+  return rowsToScrapeJobs(result.rows);
+}
+
+export async function updateScrapeJob(id: number, updates: ScrapeJobUpdate): Promise<boolean> {
+  const fields: string[] = [];
+  const values: any[] = [];
+
+  if (updates.status !== undefined) {
+    values.push(updates.status);
+    fields.push(`status = $${values.length}`);
+  }
+  if (updates.started_at !== undefined) {
+    values.push(new Date(updates.started_at));
+    fields.push(`started_at = $${values.length}`);
+  }
+  if (updates.finished_at !== undefined) {
+    values.push(new Date(updates.finished_at));
+    fields.push(`finished_at = $${values.length}`);
+  }
+  if (fields.length === 0) return false;
+
+  values.push(id);
+  const result = await query(`UPDATE scrape_jobs SET ${fields.join(', ')} WHERE id = $${values.length}`, values);
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function updateScrapeJobItem(id: number, updates: ScrapeJobItemUpdate): Promise<boolean> {
+  const fields: string[] = [];
+  const values: any[] = [];
+
+  if (updates.status !== undefined) {
+    values.push(updates.status);
+    fields.push(`status = $${values.length}`);
+  }
+  if (updates.attempts !== undefined) {
+    values.push(updates.attempts);
+    fields.push(`attempts = $${values.length}`);
+  }
+  if (updates.next_attempt_at !== undefined) {
+    values.push(new Date(updates.next_attempt_at));
+    fields.push(`next_attempt_at = $${values.length}`);
+  }
+  if (updates.last_error !== undefined) {
+    values.push(updates.last_error);
+    fields.push(`last_error = $${values.length}`);
+  }
+  if (updates.result !== undefined) {
+    values.push(JSON.stringify(updates.result));
+    fields.push(`result = $${values.length}`);
+  }
+  if (updates.finished_at !== undefined) {
+    values.push(new Date(updates.finished_at));
+    fields.push(`finished_at = $${values.length}`);
+  }
+  if (fields.length === 0) return false;
+
+  values.push(id);
+  const result = await query(`UPDATE scrape_job_items SET ${fields.join(', ')} WHERE id = $${values.length}`, values);
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function deleteScrapeJobsFinishedBefore(before: string): Promise<number> {
+  const result = await query(
+    "DELETE FROM scrape_jobs WHERE status IN ('completed', 'failed') AND finished_at < $1",
+    [new Date(before)]
+  );
+  return result.rowCount ?? 0;
+}
+
+// Scrape history operations
+function rowToScrapeRun(row: any): ScrapeRun {
+  return {
+    id: row.id,
+    job_id: row.job_id,
+    type: row.type,
+    trigger: row.trigger,
+    user_id: row.user_id ?? null,
+    status: row.status,
+    created_at: row.created_at.toISOString(),
+    started_at: row.started_at ? row.started_at.toISOString() : undefined,
+    finished_at: row.finished_at ? row.finished_at.toISOString() : undefined,
+    duration_ms: row.duration_ms ?? undefined,
+    total: row.total,
+    completed: row.completed,
+    skipped: row.skipped,
+    failed: row.failed,
+    new_artworks: row.new_artworks,
+    updated_artworks: row.updated_artworks
+  };
+}
+
+function rowToScrapeOutcome(row: any): ScrapeOutcome {
+  return {
+    id: row.id,
+    run_id: row.run_id,
+    catalog_artist_id: row.catalog_artist_id ?? null,
+    username: row.username,
+    attempt: row.attempt,
+    status: row.status,
+    pages_fetched: row.pages_fetched,
+    new_artworks: row.new_artworks,
+    updated_artworks: row.updated_artworks,
+    duration_ms: row.duration_ms,
+    reason: row.reason || undefined,
+    error: row.error || undefined,
+    block_reason: row.block_reason || undefined,
+    created_at: row.created_at.toISOString()
+  };
+}
+
+export async function createScrapeRun(run: NewScrapeRun): Promise<ScrapeRun> {
+  const result = await query(
+    'INSERT INTO scrape_runs (job_id, type, trigger, user_id, total) VALUES ($1, $2, $3, $4, $5) RETURNING *',
+    [run.job_id, run.type, run.trigger, run.user_id, run.total]
+  );
+  return rowToScrapeRun(result.rows[0]);
+}
+
+export async function getScrapeRun(id: number): Promise<ScrapeRun | undefined> {
+  const result = await query('SELECT * FROM scrape_runs WHERE id = $1', [id]);
+  return result.rows[0] ? rowToScrapeRun(result.rows[0]) : undefined;
+}
+
+export async function getScrapeRunForJob(job_id: number): Promise<ScrapeRun | undefined> {
+  const result = await query('SELECT * FROM scrape_runs WHERE job_id = $1 ORDER BY id DESC LIMIT 1', [job_id]);
+  return result.rows[0] ? rowToScrapeRun(result.rows[0]) : undefined;
+}
+
+export async function getScrapeRuns(user_id: number, limit: number): Promise<ScrapeRun[]> {
+  const result = await query(
+    'SELECT * FROM scrape_runs WHERE user_id IS NULL OR user_id = $1 ORDER BY id DESC LIMIT $2',
+    [user_id, limit]
+  );
+  return result.rows.map(rowToScrapeRun);
+}
+
+export async function updateScrapeRun(id: number, updates: ScrapeRunUpdate): Promise<boolean> {
+  const fields: string[] = [];
+  const values: any[] = [];
+
+  for (const key of ['started_at', 'finished_at'] as const) {
+    if (updates[key] !== undefined) {
+      values.push(new Date(updates[key]!));
+      fields.push(`${key} = $${values.length}`);
+    }
+  }
+  for (const key of [
+    'status', 'duration_ms', 'total', 'completed', 'skipped', 'failed', 'new_artworks', 'updated_artworks'
+  ] as const) {
+    if (updates[key] !== undefined) {
+      values.push(updates[key]);
+      fields.push(`${key} = $${values.length}`);
+    }
+  }
+  if (fields.length === 0) return false;
+
+  values.push(id);
+  const result = await query(`UPDATE scrape_runs SET ${fields.join(', ')} WHERE id = $${values.length}`, values);
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function addScrapeOutcome(outcome: NewScrapeOutcome): Promise<void> {
+  await query(
+    `INSERT INTO scrape_run_outcomes (
+       run_id, catalog_artist_id, username, attempt, status, pages_fetched, new_artworks,
+       updated_artworks, duration_ms, reason, error, block_reason
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+    [
+      outcome.run_id,
+      outcome.catalog_artist_id,
+      outcome.username,
+      outcome.attempt,
+      outcome.status,
+      outcome.pages_fetched,
+      outcome.new_artworks,
+      outcome.updated_artworks,
+      outcome.duration_ms,
+      outcome.reason ?? null,
+      outcome.error ?? null,
+      outcome.block_reason ?? null
+    ]
+  );
+}
+
+export async function getScrapeOutcomes(run_id: number): Promise<ScrapeOutcome[]> {
+  const result = await query('SELECT * FROM scrape_run_outcomes WHERE run_id = $1 ORDER BY id', [run_id]);
+  return result.rows.map(rowToScrapeOutcome);
+}
+
+export async function getArtistScrapeHistory(catalog_artist_id: number, user_id: number, limit: number): Promise<ScrapeHistoryEntry[]> {
+  const result = await query(
+    `SELECT o.*, r.type, r.trigger
+     FROM scrape_run_outcomes o
+     JOIN scrape_runs r ON r.id = o.run_id
+     WHERE o.catalog_artist_id = $1 AND (r.user_id IS NULL OR r.user_id = $2)
+     ORDER BY o.id DESC
+     LIMIT $3`,
+    [catalog_artist_id, user_id, limit]
+  );
+  return result.rows.map(row => ({ ...rowToScrapeOutcome(row), type: row.type, trigger: row.trigger }));
+}
+
+export async function deleteScrapeRunsFinishedBefore(before: string): Promise<number> {
+  const result = await query('DELETE FROM scrape_runs WHERE finished_at < $1', [new Date(before)]);
+  return result.rowCount ?? 0;
+}
@@ -0,0 +1,2009 @@
+// SQLite database (for small self-hosted instances)
+// Selected with DATABASE_URL=sqlite:./data/arttracker.db
+// better-sqlite3 is synchronous, so these functions mirror the JSON adapter's sync signatures
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import Database from 'better-sqlite3';
+import type {
+  PublicFeaturedArtwork,
+  ArtworkRevision,
+  ArtworkHistory,
+  ArtworkPageQuery,
+  ArtworkPage,
+  ArtworkSort,
+  ArtworkSearchQuery,
+  ArtworkSearchResult,
+  ArtworkAsset,
+  ArtworkDetails,
+  ArtworkWithDetails,
+  TrashedArtist,
+  ScrapeJob,
+  ScrapeJobFilter,
+  ScrapeJobItem,
+  ScrapeJobItemUpdate,
+  ScrapeJobType,
+  ScrapeJobUpdate,
+  ScrapeRun,
+  ScrapeRunUpdate,
+  NewScrapeRun,
+  ScrapeOutcome,
+  NewScrapeOutcome,
+  ScrapeHistoryEntry,
+  ArtistAccountStatus,
+  ArtistSource,
+  RemovedArtworksSync,
+  ArtistProfile,
+  FollowerCountPoint,
+  ArchivedImage,
+  ImageArchiveMode,
+  ImageArchiveUsage,
+  CatalogImageHash,
+  ArtworkImageHash,
+  CatalogAccount
+} from './database';
+import { ARTIST_WEIGHT, TITLE_WEIGHT, highlightMatches, parseSearchTerms, scoreDocument } from './utils/textSearch';
+
+export interface User {
+  id: number;
+  username: string;
+  artstation_username?: string;
+  token: string;
+  created_at: string;
+  discord_webhook_url?: string;
+  discord_user_id?: string;
+  notify_removed_artworks?: boolean;
+  image_archive?: ImageArchiveMode;
+  mute_repost_notifications?: boolean;
+}
+
+export interface Artist {
+  id: number;
+  user_id: number;
+  catalog_artist_id: number;
+  source: ArtistSource;
+  username: string;
+  feed_url?: string;
+  display_name?: string;
+  profile_url: string;
+  avatar_url?: string;
+  last_checked?: string;
+  account_status: ArtistAccountStatus;
+  account_status_changed_at?: string;
+  previous_username?: string;
+  check_interval_hours?: number;
+  next_check_at?: string;
+  created_at: string;
+}
+
+export interface Artwork {
+  id: number;
+  user_id: number;
+  artist_id: number;
+  artwork_id: string;
+  title: string;
+  thumbnail_url: string;
+  high_quality_image_url?: string;
+  artwork_url: string;
+  upload_date?: string;
+  last_updated_at?: string;
+  is_new: number;
+  is_favorite?: number;
+  discovered_at: string;
+  removed_at?: string;
+}
+
+export interface PersistentFavorite {
+  user_id: number;
+  artist_username: string;
+  artwork_id: string;
+  artwork_url: string;
+}
+
+interface AddArtworkOptions {
+  allowInsert?: boolean;
+  markUpdatesAsNew?: boolean;
+  catalogOnly?: boolean;
+}
+
+// Artists and artworks are stored once in the catalog tables and scraped once for everyone.
+// The per-user artists/artworks rows only hold the follow and seen/favorite state.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT UNIQUE NOT NULL COLLATE NOCASE,
+    artstation_username TEXT,
+    token TEXT UNIQUE NOT NULL,
+    created_at TEXT NOT NULL,
+    discord_webhook_url TEXT,
+    discord_user_id TEXT,
+    notify_removed_artworks INTEGER NOT NULL DEFAULT 0,
+    image_archive TEXT NOT NULL DEFAULT 'off',
+    mute_repost_notifications INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS catalog_artists (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT UNIQUE NOT NULL COLLATE NOCASE,
+    source TEXT NOT NULL DEFAULT 'artstation',
+    feed_url TEXT,
+    display_name TEXT,
+    profile_url TEXT NOT NULL,
+    avatar_url TEXT,
+    last_checked TEXT,
+    account_status TEXT NOT NULL DEFAULT 'active',
+    account_status_changed_at TEXT,
+    previous_username TEXT,
+    next_check_at TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS catalog_artworks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    catalog_artist_id INTEGER NOT NULL REFERENCES catalog_artists(id) ON DELETE CASCADE,
+    artwork_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    thumbnail_url TEXT NOT NULL,
+    high_quality_image_url TEXT,
+    artwork_url TEXT NOT NULL,
+    upload_date TEXT,
+    last_updated_at TEXT,
+    revision INTEGER NOT NULL DEFAULT 1,
+    discovered_at TEXT NOT NULL,
+    removed_at TEXT,
+    image_hash TEXT,
+    image_hash_url TEXT,
+    UNIQUE(catalog_artist_id, artwork_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS artists (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    catalog_artist_id INTEGER NOT NULL REFERENCES catalog_artists(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL,
+    UNIQUE(user_id, catalog_artist_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS artworks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    artist_id INTEGER NOT NULL REFERENCES artists(id) ON DELETE CASCADE,
+    catalog_artwork_id INTEGER NOT NULL REFERENCES catalog_artworks(id) ON DELETE CASCADE,
+    is_new INTEGER DEFAULT 1,
+    is_favorite INTEGER DEFAULT 0,
+    synced_revision INTEGER NOT NULL DEFAULT 1,
+    discovered_at TEXT NOT NULL,
+    UNIQUE(user_id, catalog_artwork_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS artwork_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    catalog_artwork_id INTEGER NOT NULL REFERENCES catalog_artworks(id) ON DELETE CASCADE,
+    revision INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    thumbnail_url TEXT NOT NULL,
+    high_quality_image_url TEXT,
+    artwork_url TEXT NOT NULL,
+    upload_date TEXT,
+    last_updated_at TEXT,
+    replaced_at TEXT NOT NULL
+  );
+
+  -- Project page data; list columns hold JSON arrays of names
+  CREATE TABLE IF NOT EXISTS catalog_artwork_details (
+    catalog_artwork_id INTEGER PRIMARY KEY REFERENCES catalog_artworks(id) ON DELETE CASCADE,
+    description TEXT,
+    tags TEXT NOT NULL DEFAULT '[]',
+    mediums TEXT NOT NULL DEFAULT '[]',
+    software TEXT NOT NULL DEFAULT '[]',
+    categories TEXT NOT NULL DEFAULT '[]',
+    likes_count INTEGER,
+    views_count INTEGER,
+    fetched_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS catalog_artwork_assets (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    catalog_artwork_id INTEGER NOT NULL REFERENCES catalog_artworks(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    asset_type TEXT NOT NULL,
+    image_url TEXT,
+    video_url TEXT,
+    width INTEGER,
+    height INTEGER,
+    title TEXT
+  );
+
+  -- Profile page data of a catalog artist; links holds a JSON array of {network, url}
+  CREATE TABLE IF NOT EXISTS catalog_artist_profiles (
+    catalog_artist_id INTEGER PRIMARY KEY REFERENCES catalog_artists(id) ON DELETE CASCADE,
+    headline TEXT,
+    bio TEXT,
+    location TEXT,
+    cover_url TEXT,
+    links TEXT NOT NULL DEFAULT '[]',
+    followers_count INTEGER,
+    following_count INTEGER,
+    fetched_at TEXT NOT NULL
+  );
+
+  -- Follower counts per account and day (YYYY-MM-DD, UTC)
+  CREATE TABLE IF NOT EXISTS artist_follower_counts (
+    catalog_artist_id INTEGER NOT NULL REFERENCES catalog_artists(id) ON DELETE CASCADE,
+    date TEXT NOT NULL,
+    followers_count INTEGER NOT NULL,
+    following_count INTEGER,
+    PRIMARY KEY (catalog_artist_id, date)
+  );
+
+  -- Each user's references to files in the image archive (stored once per hash on disk);
+  -- position 0 is the cover, image assets follow from 1
+  CREATE TABLE IF NOT EXISTS archived_images (
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    catalog_artwork_id INTEGER NOT NULL REFERENCES catalog_artworks(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    source_url TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    byte_size INTEGER NOT NULL,
+    content_type TEXT,
+    archived_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, catalog_artwork_id, position)
+  );
+
+  -- Unfollowed artists and their artworks, kept under their old ids until restored or purged
+  CREATE TABLE IF NOT EXISTS deleted_artists (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    catalog_artist_id INTEGER NOT NULL REFERENCES catalog_artists(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL,
+    deleted_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS deleted_artworks (
+    id INTEGER PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    artist_id INTEGER NOT NULL REFERENCES deleted_artists(id) ON DELETE CASCADE,
+    catalog_artwork_id INTEGER NOT NULL REFERENCES catalog_artworks(id) ON DELETE CASCADE,
+    is_new INTEGER DEFAULT 1,
+    is_favorite INTEGER DEFAULT 0,
+    synced_revision INTEGER NOT NULL DEFAULT 1,
+    discovered_at TEXT NOT NULL
+  );
+
+  -- Background scrape jobs; each item (artist, catalog account or user) has its own attempts
+  CREATE TABLE IF NOT EXISTS scrape_jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    type TEXT NOT NULL,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'queued',
+    payload TEXT NOT NULL DEFAULT '{}',
+    created_at TEXT NOT NULL,
+    started_at TEXT,
+    finished_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS scrape_job_items (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    job_id INTEGER NOT NULL REFERENCES scrape_jobs(id) ON DELETE CASCADE,
+    target_id INTEGER NOT NULL,
+    label TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT NOT NULL,
+    last_error TEXT,
+    result TEXT,
+    finished_at TEXT
+  );
+
+  -- Scrape history: one run per job (no foreign key, jobs are purged sooner) and one outcome
+  -- per attempt at an artist
+  CREATE TABLE IF NOT EXISTS scrape_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    job_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    trigger TEXT NOT NULL,
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'queued',
+    created_at TEXT NOT NULL,
+    started_at TEXT,
+    finished_at TEXT,
+    duration_ms INTEGER,
+    total INTEGER NOT NULL DEFAULT 0,
+    completed INTEGER NOT NULL DEFAULT 0,
+    skipped INTEGER NOT NULL DEFAULT 0,
+    failed INTEGER NOT NULL DEFAULT 0,
+    new_artworks INTEGER NOT NULL DEFAULT 0,
+    updated_artworks INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS scrape_run_outcomes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id INTEGER NOT NULL REFERENCES scrape_runs(id) ON DELETE CASCADE,
+    catalog_artist_id INTEGER REFERENCES catalog_artists(id) ON DELETE CASCADE,
+    username TEXT NOT NULL,
+    attempt INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    pages_fetched INTEGER NOT NULL DEFAULT 0,
+    new_artworks INTEGER NOT NULL DEFAULT 0,
+    updated_artworks INTEGER NOT NULL DEFAULT 0,
+    duration_ms INTEGER NOT NULL DEFAULT 0,
+    reason TEXT,
+    error TEXT,
+    block_reason TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS persistent_favorites (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    artist_username TEXT NOT NULL,
+    artwork_id TEXT NOT NULL,
+    artwork_url TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    UNIQUE(user_id, artist_username, artwork_id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_catalog_artworks_artist ON catalog_artworks(catalog_artist_id);
+  CREATE INDEX IF NOT EXISTS idx_artists_user_id ON artists(user_id);
+  CREATE INDEX IF NOT EXISTS idx_artists_catalog ON artists(catalog_artist_id);
+  CREATE INDEX IF NOT EXISTS idx_artworks_user_id ON artworks(user_id);
+  CREATE INDEX IF NOT EXISTS idx_artworks_artist_id ON artworks(artist_id);
+  CREATE INDEX IF NOT EXISTS idx_artworks_catalog ON artworks(catalog_artwork_id);
+  CREATE INDEX IF NOT EXISTS idx_artworks_user_new ON artworks(user_id, is_new);
+  CREATE INDEX IF NOT EXISTS idx_artwork_revisions_artwork ON artwork_revisions(catalog_artwork_id);
+  CREATE INDEX IF NOT EXISTS idx_catalog_artwork_assets_artwork ON catalog_artwork_assets(catalog_artwork_id, position);
+  CREATE INDEX IF NOT EXISTS idx_archived_images_hash ON archived_images(hash);
+  CREATE INDEX IF NOT EXISTS idx_deleted_artists_user ON deleted_artists(user_id);
+  CREATE INDEX IF NOT EXISTS idx_deleted_artists_deleted_at ON deleted_artists(deleted_at);
+  CREATE INDEX IF NOT EXISTS idx_deleted_artworks_artist ON deleted_artworks(artist_id);
+  CREATE INDEX IF NOT EXISTS idx_persistent_favorites_user ON persistent_favorites(user_id);
+  CREATE INDEX IF NOT EXISTS idx_scrape_jobs_status ON scrape_jobs(status);
+  CREATE INDEX IF NOT EXISTS idx_scrape_jobs_user ON scrape_jobs(user_id);
+  CREATE INDEX IF NOT EXISTS idx_scrape_job_items_job ON scrape_job_items(job_id);
+  CREATE INDEX IF NOT EXISTS idx_scrape_runs_job ON scrape_runs(job_id);
+  CREATE INDEX IF NOT EXISTS idx_scrape_runs_user ON scrape_runs(user_id);
+  CREATE INDEX IF NOT EXISTS idx_scrape_run_outcomes_run ON scrape_run_outcomes(run_id);
+  CREATE INDEX IF NOT EXISTS idx_scrape_run_outcomes_artist ON scrape_run_outcomes(catalog_artist_id);
+`;
+
+// Tracked in PRAGMA user_version
+const SCHEMA_VERSION = 1;
+
+const ARTIST_SELECT = `
+  SELECT a.id, a.user_id, a.catalog_artist_id, a.created_at,
+         ca.source, ca.username, ca.feed_url, ca.display_name, ca.profile_url, ca.avatar_url, ca.last_checked,
+         ca.account_status, ca.account_status_changed_at, ca.previous_username,
+         a.check_interval_hours, ca.next_check_at
+  FROM artists a
+  JOIN catalog_artists ca ON ca.id = a.catalog_artist_id
+`;
+
+const ARTWORK_SELECT = `
+  SELECT aw.id, aw.user_id, aw.artist_id, aw.is_new, aw.is_favorite, aw.discovered_at,
+         cw.artwork_id, cw.title, cw.thumbnail_url, cw.high_quality_image_url, cw.artwork_url,
+         cw.upload_date, cw.last_updated_at, cw.removed_at
+  FROM artworks aw
+  JOIN catalog_artworks cw ON cw.id = aw.catalog_artwork_id
+`;
+
+let sqlite: Database.Database | null = null;
+
+function generateToken(username: string): string {
+  return crypto.createHash('sha256').update(username + Date.now().toString()).digest('hex').substring(0, 32);
+}
+
+// Accepts sqlite:./data/arttracker.db, sqlite://./data/arttracker.db and sqlite:///abs/path.db
+export function getSqlitePath(databaseUrl: string): string {
+  const filePath = databaseUrl.replace(/^sqlite:(\/\/)?/, '');
+  if (!filePath) {
+    throw new Error('DATABASE_URL must include a file path, e.g. sqlite:./data/arttracker.db');
+  }
+  return filePath;
+}
+
+export function initDatabase(): void {
+  const databaseUrl = process.env.DATABASE_URL;
+
+  if (!databaseUrl) {
+    throw new Error('DATABASE_URL environment variable is required for SQLite');
+  }
+
+  const dbPath = getSqlitePath(databaseUrl);
+  const dbDir = path.dirname(dbPath);
+  if (!fs.existsSync(dbDir)) {
+    fs.mkdirSync(dbDir, { recursive: true });
+  }
+
+  sqlite = new Database(dbPath);
+  sqlite.pragma('journal_mode = WAL');
+  migrateToSharedCatalog(sqlite);
+  sqlite.pragma('foreign_keys = ON');
+  sqlite.exec(SCHEMA);
+  addMissingColumns(sqlite);
+  sqlite.pragma(`user_version = ${SCHEMA_VERSION}`);
+
+  const counts = sqlite.prepare(
+    `SELECT
+       (SELECT COUNT(*) FROM users) AS users,
+       (SELECT COUNT(*) FROM artists) AS artists,
+       (SELECT COUNT(*) FROM artworks) AS artworks`
+  ).get() as { users: number; artists: number; artworks: number };
+
+  console.log(`✅ Database initialized (SQLite: ${dbPath})`);
+  console.log(`   Users: ${counts.users}, Artists: ${counts.artists}, Artworks: ${counts.artworks}`);
+}
+
+// Columns added to existing tables after their CREATE TABLE was first released: [table, column, definition]
+const ADDED_COLUMNS: Array<[string, string, string]> = [
+  ['catalog_artists', 'account_status', "TEXT NOT NULL DEFAULT 'active'"],
+  ['catalog_artists', 'account_status_changed_at', 'TEXT'],
+  ['catalog_artists', 'previous_username', 'TEXT'],
+  ['catalog_artists', 'next_check_at', 'TEXT'],
+  ['artists', 'check_interval_hours', 'INTEGER'],
+  ['deleted_artists', 'check_interval_hours', 'INTEGER'],
+  ['catalog_artworks', 'removed_at', 'TEXT'],
+  ['users', 'notify_removed_artworks', 'INTEGER NOT NULL DEFAULT 0'],
+  ['catalog_artists', 'source', "TEXT NOT NULL DEFAULT 'artstation'"],
+  ['catalog_artists', 'feed_url', 'TEXT'],
+  ['users', 'image_archive', "TEXT NOT NULL DEFAULT 'off'"],
+  ['catalog_artworks', 'image_hash', 'TEXT'],
+  ['catalog_artworks', 'image_hash_url', 'TEXT'],
+  ['users', 'mute_repost_notifications', 'INTEGER NOT NULL DEFAULT 0']
+];
+
+// CREATE TABLE IF NOT EXISTS leaves existing tables alone, so columns added later are added here
+function addMissingColumns(sqliteDb: Database.Database) {
+  for (const [table, column, definition] of ADDED_COLUMNS) {
+    const exists = sqliteDb.prepare(`SELECT 1 FROM pragma_table_info('${table}') WHERE name = ?`).get(column);
+    if (!exists) {
+      sqliteDb.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+}
+
+// Files created before the shared catalog keep a full artist/artwork copy per user.
+// The old tables are renamed, the new layout is created, and duplicates collapse into
+// one catalog row each. Per-user row ids are kept so API ids stay valid.
+// Runs with foreign keys off so renaming and dropping the old tables doesn't cascade.
+function migrateToSharedCatalog(sqliteDb: Database.Database) {
+  const version = sqliteDb.pragma('user_version', { simple: true }) as number;
+  const hasLegacyArtists = sqliteDb.prepare(
+    "SELECT 1 FROM pragma_table_info('artists') WHERE name = 'username'"
+  ).get();
+  if (version >= SCHEMA_VERSION || !hasLegacyArtists) {
+    return;
+  }
+
+  console.log('🔄 Moving artists and artworks into the shared catalog...');
+
+  sqliteDb.transaction(() => {
+    sqliteDb.exec(`
+      DROP INDEX IF EXISTS idx_artists_user_id;
+      DROP INDEX IF EXISTS idx_artworks_user_id;
+      DROP INDEX IF EXISTS idx_artworks_artist_id;
+      DROP INDEX IF EXISTS idx_artworks_user_new;
+      ALTER TABLE artworks RENAME TO legacy_artworks;
+      ALTER TABLE artists RENAME TO legacy_artists;
+    `);
+    sqliteDb.exec(SCHEMA);
+
+    sqliteDb.exec(`
+      INSERT INTO catalog_artists (username, display_name, profile_url, avatar_url, last_checked, created_at)
+      SELECT username, MAX(display_name), MAX(profile_url), MAX(avatar_url), MAX(last_checked), MIN(created_at)
+      FROM legacy_artists
+      GROUP BY LOWER(username);
+
+      INSERT INTO artists (id, user_id, catalog_artist_id, created_at)
+      SELECT la.id, la.user_id, ca.id, la.created_at
+      FROM legacy_artists la
+      JOIN catalog_artists ca ON LOWER(ca.username) = LOWER(la.username);
+
+      -- With a single MAX() aggregate SQLite takes the other columns from that row,
+      -- so each artwork keeps its most recently updated copy
+      INSERT INTO catalog_artworks (catalog_artist_id, artwork_id, title, thumbnail_url, high_quality_image_url,
+                                    artwork_url, upload_date, last_updated_at, discovered_at)
+      SELECT a.catalog_artist_id, lw.artwork_id, lw.title, lw.thumbnail_url, lw.high_quality_image_url,
+             lw.artwork_url, lw.upload_date, MAX(COALESCE(lw.last_updated_at, '')), lw.discovered_at
+      FROM legacy_artworks lw
+      JOIN artists a ON a.id = lw.artist_id
+      GROUP BY a.catalog_artist_id, lw.artwork_id;
+
+      UPDATE catalog_artworks SET last_updated_at = NULL WHERE last_updated_at = '';
+
+      INSERT INTO artworks (id, user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision, discovered_at)
+      SELECT lw.id, lw.user_id, lw.artist_id, cw.id, lw.is_new, COALESCE(lw.is_favorite, 0), cw.revision, lw.discovered_at
+      FROM legacy_artworks lw
+      JOIN artists a ON a.id = lw.artist_id
+      JOIN catalog_artworks cw ON cw.catalog_artist_id = a.catalog_artist_id AND cw.artwork_id = lw.artwork_id;
+
+      DROP TABLE legacy_artworks;
+      DROP TABLE legacy_artists;
+    `);
+  })();
+
+  const counts = sqliteDb.prepare(
+    'SELECT (SELECT COUNT(*) FROM catalog_artists) AS artists, (SELECT COUNT(*) FROM catalog_artworks) AS artworks'
+  ).get() as { artists: number; artworks: number };
+  console.log(`   ✓ Catalog holds ${counts.artists} artist(s) and ${counts.artworks} artwork(s)`);
+}
+
+function getDb(): Database.Database {
+  if (!sqlite) {
+    throw new Error('Database not initialized. Call initDatabase() first.');
+  }
+  return sqlite;
+}
+
+function rowToUser(row: any): User {
+  return {
+    id: row.id,
+    username: row.username,
+    artstation_username: row.artstation_username || undefined,
+    token: row.token,
+    created_at: row.created_at,
+    discord_webhook_url: row.discord_webhook_url || undefined,
+    discord_user_id: row.discord_user_id || undefined,
+    notify_removed_artworks: !!row.notify_removed_artworks,
+    image_archive: row.image_archive || 'off',
+    mute_repost_notifications: !!row.mute_repost_notifications
+  };
+}
+
+function rowToArtist(row: any): Artist {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    catalog_artist_id: row.catalog_artist_id,
+    source: row.source || 'artstation',
+    username: row.username,
+    feed_url: row.feed_url || undefined,
+    display_name: row.display_name || undefined,
+    profile_url: row.profile_url,
+    avatar_url: row.avatar_url || undefined,
+    last_checked: row.last_checked || undefined,
+    account_status: row.account_status || 'active',
+    account_status_changed_at: row.account_status_changed_at || undefined,
+    previous_username: row.previous_username || undefined,
+    check_interval_hours: row.check_interval_hours ?? undefined,
+    next_check_at: row.next_check_at || undefined,
+    created_at: row.created_at
+  };
+}
+
+function rowToArtwork(row: any): Artwork {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    artist_id: row.artist_id,
+    artwork_id: row.artwork_id,
+    title: row.title,
+    thumbnail_url: row.thumbnail_url,
+    high_quality_image_url: row.high_quality_image_url || undefined,
+    artwork_url: row.artwork_url,
+    upload_date: row.upload_date || undefined,
+    last_updated_at: row.last_updated_at || undefined,
+    is_new: row.is_new,
+    is_favorite: row.is_favorite || 0,
+    discovered_at: row.discovered_at,
+    removed_at: row.removed_at || undefined
+  };
+}
+
+// User operations
+export function getAllUsers(): User[] {
+  return getDb().prepare('SELECT * FROM users ORDER BY created_at DESC').all().map(rowToUser);
+}
+
+export function getUserById(id: number): User | undefined {
+  const row = getDb().prepare('SELECT * FROM users WHERE id = ?').get(id);
+  return row ? rowToUser(row) : undefined;
+}
+
+export function getUserByUsername(username: string): User | undefined {
+  const row = getDb().prepare('SELECT * FROM users WHERE LOWER(username) = LOWER(?)').get(username);
+  return row ? rowToUser(row) : undefined;
+}
+
+export function getUserByToken(token: string): User | undefined {
+  const row = getDb().prepare('SELECT * FROM users WHERE token = ?').get(token);
+  return row ? rowToUser(row) : undefined;
+}
+
+export function createUser(username: string, artstation_username?: string): User {
+  const existing = getUserByUsername(username);
+  if (existing) {
+    throw new Error('USERNAME_EXISTS');
+  }
+
+  const row = getDb().prepare(
+    'INSERT INTO users (username, artstation_username, token, created_at) VALUES (?, ?, ?, ?) RETURNING *'
+  ).get(username, artstation_username || null, generateToken(username), new Date().toISOString());
+
+  return rowToUser(row);
+}
+
+export function updateUser(id: number, updates: Partial<User>): boolean {
+  if (updates.username) {
+    const existing = getDb().prepare('SELECT id FROM users WHERE LOWER(username) = LOWER(?) AND id != ?').get(updates.username, id);
+    if (existing) {
+      throw new Error('USERNAME_EXISTS');
+    }
+  }
+
+  const fields: string[] = [];
+  const values: any[] = [];
+
+  if (updates.username !== undefined) {
+    fields.push('username = ?');
+    values.push(updates.username);
+  }
+  if (updates.artstation_username !== undefined) {
+    fields.push('artstation_username = ?');
+    values.push(updates.artstation_username || null);
+  }
+  if (updates.discord_webhook_url !== undefined) {
+    fields.push('discord_webhook_url = ?');
+    values.push(updates.discord_webhook_url || null);
+  }
+  if (updates.discord_user_id !== undefined) {
+    fields.push('discord_user_id = ?');
+    values.push(updates.discord_user_id || null);
+  }
+  if (updates.notify_removed_artworks !== undefined) {
+    fields.push('notify_removed_artworks = ?');
+    values.push(updates.notify_removed_artworks ? 1 : 0);
+  }
+  if (updates.image_archive !== undefined) {
+    fields.push('image_archive = ?');
+    values.push(updates.image_archive);
+  }
+  if (updates.mute_repost_notifications !== undefined) {
+    fields.push('mute_repost_notifications = ?');
+    values.push(updates.mute_repost_notifications ? 1 : 0);
+  }
+
+  if (fields.length === 0) return false;
+
+  values.push(id);
+  const result = getDb().prepare(`UPDATE users SET ${fields.join(', ')} WHERE id = ?`).run(...values);
+  return result.changes > 0;
+}
+
+// Artist operations
+export function getAllArtists(user_id: number): Artist[] {
+  return getDb()
+    .prepare(`${ARTIST_SELECT} WHERE a.user_id = ? ORDER BY a.created_at DESC`)
+    .all(user_id)
+    .map(rowToArtist);
+}
+
+// Every follow of every user, grouped by catalog artist (used to scrape each account once)
+export function getAllFollowedArtists(): Artist[] {
+  return getDb()
+    .prepare(`${ARTIST_SELECT} ORDER BY a.catalog_artist_id, a.id`)
+    .all()
+    .map(rowToArtist);
+}
+
+export function getCatalogAccount(username: string): CatalogAccount | undefined {
+  const row = getDb()
+    .prepare('SELECT id, source, username, profile_url, feed_url FROM catalog_artists WHERE username = ?')
+    .get(username) as any;
+  return row ? { ...row, feed_url: row.feed_url || undefined } : undefined;
+}
+
+export function getFollowersOfCatalogArtist(catalog_artist_id: number): Artist[] {
+  return getDb()
+    .prepare(`${ARTIST_SELECT} WHERE a.catalog_artist_id = ? ORDER BY a.id`)
+    .all(catalog_artist_id)
+    .map(rowToArtist);
+}
+
+export function getArtistById(id: number, user_id: number): Artist | undefined {
+  const row = getDb().prepare(`${ARTIST_SELECT} WHERE a.id = ? AND a.user_id = ?`).get(id, user_id);
+  return row ? rowToArtist(row) : undefined;
+}
+
+export function addArtist(
+  user_id: number,
+  username: string,
+  profile_url: string,
+  source: ArtistSource = 'artstation',
+  feed_url?: string
+): Artist {
+  const sqliteDb = getDb();
+  const existing = sqliteDb.prepare(`${ARTIST_SELECT} WHERE a.user_id = ? AND LOWER(ca.username) = LOWER(?)`).get(user_id, username);
+  if (existing) {
+    throw new Error('ARTIST_EXISTS');
+  }
+
+  // Following a recently unfollowed artist again brings back its artworks and flags
+  const trashed = sqliteDb.prepare(
+    `SELECT d.id FROM deleted_artists d
+     JOIN catalog_artists ca ON ca.id = d.catalog_artist_id
+     WHERE d.user_id = ? AND ca.username = ?`
+  ).get(user_id, username) as { id: number } | undefined;
+  if (trashed) {
+    return restoreArtist(trashed.id, user_id)!;
+  }
+
+  const now = new Date().toISOString();
+  const artistId = sqliteDb.transaction(() => {
+    sqliteDb.prepare(
+      `INSERT INTO catalog_artists (username, source, feed_url, profile_url, created_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (username) DO NOTHING`
+    ).run(username, source, feed_url || null, profile_url, now);
+    const catalog = sqliteDb.prepare('SELECT id, username FROM catalog_artists WHERE username = ?').get(username) as { id: number; username: string };
+
+    const inserted = sqliteDb.prepare(
+      'INSERT INTO artists (user_id, catalog_artist_id, created_at) VALUES (?, ?, ?) RETURNING id'
+    ).get(user_id, catalog.id, now) as { id: number };
+
+    // Artworks already scraped for another follower are linked right away
+    sqliteDb.prepare(
+      `INSERT INTO artworks (user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision, discovered_at)
+       SELECT ?, ?, cw.id, 1, CASE WHEN pf.id IS NULL THEN 0 ELSE 1 END, cw.revision, ?
+       FROM catalog_artworks cw
+       LEFT JOIN persistent_favorites pf
+         ON pf.user_id = ? AND pf.artist_username = LOWER(?) AND pf.artwork_id = cw.artwork_id
+       WHERE cw.catalog_artist_id = ?`
+    ).run(user_id, inserted.id, now, user_id, catalog.username, catalog.id);
+
+    return inserted.id;
+  })();
+
+  return getArtistById(artistId, user_id)!;
+}
+
+// Profile fields live in the catalog, so an update is visible to every follower
+export function updateArtist(id: number, user_id: number, updates: Partial<Artist>): boolean {
+  const fields: string[] = [];
+  const values: any[] = [];
+
+  if (updates.display_name !== undefined) {
+    fields.push('display_name = ?');
+    values.push(updates.display_name || null);
+  }
+  if (updates.avatar_url !== undefined) {
+    fields.push('avatar_url = ?');
+    values.push(updates.avatar_url || null);
+  }
+  if (updates.last_checked !== undefined) {
+    fields.push('last_checked = ?');
+    values.push(updates.last_checked || null);
+  }
+  if (updates.account_status !== undefined) {
+    fields.push('account_status = ?');
+    values.push(updates.account_status);
+  }
+  if (updates.account_status_changed_at !== undefined) {
+    fields.push('account_status_changed_at = ?');
+    values.push(updates.account_status_changed_at || null);
+  }
+
+  if (fields.length === 0) return false;
+
+  values.push(id, user_id);
+  const result = getDb().prepare(
+    `UPDATE catalog_artists SET ${fields.join(', ')}
+     WHERE id = (SELECT catalog_artist_id FROM artists WHERE id = ? AND user_id = ?)`
+  ).run(...values);
+  return result.changes > 0;
+}
+
+export function setArtistCheckInterval(id: number, user_id: number, hours: number | null): boolean {
+  const result = getDb()
+    .prepare('UPDATE artists SET check_interval_hours = ? WHERE id = ? AND user_id = ?')
+    .run(hours, id, user_id);
+  return result.changes > 0;
+}
+
+export function setNextCheckAt(catalog_artist_id: number, next_check_at: string): void {
+  getDb().prepare('UPDATE catalog_artists SET next_check_at = ? WHERE id = ?').run(next_check_at, catalog_artist_id);
+}
+
+export function getRecentUploadDates(catalog_artist_id: number, limit: number): string[] {
+  const rows = getDb().prepare(
+    `SELECT upload_date FROM catalog_artworks
+     WHERE catalog_artist_id = ? AND upload_date IS NOT NULL
+     ORDER BY upload_date DESC
+     LIMIT ?`
+  ).all(catalog_artist_id, limit) as Array<{ upload_date: string }>;
+  return rows.map(row => row.upload_date);
+}
+
+export function syncRemovedArtworks(catalog_artist_id: number, listed_artwork_ids: string[]): RemovedArtworksSync {
+  const sqliteDb = getDb();
+  const listed = new Set(listed_artwork_ids);
+  return sqliteDb.transaction(() => {
+    const rows = sqliteDb.prepare(
+      'SELECT id, artwork_id, removed_at FROM catalog_artworks WHERE catalog_artist_id = ?'
+    ).all(catalog_artist_id) as Array<{ id: number; artwork_id: string; removed_at: string | null }>;
+    const removed = rows.filter(row => !row.removed_at && !listed.has(row.artwork_id));
+    const restored = rows.filter(row => row.removed_at && listed.has(row.artwork_id));
+
+    const setRemovedAt = sqliteDb.prepare('UPDATE catalog_artworks SET removed_at = ? WHERE id = ?');
+    const now = new Date().toISOString();
+    for (const row of removed) setRemovedAt.run(now, row.id);
+    for (const row of restored) setRemovedAt.run(null, row.id);
+
+    return { removed: removed.map(row => row.artwork_id), restored: restored.map(row => row.artwork_id) };
+  })();
+}
+
+export function saveArtistProfile(catalog_artist_id: number, profile: ArtistProfile): void {
+  const sqliteDb = getDb();
+  sqliteDb.transaction(() => {
+    sqliteDb.prepare(
+      `UPDATE catalog_artists
+       SET display_name = COALESCE(?, display_name), avatar_url = COALESCE(?, avatar_url)
+       WHERE id = ?`
+    ).run(profile.display_name || null, profile.avatar_url || null, catalog_artist_id);
+
+    sqliteDb.prepare(
+      `INSERT INTO catalog_artist_profiles
+         (catalog_artist_id, headline, bio, location, cover_url, links, followers_count, following_count, fetched_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (catalog_artist_id) DO UPDATE SET
+         headline = excluded.headline,
+         bio = excluded.bio,
+         location = excluded.location,
+         cover_url = excluded.cover_url,
+         links = excluded.links,
+         followers_count = excluded.followers_count,
+         following_count = excluded.following_count,
+         fetched_at = excluded.fetched_at`
+    ).run(
+      catalog_artist_id,
+      profile.headline || null,
+      profile.bio || null,
+      profile.location || null,
+      profile.cover_url || null,
+      JSON.stringify(profile.links),
+      profile.followers_count ?? null,
+      profile.following_count ?? null,
+      profile.fetched_at
+    );
+
+    if (profile.followers_count !== undefined) {
+      sqliteDb.prepare(
+        `INSERT INTO artist_follower_counts (catalog_artist_id, date, followers_count, following_count)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (catalog_artist_id, date) DO UPDATE SET
+           followers_count = excluded.followers_count,
+           following_count = excluded.following_count`
+      ).run(catalog_artist_id, profile.fetched_at.slice(0, 10), profile.followers_count, profile.following_count ?? null);
+    }
+  })();
+}
+
+export function getArtistProfile(catalog_artist_id: number): ArtistProfile | null {
+  const row = getDb().prepare(
+    `SELECT p.*, ca.display_name, ca.avatar_url
+     FROM catalog_artist_profiles p
+     JOIN catalog_artists ca ON ca.id = p.catalog_artist_id
+     WHERE p.catalog_artist_id = ?`
+  ).get(catalog_artist_id) as any;
+  if (!row) return null;
+
+  return {
+    display_name: row.display_name || undefined,
+    avatar_url: row.avatar_url || undefined,
+    headline: row.headline || undefined,
+    bio: row.bio || undefined,
+    location: row.location || undefined,
+    cover_url: row.cover_url || undefined,
+    links: JSON.parse(row.links),
+    followers_count: row.followers_count ?? undefined,
+    following_count: row.following_count ?? undefined,
+    fetched_at: row.fetched_at
+  };
+}
+
+export function getFollowerCountHistory(catalog_artist_id: number, days: number): FollowerCountPoint[] {
+  const rows = getDb().prepare(
+    `SELECT date, followers_count, following_count FROM artist_follower_counts
+     WHERE catalog_artist_id = ?
+     ORDER BY date DESC
+     LIMIT ?`
+  ).all(catalog_artist_id, days) as any[];
+
+  return rows.reverse().map(row => ({
+    date: row.date,
+    followers_count: row.followers_count,
+    following_count: row.following_count ?? undefined
+  }));
+}
+
+export function renameCatalogArtist(catalog_artist_id: number, username: string, profile_url: string): boolean {
+  const sqliteDb = getDb();
+  return sqliteDb.transaction(() => {
+    const catalog = sqliteDb.prepare('SELECT username FROM catalog_artists WHERE id = ?').get(catalog_artist_id) as
+      | { username: string }
+      | undefined;
+    if (!catalog) return false;
+
+    const existing = sqliteDb.prepare('SELECT id FROM catalog_artists WHERE username = ?').get(username) as
+      | { id: number }
+      | undefined;
+    if (existing && existing.id !== catalog_artist_id) return false;
+
+    sqliteDb.prepare(
+      `UPDATE catalog_artists
+       SET previous_username = username, username = ?, profile_url = ?,
+           account_status = 'renamed', account_status_changed_at = ?
+       WHERE id = ?`
+    ).run(username, profile_url, new Date().toISOString(), catalog_artist_id);
+
+    // Persistent favorites are keyed by handle so they survive an unfollow
+    sqliteDb.prepare(
+      'UPDATE OR IGNORE persistent_favorites SET artist_username = LOWER(?) WHERE artist_username = LOWER(?)'
+    ).run(username, catalog.username);
+    return true;
+  })();
+}
+
+// Moved to the trash with their seen/favorite state so a restore brings everything back
+export function deleteArtist(id: number, user_id: number): boolean {
+  const sqliteDb = getDb();
+  return sqliteDb.transaction(() => {
+    const trashed = sqliteDb.prepare(
+      `INSERT INTO deleted_artists (id, user_id, catalog_artist_id, check_interval_hours, created_at, deleted_at)
+       SELECT id, user_id, catalog_artist_id, check_interval_hours, created_at, ? FROM artists WHERE id = ? AND user_id = ?`
+    ).run(new Date().toISOString(), id, user_id);
+    if (trashed.changes === 0) return false;
+
+    sqliteDb.prepare(
+      `INSERT INTO deleted_artworks (id, user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision, discovered_at)
+       SELECT id, user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision, discovered_at
+       FROM artworks WHERE artist_id = ?`
+    ).run(id);
+    // Artworks are removed through ON DELETE CASCADE
+    sqliteDb.prepare('DELETE FROM artists WHERE id = ?').run(id);
+    return true;
+  })();
+}
+
+export function getTrashedArtists(user_id: number): Omit<TrashedArtist, 'purge_at'>[] {
+  const rows = getDb().prepare(
+    `SELECT d.id, d.user_id, d.catalog_artist_id, d.created_at, d.deleted_at,
+            ca.username, ca.display_name, ca.profile_url, ca.avatar_url, ca.last_checked,
+            (SELECT COUNT(*) FROM deleted_artworks dw WHERE dw.artist_id = d.id) AS artwork_count
+     FROM deleted_artists d
+     JOIN catalog_artists ca ON ca.id = d.catalog_artist_id
+     WHERE d.user_id = ?
+     ORDER BY d.deleted_at DESC`
+  ).all(user_id) as any[];
+
+  return rows.map(row => ({
+    ...rowToArtist(row),
+    deleted_at: row.deleted_at,
+    artwork_count: row.artwork_count
+  }));
+}
+
+// Puts an artist from the trash back under its old id; undefined when it isn't in the trash
+export function restoreArtist(id: number, user_id: number): Artist | undefined {
+  const sqliteDb = getDb();
+  const trashed = sqliteDb.prepare(
+    `SELECT d.catalog_artist_id, ca.username FROM deleted_artists d
+     JOIN catalog_artists ca ON ca.id = d.catalog_artist_id
+     WHERE d.id = ? AND d.user_id = ?`
+  ).get(id, user_id) as { catalog_artist_id: number; username: string } | undefined;
+  if (!trashed) return undefined;
+
+  const following = sqliteDb.prepare('SELECT 1 FROM artists WHERE user_id = ? AND catalog_artist_id = ?')
+    .get(user_id, trashed.catalog_artist_id);
+  if (following) {
+    throw new Error('ARTIST_EXISTS');
+  }
+
+  sqliteDb.transaction(() => {
+    sqliteDb.prepare(
+      `INSERT INTO artists (id, user_id, catalog_artist_id, check_interval_hours, created_at)
+       SELECT id, user_id, catalog_artist_id, check_interval_hours, created_at FROM deleted_artists WHERE id = ?`
+    ).run(id);
+    sqliteDb.prepare(
+      `INSERT INTO artworks (id, user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision, discovered_at)
+       SELECT id, user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision, discovered_at
+       FROM deleted_artworks WHERE artist_id = ?`
+    ).run(id);
+
+    // Artworks scraped for other followers while this one was in the trash
+    sqliteDb.prepare(
+      `INSERT INTO artworks (user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision, discovered_at)
+       SELECT ?, ?, cw.id, 1, CASE WHEN pf.id IS NULL THEN 0 ELSE 1 END, cw.revision, ?
+       FROM catalog_artworks cw
+       LEFT JOIN persistent_favorites pf
+         ON pf.user_id = ? AND pf.artist_username = LOWER(?) AND pf.artwork_id = cw.artwork_id
+       WHERE cw.catalog_artist_id = ?
+       ON CONFLICT (user_id, catalog_artwork_id) DO NOTHING`
+    ).run(user_id, id, new Date().toISOString(), user_id, trashed.username, trashed.catalog_artist_id);
+
+    // Trashed artworks are removed through ON DELETE CASCADE
+    sqliteDb.prepare('DELETE FROM deleted_artists WHERE id = ?').run(id);
+  })();
+
+  return getArtistById(id, user_id);
+}
+
+// Permanently removes trash entries (of every user) deleted before the given time
+export function purgeTrashedArtists(before: string): number {
+  return getDb().prepare('DELETE FROM deleted_artists WHERE deleted_at < ?').run(before).changes;
+}
+
+// Artwork operations
+export function getAllArtworks(user_id: number, filters?: { artist_id?: number; new_only?: boolean; favorites_only?: boolean }): Artwork[] {
+  let queryText = `${ARTWORK_SELECT} WHERE aw.user_id = ?`;
+  const params: any[] = [user_id];
+
+  if (filters?.artist_id) {
+    queryText += ' AND aw.artist_id = ?';
+    params.push(filters.artist_id);
+  }
+
+  if (filters?.new_only) {
+    queryText += ' AND aw.is_new = 1';
+  }
+
+  if (filters?.favorites_only) {
+    queryText += ' AND aw.is_favorite = 1';
+  }
+
+  queryText += ' ORDER BY COALESCE(cw.upload_date, aw.discovered_at) DESC';
+
+  return getDb().prepare(queryText).all(...params).map(rowToArtwork);
+}
+
+export function getArtworksWithArtistInfo(user_id: number, filters?: { artist_id?: number; new_only?: boolean; favorites_only?: boolean }) {
+  const artworks = getAllArtworks(user_id, filters);
+  const artistsMap = new Map(getAllArtists(user_id).map(artist => [artist.id, artist]));
+
+  return artworks.map(artwork => {
+    const artist = artistsMap.get(artwork.artist_id);
+    return {
+      ...artwork,
+      username: artist?.username,
+      display_name: artist?.display_name
+    };
+  });
+}
+
+// Scans the user's library; fine at self-hosted sizes
+export function searchArtworks(user_id: number, query: ArtworkSearchQuery): ArtworkSearchResult[] {
+  const terms = parseSearchTerms(query.q);
+  if (terms.length === 0) return [];
+
+  // getArtworksWithArtistInfo is newest first and the sort below is stable
+  return getArtworksWithArtistInfo(user_id, query)
+    .filter(artwork => !artwork.removed_at || artwork.is_favorite === 1)
+    .map(artwork => ({
+      artwork,
+      rank: scoreDocument([
+        { text: artwork.title, weight: TITLE_WEIGHT },
+        { text: `${artwork.username || ''} ${artwork.display_name || ''}`, weight: ARTIST_WEIGHT }
+      ], terms)
+    }))
+    .filter(result => result.rank > 0)
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, query.limit)
+    .map(({ artwork, rank }) => ({
+      ...artwork,
+      rank,
+      title_highlight: highlightMatches(artwork.title, terms),
+      artist_highlight: highlightMatches(artwork.username || '', terms)
+    }));
+}
+
+// Date an artwork is sorted and range-filtered by
+const ARTWORK_DATE_EXPR: Record<ArtworkSort, string> = {
+  upload_date: 'COALESCE(cw.upload_date, aw.discovered_at)',
+  discovered_at: 'aw.discovered_at',
+  last_updated_at: 'COALESCE(cw.last_updated_at, cw.upload_date, aw.discovered_at)',
+  artist: 'COALESCE(cw.upload_date, aw.discovered_at)'
+};
+
+export function getArtworksPage(user_id: number, query: ArtworkPageQuery): ArtworkPage {
+  const dateExpr = ARTWORK_DATE_EXPR[query.sort];
+  const sortExpr = query.sort === 'artist' ? 'LOWER(ca.username)' : dateExpr;
+  // Artworks the artist took down only stay listed as favorites
+  const conditions = ['aw.user_id = ?', '(cw.removed_at IS NULL OR aw.is_favorite = 1)'];
+  const params: any[] = [user_id];
+
+  if (query.artist_id) {
+    conditions.push('aw.artist_id = ?');
+    params.push(query.artist_id);
+  }
+  if (query.new_only) {
+    conditions.push('aw.is_new = 1');
+  }
+  if (query.favorites_only) {
+    conditions.push('aw.is_favorite = 1');
+  }
+
+  const pageConditions: string[] = [];
+  if (query.latest_per_artist) {
+    pageConditions.push('artist_rank = 1');
+  }
+  if (query.from) {
+    pageConditions.push('julianday(filter_date) >= julianday(?)');
+    params.push(query.from);
+  }
+  if (query.to) {
+    pageConditions.push('julianday(filter_date) <= julianday(?)');
+    params.push(query.to);
+  }
+  const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+  if (query.after) {
+    pageConditions.push(`(sort_key, id) ${query.order === 'asc' ? '>' : '<'} (?, ?)`);
+    params.push(query.after.value, query.after.id);
+  }
+  params.push(query.limit + 1);
+
+  const rows = getDb().prepare(
+    `SELECT * FROM (
+       SELECT aw.id, aw.user_id, aw.artist_id, aw.is_new, aw.is_favorite, aw.discovered_at,
+              cw.artwork_id, cw.title, cw.thumbnail_url, cw.high_quality_image_url, cw.artwork_url,
+              cw.upload_date, cw.last_updated_at, cw.removed_at, ca.username, ca.display_name,
+              ${sortExpr} AS sort_key,
+              ${dateExpr} AS filter_date,
+              ROW_NUMBER() OVER (
+                PARTITION BY aw.artist_id
+                ORDER BY COALESCE(cw.upload_date, aw.discovered_at) DESC, aw.id DESC
+              ) AS artist_rank
+       FROM artworks aw
+       JOIN catalog_artworks cw ON cw.id = aw.catalog_artwork_id
+       JOIN artists a ON a.id = aw.artist_id
+       JOIN catalog_artists ca ON ca.id = a.catalog_artist_id
+       WHERE ${conditions.join(' AND ')}
+     ) page
+     ${pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : ''}
+     ORDER BY sort_key ${direction}, id ${direction}
+     LIMIT ?`
+  ).all(...params) as any[];
+
+  const hasMore = rows.length > query.limit;
+  const pageRows = rows.slice(0, query.limit);
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    artworks: pageRows.map(row => ({
+      ...rowToArtwork(row),
+      username: row.username,
+      display_name: row.display_name || undefined
+    })),
+    next: hasMore ? { value: last.sort_key, id: last.id } : null
+  };
+}
+
+export function addArtwork(
+  user_id: number,
+  artist_id: number,
+  artwork_id: string,
+  title: string,
+  thumbnail_url: string,
+  artwork_url: string,
+  upload_date?: string,
+  updated_at?: string,
+  high_quality_image_url?: string,
+  options: AddArtworkOptions = {}
+): { artwork: Artwork | null; isNew: boolean; wasUpdated?: boolean; skipped?: boolean } {
+  const { allowInsert = true, markUpdatesAsNew = true, catalogOnly = false } = options;
+  const sqliteDb = getDb();
+
+  // Get artist username for favorite lookup
+  const artistRow = sqliteDb.prepare(
+    `SELECT a.catalog_artist_id, ca.username
+     FROM artists a
+     JOIN catalog_artists ca ON ca.id = a.catalog_artist_id
+     WHERE a.id = ? AND a.user_id = ?`
+  ).get(artist_id, user_id) as { catalog_artist_id: number; username: string } | undefined;
+  if (!artistRow) {
+    throw new Error('Artist not found');
+  }
+
+  // Check if this should be a favorite from persistent storage
+  const shouldBeFavorite = isPersistentFavorite(user_id, artistRow.username, artwork_id);
+
+  let catalogRow = sqliteDb.prepare(
+    'SELECT * FROM catalog_artworks WHERE catalog_artist_id = ? AND artwork_id = ?'
+  ).get(artistRow.catalog_artist_id, artwork_id) as any;
+  const row = catalogRow
+    ? sqliteDb.prepare('SELECT * FROM artworks WHERE user_id = ? AND catalog_artwork_id = ?').get(user_id, catalogRow.id) as any
+    : undefined;
+
+  if (!row && (!allowInsert || (catalogOnly && !catalogRow))) {
+    return { artwork: null, isNew: false, wasUpdated: false, skipped: true };
+  }
+
+  const now = new Date().toISOString();
+
+  if (catalogRow && !catalogOnly) {
+    // Only check for meaningful content changes (ignore timestamp-only changes)
+    // We ignore upload_date and updated_at changes to prevent false positives
+    const contentChanged =
+      catalogRow.title !== title ||
+      catalogRow.thumbnail_url !== thumbnail_url ||
+      (catalogRow.high_quality_image_url || null) !== (high_quality_image_url || null) ||
+      catalogRow.artwork_url !== artwork_url;
+
+    if (contentChanged) {
+      // Keep what the artwork looked like before the edit
+      sqliteDb.prepare(
+        `INSERT INTO artwork_revisions (catalog_artwork_id, revision, title, thumbnail_url, high_quality_image_url,
+                                        artwork_url, upload_date, last_updated_at, replaced_at)
+         SELECT id, revision, title, thumbnail_url, high_quality_image_url, artwork_url, upload_date, last_updated_at, ?
+         FROM catalog_artworks WHERE id = ?`
+      ).run(now, catalogRow.id);
+
+      catalogRow = sqliteDb.prepare(
+        `UPDATE catalog_artworks
+         SET title = ?,
+             thumbnail_url = ?,
+             high_quality_image_url = ?,
+             artwork_url = ?,
+             upload_date = ?,
+             last_updated_at = ?,
+             revision = revision + 1
+         WHERE id = ?
+         RETURNING *`
+      ).get(
+        title,
+        thumbnail_url,
+        high_quality_image_url || null,
+        artwork_url,
+        upload_date || null,
+        updated_at || upload_date || catalogRow.last_updated_at,
+        catalogRow.id
+      );
+    }
+  } else if (!catalogRow) {
+    catalogRow = sqliteDb.prepare(
+      `INSERT INTO catalog_artworks (catalog_artist_id, artwork_id, title, thumbnail_url, high_quality_image_url,
+                                     artwork_url, upload_date, last_updated_at, revision, discovered_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, ?) RETURNING *`
+    ).get(
+      artistRow.catalog_artist_id,
+      artwork_id,
+      title,
+      thumbnail_url,
+      high_quality_image_url || null,
+      artwork_url,
+      upload_date || null,
+      updated_at || upload_date || now,
+      now
+    );
+  }
+
+  if (row) {
+    // Restore favorite status if it should be a favorite
+    const favoriteStatus = shouldBeFavorite ? 1 : (row.is_favorite || 0);
+
+    // A newer revision also covers edits picked up while scraping for another follower
+    const changed =
+      row.synced_revision < catalogRow.revision ||
+      (row.is_favorite || 0) !== favoriteStatus;
+
+    if (changed) {
+      sqliteDb.prepare(
+        `UPDATE artworks
+         SET synced_revision = ?,
+             is_new = CASE WHEN ? THEN 1 ELSE is_new END,
+             is_favorite = ?
+         WHERE id = ?`
+      ).run(catalogRow.revision, markUpdatesAsNew ? 1 : 0, favoriteStatus, row.id);
+      return { artwork: getArtworkRow(row.id), isNew: false, wasUpdated: true };
+    }
+
+    return { artwork: getArtworkRow(row.id), isNew: false, wasUpdated: false };
+  }
+
+  // Insert new artwork with favorite status if it should be a favorite
+  const inserted = sqliteDb.prepare(
+    `INSERT INTO artworks (user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision, discovered_at)
+     VALUES (?, ?, ?, 1, ?, ?, ?) RETURNING id`
+  ).get(user_id, artist_id, catalogRow.id, shouldBeFavorite ? 1 : 0, catalogRow.revision, now) as { id: number };
+
+  return { artwork: getArtworkRow(inserted.id), isNew: true, wasUpdated: false };
+}
+
+function getArtworkRow(id: number): Artwork {
+  return rowToArtwork(getDb().prepare(`${ARTWORK_SELECT} WHERE aw.id = ?`).get(id));
+}
+
+function rowToArtworkRevision(row: any): ArtworkRevision {
+  return {
+    id: row.id,
+    revision: row.revision,
+    title: row.title,
+    thumbnail_url: row.thumbnail_url,
+    high_quality_image_url: row.high_quality_image_url || undefined,
+    artwork_url: row.artwork_url,
+    upload_date: row.upload_date || undefined,
+    last_updated_at: row.last_updated_at || undefined,
+    replaced_at: row.replaced_at
+  };
+}
+
+export function getArtworkHistory(id: number, user_id: number): ArtworkHistory | null {
+  const sqliteDb = getDb();
+  const row = sqliteDb.prepare('SELECT catalog_artwork_id FROM artworks WHERE id = ? AND user_id = ?').get(id, user_id) as
+    { catalog_artwork_id: number } | undefined;
+  if (!row) return null;
+
+  const revisions = sqliteDb.prepare(
+    'SELECT * FROM artwork_revisions WHERE catalog_artwork_id = ? ORDER BY revision DESC'
+  ).all(row.catalog_artwork_id).map(rowToArtworkRevision);
+
+  return { artwork: getArtworkRow(id), revisions };
+}
+
+function rowToArtworkAsset(row: any): ArtworkAsset {
+  return {
+    position: row.position,
+    asset_type: row.asset_type,
+    image_url: row.image_url || undefined,
+    video_url: row.video_url || undefined,
+    width: row.width ?? undefined,
+    height: row.height ?? undefined,
+    title: row.title || undefined
+  };
+}
+
+export function getArtworkWithDetails(id: number, user_id: number): ArtworkWithDetails | null {
+  const sqliteDb = getDb();
+  const row = sqliteDb.prepare(
+    `SELECT aw.catalog_artwork_id, ca.username, ca.display_name
+     FROM artworks aw
+     JOIN artists a ON a.id = aw.artist_id
+     JOIN catalog_artists ca ON ca.id = a.catalog_artist_id
+     WHERE aw.id = ? AND aw.user_id = ?`
+  ).get(id, user_id) as { catalog_artwork_id: number; username: string; display_name: string | null } | undefined;
+  if (!row) return null;
+
+  const detailsRow = sqliteDb.prepare('SELECT * FROM catalog_artwork_details WHERE catalog_artwork_id = ?')
+    .get(row.catalog_artwork_id) as any;
+  let details: ArtworkDetails | null = null;
+  if (detailsRow) {
+    const assets = sqliteDb.prepare('SELECT * FROM catalog_artwork_assets WHERE catalog_artwork_id = ? ORDER BY position, id')
+      .all(row.catalog_artwork_id)
+      .map(rowToArtworkAsset);
+    details = {
+      description: detailsRow.description || undefined,
+      tags: JSON.parse(detailsRow.tags),
+      mediums: JSON.parse(detailsRow.mediums),
+      software: JSON.parse(detailsRow.software),
+      categories: JSON.parse(detailsRow.categories),
+      likes_count: detailsRow.likes_count ?? undefined,
+      views_count: detailsRow.views_count ?? undefined,
+      assets,
+      fetched_at: detailsRow.fetched_at
+    };
+  }
+
+  return {
+    ...getArtworkRow(id),
+    username: row.username,
+    display_name: row.display_name || undefined,
+    details
+  };
+}
+
+export function getArtworkDetailsFetchedAt(catalog_artist_id: number): Map<string, string> {
+  const rows = getDb().prepare(
+    `SELECT cw.artwork_id, d.fetched_at
+     FROM catalog_artwork_details d
+     JOIN catalog_artworks cw ON cw.id = d.catalog_artwork_id
+     WHERE cw.catalog_artist_id = ?`
+  ).all(catalog_artist_id) as Array<{ artwork_id: string; fetched_at: string }>;
+  return new Map(rows.map(row => [row.artwork_id, row.fetched_at]));
+}
+
+export function getCatalogImageHashes(catalog_artist_id: number): Map<string, CatalogImageHash> {
+  const rows = getDb().prepare(
+    `SELECT artwork_id, image_hash, image_hash_url
+     FROM catalog_artworks
+     WHERE catalog_artist_id = ? AND image_hash IS NOT NULL AND image_hash_url IS NOT NULL`
+  ).all(catalog_artist_id) as Array<{ artwork_id: string } & CatalogImageHash>;
+  return new Map(rows.map(row => [row.artwork_id, { image_hash: row.image_hash, image_hash_url: row.image_hash_url }]));
+}
+
+export function saveCatalogImageHashes(catalog_artist_id: number, hashes: Map<string, CatalogImageHash>): number {
+  const sqliteDb = getDb();
+  const update = sqliteDb.prepare(
+    'UPDATE catalog_artworks SET image_hash = ?, image_hash_url = ? WHERE catalog_artist_id = ? AND artwork_id = ?'
+  );
+  let stored = 0;
+  sqliteDb.transaction(() => {
+    for (const [artworkId, hash] of hashes) {
+      stored += update.run(hash.image_hash, hash.image_hash_url, catalog_artist_id, artworkId).changes;
+    }
+  })();
+  return stored;
+}
+
+export function getUserImageHashes(user_id: number): ArtworkImageHash[] {
+  const rows = getDb().prepare(
+    `SELECT a.id, a.artist_id, cw.image_hash, cw.upload_date, a.discovered_at
+     FROM artworks a
+     JOIN catalog_artworks cw ON cw.id = a.catalog_artwork_id
+     WHERE a.user_id = ? AND cw.image_hash IS NOT NULL`
+  ).all(user_id) as any[];
+  return rows.map(row => ({
+    id: row.id,
+    artist_id: row.artist_id,
+    image_hash: row.image_hash,
+    upload_date: row.upload_date || undefined,
+    discovered_at: row.discovered_at
+  }));
+}
+
+function rowToArchivedImage(row: any): ArchivedImage {
+  return {
+    artwork_id: row.artwork_id,
+    position: row.position,
+    source_url: row.source_url,
+    hash: row.hash,
+    byte_size: row.byte_size,
+    content_type: row.content_type || undefined,
+    archived_at: row.archived_at
+  };
+}
+
+export function getArchivedImages(user_id: number, artwork_id?: number): ArchivedImage[] {
+  const rows = getDb().prepare(
+    `SELECT aw.id AS artwork_id, ai.position, ai.source_url, ai.hash, ai.byte_size, ai.content_type, ai.archived_at
+     FROM archived_images ai
+     JOIN artworks aw ON aw.user_id = ai.user_id AND aw.catalog_artwork_id = ai.catalog_artwork_id
+     WHERE ai.user_id = ? AND (? IS NULL OR aw.id = ?)
+     ORDER BY aw.id, ai.position`
+  ).all(user_id, artwork_id ?? null, artwork_id ?? null);
+  return rows.map(rowToArchivedImage);
+}
+
+export function saveArchivedImage(user_id: number, image: ArchivedImage): boolean {
+  const result = getDb().prepare(
+    `INSERT INTO archived_images
+       (user_id, catalog_artwork_id, position, source_url, hash, byte_size, content_type, archived_at)
+     SELECT user_id, catalog_artwork_id, ?, ?, ?, ?, ?, ?
+     FROM artworks WHERE id = ? AND user_id = ?
+     ON CONFLICT (user_id, catalog_artwork_id, position) DO UPDATE SET
+       source_url = excluded.source_url,
+       hash = excluded.hash,
+       byte_size = excluded.byte_size,
+       content_type = excluded.content_type,
+       archived_at = excluded.archived_at`
+  ).run(
+    image.position,
+    image.source_url,
+    image.hash,
+    image.byte_size,
+    image.content_type || null,
+    image.archived_at,
+    image.artwork_id,
+    user_id
+  );
+  return result.changes > 0;
+}
+
+export function getImageArchiveUsage(user_id: number): ImageArchiveUsage {
+  return getDb().prepare(
+    'SELECT COUNT(*) AS files, COALESCE(SUM(byte_size), 0) AS bytes FROM archived_images WHERE user_id = ?'
+  ).get(user_id) as ImageArchiveUsage;
+}
+
+export function deleteOrphanedArchivedImages(): number {
+  return getDb().prepare(
+    `DELETE FROM archived_images
+     WHERE NOT EXISTS (
+       SELECT 1 FROM artworks aw
+       WHERE aw.user_id = archived_images.user_id AND aw.catalog_artwork_id = archived_images.catalog_artwork_id
+     )
+     AND NOT EXISTS (
+       SELECT 1 FROM deleted_artworks dw
+       WHERE dw.user_id = archived_images.user_id AND dw.catalog_artwork_id = archived_images.catalog_artwork_id
+     )`
+  ).run().changes;
+}
+
+export function getArchivedImageHashes(): Set<string> {
+  const rows = getDb().prepare('SELECT DISTINCT hash FROM archived_images').all() as Array<{ hash: string }>;
+  return new Set(rows.map(row => row.hash));
+}
+
+export function saveArtworkDetails(catalog_artist_id: number, artwork_id: string, details: ArtworkDetails): boolean {
+  const sqliteDb = getDb();
+  const catalog = sqliteDb.prepare('SELECT id FROM catalog_artworks WHERE catalog_artist_id = ? AND artwork_id = ?')
+    .get(catalog_artist_id, artwork_id) as { id: number } | undefined;
+  if (!catalog) return false;
+
+  sqliteDb.transaction(() => {
+    sqliteDb.prepare(
+      `INSERT INTO catalog_artwork_details
+         (catalog_artwork_id, description, tags, mediums, software, categories, likes_count, views_count, fetched_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (catalog_artwork_id) DO UPDATE SET
+         description = excluded.description,
+         tags = excluded.tags,
+         mediums = excluded.mediums,
+         software = excluded.software,
+         categories = excluded.categories,
+         likes_count = excluded.likes_count,
+         views_count = excluded.views_count,
+         fetched_at = excluded.fetched_at`
+    ).run(
+      catalog.id,
+      details.description || null,
+      JSON.stringify(details.tags),
+      JSON.stringify(details.mediums),
+      JSON.stringify(details.software),
+      JSON.stringify(details.categories),
+      details.likes_count ?? null,
+      details.views_count ?? null,
+      details.fetched_at
+    );
+
+    sqliteDb.prepare('DELETE FROM catalog_artwork_assets WHERE catalog_artwork_id = ?').run(catalog.id);
+    const insertAsset = sqliteDb.prepare(
+      `INSERT INTO catalog_artwork_assets
+         (catalog_artwork_id, position, asset_type, image_url, video_url, width, height, title)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const asset of details.assets) {
+      insertAsset.run(
+        catalog.id,
+        asset.position,
+        asset.asset_type,
+        asset.image_url || null,
+        asset.video_url || null,
+        asset.width ?? null,
+        asset.height ?? null,
+        asset.title || null
+      );
+    }
+  })();
+
+  return true;
+}
+
+export function markArtworkSeen(id: number, user_id: number): boolean {
+  const result = getDb().prepare('UPDATE artworks SET is_new = 0 WHERE id = ? AND user_id = ?').run(id, user_id);
+  return result.changes > 0;
+}
+
+export function markAllArtworksSeen(user_id: number, artist_id?: number): number {
+  let queryText = 'UPDATE artworks SET is_new = 0 WHERE user_id = ? AND is_new = 1';
+  const params: any[] = [user_id];
+
+  if (artist_id) {
+    queryText += ' AND artist_id = ?';
+    params.push(artist_id);
+  }
+
+  return getDb().prepare(queryText).run(...params).changes;
+}
+
+export function getNewArtworksCount(user_id: number): number {
+  const row = getDb().prepare(
+    `SELECT COUNT(*) AS count
+     FROM artworks aw
+     JOIN catalog_artworks cw ON cw.id = aw.catalog_artwork_id
+     WHERE aw.user_id = ? AND aw.is_new = 1 AND (cw.removed_at IS NULL OR aw.is_favorite = 1)`
+  ).get(user_id) as { count: number };
+  return row.count;
+}
+
+export function deleteAllArtworks(user_id: number): number {
+  return getDb().prepare('DELETE FROM artworks WHERE user_id = ?').run(user_id).changes;
+}
+
+// Permanent, including the user's trash
+export function deleteAllArtists(user_id: number): number {
+  const sqliteDb = getDb();
+  return sqliteDb.transaction(() => {
+    sqliteDb.prepare('DELETE FROM deleted_artists WHERE user_id = ?').run(user_id);
+    // Artworks are removed through ON DELETE CASCADE
+    return sqliteDb.prepare('DELETE FROM artists WHERE user_id = ?').run(user_id).changes;
+  })();
+}
+
+export function getPublicFeaturedArtworks(limit: number = 10): PublicFeaturedArtwork[] {
+  const baseQuery = `
+    SELECT
+      a.id,
+      a.catalog_artist_id AS artist_id,
+      a.title,
+      a.thumbnail_url,
+      a.artwork_url,
+      a.upload_date,
+      a.discovered_at,
+      ar.display_name,
+      ar.username
+    FROM catalog_artworks a
+    INNER JOIN catalog_artists ar ON ar.id = a.catalog_artist_id
+    WHERE a.removed_at IS NULL
+  `;
+
+  let rows = getDb().prepare(
+    `${baseQuery} AND a.thumbnail_url IS NOT NULL AND a.thumbnail_url <> '' ORDER BY RANDOM() LIMIT ?`
+  ).all(limit) as any[];
+  if (rows.length === 0) {
+    rows = getDb().prepare(`${baseQuery} ORDER BY RANDOM() LIMIT ?`).all(limit) as any[];
+  }
+
+  return rows.map(row => ({
+    id: row.id,
+    artist_id: row.artist_id,
+    title: row.title || 'Untitled',
+    thumbnail_url: row.thumbnail_url || undefined,
+    artwork_url: row.artwork_url || undefined,
+    upload_date: row.upload_date || undefined,
+    discovered_at: row.discovered_at || new Date().toISOString(),
+    username: row.username || undefined,
+    display_name: row.display_name || undefined,
+  }));
+}
+
+export function toggleFavorite(id: number, user_id: number): boolean {
+  const sqliteDb = getDb();
+  const row = sqliteDb.prepare(
+    `SELECT cw.artwork_id, aw.is_favorite, cw.artwork_url, ca.username AS artist_username
+     FROM artworks aw
+     JOIN catalog_artworks cw ON cw.id = aw.catalog_artwork_id
+     JOIN catalog_artists ca ON ca.id = cw.catalog_artist_id
+     WHERE aw.id = ? AND aw.user_id = ?`
+  ).get(id, user_id) as any;
+
+  if (!row) {
+    return false;
+  }
+
+  const newFavorite = (row.is_favorite || 0) === 1 ? 0 : 1;
+
+  sqliteDb.transaction(() => {
+    sqliteDb.prepare('UPDATE artworks SET is_favorite = ? WHERE id = ? AND user_id = ?').run(newFavorite, id, user_id);
+    // Also update persistent favorites table
+    if (newFavorite === 1) {
+      addPersistentFavorite(user_id, row.artist_username, row.artwork_id, row.artwork_url);
+    } else {
+      removePersistentFavorite(user_id, row.artist_username, row.artwork_id);
+    }
+  })();
+
+  return true;
+}
+
+// Add favorite to persistent storage (survives deletions)
+export function addPersistentFavorite(
+  user_id: number,
+  artist_username: string,
+  artwork_id: string,
+  artwork_url: string
+): void {
+  getDb().prepare(
+    `INSERT INTO persistent_favorites (user_id, artist_username, artwork_id, artwork_url, created_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (user_id, artist_username, artwork_id) DO NOTHING`
+  ).run(user_id, artist_username.toLowerCase(), artwork_id, artwork_url, new Date().toISOString());
+}
+
+// Remove favorite from persistent storage
+export function removePersistentFavorite(
+  user_id: number,
+  artist_username: string,
+  artwork_id: string
+): void {
+  getDb().prepare(
+    'DELETE FROM persistent_favorites WHERE user_id = ? AND artist_username = ? AND artwork_id = ?'
+  ).run(user_id, artist_username.toLowerCase(), artwork_id);
+}
+
+// Check if artwork should be a favorite (from persistent storage)
+export function isPersistentFavorite(
+  user_id: number,
+  artist_username: string,
+  artwork_id: string
+): boolean {
+  const row = getDb().prepare(
+    'SELECT 1 FROM persistent_favorites WHERE user_id = ? AND artist_username = ? AND artwork_id = ? LIMIT 1'
+  ).get(user_id, artist_username.toLowerCase(), artwork_id);
+  return !!row;
+}
+
+// List a user's persistent favorites
+export function getPersistentFavorites(user_id: number): PersistentFavorite[] {
+  return getDb().prepare(
+    'SELECT user_id, artist_username, artwork_id, artwork_url FROM persistent_favorites WHERE user_id = ? ORDER BY id'
+  ).all(user_id) as PersistentFavorite[];
+}
+
+// Restore favorite status for all artworks that match persistent favorites
+export function restoreFavoritesFromPersistent(user_id: number): number {
+  const result = getDb().prepare(
+    `UPDATE artworks
+     SET is_favorite = 1
+     WHERE user_id = ?
+       AND (is_favorite IS NULL OR is_favorite = 0)
+       AND id IN (
+         SELECT aw.id
+         FROM artworks aw
+         JOIN catalog_artworks cw ON cw.id = aw.catalog_artwork_id
+         JOIN catalog_artists ca ON ca.id = cw.catalog_artist_id
+         JOIN persistent_favorites pf
+           ON pf.user_id = aw.user_id
+          AND LOWER(pf.artist_username) = LOWER(ca.username)
+          AND pf.artwork_id = cw.artwork_id
+         WHERE aw.user_id = ?
+       )`
+  ).run(user_id, user_id);
+  return result.changes;
+}
+
+// Batch restore favorites for a user (useful after bulk import)
+export function restoreAllFavoritesForUser(user_id: number): number {
+  return restoreFavoritesFromPersistent(user_id);
+}
+
+// Scrape job queue operations
+function rowToScrapeJobItem(row: any): ScrapeJobItem {
+  return {
+    id: row.id,
+    job_id: row.job_id,
+    target_id: row.target_id,
+    label: row.label,
+    status: row.status,
+    attempts: row.attempts,
+    next_attempt_at: row.next_attempt_at,
+    last_error: row.last_error || undefined,
+    result: row.result ? JSON.parse(row.result) : undefined,
+    finished_at: row.finished_at || undefined
+  };
+}
+
+function rowToScrapeJob(row: any): ScrapeJob {
+  const items = getDb().prepare('SELECT * FROM scrape_job_items WHERE job_id = ? ORDER BY id').all(row.id);
+  return {
+    id: row.id,
+    type: row.type,
+    user_id: row.user_id ?? null,
+    status: row.status,
+    payload: JSON.parse(row.payload),
+    created_at: row.created_at,
+    started_at: row.started_at || undefined,
+    finished_at: row.finished_at || undefined,
+    items: items.map(rowToScrapeJobItem)
+  };
+}
+
+export function createScrapeJob(
+  type: ScrapeJobType,
+  user_id: number | null,
+  payload: any,
+  items: Array<{ target_id: number; label: string }>
+): ScrapeJob {
+  const sqliteDb = getDb();
+  const now = new Date().toISOString();
+
+  const jobId = sqliteDb.transaction(() => {
+    const result = sqliteDb.prepare(
+      'INSERT INTO scrape_jobs (type, user_id, status, payload, created_at) VALUES (?, ?, ?, ?, ?)'
+    ).run(type, user_id, 'queued', JSON.stringify(payload ?? {}), now);
+    const id = Number(result.lastInsertRowid);
+
+    const insertItem = sqliteDb.prepare(
+      'INSERT INTO scrape_job_items (job_id, target_id, label, next_attempt_at) VALUES (?, ?, ?, ?)'
+    );
+    for (const item of items) {
+      insertItem.run(id, item.target_id, item.label, now);
+    }
+    return id;
+  })();
+
+  return getScrapeJob(jobId)!;
+}
+
+export function getScrapeJob(id: number): ScrapeJob | undefined {
+  const row = getDb().prepare('SELECT * FROM scrape_jobs WHERE id = ?').get(id);
+  return row ? rowToScrapeJob(row) : undefined;
+}
+
+export function getScrapeJobs(filter: ScrapeJobFilter = {}): ScrapeJob[] {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filter.user_id === null) {
+    conditions.push('user_id IS NULL');
+  } else if (filter.user_id !== undefined) {
+    conditions.push('user_id = ?');
+    params.push(filter.user_id);
+  }
+  if (filter.statuses) {
+    conditions.push(`status IN (${filter.statuses.map(() => '?').join(', ')})`);
+    params.push(...filter.statuses);
+  }
+
+  let queryText = 'SELECT * FROM scrape_jobs';
+  if (conditions.length > 0) {
+    queryText += ` WHERE ${conditions.join(' AND ')}`;
+  }
+  queryText += ' ORDER BY id DESC';
+  if (filter.limit) {
+    queryText += ' LIMIT ?';
+    params.push(filter.limit);
+  }
+
+  return getDb().prepare(queryText).all(...params).map(rowToScrapeJob);
+}
+
+export function updateScrapeJob(id: number, updates: ScrapeJobUpdate): boolean {
+  const fields: string[] = [];
+  const values: any[] = [];
+
+  for (const key of ['status', 'started_at', 'finished_at'] as const) {
+    if (updates[key] !== undefined) {
+      fields.push(`${key} = ?`);
+      values.push(updates[key]);
+    }
+  }
+  if (fields.length === 0) return false;
+
+  values.push(id);
+  return getDb().prepare(`UPDATE scrape_jobs SET ${fields.join(', ')} WHERE id = ?`).run(...values).changes > 0;
+}
+
+export function updateScrapeJobItem(id: number, updates: ScrapeJobItemUpdate): boolean {
+  const fields: string[] = [];
+  const values: any[] = [];
+
+  for (const key of ['status', 'attempts', 'next_attempt_at', 'last_error', 'finished_at'] as const) {
+    if (updates[key] !== undefined) {
+      fields.push(`${key} = ?`);
+      values.push(updates[key]);
+    }
+  }
+  if (updates.result !== undefined) {
+    fields.push('result = ?');
+    values.push(JSON.stringify(updates.result));
+  }
+  if (fields.length === 0) return false;
+
+  values.push(id);
+  return getDb().prepare(`UPDATE scrape_job_items SET ${fields.join(', ')} WHERE id = ?`).run(...values).changes > 0;
+}
+
+export function deleteScrapeJobsFinishedBefore(before: string): number {
+  return getDb().prepare(
+    "DELETE FROM scrape_jobs WHERE status IN ('completed', 'failed') AND finished_at < ?"
+  ).run(before).changes;
+}
+
+// Scrape history operations
+function rowToScrapeRun(row: any): ScrapeRun {
+  return {
+    id: row.id,
+    job_id: row.job_id,
+    type: row.type,
+    trigger: row.trigger,
+    user_id: row.user_id ?? null,
+    status: row.status,
+    created_at: row.created_at,
+    started_at: row.started_at || undefined,
+    finished_at: row.finished_at || undefined,
+    duration_ms: row.duration_ms ?? undefined,
+    total: row.total,
+    completed: row.completed,
+    skipped: row.skipped,
+    failed: row.failed,
+    new_artworks: row.new_artworks,
+    updated_artworks: row.updated_artworks
+  };
+}
+
+function rowToScrapeOutcome(row: any): ScrapeOutcome {
+  return {
+    id: row.id,
+    run_id: row.run_id,
+    catalog_artist_id: row.catalog_artist_id ?? null,
+    username: row.username,
+    attempt: row.attempt,
+    status: row.status,
+    pages_fetched: row.pages_fetched,
+    new_artworks: row.new_artworks,
+    updated_artworks: row.updated_artworks,
+    duration_ms: row.duration_ms,
+    reason: row.reason || undefined,
+    error: row.error || undefined,
+    block_reason: row.block_reason || undefined,
+    created_at: row.created_at
+  };
+}
+
+export function createScrapeRun(run: NewScrapeRun): ScrapeRun {
+  const result = getDb().prepare(
+    'INSERT INTO scrape_runs (job_id, type, trigger, user_id, status, created_at, total) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  ).run(run.job_id, run.type, run.trigger, run.user_id, 'queued', new Date().toISOString(), run.total);
+  return getScrapeRun(Number(result.lastInsertRowid))!;
+}
+
+export function getScrapeRun(id: number): ScrapeRun | undefined {
+  const row = getDb().prepare('SELECT * FROM scrape_runs WHERE id = ?').get(id);
+  return row ? rowToScrapeRun(row) : undefined;
+}
+
+export function getScrapeRunForJob(job_id: number): ScrapeRun | undefined {
+  const row = getDb().prepare('SELECT * FROM scrape_runs WHERE job_id = ? ORDER BY id DESC LIMIT 1').get(job_id);
+  return row ? rowToScrapeRun(row) : undefined;
+}
+
+export function getScrapeRuns(user_id: number, limit: number): ScrapeRun[] {
+  return getDb().prepare(
+    'SELECT * FROM scrape_runs WHERE user_id IS NULL OR user_id = ? ORDER BY id DESC LIMIT ?'
+  ).all(user_id, limit).map(rowToScrapeRun);
+}
+
+export function updateScrapeRun(id: number, updates: ScrapeRunUpdate): boolean {
+  const fields: string[] = [];
+  const values: any[] = [];
+
+  for (const key of [
+    'status', 'started_at', 'finished_at', 'duration_ms',
+    'total', 'completed', 'skipped', 'failed', 'new_artworks', 'updated_artworks'
+  ] as const) {
+    if (updates[key] !== undefined) {
+      fields.push(`${key} = ?`);
+      values.push(updates[key]);
+    }
+  }
+  if (fields.length === 0) return false;
+
+  values.push(id);
+  return getDb().prepare(`UPDATE scrape_runs SET ${fields.join(', ')} WHERE id = ?`).run(...values).changes > 0;
+}
+
+export function addScrapeOutcome(outcome: NewScrapeOutcome): void {
+  getDb().prepare(`
+    INSERT INTO scrape_run_outcomes (
+      run_id, catalog_artist_id, username, attempt, status, pages_fetched, new_artworks,
+      updated_artworks, duration_ms, reason, error, block_reason, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    outcome.run_id,
+    outcome.catalog_artist_id,
+    outcome.username,
+    outcome.attempt,
+    outcome.status,
+    outcome.pages_fetched,
+    outcome.new_artworks,
+    outcome.updated_artworks,
+    outcome.duration_ms,
+    outcome.reason ?? null,
+    outcome.error ?? null,
+    outcome.block_reason ?? null,
+    new Date().toISOString()
+  );
+}
+
+export function getScrapeOutcomes(run_id: number): ScrapeOutcome[] {
+  return getDb().prepare('SELECT * FROM scrape_run_outcomes WHERE run_id = ? ORDER BY id')
+    .all(run_id).map(rowToScrapeOutcome);
+}
+
+export function getArtistScrapeHistory(catalog_artist_id: number, user_id: number, limit: number): ScrapeHistoryEntry[] {
+  return getDb().prepare(`
+    SELECT o.*, r.type, r.trigger
+    FROM scrape_run_outcomes o
+    JOIN scrape_runs r ON r.id = o.run_id
+    WHERE o.catalog_artist_id = ? AND (r.user_id IS NULL OR r.user_id = ?)
+    ORDER BY o.id DESC
+    LIMIT ?
+  `).all(catalog_artist_id, user_id, limit).map((row: any) => ({
+    ...rowToScrapeOutcome(row),
+    type: row.type,
+    trigger: row.trigger
+  }));
+}
+
+export function deleteScrapeRunsFinishedBefore(before: string): number {
+  return getDb().prepare('DELETE FROM scrape_runs WHERE finished_at < ?').run(before).changes;
+}
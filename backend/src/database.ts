@@ -1,9 +1,10 @@
-// Unified database interface that supports both JSON (local dev) and PostgreSQL (production)
-// If DATABASE_URL is set, use PostgreSQL; otherwise use JSON file storage
+// Unified database interface that supports JSON (local dev), SQLite (self-hosted) and PostgreSQL (production)
+// If DATABASE_URL starts with sqlite: use SQLite, if it is set otherwise use PostgreSQL; without it use JSON file storage
 // All functions return Promises for consistent async interface
 
 import * as jsonDb from './database-json';
 import * as pgDb from './database-postgres';
+import * as sqliteDb from './database-sqlite';
 
 export interface User {
   id: number;
@@ -13,19 +14,77 @@ export interface User {
   created_at: string;
   discord_webhook_url?: string;
   discord_user_id?: string;
+  notify_removed_artworks?: boolean; // Discord message when a full rescan finds artworks taken down
+  image_archive?: ImageArchiveMode; // Missing means 'off'
+  mute_repost_notifications?: boolean; // No Discord notification for likely reposts (see reposts.ts)
 }
 
+// Which images of new and favorited artworks are downloaded into the image archive
+// (see imageArchive.ts): none, the cover, or the cover and every image asset
+export type ImageArchiveMode = 'off' | 'covers' | 'all';
+
+// What the scrapers last found at the account's address: 'renamed' accounts were followed to
+// their new handle, 'gone' ones answer 404 and 'private' ones are hidden from visitors
+export type ArtistAccountStatus = 'active' | 'renamed' | 'gone' | 'private';
+
+// The provider an artist's works come from (see providers/)
+export type ArtistSource = 'artstation' | 'rss';
+
 export interface Artist {
   id: number;
   user_id: number;
-  username: string;
+  catalog_artist_id: number; // Shared across every user following the same ArtStation account
+  source: ArtistSource;
+  username: string; // ArtStation handle, or a key made from the feed URL for feed sources
+  feed_url?: string; // Feed sources only: where the works are read from
   display_name?: string;
   profile_url: string;
   avatar_url?: string;
   last_checked?: string;
+  account_status: ArtistAccountStatus;
+  account_status_changed_at?: string;
+  previous_username?: string; // Handle before the last rename
+  check_interval_hours?: number; // Pinned by this user; unset means the interval follows the posting cadence
+  next_check_at?: string; // When scheduled checks look at the account next (unset: at the next run)
   created_at: string;
 }
 
+// An account in the shared catalog, whoever follows it
+export interface CatalogAccount {
+  id: number; // catalog_artist_id
+  source: ArtistSource;
+  username: string;
+  profile_url: string;
+  feed_url?: string;
+}
+
+// A link from an artist's profile: a social network, portfolio, shop, ...
+export interface ArtistLink {
+  network: string; // ArtStation's name for it (twitter, instagram, website, ...)
+  url: string;
+}
+
+// Profile data of an ArtStation account, refreshed with every check (see utils/artistProfile.ts)
+export interface ArtistProfile {
+  display_name?: string; // Also kept on the artist itself, like avatar_url
+  avatar_url?: string;
+  headline?: string;
+  bio?: string; // Plain text
+  location?: string;
+  cover_url?: string;
+  links: ArtistLink[];
+  followers_count?: number;
+  following_count?: number;
+  fetched_at: string;
+}
+
+// An account's follower counts on one day (the last check of that day)
+export interface FollowerCountPoint {
+  date: string; // YYYY-MM-DD, UTC
+  followers_count: number;
+  following_count?: number;
+}
+
 export interface Artwork {
   id: number;
   user_id: number;
@@ -40,8 +99,143 @@ export interface Artwork {
   is_new: number;
   is_favorite?: number;
   discovered_at: string;
+  removed_at?: string; // A full rescan no longer found it on the artist's profile
+}
+
+// An unfollowed artist waiting in the trash; its artworks keep their seen/favorite state
+export interface TrashedArtist extends Artist {
+  deleted_at: string;
+  purge_at: string; // Permanently removed after this
+  artwork_count: number;
+}
+
+export interface PersistentFavorite {
+  user_id: number;
+  artist_username: string;
+  artwork_id: string;
+  artwork_url: string;
+}
+
+// What an artwork looked like before an edit was picked up by a scrape
+export interface ArtworkRevision {
+  id: number;
+  revision: number;
+  title: string;
+  thumbnail_url: string;
+  high_quality_image_url?: string;
+  artwork_url: string;
+  upload_date?: string;
+  last_updated_at?: string;
+  replaced_at: string;
+}
+
+export interface ArtworkHistory {
+  artwork: Artwork;
+  revisions: ArtworkRevision[]; // Newest first
+}
+
+// One image or video of an ArtStation project, in display order
+export interface ArtworkAsset {
+  position: number;
+  asset_type: string; // image, video, video_clip, model3d, pano, ...
+  image_url?: string; // Still image (also the poster of most videos)
+  video_url?: string; // Embed/player URL for videos
+  width?: number;
+  height?: number;
+  title?: string;
+}
+
+// Project page data, fetched separately from the projects list
+export interface ArtworkDetails {
+  description?: string; // Plain text
+  tags: string[];
+  mediums: string[];
+  software: string[];
+  categories: string[];
+  likes_count?: number;
+  views_count?: number;
+  assets: ArtworkAsset[];
+  fetched_at: string;
+}
+
+// One of a user's artwork images in the image archive; the file itself is stored once per hash
+export interface ArchivedImage {
+  artwork_id: number; // The user's artwork (Artwork.id)
+  position: number; // 0 is the cover, image assets follow from 1 in display order
+  source_url: string; // Where it was downloaded from
+  hash: string; // SHA-256 of the file, also its name in the archive
+  byte_size: number;
+  content_type?: string;
+  archived_at: string;
+}
+
+// What a user's archived images add up to; a file shared with other users counts for each
+export interface ImageArchiveUsage {
+  files: number;
+  bytes: number;
+}
+
+// Perceptual hash of a catalog artwork's thumbnail (see utils/imageHash.ts)
+export interface CatalogImageHash {
+  image_hash: string; // 16 hex digits
+  image_hash_url: string; // The thumbnail it was computed from; a new one is hashed again
+}
+
+// Hashed artworks of a user, to look for reposts among
+export interface ArtworkImageHash {
+  id: number; // The user's artwork (Artwork.id)
+  artist_id: number;
+  image_hash: string;
+  upload_date?: string;
+  discovered_at: string;
+}
+
+export type ArtworkWithDetails = ArtworkWithArtistInfo & {
+  details: ArtworkDetails | null; // null until the project page has been scraped
+};
+
+export type ArtworkSort = 'upload_date' | 'discovered_at' | 'last_updated_at' | 'artist';
+
+// Position after the last artwork of the previous page
+export interface ArtworkCursor {
+  value: string | number; // Sort value of that artwork
+  id: number;
+}
+
+export interface ArtworkPageQuery {
+  artist_id?: number;
+  new_only?: boolean;
+  favorites_only?: boolean;
+  latest_per_artist?: boolean; // Only the most recent artwork of each artist
+  sort: ArtworkSort;
+  order: 'asc' | 'desc';
+  from?: string; // Inclusive range on the sorted date (upload date when sorting by artist)
+  to?: string;
+  limit: number;
+  after?: ArtworkCursor;
+}
+
+export type ArtworkWithArtistInfo = Artwork & { username?: string; display_name?: string };
+
+export interface ArtworkPage {
+  artworks: ArtworkWithArtistInfo[];
+  next: ArtworkCursor | null;
+}
+
+export interface ArtworkSearchQuery {
+  q: string;
+  artist_id?: number;
+  new_only?: boolean;
+  favorites_only?: boolean;
+  limit: number;
 }
 
+export type ArtworkSearchResult = ArtworkWithArtistInfo & {
+  rank: number; // Higher is better; only comparable within one search
+  title_highlight: string; // Title with matching words wrapped in <mark></mark>
+  artist_highlight: string; // Artist username, same markup
+};
+
 export interface PublicFeaturedArtwork {
   id: number;
   artist_id: number;
@@ -54,12 +248,119 @@ export interface PublicFeaturedArtwork {
   display_name?: string;
 }
 
-const usePostgres = !!process.env.DATABASE_URL;
+// Background scrape work, stored so a restart picks up where it stopped (see jobQueue.ts)
+export type ScrapeJobType = 'check' | 'update' | 'rescan' | 'import_following' | 'import_list';
+// failed = finished, but at least one item ran out of attempts
+export type ScrapeJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+// dead = out of attempts (the dead-letter queue); only retried on request
+export type ScrapeJobItemStatus = 'pending' | 'completed' | 'dead';
 
-export function initDatabase(): void {
+// One unit of a job with its own attempts: an artist, a catalog account (scheduled jobs)
+// or a user (following imports)
+export interface ScrapeJobItem {
+  id: number;
+  job_id: number;
+  target_id: number;
+  label: string; // Username, for logs and the UI
+  status: ScrapeJobItemStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error?: string;
+  result?: any;
+  finished_at?: string;
+}
+
+export interface ScrapeJob {
+  id: number;
+  type: ScrapeJobType;
+  user_id: number | null; // null for scheduled jobs covering every user
+  status: ScrapeJobStatus;
+  payload: any;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+  items: ScrapeJobItem[];
+}
+
+export interface ScrapeJobFilter {
+  user_id?: number | null; // null: scheduled jobs only
+  statuses?: ScrapeJobStatus[];
+  limit?: number;
+}
+
+export type ScrapeJobUpdate = Partial<Pick<ScrapeJob, 'status' | 'started_at' | 'finished_at'>>;
+export type ScrapeJobItemUpdate = Partial<Pick<ScrapeJobItem, 'status' | 'attempts' | 'next_attempt_at' | 'last_error' | 'result' | 'finished_at'>>;
+
+// Who queued a run: a user in the app, the built-in scheduler or an external cron service
+export type ScrapeRunTrigger = 'manual' | 'scheduled' | 'cron';
+// paused = the circuit breaker was open; the item waits for it without using up an attempt
+export type ScrapeOutcomeStatus = 'completed' | 'skipped' | 'failed' | 'paused';
+
+// The history of one scrape job. Kept longer than the job itself, so job_id may point to a
+// job that has been purged already.
+export interface ScrapeRun {
+  id: number;
+  job_id: number;
+  type: ScrapeJobType;
+  trigger: ScrapeRunTrigger;
+  user_id: number | null; // null for scheduled runs covering every user
+  status: ScrapeJobStatus;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+  duration_ms?: number;
+  // Items of the job (artists, accounts or users) by how they ended
+  total: number;
+  completed: number;
+  skipped: number;
+  failed: number;
+  new_artworks: number;
+  updated_artworks: number;
+}
+
+// One attempt at one artist during a run
+export interface ScrapeOutcome {
+  id: number;
+  run_id: number;
+  catalog_artist_id: number | null; // null for following imports, which run per user
+  username: string;
+  attempt: number;
+  status: ScrapeOutcomeStatus;
+  pages_fetched: number; // Requests ArtStation answered, including the quick check
+  new_artworks: number;
+  updated_artworks: number;
+  duration_ms: number;
+  reason?: string; // Why it was skipped
+  error?: string;
+  block_reason?: 'rate_limited' | 'challenge'; // Last HTTP 429 or Cloudflare challenge on the way
+  created_at: string;
+}
+
+// An artist's outcome together with the kind of run it was part of
+export type ScrapeHistoryEntry = ScrapeOutcome & Pick<ScrapeRun, 'type' | 'trigger'>;
+
+export type NewScrapeRun = Pick<ScrapeRun, 'job_id' | 'type' | 'trigger' | 'user_id' | 'total'>;
+export type NewScrapeOutcome = Omit<ScrapeOutcome, 'id' | 'created_at'>;
+export type ScrapeRunUpdate = Partial<Omit<ScrapeRun, 'id' | 'job_id' | 'type' | 'trigger' | 'user_id' | 'created_at'>>;
+
+// How long unfollowed artists can be restored before the scheduler purges them
+export const ARTIST_TRASH_RETENTION_DAYS = parseInt(process.env.ARTIST_TRASH_RETENTION_DAYS || '30');
+// Finished scrape jobs are kept this long for the job history
+export const SCRAPE_JOB_RETENTION_DAYS = parseInt(process.env.SCRAPE_JOB_RETENTION_DAYS || '14');
+// Scrape runs and their per-artist outcomes are kept this long for the scrape history
+export const SCRAPE_RUN_RETENTION_DAYS = parseInt(process.env.SCRAPE_RUN_RETENTION_DAYS || '90');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const useSqlite = (process.env.DATABASE_URL || '').startsWith('sqlite:');
+const usePostgres = !!process.env.DATABASE_URL && !useSqlite;
+
+export async function initDatabase(): Promise<void> {
   if (usePostgres) {
     console.log('📦 Using PostgreSQL database');
-    pgDb.initDatabase();
+    await pgDb.initDatabase();
+  } else if (useSqlite) {
+    console.log('📦 Using SQLite database');
+    sqliteDb.initDatabase();
   } else {
     console.log('📦 Using JSON file storage (local development)');
     jsonDb.initDatabase();
@@ -76,6 +377,9 @@ export async function getAllUsers(): Promise<User[]> {
   if (usePostgres) {
     return pgDb.getAllUsers();
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getAllUsers());
+  }
   return toPromise(jsonDb.getAllUsers());
 }
 
@@ -83,6 +387,9 @@ export async function getUserById(id: number): Promise<User | undefined> {
   if (usePostgres) {
     return pgDb.getUserById(id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getUserById(id));
+  }
   return toPromise(jsonDb.getUserById(id));
 }
 
@@ -90,6 +397,9 @@ export async function getUserByUsername(username: string): Promise<User | undefi
   if (usePostgres) {
     return pgDb.getUserByUsername(username);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getUserByUsername(username));
+  }
   return toPromise(jsonDb.getUserByUsername(username));
 }
 
@@ -97,6 +407,9 @@ export async function getUserByToken(token: string): Promise<User | undefined> {
   if (usePostgres) {
     return pgDb.getUserByToken(token);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getUserByToken(token));
+  }
   return toPromise(jsonDb.getUserByToken(token));
 }
 
@@ -104,6 +417,9 @@ export async function createUser(username: string, artstation_username?: string)
   if (usePostgres) {
     return pgDb.createUser(username, artstation_username);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.createUser(username, artstation_username));
+  }
   return toPromise(jsonDb.createUser(username, artstation_username));
 }
 
@@ -111,6 +427,9 @@ export async function updateUser(id: number, updates: Partial<User>): Promise<bo
   if (usePostgres) {
     return pgDb.updateUser(id, updates);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.updateUser(id, updates));
+  }
   return toPromise(jsonDb.updateUser(id, updates));
 }
 
@@ -119,42 +438,232 @@ export async function getAllArtists(user_id: number): Promise<Artist[]> {
   if (usePostgres) {
     return pgDb.getAllArtists(user_id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getAllArtists(user_id));
+  }
   return toPromise(jsonDb.getAllArtists(user_id));
 }
 
+// Every follow of every user, ordered by catalog artist so each account can be scraped once
+export async function getAllFollowedArtists(): Promise<Artist[]> {
+  if (usePostgres) {
+    return pgDb.getAllFollowedArtists();
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getAllFollowedArtists());
+  }
+  return toPromise(jsonDb.getAllFollowedArtists());
+}
+
+// Catalog account by handle or feed key (case-insensitive), followed by anyone or not
+export async function getCatalogAccount(username: string): Promise<CatalogAccount | undefined> {
+  if (usePostgres) {
+    return pgDb.getCatalogAccount(username);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getCatalogAccount(username));
+  }
+  return toPromise(jsonDb.getCatalogAccount(username));
+}
+
+// Every user's follow of one catalog artist
+export async function getFollowersOfCatalogArtist(catalog_artist_id: number): Promise<Artist[]> {
+  if (usePostgres) {
+    return pgDb.getFollowersOfCatalogArtist(catalog_artist_id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getFollowersOfCatalogArtist(catalog_artist_id));
+  }
+  return toPromise(jsonDb.getFollowersOfCatalogArtist(catalog_artist_id));
+}
+
 export async function getArtistById(id: number, user_id: number): Promise<Artist | undefined> {
   if (usePostgres) {
     return pgDb.getArtistById(id, user_id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getArtistById(id, user_id));
+  }
   return toPromise(jsonDb.getArtistById(id, user_id));
 }
 
-export async function addArtist(user_id: number, username: string, profile_url: string): Promise<Artist> {
+export async function addArtist(
+  user_id: number,
+  username: string,
+  profile_url: string,
+  source: ArtistSource = 'artstation',
+  feed_url?: string
+): Promise<Artist> {
   if (usePostgres) {
-    return pgDb.addArtist(user_id, username, profile_url);
+    return pgDb.addArtist(user_id, username, profile_url, source, feed_url);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.addArtist(user_id, username, profile_url, source, feed_url));
   }
-  return toPromise(jsonDb.addArtist(user_id, username, profile_url));
+  return toPromise(jsonDb.addArtist(user_id, username, profile_url, source, feed_url));
 }
 
 export async function updateArtist(id: number, user_id: number, updates: Partial<Artist>): Promise<boolean> {
   if (usePostgres) {
     return pgDb.updateArtist(id, user_id, updates);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.updateArtist(id, user_id, updates));
+  }
   return toPromise(jsonDb.updateArtist(id, user_id, updates));
 }
 
+// Pin how often this user's artist is checked, or null to go back to the adaptive interval
+export async function setArtistCheckInterval(id: number, user_id: number, hours: number | null): Promise<boolean> {
+  if (usePostgres) {
+    return pgDb.setArtistCheckInterval(id, user_id, hours);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.setArtistCheckInterval(id, user_id, hours));
+  }
+  return toPromise(jsonDb.setArtistCheckInterval(id, user_id, hours));
+}
+
+export async function setNextCheckAt(catalog_artist_id: number, next_check_at: string): Promise<void> {
+  if (usePostgres) {
+    return pgDb.setNextCheckAt(catalog_artist_id, next_check_at);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.setNextCheckAt(catalog_artist_id, next_check_at));
+  }
+  return toPromise(jsonDb.setNextCheckAt(catalog_artist_id, next_check_at));
+}
+
+// Upload dates of an account's most recent artworks, newest first (for its posting cadence)
+export async function getRecentUploadDates(catalog_artist_id: number, limit: number): Promise<string[]> {
+  if (usePostgres) {
+    return pgDb.getRecentUploadDates(catalog_artist_id, limit);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getRecentUploadDates(catalog_artist_id, limit));
+  }
+  return toPromise(jsonDb.getRecentUploadDates(catalog_artist_id, limit));
+}
+
+// Artworks of an account compared with its complete project list (see removedArtworks.ts)
+export interface RemovedArtworksSync {
+  removed: string[]; // artwork_ids missing from the list, marked removed just now
+  restored: string[]; // artwork_ids that were marked removed but are listed again
+}
+
+// Removed artworks stay stored, but only favorites are still listed in the feed
+export async function syncRemovedArtworks(catalog_artist_id: number, listed_artwork_ids: string[]): Promise<RemovedArtworksSync> {
+  if (usePostgres) {
+    return pgDb.syncRemovedArtworks(catalog_artist_id, listed_artwork_ids);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.syncRemovedArtworks(catalog_artist_id, listed_artwork_ids));
+  }
+  return toPromise(jsonDb.syncRemovedArtworks(catalog_artist_id, listed_artwork_ids));
+}
+
+// Store a freshly fetched profile: the name and avatar on the artist, the rest next to it, and
+// today's point of the follower count series
+export async function saveArtistProfile(catalog_artist_id: number, profile: ArtistProfile): Promise<void> {
+  if (usePostgres) {
+    return pgDb.saveArtistProfile(catalog_artist_id, profile);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.saveArtistProfile(catalog_artist_id, profile));
+  }
+  return toPromise(jsonDb.saveArtistProfile(catalog_artist_id, profile));
+}
+
+// Null until the profile has been fetched once
+export async function getArtistProfile(catalog_artist_id: number): Promise<ArtistProfile | null> {
+  if (usePostgres) {
+    return pgDb.getArtistProfile(catalog_artist_id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getArtistProfile(catalog_artist_id));
+  }
+  return toPromise(jsonDb.getArtistProfile(catalog_artist_id));
+}
+
+// The most recent `days` points, oldest first
+export async function getFollowerCountHistory(catalog_artist_id: number, days: number): Promise<FollowerCountPoint[]> {
+  if (usePostgres) {
+    return pgDb.getFollowerCountHistory(catalog_artist_id, days);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getFollowerCountHistory(catalog_artist_id, days));
+  }
+  return toPromise(jsonDb.getFollowerCountHistory(catalog_artist_id, days));
+}
+
+// Move a catalog artist to its new ArtStation handle, keeping its artworks and the followers'
+// favorites. False when another catalog artist already has that handle.
+export async function renameCatalogArtist(catalog_artist_id: number, username: string, profile_url: string): Promise<boolean> {
+  if (usePostgres) {
+    return pgDb.renameCatalogArtist(catalog_artist_id, username, profile_url);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.renameCatalogArtist(catalog_artist_id, username, profile_url));
+  }
+  return toPromise(jsonDb.renameCatalogArtist(catalog_artist_id, username, profile_url));
+}
+
 export async function deleteArtist(id: number, user_id: number): Promise<boolean> {
   if (usePostgres) {
     return pgDb.deleteArtist(id, user_id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.deleteArtist(id, user_id));
+  }
   return toPromise(jsonDb.deleteArtist(id, user_id));
 }
 
+export async function getTrashedArtists(user_id: number): Promise<TrashedArtist[]> {
+  let artists: Omit<TrashedArtist, 'purge_at'>[];
+  if (usePostgres) {
+    artists = await pgDb.getTrashedArtists(user_id);
+  } else if (useSqlite) {
+    artists = sqliteDb.getTrashedArtists(user_id);
+  } else {
+    artists = jsonDb.getTrashedArtists(user_id);
+  }
+  return artists.map(artist => ({
+    ...artist,
+    purge_at: new Date(new Date(artist.deleted_at).getTime() + ARTIST_TRASH_RETENTION_DAYS * DAY_MS).toISOString()
+  }));
+}
+
+// Throws ARTIST_EXISTS when the user follows the account again under a different id
+export async function restoreArtist(id: number, user_id: number): Promise<Artist | undefined> {
+  if (usePostgres) {
+    return pgDb.restoreArtist(id, user_id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.restoreArtist(id, user_id));
+  }
+  return toPromise(jsonDb.restoreArtist(id, user_id));
+}
+
+// Permanently removes artists that have been in the trash longer than the retention period
+export async function purgeExpiredArtists(): Promise<number> {
+  const before = new Date(Date.now() - ARTIST_TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+  if (usePostgres) {
+    return pgDb.purgeTrashedArtists(before);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.purgeTrashedArtists(before));
+  }
+  return toPromise(jsonDb.purgeTrashedArtists(before));
+}
+
 // Artwork operations
 export async function getAllArtworks(user_id: number, filters?: { artist_id?: number; new_only?: boolean; favorites_only?: boolean }): Promise<Artwork[]> {
   if (usePostgres) {
     return pgDb.getAllArtworks(user_id, filters);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getAllArtworks(user_id, filters));
+  }
   return toPromise(jsonDb.getAllArtworks(user_id, filters));
 }
 
@@ -162,12 +671,68 @@ export async function getArtworksWithArtistInfo(user_id: number, filters?: { art
   if (usePostgres) {
     return pgDb.getArtworksWithArtistInfo(user_id, filters);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getArtworksWithArtistInfo(user_id, filters));
+  }
   return toPromise(jsonDb.getArtworksWithArtistInfo(user_id, filters));
 }
 
+export async function getArtworksPage(
+  user_id: number,
+  query: ArtworkPageQuery
+): Promise<{ artworks: ArtworkWithArtistInfo[]; next_cursor: string | null }> {
+  let page: ArtworkPage;
+  if (usePostgres) {
+    page = await pgDb.getArtworksPage(user_id, query);
+  } else if (useSqlite) {
+    page = await toPromise(sqliteDb.getArtworksPage(user_id, query));
+  } else {
+    page = await toPromise(jsonDb.getArtworksPage(user_id, query));
+  }
+  return { artworks: page.artworks, next_cursor: page.next ? encodeArtworkCursor(page.next) : null };
+}
+
+// Best matches first, newest first among equal matches
+export async function searchArtworks(user_id: number, query: ArtworkSearchQuery): Promise<ArtworkSearchResult[]> {
+  if (usePostgres) {
+    return pgDb.searchArtworks(user_id, query);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.searchArtworks(user_id, query));
+  }
+  return toPromise(jsonDb.searchArtworks(user_id, query));
+}
+
+// Cursors are opaque to clients
+function encodeArtworkCursor(cursor: ArtworkCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+}
+
+// Null when the cursor doesn't fit the sort: date sorts need a date (the JSON store uses
+// milliseconds), which the adapters compare without checking it again
+export function decodeArtworkCursor(cursor: string, sort: ArtworkSort): ArtworkCursor | null {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if ((typeof value !== 'string' && typeof value !== 'number') || !Number.isInteger(id)) {
+      return null;
+    }
+    const fitsSort = sort === 'artist'
+      ? typeof value === 'string'
+      : typeof value === 'number' ? Number.isFinite(value) : !isNaN(Date.parse(value));
+    if (!fitsSort) {
+      return null;
+    }
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
+
 export interface AddArtworkOptions {
   allowInsert?: boolean;
   markUpdatesAsNew?: boolean;
+  // Only link artworks the shared catalog already has, without changing them; nothing is inserted
+  catalogOnly?: boolean;
 }
 
 export interface AddArtworkResult {
@@ -192,6 +757,9 @@ export async function addArtwork(
   if (usePostgres) {
     return pgDb.addArtwork(user_id, artist_id, artwork_id, title, thumbnail_url, artwork_url, upload_date, updated_at, high_quality_image_url, options);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.addArtwork(user_id, artist_id, artwork_id, title, thumbnail_url, artwork_url, upload_date, updated_at, high_quality_image_url, options));
+  }
   return toPromise(jsonDb.addArtwork(user_id, artist_id, artwork_id, title, thumbnail_url, artwork_url, upload_date, updated_at, high_quality_image_url, options));
 }
 
@@ -199,6 +767,9 @@ export async function markArtworkSeen(id: number, user_id: number): Promise<bool
   if (usePostgres) {
     return pgDb.markArtworkSeen(id, user_id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.markArtworkSeen(id, user_id));
+  }
   return toPromise(jsonDb.markArtworkSeen(id, user_id));
 }
 
@@ -206,6 +777,9 @@ export async function markAllArtworksSeen(user_id: number, artist_id?: number):
   if (usePostgres) {
     return pgDb.markAllArtworksSeen(user_id, artist_id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.markAllArtworksSeen(user_id, artist_id));
+  }
   return toPromise(jsonDb.markAllArtworksSeen(user_id, artist_id));
 }
 
@@ -213,6 +787,9 @@ export async function getNewArtworksCount(user_id: number): Promise<number> {
   if (usePostgres) {
     return pgDb.getNewArtworksCount(user_id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getNewArtworksCount(user_id));
+  }
   return toPromise(jsonDb.getNewArtworksCount(user_id));
 }
 
@@ -220,6 +797,9 @@ export async function deleteAllArtworks(user_id: number): Promise<number> {
   if (usePostgres) {
     return pgDb.deleteAllArtworks(user_id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.deleteAllArtworks(user_id));
+  }
   return toPromise(jsonDb.deleteAllArtworks(user_id));
 }
 
@@ -227,6 +807,9 @@ export async function deleteAllArtists(user_id: number): Promise<number> {
   if (usePostgres) {
     return pgDb.deleteAllArtists(user_id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.deleteAllArtists(user_id));
+  }
   return toPromise(jsonDb.deleteAllArtists(user_id));
 }
 
@@ -235,13 +818,148 @@ export async function getPublicFeaturedArtworks(limit: number = 10): Promise<Pub
   if (usePostgres) {
     return pgDb.getPublicFeaturedArtworks(normalizedLimit);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getPublicFeaturedArtworks(normalizedLimit));
+  }
   return toPromise(jsonDb.getPublicFeaturedArtworks(normalizedLimit));
 }
 
+export async function getArtworkHistory(id: number, user_id: number): Promise<ArtworkHistory | null> {
+  if (usePostgres) {
+    return pgDb.getArtworkHistory(id, user_id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getArtworkHistory(id, user_id));
+  }
+  return toPromise(jsonDb.getArtworkHistory(id, user_id));
+}
+
+export async function getArtworkWithDetails(id: number, user_id: number): Promise<ArtworkWithDetails | null> {
+  if (usePostgres) {
+    return pgDb.getArtworkWithDetails(id, user_id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getArtworkWithDetails(id, user_id));
+  }
+  return toPromise(jsonDb.getArtworkWithDetails(id, user_id));
+}
+
+// artwork_id -> fetched_at of every catalog artwork of this account that has details
+export async function getArtworkDetailsFetchedAt(catalog_artist_id: number): Promise<Map<string, string>> {
+  if (usePostgres) {
+    return pgDb.getArtworkDetailsFetchedAt(catalog_artist_id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getArtworkDetailsFetchedAt(catalog_artist_id));
+  }
+  return toPromise(jsonDb.getArtworkDetailsFetchedAt(catalog_artist_id));
+}
+
+// Replaces the stored details (and assets) of a catalog artwork; false if it isn't in the catalog
+export async function saveArtworkDetails(catalog_artist_id: number, artwork_id: string, details: ArtworkDetails): Promise<boolean> {
+  if (usePostgres) {
+    return pgDb.saveArtworkDetails(catalog_artist_id, artwork_id, details);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.saveArtworkDetails(catalog_artist_id, artwork_id, details));
+  }
+  return toPromise(jsonDb.saveArtworkDetails(catalog_artist_id, artwork_id, details));
+}
+
+// artwork_id -> stored image hash of every hashed catalog artwork of this account
+export async function getCatalogImageHashes(catalog_artist_id: number): Promise<Map<string, CatalogImageHash>> {
+  if (usePostgres) {
+    return pgDb.getCatalogImageHashes(catalog_artist_id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getCatalogImageHashes(catalog_artist_id));
+  }
+  return toPromise(jsonDb.getCatalogImageHashes(catalog_artist_id));
+}
+
+// Stores hashes by artwork_id; artworks that aren't in the catalog are skipped. Returns how many were stored.
+export async function saveCatalogImageHashes(catalog_artist_id: number, hashes: Map<string, CatalogImageHash>): Promise<number> {
+  if (usePostgres) {
+    return pgDb.saveCatalogImageHashes(catalog_artist_id, hashes);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.saveCatalogImageHashes(catalog_artist_id, hashes));
+  }
+  return toPromise(jsonDb.saveCatalogImageHashes(catalog_artist_id, hashes));
+}
+
+// Every artwork of the user (across all artists, not the trash) that has an image hash
+export async function getUserImageHashes(user_id: number): Promise<ArtworkImageHash[]> {
+  if (usePostgres) {
+    return pgDb.getUserImageHashes(user_id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getUserImageHashes(user_id));
+  }
+  return toPromise(jsonDb.getUserImageHashes(user_id));
+}
+
+// Archive references of one of the user's artworks, or of all of them
+export async function getArchivedImages(user_id: number, artwork_id?: number): Promise<ArchivedImage[]> {
+  if (usePostgres) {
+    return pgDb.getArchivedImages(user_id, artwork_id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getArchivedImages(user_id, artwork_id));
+  }
+  return toPromise(jsonDb.getArchivedImages(user_id, artwork_id));
+}
+
+// Adds or replaces the image at that position; false if the artwork isn't the user's
+export async function saveArchivedImage(user_id: number, image: ArchivedImage): Promise<boolean> {
+  if (usePostgres) {
+    return pgDb.saveArchivedImage(user_id, image);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.saveArchivedImage(user_id, image));
+  }
+  return toPromise(jsonDb.saveArchivedImage(user_id, image));
+}
+
+export async function getImageArchiveUsage(user_id: number): Promise<ImageArchiveUsage> {
+  if (usePostgres) {
+    return pgDb.getImageArchiveUsage(user_id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getImageArchiveUsage(user_id));
+  }
+  return toPromise(jsonDb.getImageArchiveUsage(user_id));
+}
+
+// Removes the references of artworks their user no longer has (not even in the trash)
+export async function deleteOrphanedArchivedImages(): Promise<number> {
+  if (usePostgres) {
+    return pgDb.deleteOrphanedArchivedImages();
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.deleteOrphanedArchivedImages());
+  }
+  return toPromise(jsonDb.deleteOrphanedArchivedImages());
+}
+
+// Every hash some user still references
+export async function getArchivedImageHashes(): Promise<Set<string>> {
+  if (usePostgres) {
+    return pgDb.getArchivedImageHashes();
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getArchivedImageHashes());
+  }
+  return toPromise(jsonDb.getArchivedImageHashes());
+}
+
 export async function toggleFavorite(id: number, user_id: number): Promise<boolean> {
   if (usePostgres) {
     return pgDb.toggleFavorite(id, user_id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.toggleFavorite(id, user_id));
+  }
   return toPromise(jsonDb.toggleFavorite(id, user_id));
 }
 
@@ -255,6 +973,9 @@ export async function addPersistentFavorite(
   if (usePostgres) {
     return pgDb.addPersistentFavorite(user_id, artist_username, artwork_id, artwork_url);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.addPersistentFavorite(user_id, artist_username, artwork_id, artwork_url));
+  }
   return toPromise(jsonDb.addPersistentFavorite(user_id, artist_username, artwork_id, artwork_url));
 }
 
@@ -266,6 +987,9 @@ export async function removePersistentFavorite(
   if (usePostgres) {
     return pgDb.removePersistentFavorite(user_id, artist_username, artwork_id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.removePersistentFavorite(user_id, artist_username, artwork_id));
+  }
   return toPromise(jsonDb.removePersistentFavorite(user_id, artist_username, artwork_id));
 }
 
@@ -277,13 +1001,29 @@ export async function isPersistentFavorite(
   if (usePostgres) {
     return pgDb.isPersistentFavorite(user_id, artist_username, artwork_id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.isPersistentFavorite(user_id, artist_username, artwork_id));
+  }
   return toPromise(jsonDb.isPersistentFavorite(user_id, artist_username, artwork_id));
 }
 
+export async function getPersistentFavorites(user_id: number): Promise<PersistentFavorite[]> {
+  if (usePostgres) {
+    return pgDb.getPersistentFavorites(user_id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getPersistentFavorites(user_id));
+  }
+  return toPromise(jsonDb.getPersistentFavorites(user_id));
+}
+
 export async function restoreFavoritesFromPersistent(user_id: number): Promise<number> {
   if (usePostgres) {
     return pgDb.restoreFavoritesFromPersistent(user_id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.restoreFavoritesFromPersistent(user_id));
+  }
   return toPromise(jsonDb.restoreFavoritesFromPersistent(user_id));
 }
 
@@ -291,5 +1031,172 @@ export async function restoreAllFavoritesForUser(user_id: number): Promise<numbe
   if (usePostgres) {
     return pgDb.restoreAllFavoritesForUser(user_id);
   }
+  if (useSqlite) {
+    return toPromise(sqliteDb.restoreAllFavoritesForUser(user_id));
+  }
   return toPromise(jsonDb.restoreAllFavoritesForUser(user_id));
-}
\ No newline at end of file
+}
+
+// Scrape job queue operations
+export async function createScrapeJob(
+  type: ScrapeJobType,
+  user_id: number | null,
+  payload: any,
+  items: Array<{ target_id: number; label: string }>
+): Promise<ScrapeJob> {
+  if (usePostgres) {
+    return pgDb.createScrapeJob(type, user_id, payload, items);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.createScrapeJob(type, user_id, payload, items));
+  }
+  return toPromise(jsonDb.createScrapeJob(type, user_id, payload, items));
+}
+
+export async function getScrapeJob(id: number): Promise<ScrapeJob | undefined> {
+  if (usePostgres) {
+    return pgDb.getScrapeJob(id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getScrapeJob(id));
+  }
+  return toPromise(jsonDb.getScrapeJob(id));
+}
+
+// Newest first
+export async function getScrapeJobs(filter: ScrapeJobFilter = {}): Promise<ScrapeJob[]> {
+  if (usePostgres) {
+    return pgDb.getScrapeJobs(filter);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getScrapeJobs(filter));
+  }
+  return toPromise(jsonDb.getScrapeJobs(filter));
+}
+
+export async function updateScrapeJob(id: number, updates: ScrapeJobUpdate): Promise<boolean> {
+  if (usePostgres) {
+    return pgDb.updateScrapeJob(id, updates);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.updateScrapeJob(id, updates));
+  }
+  return toPromise(jsonDb.updateScrapeJob(id, updates));
+}
+
+export async function updateScrapeJobItem(id: number, updates: ScrapeJobItemUpdate): Promise<boolean> {
+  if (usePostgres) {
+    return pgDb.updateScrapeJobItem(id, updates);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.updateScrapeJobItem(id, updates));
+  }
+  return toPromise(jsonDb.updateScrapeJobItem(id, updates));
+}
+
+// Removes finished jobs older than the retention period; unfinished jobs are always kept
+export async function purgeFinishedScrapeJobs(): Promise<number> {
+  const before = new Date(Date.now() - SCRAPE_JOB_RETENTION_DAYS * DAY_MS).toISOString();
+  if (usePostgres) {
+    return pgDb.deleteScrapeJobsFinishedBefore(before);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.deleteScrapeJobsFinishedBefore(before));
+  }
+  return toPromise(jsonDb.deleteScrapeJobsFinishedBefore(before));
+}
+
+export async function createScrapeRun(run: NewScrapeRun): Promise<ScrapeRun> {
+  if (usePostgres) {
+    return pgDb.createScrapeRun(run);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.createScrapeRun(run));
+  }
+  return toPromise(jsonDb.createScrapeRun(run));
+}
+
+export async function getScrapeRun(id: number): Promise<ScrapeRun | undefined> {
+  if (usePostgres) {
+    return pgDb.getScrapeRun(id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getScrapeRun(id));
+  }
+  return toPromise(jsonDb.getScrapeRun(id));
+}
+
+export async function getScrapeRunForJob(job_id: number): Promise<ScrapeRun | undefined> {
+  if (usePostgres) {
+    return pgDb.getScrapeRunForJob(job_id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getScrapeRunForJob(job_id));
+  }
+  return toPromise(jsonDb.getScrapeRunForJob(job_id));
+}
+
+// The user's own runs plus the scheduled ones, newest first
+export async function getScrapeRuns(user_id: number, limit: number): Promise<ScrapeRun[]> {
+  if (usePostgres) {
+    return pgDb.getScrapeRuns(user_id, limit);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getScrapeRuns(user_id, limit));
+  }
+  return toPromise(jsonDb.getScrapeRuns(user_id, limit));
+}
+
+export async function updateScrapeRun(id: number, updates: ScrapeRunUpdate): Promise<boolean> {
+  if (usePostgres) {
+    return pgDb.updateScrapeRun(id, updates);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.updateScrapeRun(id, updates));
+  }
+  return toPromise(jsonDb.updateScrapeRun(id, updates));
+}
+
+export async function addScrapeOutcome(outcome: NewScrapeOutcome): Promise<void> {
+  if (usePostgres) {
+    return pgDb.addScrapeOutcome(outcome);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.addScrapeOutcome(outcome));
+  }
+  return toPromise(jsonDb.addScrapeOutcome(outcome));
+}
+
+// Outcomes of one run in the order they happened
+export async function getScrapeOutcomes(run_id: number): Promise<ScrapeOutcome[]> {
+  if (usePostgres) {
+    return pgDb.getScrapeOutcomes(run_id);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getScrapeOutcomes(run_id));
+  }
+  return toPromise(jsonDb.getScrapeOutcomes(run_id));
+}
+
+// An account's outcomes from runs the user can see (their own and scheduled ones), newest first
+export async function getArtistScrapeHistory(catalog_artist_id: number, user_id: number, limit: number): Promise<ScrapeHistoryEntry[]> {
+  if (usePostgres) {
+    return pgDb.getArtistScrapeHistory(catalog_artist_id, user_id, limit);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.getArtistScrapeHistory(catalog_artist_id, user_id, limit));
+  }
+  return toPromise(jsonDb.getArtistScrapeHistory(catalog_artist_id, user_id, limit));
+}
+
+// Removes finished runs (with their outcomes) older than the retention period
+export async function purgeOldScrapeRuns(): Promise<number> {
+  const before = new Date(Date.now() - SCRAPE_RUN_RETENTION_DAYS * DAY_MS).toISOString();
+  if (usePostgres) {
+    return pgDb.deleteScrapeRunsFinishedBefore(before);
+  }
+  if (useSqlite) {
+    return toPromise(sqliteDb.deleteScrapeRunsFinishedBefore(before));
+  }
+  return toPromise(jsonDb.deleteScrapeRunsFinishedBefore(before));
+}
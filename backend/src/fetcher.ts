@@ -0,0 +1,452 @@
+// Fetches ArtStation data with plain HTTP (axios + cheerio) first and only falls back to a
+// headless browser when Cloudflare answers with a challenge. Chromium needs a lot of memory,
+// so on small hosts most requests should never open a page. Feeds (see providers/rss.ts) only
+// ever use plain HTTP.
+// Results are tracked per host so the success rate of each strategy can be reported.
+
+import axios, { AxiosResponse } from 'axios';
+import * as cheerio from 'cheerio';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { acquire, parseRetryAfter, RATE_LIMITED, recordBlock, recordFailure, recordSuccess } from './rateLimiter';
+
+export type FetchStrategy = 'http' | 'browser';
+
+// Loads a URL in a browser page (from the shared pool, see browserPool.ts) and returns the page text
+export type BrowserFetch = (url: string) => Promise<string | null>;
+
+const HTTP_TIMEOUT_MS = parseInt(process.env.HTTP_FETCH_TIMEOUT_MS || '30000');
+// After a challenge, go straight to the browser for this host for a while before trying HTTP again
+const HTTP_RETRY_AFTER_MS = parseInt(process.env.HTTP_FETCH_RETRY_AFTER_MS || '900000'); // 15 minutes
+// HTTP 429 answers retried (after the rate limiter's backoff) before giving up
+const RATE_LIMIT_RETRIES = 2;
+
+const HTTP_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'application/json,text/html;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9'
+};
+
+// Thrown by fetchText and fetchBinary for URLs that lead to a non-public address
+export const PRIVATE_ADDRESS = 'PRIVATE_ADDRESS';
+// Redirects fetchText and fetchBinary follow (each hop is checked like the first URL)
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Loopback, private, shared (CGNAT), link-local (cloud metadata endpoints), multicast and reserved ranges
+const NON_PUBLIC_RANGES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(prefix, bits, 'ipv4');
+}
+for (const [prefix, bits] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  NON_PUBLIC_RANGES.addSubnet(prefix, bits, 'ipv6');
+}
+
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked as the IPv4 address they carry
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && !NON_PUBLIC_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Read on every request, so tests can turn it off again
+function allowPrivateAddresses(): boolean {
+  return process.env.FETCH_ALLOW_PRIVATE_ADDRESSES === 'true';
+}
+
+// Addresses given as the host skip DNS, so they are checked before connecting
+function assertPublicUrl(url: string) {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (!allowPrivateAddresses() && net.isIP(hostname) && !isPublicAddress(hostname)) {
+    throw new Error(PRIVATE_ADDRESS);
+  }
+}
+
+// Resolves host names for the agents below and refuses them if any address isn't public. The
+// check happens on the address actually connected to, so DNS can't change between check and use.
+function publicLookup(hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error);
+    }
+    if (!allowPrivateAddresses() && addresses.some(({ address }) => !isPublicAddress(address))) {
+      return callback(new Error(PRIVATE_ADDRESS));
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// Feeds, the pages that link to them and images come from URLs users enter (or feeds list), so
+// those requests may only reach public addresses. FETCH_ALLOW_PRIVATE_ADDRESSES=true lifts that,
+// for feeds on the same network as the server.
+const PUBLIC_ONLY_AGENTS = {
+  httpAgent: new http.Agent({ lookup: publicLookup }),
+  httpsAgent: new https.Agent({ lookup: publicLookup })
+};
+
+// Where a redirect answer points, resolved against the URL that gave it; null for other answers
+function redirectTarget(response: AxiosResponse, url: string): string | null {
+  const location = response.headers['location'];
+  if (!REDIRECT_STATUSES.includes(response.status) || typeof location !== 'string') {
+    return null;
+  }
+  return new URL(location, url).href;
+}
+
+const CHALLENGE_TITLES = ['Just a moment', 'Please wait', 'Attention Required'];
+const CHALLENGE_MARKERS = [
+  'Please complete a security check',
+  'Checking your browser',
+  'DDoS protection by Cloudflare',
+  'challenge-platform',
+  'cf-chl-'
+];
+
+interface StrategyCounts {
+  attempts: number;
+  successes: number;
+}
+
+interface HostState {
+  http: StrategyCounts;
+  browser: StrategyCounts;
+  challenges: number;
+  preferBrowserUntil: number;
+  lastSuccess?: { strategy: FetchStrategy; at: string };
+}
+
+export interface StrategyStats extends StrategyCounts {
+  success_rate: number | null; // successes / attempts, null before the first attempt
+}
+
+export interface HttpStatusResult {
+  status: number;
+  location?: string; // Redirect target, as sent
+  data: any; // Parsed JSON body, null when there was none
+}
+
+export interface TextFetchResult {
+  url: string; // Where the body came from, after redirects
+  contentType: string;
+  body: string;
+}
+
+export interface BinaryFetchResult {
+  contentType: string;
+  data: Buffer;
+}
+
+export interface HostFetchStats {
+  host: string;
+  http: StrategyStats;
+  browser: StrategyStats;
+  challenges: number; // HTTP responses that turned out to be Cloudflare challenges
+  next_strategy: FetchStrategy; // What the next request to this host tries first
+  last_success?: { strategy: FetchStrategy; at: string };
+}
+
+const hosts = new Map<string, HostState>();
+
+function hostState(url: string): HostState {
+  const host = new URL(url).host;
+  let state = hosts.get(host);
+  if (!state) {
+    state = {
+      http: { attempts: 0, successes: 0 },
+      browser: { attempts: 0, successes: 0 },
+      challenges: 0,
+      preferBrowserUntil: 0
+    };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+function record(state: HostState, strategy: FetchStrategy, success: boolean) {
+  state[strategy].attempts++;
+  if (success) {
+    state[strategy].successes++;
+    state.lastSuccess = { strategy, at: new Date().toISOString() };
+  }
+}
+
+// Cloudflare answers challenges with 403/503 and an HTML interstitial (and usually cf-mitigated)
+export function isCloudflareChallenge(status: number, headers: Record<string, any>, body: string): boolean {
+  if (String(headers['cf-mitigated'] || '').toLowerCase() === 'challenge') {
+    return true;
+  }
+  if (!/<html/i.test(body)) {
+    return false;
+  }
+
+  const $ = cheerio.load(body);
+  const title = $('title').text();
+  if (CHALLENGE_TITLES.some(marker => title.includes(marker))) {
+    return true;
+  }
+  return (status === 403 || status === 503) && CHALLENGE_MARKERS.some(marker => body.includes(marker));
+}
+
+// JSON as served, or wrapped in an HTML page (browsers show JSON inside a <pre>)
+export function parseJsonBody(body: string): any {
+  const text = body.trim();
+  if (!text) return null;
+
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    // Not bare JSON, try the page text below
+  }
+
+  if (!/<html|<pre/i.test(text)) return null;
+  const $ = cheerio.load(text);
+  const candidate = ($('pre').first().text() || $('body').text()).trim();
+  try {
+    return candidate ? JSON.parse(candidate) : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+async function fetchWithBrowser(url: string, state: HostState, browserFetch: BrowserFetch): Promise<any> {
+  await acquire(url);
+  try {
+    const body = await browserFetch(url);
+    const data = body ? parseJsonBody(body) : null;
+    record(state, 'browser', data !== null);
+    if (data !== null) {
+      recordSuccess(url);
+    }
+    return data;
+  } catch (error) {
+    record(state, 'browser', false);
+    throw error;
+  }
+}
+
+// One plain HTTP request, asked again after HTTP 429 (once the rate limiter lets it through).
+// Null when Cloudflare answered with a challenge; the host then prefers the browser for a while.
+async function httpGet(
+  url: string,
+  state: HostState,
+  options: { followRedirects?: boolean; publicOnly?: boolean } = {}
+): Promise<AxiosResponse<string> | null> {
+  const { followRedirects = true, publicOnly = false } = options;
+  for (let attempt = 0; ; attempt++) {
+    await acquire(url);
+
+    let response;
+    try {
+      response = await axios.get<string>(url, {
+        headers: HTTP_HEADERS,
+        timeout: HTTP_TIMEOUT_MS,
+        responseType: 'text',
+        transformResponse: data => data, // Parsed by the callers, so challenge pages can be recognised
+        validateStatus: () => true,
+        ...(followRedirects ? {} : { maxRedirects: 0 }),
+        ...(publicOnly ? PUBLIC_ONLY_AGENTS : {})
+      });
+    } catch (error) {
+      record(state, 'http', false);
+      throw error;
+    }
+
+    const body = typeof response.data === 'string' ? response.data : '';
+    if (isCloudflareChallenge(response.status, response.headers, body)) {
+      record(state, 'http', false);
+      state.challenges++;
+      state.preferBrowserUntil = Date.now() + HTTP_RETRY_AFTER_MS;
+      recordBlock(url, 'challenge');
+      return null;
+    }
+
+    if (response.status === 429) {
+      record(state, 'http', false);
+      recordBlock(url, 'rate_limited', parseRetryAfter(response.headers['retry-after']));
+      if (attempt < RATE_LIMIT_RETRIES) {
+        continue;
+      }
+      throw new Error(RATE_LIMITED);
+    }
+
+    return response;
+  }
+}
+
+// Fetch and parse a JSON URL; null when the response isn't JSON (e.g. 404 or an unknown user).
+// Network errors are thrown, like the browser path does, and so are SCRAPING_PAUSED (circuit
+// breaker open) and RATE_LIMITED (still HTTP 429 after retrying).
+export async function fetchJson<T = any>(url: string, browserFetch: BrowserFetch): Promise<T | null> {
+  const state = hostState(url);
+
+  if (Date.now() < state.preferBrowserUntil) {
+    return fetchWithBrowser(url, state, browserFetch);
+  }
+
+  const response = await httpGet(url, state);
+  if (!response) {
+    console.log(`     ⏳ Cloudflare challenge on ${new URL(url).host}, using the browser`);
+    return fetchWithBrowser(url, state, browserFetch);
+  }
+
+  const ok = response.status >= 200 && response.status < 300;
+  const data = ok ? parseJsonBody(response.data) : null;
+  record(state, 'http', data !== null);
+  if (ok) {
+    recordSuccess(url);
+  } else {
+    recordFailure();
+  }
+  return data;
+}
+
+// Status code, redirect target and JSON body (if any) of a URL, without following redirects.
+// Only plain HTTP: a browser can't show what the status was, so this is null when
+// Cloudflare answers with a challenge (or while the host prefers the browser).
+export async function fetchStatus(url: string): Promise<HttpStatusResult | null> {
+  const state = hostState(url);
+  if (Date.now() < state.preferBrowserUntil) {
+    return null;
+  }
+
+  const response = await httpGet(url, state, { followRedirects: false });
+  if (!response) {
+    return null;
+  }
+
+  record(state, 'http', true);
+  recordSuccess(url);
+  const location = response.headers['location'];
+  return {
+    status: response.status,
+    location: typeof location === 'string' ? location : undefined,
+    data: parseJsonBody(response.data)
+  };
+}
+
+// Body of a URL that isn't JSON (feeds, web pages), following redirects. Only plain HTTP:
+// null for anything but a 2xx answer, and when Cloudflare answers with a challenge.
+// Only public addresses: throws PRIVATE_ADDRESS for the first URL or a redirect that isn't.
+export async function fetchText(url: string): Promise<TextFetchResult | null> {
+  for (let redirects = 0; ; redirects++) {
+    assertPublicUrl(url);
+    const state = hostState(url);
+    const response = await httpGet(url, state, { followRedirects: false, publicOnly: true });
+    if (!response) {
+      return null;
+    }
+
+    const next = redirectTarget(response, url);
+    const ok = next !== null ? redirects < MAX_REDIRECTS : response.status >= 200 && response.status < 300;
+    record(state, 'http', ok);
+    if (!ok) {
+      recordFailure();
+      return null;
+    }
+    recordSuccess(url);
+    if (next !== null) {
+      url = next;
+      continue;
+    }
+
+    const contentType = response.headers['content-type'];
+    return {
+      url,
+      contentType: typeof contentType === 'string' ? contentType : '',
+      body: typeof response.data === 'string' ? response.data : ''
+    };
+  }
+}
+
+// A file (images for the image archive and repost detection), following redirects and paced like every other
+// request. Only plain HTTP: null for anything but a 2xx answer and for files over maxBytes.
+// HTTP 429 throws RATE_LIMITED right away; image downloads can wait for the next run.
+// Only public addresses, like fetchText.
+export async function fetchBinary(url: string, maxBytes: number): Promise<BinaryFetchResult | null> {
+  for (let redirects = 0; ; redirects++) {
+    assertPublicUrl(url);
+    const state = hostState(url);
+    await acquire(url);
+
+    let response: AxiosResponse<ArrayBuffer>;
+    try {
+      response = await axios.get<ArrayBuffer>(url, {
+        headers: { ...HTTP_HEADERS, 'Accept': 'image/*,*/*;q=0.8' },
+        timeout: HTTP_TIMEOUT_MS,
+        responseType: 'arraybuffer',
+        maxContentLength: maxBytes,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        ...PUBLIC_ONLY_AGENTS
+      });
+    } catch (error: any) {
+      record(state, 'http', false);
+      if (/maxContentLength/.test(error.message || '')) {
+        return null;
+      }
+      throw error;
+    }
+
+    if (response.status === 429) {
+      record(state, 'http', false);
+      recordBlock(url, 'rate_limited', parseRetryAfter(response.headers['retry-after']));
+      throw new Error(RATE_LIMITED);
+    }
+
+    const next = redirectTarget(response, url);
+    const ok = next !== null ? redirects < MAX_REDIRECTS : response.status >= 200 && response.status < 300;
+    record(state, 'http', ok);
+    if (!ok) {
+      recordFailure();
+      return null;
+    }
+    recordSuccess(url);
+    if (next !== null) {
+      url = next;
+      continue;
+    }
+
+    const contentType = response.headers['content-type'];
+    return {
+      contentType: typeof contentType === 'string' ? contentType : '',
+      data: Buffer.from(response.data)
+    };
+  }
+}
+
+function toStrategyStats(counts: StrategyCounts): StrategyStats {
+  return {
+    ...counts,
+    success_rate: counts.attempts > 0 ? Math.round((counts.successes / counts.attempts) * 1000) / 1000 : null
+  };
+}
+
+export function getFetcherStats(): HostFetchStats[] {
+  const now = Date.now();
+  return [...hosts.entries()].map(([host, state]) => ({
+    host,
+    http: toStrategyStats(state.http),
+    browser: toStrategyStats(state.browser),
+    challenges: state.challenges,
+    next_strategy: now < state.preferBrowserUntil ? 'browser' : 'http',
+    last_success: state.lastSuccess
+  }));
+}
+
+export function logFetcherStats() {
+  for (const stats of getFetcherStats()) {
+    const rate = (s: StrategyStats) => (s.success_rate === null ? 'n/a' : `${Math.round(s.success_rate * 100)}%`);
+    console.log(
+      `   🌐 ${stats.host}: http ${stats.http.successes}/${stats.http.attempts} (${rate(stats.http)}), ` +
+      `browser ${stats.browser.successes}/${stats.browser.attempts} (${rate(stats.browser)}), ` +
+      `${stats.challenges} challenge(s)`
+    );
+  }
+}
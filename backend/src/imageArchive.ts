@@ -0,0 +1,302 @@
+// Local copies of artwork images. thumbnail_url and high_quality_image_url are hotlinked, so
+// they break when an artist deletes or edits a post; the app then shows the archived copy.
+//
+// Users opt in with image_archive: 'covers' downloads the cover of every new artwork (found by
+// an update check, not the first scrape of an artist) and of every favorite, 'all' also the
+// image assets from their project pages. Files are stored once under their SHA-256
+// (IMAGE_ARCHIVE_DIR/ab/abcdef...); the database keeps each user's references to them, which
+// count against that user's quota. Cleanup drops references to artworks the user no longer
+// has and deletes the files nobody references any more.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import * as db from './database';
+import { fetchBinary } from './fetcher';
+import { isRateLimitError } from './rateLimiter';
+
+const MB = 1024 * 1024;
+
+export const IMAGE_ARCHIVE_DIR = process.env.IMAGE_ARCHIVE_DIR || './data/images';
+// Per user; 0 turns the archive off for everyone
+export const IMAGE_ARCHIVE_QUOTA_BYTES = Math.round(parseFloat(process.env.IMAGE_ARCHIVE_QUOTA_MB || '500') * MB);
+// Larger files are skipped
+const MAX_FILE_BYTES = Math.round(parseFloat(process.env.IMAGE_ARCHIVE_MAX_FILE_MB || '25') * MB);
+// Downloads per user and run; the rest waits for the next run
+const DOWNLOADS_PER_RUN = Math.max(1, parseInt(process.env.IMAGE_ARCHIVE_PER_RUN || '100'));
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+// Raster formats only: archived files are served from the app's origin, where SVG or HTML could run scripts
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif', 'image/bmp'];
+
+export interface ArchiveResult {
+  archived: number; // Images downloaded (or found in the store) and referenced
+  bytes: number;
+  skipped: number; // Not available, not an image or too large
+  quota_reached: boolean;
+}
+
+export interface ArchiveRunSummary extends ArchiveResult {
+  users: number;
+  removed_references: number;
+  removed_files: number;
+}
+
+export interface ArchiveCleanupResult {
+  removed_references: number;
+  removed_files: number;
+  freed_bytes: number;
+}
+
+// Downloads of one user in one go, against their quota
+interface ArchiveBudget {
+  user: db.User;
+  usedBytes: number;
+  downloadsLeft: number;
+  result: ArchiveResult;
+}
+
+// Hashes being written right now; cleanup leaves their files alone until the reference is saved
+const pendingHashes = new Set<string>();
+
+function filePath(hash: string): string {
+  return path.join(IMAGE_ARCHIVE_DIR, hash.slice(0, 2), hash);
+}
+
+export function isArchiveEnabled(user: db.User): boolean {
+  return IMAGE_ARCHIVE_QUOTA_BYTES > 0 && !!user.image_archive && user.image_archive !== 'off';
+}
+
+async function startBudget(user: db.User): Promise<ArchiveBudget> {
+  const usage = await db.getImageArchiveUsage(user.id);
+  return {
+    user,
+    usedBytes: usage.bytes,
+    downloadsLeft: DOWNLOADS_PER_RUN,
+    result: { archived: 0, bytes: 0, skipped: 0, quota_reached: false }
+  };
+}
+
+// The cover, and with 'all' the image assets of the project page (once it has been scraped)
+async function wantedImages(user: db.User, artwork: db.Artwork): Promise<Array<{ position: number; url: string }>> {
+  const images: Array<{ position: number; url: string }> = [];
+  const cover = artwork.high_quality_image_url || artwork.thumbnail_url;
+  if (cover) {
+    images.push({ position: 0, url: cover });
+  }
+  if (user.image_archive === 'all') {
+    const details = (await db.getArtworkWithDetails(artwork.id, user.id))?.details;
+    details?.assets.forEach((asset, index) => {
+      if (asset.image_url) {
+        images.push({ position: index + 1, url: asset.image_url });
+      }
+    });
+  }
+  return images;
+}
+
+// Written under a temporary name first, so a file in the store is always complete
+async function storeFile(hash: string, data: Buffer): Promise<void> {
+  const target = filePath(hash);
+  if (!fs.existsSync(target)) {
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temp, data);
+    await fs.promises.rename(temp, target);
+  }
+}
+
+// Images of one artwork the user's archive doesn't have yet, or whose URL changed since (an
+// edit replaces the cover). False once the budget is used up.
+async function archiveArtwork(budget: ArchiveBudget, artwork: db.Artwork, archived: db.ArchivedImage[]): Promise<boolean> {
+  for (const { position, url } of await wantedImages(budget.user, artwork)) {
+    const existing = archived.find(image => image.position === position);
+    if (existing?.source_url === url) {
+      continue;
+    }
+    if (budget.downloadsLeft <= 0 || budget.result.quota_reached) {
+      return false;
+    }
+    budget.downloadsLeft--;
+
+    let file;
+    try {
+      file = await fetchBinary(url, MAX_FILE_BYTES);
+    } catch (error: any) {
+      if (isRateLimitError(error)) {
+        throw error;
+      }
+      console.error(`  ⚠ Failed to download ${url}:`, error.message);
+      file = null;
+    }
+    if (!file || !IMAGE_TYPES.includes(file.contentType.split(';')[0].trim().toLowerCase())) {
+      budget.result.skipped++;
+      continue;
+    }
+
+    const size = file.data.length;
+    if (budget.usedBytes - (existing?.byte_size ?? 0) + size > IMAGE_ARCHIVE_QUOTA_BYTES) {
+      console.log(`  📦 Image archive of user ${budget.user.id} is full`);
+      budget.result.quota_reached = true;
+      return false;
+    }
+
+    const hash = crypto.createHash('sha256').update(file.data).digest('hex');
+    pendingHashes.add(hash);
+    try {
+      await storeFile(hash, file.data);
+      const saved = await db.saveArchivedImage(budget.user.id, {
+        artwork_id: artwork.id,
+        position,
+        source_url: url,
+        hash,
+        byte_size: size,
+        content_type: file.contentType.split(';')[0].trim().toLowerCase(),
+        archived_at: new Date().toISOString()
+      });
+      if (!saved) {
+        return true; // Unfollowed in the meantime
+      }
+    } finally {
+      pendingHashes.delete(hash);
+    }
+    budget.usedBytes += size - (existing?.byte_size ?? 0);
+    budget.result.archived++;
+    budget.result.bytes += size;
+  }
+  return true;
+}
+
+async function archiveArtworks(budget: ArchiveBudget, artworks: db.Artwork[]): Promise<ArchiveResult> {
+  const archived = await db.getArchivedImages(budget.user.id);
+  for (const artwork of artworks) {
+    const images = archived.filter(image => image.artwork_id === artwork.id);
+    if (!(await archiveArtwork(budget, artwork, images))) {
+      break;
+    }
+  }
+  return budget.result;
+}
+
+/**
+ * Images of artworks an update check just found (their assets usually come with the next
+ * archive run, after the project pages have been scraped). Never throws: the scrape that
+ * found them has stored them already.
+ */
+export async function archiveNewArtworks(userId: number, artworks: db.Artwork[]): Promise<ArchiveResult | null> {
+  try {
+    const user = await db.getUserById(userId);
+    if (!user || !isArchiveEnabled(user) || artworks.length === 0) {
+      return null;
+    }
+    const result = await archiveArtworks(await startBudget(user), artworks);
+    if (result.archived > 0) {
+      console.log(`  📦 Archived ${result.archived} image(s) for user ${userId}`);
+    }
+    return result;
+  } catch (error: any) {
+    console.error(`  ⚠ Image archive failed for user ${userId}:`, error.message);
+    return null;
+  }
+}
+
+// One artwork right away (favorited, or asked for by the user); null when the user has the
+// archive off or the artwork isn't theirs
+export async function archiveArtworkImages(userId: number, artworkId: number): Promise<ArchiveResult | null> {
+  const user = await db.getUserById(userId);
+  const artwork = user && isArchiveEnabled(user) ? await db.getArtworkWithDetails(artworkId, userId) : null;
+  if (!user || !artwork) {
+    return null;
+  }
+  return archiveArtworks(await startBudget(user), [artwork]);
+}
+
+/**
+ * Catch up for every user with the archive on: favorites, and artworks whose cover is archived
+ * already (their assets, once the project page has been scraped, and edited covers). Then
+ * clean up.
+ */
+export async function runImageArchive(): Promise<ArchiveRunSummary> {
+  const summary: ArchiveRunSummary = {
+    users: 0,
+    archived: 0,
+    bytes: 0,
+    skipped: 0,
+    quota_reached: false,
+    removed_references: 0,
+    removed_files: 0
+  };
+
+  for (const user of (await db.getAllUsers()).filter(isArchiveEnabled)) {
+    summary.users++;
+    try {
+      const archivedIds = new Set((await db.getArchivedImages(user.id)).map(image => image.artwork_id));
+      const artworks = (await db.getAllArtworks(user.id)).filter(artwork => artwork.is_favorite || archivedIds.has(artwork.id));
+      const result = await archiveArtworks(await startBudget(user), artworks);
+      summary.archived += result.archived;
+      summary.bytes += result.bytes;
+      summary.skipped += result.skipped;
+      summary.quota_reached = summary.quota_reached || result.quota_reached;
+    } catch (error: any) {
+      console.error(`  ⚠ Image archive failed for user ${user.id}:`, error.message);
+      if (isRateLimitError(error)) {
+        break;
+      }
+    }
+  }
+
+  const cleanup = await cleanupImageArchive();
+  summary.removed_references = cleanup.removed_references;
+  summary.removed_files = cleanup.removed_files;
+  return summary;
+}
+
+// Drop references to artworks their user no longer has, then delete unreferenced files
+export async function cleanupImageArchive(): Promise<ArchiveCleanupResult> {
+  const removedReferences = await db.deleteOrphanedArchivedImages();
+  const referenced = await db.getArchivedImageHashes();
+  let removedFiles = 0;
+  let freedBytes = 0;
+
+  if (fs.existsSync(IMAGE_ARCHIVE_DIR)) {
+    for (const dir of await fs.promises.readdir(IMAGE_ARCHIVE_DIR)) {
+      const dirPath = path.join(IMAGE_ARCHIVE_DIR, dir);
+      if (!(await fs.promises.stat(dirPath)).isDirectory()) {
+        continue;
+      }
+      for (const name of await fs.promises.readdir(dirPath)) {
+        const hash = name.slice(0, 64);
+        if (!HASH_PATTERN.test(hash) || referenced.has(name) || pendingHashes.has(hash)) {
+          continue;
+        }
+        const file = path.join(dirPath, name);
+        freedBytes += (await fs.promises.stat(file)).size;
+        await fs.promises.unlink(file);
+        removedFiles++;
+      }
+    }
+  }
+
+  if (removedReferences > 0 || removedFiles > 0) {
+    console.log(`🧹 Image archive: ${removedReferences} reference(s) and ${removedFiles} file(s) removed`);
+  }
+  return { removed_references: removedReferences, removed_files: removedFiles, freed_bytes: freedBytes };
+}
+
+// The stored file of one of the user's archived images. content_type is one of IMAGE_TYPES, or
+// application/octet-stream for files stored with anything else
+export async function getArchivedImageFile(
+  userId: number,
+  artworkId: number,
+  position: number
+): Promise<{ path: string; content_type: string } | null> {
+  const image = (await db.getArchivedImages(userId, artworkId)).find(archived => archived.position === position);
+  if (!image || !fs.existsSync(filePath(image.hash))) {
+    return null;
+  }
+  const contentType = image.content_type?.toLowerCase();
+  return {
+    path: path.resolve(filePath(image.hash)),
+    content_type: contentType && IMAGE_TYPES.includes(contentType) ? contentType : 'application/octet-stream'
+  };
+}
@@ -0,0 +1,296 @@
+// Bulk follow from a list: CSV (a column of usernames or URLs), OPML (feed readers' export
+// format) or plain text with one username or URL per line.
+//
+// Entries are normalized offline first (handles, ArtStation URLs and feed URLs), so a preview
+// can show what would happen without a request. Importing then runs as a job (see jobQueue.ts)
+// with one item per new entry, which checks it at its source: ArtStation accounts must still
+// exist, feed URLs must lead to a feed.
+
+import * as cheerio from 'cheerio';
+import * as db from './database';
+import { probeAccount } from './accountStatus';
+import { followResolvedProfile } from './providers';
+import { artstationHandle } from './providers/artstation';
+import { feedKey, isFeedCandidate, rssProvider } from './providers/rss';
+import type { ResolvedProfile } from './providers/types';
+
+// Entries per import; every new one costs a request at its source
+export const MAX_IMPORT_LIST_ENTRIES = parseInt(process.env.MAX_IMPORT_LIST_ENTRIES || '200');
+
+export type ImportListFormat = 'csv' | 'opml' | 'text';
+
+export type ImportListStatus =
+  | 'ready' // Preview only: would be followed
+  | 'added'
+  | 'exists'
+  | 'duplicate' // Same account as an earlier line
+  | 'invalid'
+  | 'not_found'
+  | 'failed';
+
+export interface ImportListEntry {
+  line: number;
+  input: string;
+  source?: db.ArtistSource;
+  username?: string; // ArtStation handle or feed key
+  status: ImportListStatus;
+  duplicate_of?: number; // Line of the first entry for the same account
+  artist_id?: number;
+  error?: string;
+}
+
+export interface ImportListResult {
+  format: ImportListFormat;
+  total: number;
+  added: number;
+  already_exists: number;
+  duplicates: number;
+  invalid: number;
+  not_found: number;
+  failed: number;
+  entries: ImportListEntry[];
+  newly_added_artist_ids: number[];
+}
+
+interface RawEntry {
+  line: number;
+  input: string;
+}
+
+// CSV columns that hold the account, most specific first
+const CSV_COLUMNS = ['feed_url', 'xmlurl', 'feed', 'profile_url', 'url', 'link', 'username', 'handle', 'artist'];
+
+export function detectImportListFormat(content: string): ImportListFormat {
+  const text = content.trim();
+  if (text.startsWith('<')) return 'opml';
+  const firstLine = text.split(/\r?\n/)[0] || '';
+  return firstLine.includes(',') || firstLine.includes(';') || firstLine.includes('\t') ? 'csv' : 'text';
+}
+
+function lineAt(content: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index && i < content.length; i++) {
+    if (content[i] === '\n') line++;
+  }
+  return line;
+}
+
+// Rows of a CSV file with the line each starts on; quoted fields may contain separators,
+// doubled quotes and line breaks
+function parseCsvRows(content: string): Array<{ line: number; cells: string[] }> {
+  const firstLine = content.split(/\r?\n/)[0] || '';
+  const separator = firstLine.includes(',') ? ',' : firstLine.includes(';') ? ';' : '\t';
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (char === separator) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      cells.push(cell);
+      rows.push({ line: rowLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  rows.push({ line: rowLine, cells });
+  return rows.filter(row => row.cells.some(value => value.trim()));
+}
+
+function csvEntries(content: string): RawEntry[] {
+  const rows = parseCsvRows(content);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].cells.map(value => value.trim().toLowerCase().replace(/\s+/g, '_'));
+  const column = CSV_COLUMNS.map(name => header.indexOf(name)).find(index => index >= 0);
+  const dataRows = column === undefined ? rows : rows.slice(1);
+  return dataRows.map(row => ({
+    line: row.line,
+    // Without a known header, the first filled cell of each row
+    input: (column === undefined ? row.cells.find(value => value.trim()) : row.cells[column])?.trim() || ''
+  }));
+}
+
+// Outlines with a feed (xmlUrl) or a site (htmlUrl); the ones without are folders
+function opmlEntries(content: string): RawEntry[] {
+  const $ = cheerio.load(content, { xml: { withStartIndices: true } });
+  if ($.root().children().first().prop('tagName')?.toLowerCase() !== 'opml') {
+    throw new Error('INVALID_OPML');
+  }
+  const entries: RawEntry[] = [];
+  $('outline').each((_, el) => {
+    const input = $(el).attr('xmlUrl') || $(el).attr('xmlurl') || $(el).attr('htmlUrl') || $(el).attr('htmlurl') || $(el).attr('url');
+    if (input) {
+      entries.push({ line: lineAt(content, (el as any).startIndex ?? 0), input: input.trim() });
+    }
+  });
+  return entries;
+}
+
+function textEntries(content: string): RawEntry[] {
+  return content
+    .split(/\r?\n/)
+    .map((input, index) => ({ line: index + 1, input: input.trim() }))
+    .filter(entry => entry.input && !entry.input.startsWith('#'));
+}
+
+// Source and key of an entry without any request: feeds are keyed by the URL as given, which
+// can still change once the feed is found
+function normalizeEntry(input: string): { source: db.ArtistSource; username: string } | null {
+  if (isFeedCandidate(input)) {
+    return { source: 'rss', username: feedKey(input) };
+  }
+  const username = artstationHandle(input);
+  return username ? { source: 'artstation', username } : null;
+}
+
+// Keys the user already follows: handles, and feed and site addresses of feed artists
+async function followedKeys(userId: number): Promise<Set<string>> {
+  const keys = new Set<string>();
+  for (const artist of await db.getAllArtists(userId)) {
+    keys.add(artist.username.toLowerCase());
+    if (artist.source === 'rss') {
+      for (const url of [artist.feed_url, artist.profile_url]) {
+        if (url && isFeedCandidate(url)) keys.add(feedKey(url));
+      }
+    }
+  }
+  return keys;
+}
+
+export function parseImportList(content: string, format?: ImportListFormat): { format: ImportListFormat; entries: ImportListEntry[] } {
+  const listFormat = format || detectImportListFormat(content);
+  const raw = listFormat === 'opml' ? opmlEntries(content) : listFormat === 'csv' ? csvEntries(content) : textEntries(content);
+  if (raw.length > MAX_IMPORT_LIST_ENTRIES) {
+    throw new Error('TOO_MANY_ENTRIES');
+  }
+
+  const firstLineByKey = new Map<string, number>();
+  const entries: ImportListEntry[] = [];
+  for (const { line, input } of raw) {
+    const normalized = input ? normalizeEntry(input) : null;
+    if (!normalized) {
+      entries.push({ line, input, status: 'invalid', error: input ? 'Not an ArtStation username or a web address' : 'Empty entry' });
+      continue;
+    }
+    const key = normalized.username.toLowerCase();
+    const firstLine = firstLineByKey.get(key);
+    if (firstLine !== undefined) {
+      entries.push({ line, input, ...normalized, status: 'duplicate', duplicate_of: firstLine });
+      continue;
+    }
+    firstLineByKey.set(key, line);
+    entries.push({ line, input, ...normalized, status: 'ready' });
+  }
+  return { format: listFormat, entries };
+}
+
+function summarize(format: ImportListFormat, entries: ImportListEntry[]): ImportListResult {
+  const count = (status: ImportListStatus) => entries.filter(entry => entry.status === status).length;
+  return {
+    format,
+    total: entries.length,
+    added: count('added'),
+    already_exists: count('exists'),
+    duplicates: count('duplicate'),
+    invalid: count('invalid'),
+    not_found: count('not_found'),
+    failed: count('failed'),
+    entries,
+    newly_added_artist_ids: entries
+      .filter(entry => entry.status === 'added' && entry.artist_id !== undefined)
+      .map(entry => entry.artist_id!)
+  };
+}
+
+// The account an entry points to, checked at its source; null when there is none
+async function resolveEntry(entry: ImportListEntry): Promise<ResolvedProfile | null> {
+  if (entry.source === 'rss') {
+    try {
+      return await rssProvider.resolveProfile(entry.input);
+    } catch (error: any) {
+      if (error.message === 'FEED_NOT_FOUND') return null;
+      throw error;
+    }
+  }
+
+  // Can't tell (a challenge, a server error): follow it anyway, like adding a single artist
+  const probe = await probeAccount(entry.username!);
+  if (probe?.status === 'gone') return null;
+  const username = probe?.status === 'renamed' ? probe.username : entry.username!;
+  return { source: 'artstation', username, profile_url: `https://www.artstation.com/${username}` };
+}
+
+/**
+ * What importing the list would do, without a request: entries the user already follows are
+ * marked, the rest are 'ready'. The import job gets one item per ready entry.
+ */
+export async function previewImportList(userId: number, content: string, format?: ImportListFormat): Promise<ImportListResult> {
+  const parsed = parseImportList(content, format);
+  const followed = await followedKeys(userId);
+  for (const entry of parsed.entries) {
+    if (entry.status === 'ready' && followed.has(entry.username!.toLowerCase())) {
+      entry.status = 'exists';
+    }
+  }
+  return summarize(parsed.format, parsed.entries);
+}
+
+/**
+ * Follow the account of one ready entry (an item of an import_list job). Errors are thrown, so
+ * the job retries the entry; a dead item counts as 'failed'.
+ */
+export async function importListEntry(userId: number, entry: ImportListEntry): Promise<ImportListEntry> {
+  const profile = await resolveEntry(entry);
+  if (!profile) {
+    return { ...entry, status: 'not_found' };
+  }
+  try {
+    const artist = await followResolvedProfile(userId, profile);
+    return { ...entry, username: profile.username, status: 'added', artist_id: artist.id };
+  } catch (error: any) {
+    // The feed or new handle it led to is followed already
+    if (error.message === 'ARTIST_EXISTS') {
+      return { ...entry, username: profile.username, status: 'exists' };
+    }
+    throw error;
+  }
+}
+
+// The list as the job left it (or has got to): entries without an item keep their preview
+// status, entries still waiting stay 'ready'
+export function importListJobResult(job: db.ScrapeJob): ImportListResult {
+  const items = new Map(job.items.map(item => [item.target_id, item]));
+  const entries = (job.payload.entries as ImportListEntry[]).map(entry => {
+    const item = entry.status === 'ready' ? items.get(entry.line) : undefined;
+    if (item?.status === 'completed') return item.result as ImportListEntry;
+    if (item?.status === 'dead') return { ...entry, status: 'failed' as const, error: item.last_error };
+    return entry;
+  });
+  return summarize(job.payload.format, entries);
+}
@@ -4,6 +4,8 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { initDatabase } from './database';
 import { initScheduler } from './scheduler';
+import { closeBrowserPool } from './browserPool';
+import { startJobWorker, stopJobWorker } from './jobQueue';
 import authRoutes from './routes/auth';
 import publicRoutes from './routes/public';
 import artistRoutes from './routes/artists';
@@ -13,6 +15,7 @@ import importRoutes from './routes/import';
 import databaseRoutes from './routes/database';
 import cronRoutes from './routes/cron';
 import userRoutes from './routes/user';
+import jobRoutes from './routes/jobs';
 
 dotenv.config();
 
@@ -42,15 +45,10 @@ app.use(cors({
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
-app.use(express.json());
+// Account archives (POST /api/user/import) can be several MB for large libraries
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '25mb' }));
 app.use(morgan('dev'));
 
-// Initialize database
-initDatabase();
-
-// Initialize scheduler (if enabled)
-initScheduler();
-
 // Routes
 app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -67,6 +65,7 @@ app.use('/api/artworks', artworkRoutes);
 app.use('/api/scrape', scrapeRoutes);
 app.use('/api/import', importRoutes);
 app.use('/api/database', databaseRoutes);
+app.use('/api/jobs', jobRoutes);
 
 // Cron endpoints (require API key if CRON_API_KEY is set)
 app.use('/api/cron', cronRoutes);
@@ -77,7 +76,35 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
   res.status(500).json({ error: 'Something went wrong!' });
 });
 
-app.listen(PORT, () => {
-  console.log(`🚀 ArtTracker backend running on http://localhost:${PORT}`);
-});
+// Initialize database (applies pending migrations on PostgreSQL) before accepting requests
+initDatabase()
+  .then(async () => {
+    // Run queued scrape jobs, including the ones left over from before a restart
+    await startJobWorker();
+
+    // Initialize scheduler (if enabled)
+    initScheduler();
+
+    app.listen(PORT, () => {
+      console.log(`🚀 ArtTracker backend running on http://localhost:${PORT}`);
+    });
+  })
+  .catch((error) => {
+    console.error('❌ Failed to start ArtTracker backend:', error.message);
+    process.exit(1);
+  });
+
+// Stop taking new job items and close the browser before exiting; process.exit() then lets the JSON store flush its pending writes
+let shuttingDown = false;
+async function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`🛑 ${signal} received, shutting down...`);
+  stopJobWorker(); // Unfinished items stay pending and resume on the next start
+  await closeBrowserPool();
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
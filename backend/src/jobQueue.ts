@@ -0,0 +1,414 @@
+// Persistent queue for scrapes, following imports and list imports.
+//
+// Routes and the scheduler enqueue a job and return its id instead of scraping inside the
+// request. One worker in this process runs the due items of the oldest job first. Each item
+// (an artist, a catalog account for scheduled jobs, a user for following imports, or an entry
+// of an imported list) has its own attempts: a failed item is retried after
+// JOB_RETRY_BASE_MS * 2^(attempt - 1), and after JOB_MAX_ATTEMPTS it is dead (the dead-letter
+// queue) until retried by hand. Jobs live in the database, so after a restart or a Render sleep
+// the worker resumes with the pending items.
+//
+// Every job also gets a scrape run: its trigger, timing and totals, plus an outcome for each
+// attempt at an artist. Runs are kept for the scrape history after the job is purged.
+//
+// Scheduled checks only cover the accounts that are due (see checkSchedule.ts); every attempt
+// at an account schedules its next check.
+
+import * as db from './database';
+import { isCheckDue, scheduleNextCheck } from './checkSchedule';
+import { getRateLimiterStatus, RequestTrace, SCRAPING_PAUSED, traceRequests } from './rateLimiter';
+import { ImportListEntry, importListEntry } from './importList';
+import { importFollowingFromUser } from './scraper-import-following';
+import {
+  CONCURRENT_ARTIST_LIMIT,
+  checkAndScrapeArtist,
+  scrapeArtist,
+  scrapeArtistUpdates,
+  scrapeFollowedAccount
+} from './scraper';
+import { mapWithConcurrency } from './utils/concurrency';
+
+const JOB_MAX_ATTEMPTS = Math.max(1, parseInt(process.env.JOB_MAX_ATTEMPTS || '3'));
+const JOB_RETRY_BASE_MS = parseInt(process.env.JOB_RETRY_BASE_MS || '60000');
+const JOB_POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000');
+
+const UNFINISHED: db.ScrapeJobStatus[] = ['queued', 'running'];
+
+export interface ScrapeJobSummary {
+  total: number;
+  pending: number;
+  completed: number;
+  skipped: number; // Completed without scraping (no updates)
+  dead: number;
+  new_artworks: number;
+  updated_artworks: number;
+}
+
+export type ScrapeJobStatusResponse = db.ScrapeJob & { summary: ScrapeJobSummary };
+
+let pollTimer: NodeJS.Timeout | null = null;
+let activeRun: Promise<void> | null = null;
+
+function describeJob(job: db.ScrapeJob): string {
+  return `${job.type} job #${job.id}${job.user_id === null ? ' (scheduled)' : ` for user ${job.user_id}`}`;
+}
+
+async function buildItems(type: db.ScrapeJobType, userId: number | null, payload: any) {
+  if (type === 'import_following') {
+    if (userId !== null) {
+      return [{ target_id: userId, label: payload.username }];
+    }
+    const users = await db.getAllUsers();
+    return users
+      .filter(user => user.artstation_username)
+      .map(user => ({ target_id: user.id, label: user.artstation_username! }));
+  }
+
+  if (type === 'import_list') {
+    // Entries are checked offline already: only the ones to follow get an item, keyed by line
+    if (userId === null) {
+      throw new Error('INVALID_JOB');
+    }
+    return (payload.entries as ImportListEntry[])
+      .filter(entry => entry.status === 'ready')
+      .map(entry => ({ target_id: entry.line, label: entry.input }));
+  }
+
+  if (userId !== null) {
+    const artists = await db.getAllArtists(userId);
+    return artists
+      .filter(artist => !payload.artist_id || artist.id === payload.artist_id)
+      .map(artist => ({ target_id: artist.id, label: artist.username }));
+  }
+
+  if (type === 'update') {
+    throw new Error('INVALID_JOB');
+  }
+
+  // Scheduled scrapes: one item per ArtStation account, however many users follow it.
+  // Checks skip the accounts that aren't due yet.
+  const accounts = new Map<number, string>();
+  for (const follow of await db.getAllFollowedArtists()) {
+    if (type === 'check' && !isCheckDue(follow)) continue;
+    accounts.set(follow.catalog_artist_id, follow.username);
+  }
+  return [...accounts].map(([target_id, label]) => ({ target_id, label }));
+}
+
+/**
+ * Queue a job and wake the worker. userId null means a scheduled job covering every user.
+ * If the same job is still queued or running, that one is returned instead.
+ */
+export async function enqueueJob(
+  type: db.ScrapeJobType,
+  userId: number,
+  payload?: any,
+  trigger?: db.ScrapeRunTrigger
+): Promise<db.ScrapeJob>;
+export async function enqueueJob(
+  type: db.ScrapeJobType,
+  userId: number | null,
+  payload?: any,
+  trigger?: db.ScrapeRunTrigger
+): Promise<db.ScrapeJob | null>;
+export async function enqueueJob(
+  type: db.ScrapeJobType,
+  userId: number | null,
+  payload: any = {},
+  trigger: db.ScrapeRunTrigger = userId === null ? 'scheduled' : 'manual'
+): Promise<db.ScrapeJob | null> {
+  const unfinished = await db.getScrapeJobs({ user_id: userId, statuses: UNFINISHED });
+  const duplicate = unfinished.find(job => job.type === type && JSON.stringify(job.payload) === JSON.stringify(payload));
+  if (duplicate) {
+    console.log(`📋 ${describeJob(duplicate)} is already ${duplicate.status}, not queueing it again`);
+    return duplicate;
+  }
+
+  const items = await buildItems(type, userId, payload);
+  if (type === 'check' && userId === null && items.length === 0) {
+    // The check runs hourly; most hours no account is due and there is nothing to record
+    console.log('📋 No account is due for a check, not queueing a job');
+    return null;
+  }
+  const job = await db.createScrapeJob(type, userId, payload, items);
+  await db.createScrapeRun({ job_id: job.id, type, trigger, user_id: userId, total: items.length });
+  console.log(`📋 Queued ${describeJob(job)} with ${items.length} item(s)`);
+  wakeWorker();
+  return job;
+}
+
+async function scrapeAccount(catalogArtistId: number, fullRescan: boolean) {
+  const followers = await db.getFollowersOfCatalogArtist(catalogArtistId);
+  if (followers.length === 0) {
+    // Everyone unfollowed the account since the job was queued
+    return { status: 'skipped', reason: 'no_followers' };
+  }
+  return scrapeFollowedAccount(followers, { fullRescan });
+}
+
+async function runItem(job: db.ScrapeJob, item: db.ScrapeJobItem): Promise<any> {
+  switch (job.type) {
+    case 'check':
+      return job.user_id === null
+        ? scrapeAccount(item.target_id, false)
+        : checkAndScrapeArtist(item.target_id, job.user_id);
+    case 'update':
+      return scrapeArtist(item.target_id, job.user_id!);
+    case 'rescan':
+      return job.user_id === null
+        ? scrapeAccount(item.target_id, true)
+        : scrapeArtistUpdates(item.target_id, job.user_id, {
+            fullRescan: true,
+            allowInsert: false,
+            markUpdatesAsNew: false,
+            notify: false
+          });
+    case 'import_following': {
+      if (job.user_id !== null) {
+        return importFollowingFromUser(
+          job.user_id,
+          job.payload.username,
+          job.payload.clear_existing === true,
+          job.payload.skip_artwork_scraping === true
+        );
+      }
+      // Scheduled sync: keep the list in step, new artworks are picked up by the next check
+      const user = await db.getUserById(item.target_id);
+      if (!user?.artstation_username) {
+        return { status: 'skipped', reason: 'no_artstation_username' };
+      }
+      return importFollowingFromUser(user.id, user.artstation_username, false, true);
+    }
+    case 'import_list': {
+      const entry = (job.payload.entries as ImportListEntry[]).find(e => e.line === item.target_id)!;
+      return importListEntry(job.user_id!, entry);
+    }
+  }
+}
+
+// Errors another attempt won't fix, such as a username without a following list
+function isPermanentError(error: any): boolean {
+  return error.message?.includes('No followed artists found');
+}
+
+// The catalog account an item scrapes; imports aren't about one artist
+async function catalogArtistOf(job: db.ScrapeJob, item: db.ScrapeJobItem): Promise<number | null> {
+  if (job.type === 'import_following' || job.type === 'import_list') return null;
+  if (job.user_id === null) return item.target_id;
+  return (await db.getArtistById(item.target_id, job.user_id))?.catalog_artist_id ?? null;
+}
+
+async function runJobItem(job: db.ScrapeJob, run: db.ScrapeRun | undefined, item: db.ScrapeJobItem) {
+  const attempts = item.attempts + 1;
+  const catalogArtistId = await catalogArtistOf(job, item);
+  const trace: RequestTrace = { pages_fetched: 0 };
+  const start = Date.now();
+
+  // Jobs queued before the scrape history existed have no run
+  const recordOutcome = async (outcome: Pick<db.NewScrapeOutcome, 'status' | 'reason' | 'error'>, result?: any) => {
+    if (!run) return;
+    await db.addScrapeOutcome({
+      run_id: run.id,
+      catalog_artist_id: catalogArtistId,
+      username: item.label,
+      attempt: attempts,
+      pages_fetched: trace.pages_fetched,
+      new_artworks: result?.new_artworks || 0,
+      updated_artworks: result?.updated_artworks || 0,
+      duration_ms: Date.now() - start,
+      block_reason: trace.last_block,
+      ...outcome
+    });
+  };
+  const reschedule = async () => {
+    if (catalogArtistId !== null) {
+      await scheduleNextCheck(catalogArtistId, new Date().toISOString());
+    }
+  };
+
+  try {
+    const result = await traceRequests(trace, () => runItem(job, item));
+    await db.updateScrapeJobItem(item.id, { status: 'completed', attempts, result, finished_at: new Date().toISOString() });
+    await recordOutcome(
+      { status: result?.status === 'skipped' ? 'skipped' : 'completed', reason: result?.reason || result?.skipped_reason },
+      result
+    );
+    await reschedule();
+  } catch (error: any) {
+    const now = new Date().toISOString();
+
+    if (error.message === SCRAPING_PAUSED) {
+      // Not this item's fault: try again once the circuit breaker lets requests through
+      const reopensAt = getRateLimiterStatus().breaker.reopens_at;
+      await db.updateScrapeJobItem(item.id, {
+        next_attempt_at: reopensAt || new Date(Date.now() + JOB_RETRY_BASE_MS).toISOString()
+      });
+      await recordOutcome({ status: 'paused', error: error.message });
+      return;
+    }
+    if (error.message === 'Artist not found') {
+      // Unfollowed since the job was queued
+      await db.updateScrapeJobItem(item.id, {
+        status: 'completed',
+        attempts,
+        result: { artist: item.label, status: 'skipped', reason: 'artist_removed' },
+        finished_at: now
+      });
+      await recordOutcome({ status: 'skipped', reason: 'artist_removed' });
+      return;
+    }
+
+    if (attempts >= JOB_MAX_ATTEMPTS || isPermanentError(error)) {
+      console.error(`  ☠️ @${item.label} failed ${attempts} time(s), giving up: ${error.message}`);
+      await db.updateScrapeJobItem(item.id, { status: 'dead', attempts, last_error: error.message, finished_at: now });
+    } else {
+      const retryIn = JOB_RETRY_BASE_MS * 2 ** (attempts - 1);
+      console.warn(`  ↻ @${item.label} failed (attempt ${attempts}/${JOB_MAX_ATTEMPTS}), retrying in ${Math.round(retryIn / 1000)}s: ${error.message}`);
+      await db.updateScrapeJobItem(item.id, {
+        attempts,
+        last_error: error.message,
+        next_attempt_at: new Date(Date.now() + retryIn).toISOString()
+      });
+    }
+    await recordOutcome({ status: 'failed', error: error.message });
+    await reschedule(); // A failing account isn't tried again by every check run
+  }
+}
+
+async function finishJob(job: db.ScrapeJob) {
+  const summary = summarizeJob(job);
+  const status = summary.dead > 0 ? 'failed' : 'completed';
+  const finishedAt = new Date().toISOString();
+  await db.updateScrapeJob(job.id, { status, finished_at: finishedAt });
+
+  const run = await db.getScrapeRunForJob(job.id);
+  if (run) {
+    const startedAt = run.started_at || job.started_at || job.created_at;
+    await db.updateScrapeRun(run.id, {
+      status,
+      started_at: startedAt,
+      finished_at: finishedAt,
+      duration_ms: new Date(finishedAt).getTime() - new Date(startedAt).getTime(),
+      completed: summary.completed - summary.skipped,
+      skipped: summary.skipped,
+      failed: summary.dead,
+      new_artworks: summary.new_artworks,
+      updated_artworks: summary.updated_artworks
+    });
+  }
+  console.log(
+    `✅ Finished ${describeJob(job)}: ${summary.completed} completed (${summary.skipped} without updates), ` +
+    `${summary.dead} dead, ${summary.new_artworks} new artwork(s)`
+  );
+
+  const purged = await db.purgeFinishedScrapeJobs();
+  if (purged > 0) {
+    console.log(`🗑️ Removed ${purged} job(s) finished more than ${db.SCRAPE_JOB_RETENTION_DAYS} day(s) ago`);
+  }
+  const purgedRuns = await db.purgeOldScrapeRuns();
+  if (purgedRuns > 0) {
+    console.log(`🗑️ Removed ${purgedRuns} scrape run(s) finished more than ${db.SCRAPE_RUN_RETENTION_DAYS} day(s) ago`);
+  }
+}
+
+/**
+ * Run every item that is due, oldest job first, and finish jobs without pending items.
+ * Returns once nothing is due; items waiting for a retry are picked up by a later run.
+ */
+export async function runDueJobs(): Promise<void> {
+  for (;;) {
+    const jobs = (await db.getScrapeJobs({ statuses: UNFINISHED })).reverse();
+    const now = Date.now();
+    let ranItems = false;
+
+    for (const job of jobs) {
+      const pending = job.items.filter(item => item.status === 'pending');
+      if (pending.length === 0) {
+        await finishJob(job);
+        continue;
+      }
+
+      const due = pending.filter(item => new Date(item.next_attempt_at).getTime() <= now);
+      if (due.length === 0) continue;
+
+      const run = await db.getScrapeRunForJob(job.id);
+      if (job.status === 'queued') {
+        const startedAt = job.started_at || new Date().toISOString();
+        await db.updateScrapeJob(job.id, { status: 'running', started_at: startedAt });
+        if (run) {
+          await db.updateScrapeRun(run.id, { status: 'running', started_at: run.started_at || startedAt });
+        }
+      }
+      console.log(`\n▶️ Running ${describeJob(job)}: ${due.length} of ${job.items.length} item(s)`);
+      await mapWithConcurrency(due, CONCURRENT_ARTIST_LIMIT, item => runJobItem(job, run, item));
+      ranItems = true;
+      break; // Start over, so an older job that became due again goes first
+    }
+
+    if (!ranItems) return;
+  }
+}
+
+function wakeWorker() {
+  if (!pollTimer || activeRun) return;
+  activeRun = runDueJobs()
+    .catch(error => console.error('❌ [Jobs] Error running jobs:', error))
+    .finally(() => {
+      activeRun = null;
+    });
+}
+
+// Poll for due items; unfinished jobs from before a restart are picked up right away
+export async function startJobWorker(): Promise<void> {
+  if (pollTimer) return;
+
+  const unfinished = await db.getScrapeJobs({ statuses: UNFINISHED });
+  if (unfinished.length > 0) {
+    console.log(`📋 [Jobs] Resuming ${unfinished.length} unfinished job(s)`);
+  }
+
+  pollTimer = setInterval(wakeWorker, JOB_POLL_INTERVAL_MS);
+  wakeWorker();
+}
+
+// Items that are running keep their pending state and run again after the next start
+export function stopJobWorker() {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+// Give dead items a fresh set of attempts
+export async function retryDeadItems(job: db.ScrapeJob): Promise<number> {
+  const dead = job.items.filter(item => item.status === 'dead');
+  const now = new Date().toISOString();
+
+  for (const item of dead) {
+    await db.updateScrapeJobItem(item.id, { status: 'pending', attempts: 0, next_attempt_at: now });
+  }
+  if (dead.length > 0) {
+    await db.updateScrapeJob(job.id, { status: 'queued' });
+    wakeWorker();
+  }
+  return dead.length;
+}
+
+export function summarizeJob(job: db.ScrapeJob): ScrapeJobSummary {
+  const count = (status: db.ScrapeJobItemStatus) => job.items.filter(item => item.status === status).length;
+  const results = job.items.map(item => item.result).filter(Boolean);
+
+  return {
+    total: job.items.length,
+    pending: count('pending'),
+    completed: count('completed'),
+    skipped: results.filter(result => result.status === 'skipped').length,
+    dead: count('dead'),
+    new_artworks: results.reduce((sum, result) => sum + (result.new_artworks || 0), 0),
+    updated_artworks: results.reduce((sum, result) => sum + (result.updated_artworks || 0), 0)
+  };
+}
+
+export function toJobStatusResponse(job: db.ScrapeJob): ScrapeJobStatusResponse {
+  return { ...job, summary: summarizeJob(job) };
+}
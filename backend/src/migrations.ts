@@ -0,0 +1,134 @@
+// PostgreSQL schema migration runner
+// Applies the numbered .sql files in backend/migrations in order and records each one in schema_migrations
+
+import fs from 'fs';
+import path from 'path';
+import type pg from 'pg';
+
+// Resolves to backend/migrations from both src/ (tsx) and dist/ (compiled)
+const MIGRATIONS_DIR = process.env.MIGRATIONS_DIR || path.join(__dirname, '..', 'migrations');
+
+// Arbitrary constant so concurrent instances don't migrate at the same time
+const MIGRATION_LOCK_ID = 727_001;
+
+type Queryable = pg.Pool | pg.PoolClient;
+
+export interface MigrationFile {
+  version: string;
+  name: string;
+  filename: string;
+  sql: string;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  applied: AppliedMigration[];
+  pending: MigrationFile[];
+  // Recorded in the database but missing from disk: the schema is ahead of this build
+  unknown: AppliedMigration[];
+}
+
+export function loadMigrationFiles(dir: string = MIGRATIONS_DIR): MigrationFile[] {
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Migrations directory not found: ${dir}`);
+  }
+
+  return fs.readdirSync(dir)
+    .filter(filename => /^\d+_.+\.sql$/.test(filename))
+    .sort()
+    .map(filename => {
+      const [, version, name] = filename.match(/^(\d+)_(.+)\.sql$/)!;
+      return {
+        version,
+        name,
+        filename,
+        sql: fs.readFileSync(path.join(dir, filename), 'utf-8')
+      };
+    });
+}
+
+async function ensureMigrationsTable(client: Queryable): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(20) PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+export async function getMigrationStatus(client: Queryable): Promise<MigrationStatus> {
+  await ensureMigrationsTable(client);
+
+  const files = loadMigrationFiles();
+  const result = await client.query('SELECT version, name, applied_at FROM schema_migrations ORDER BY version');
+  const applied: AppliedMigration[] = result.rows.map((row: any) => ({
+    version: row.version,
+    name: row.name,
+    applied_at: row.applied_at.toISOString()
+  }));
+
+  const appliedVersions = new Set(applied.map(m => m.version));
+  const knownVersions = new Set(files.map(f => f.version));
+
+  return {
+    applied,
+    pending: files.filter(f => !appliedVersions.has(f.version)),
+    unknown: applied.filter(m => !knownVersions.has(m.version))
+  };
+}
+
+/**
+ * Apply all pending migrations, each in its own transaction.
+ * Throws SCHEMA_AHEAD if the database has migrations this build doesn't know about.
+ * With dryRun, returns what would be applied without touching the schema.
+ */
+export async function runMigrations(pool: pg.Pool, options: { dryRun?: boolean } = {}): Promise<MigrationFile[]> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+
+    const status = await getMigrationStatus(client);
+
+    if (status.unknown.length > 0) {
+      const versions = status.unknown.map(m => `${m.version}_${m.name}`).join(', ');
+      const error: any = new Error(
+        `SCHEMA_AHEAD: database has migration(s) this build does not include (${versions}). ` +
+        `Deploy a newer version of ArtTracker instead of running this one against it.`
+      );
+      error.code = 'SCHEMA_AHEAD';
+      throw error;
+    }
+
+    if (options.dryRun) {
+      return status.pending;
+    }
+
+    for (const migration of status.pending) {
+      console.log(`   ⬆️  Applying migration ${migration.filename}...`);
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        );
+        await client.query('COMMIT');
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        throw new Error(`Migration ${migration.filename} failed: ${error.message}`);
+      }
+    }
+
+    return status.pending;
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => undefined);
+    client.release();
+  }
+}
@@ -5,12 +5,33 @@ export interface ArtworkNotification {
   title: string;
   artistName: string;
   artistDisplayName?: string;
+  artistUrl?: string; // Profile or site of the artist; ArtStation when not given
   artworkUrl: string;
   thumbnailUrl?: string;
   uploadDate?: string;
   changeType?: 'new' | 'updated';
 }
 
+const WEBHOOK_HOSTS = ['discord.com', 'discordapp.com'];
+
+// Only Discord's own webhook endpoints: the server posts to this URL, so it must not point anywhere else
+export function isDiscordWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' &&
+      WEBHOOK_HOSTS.includes(url.hostname) &&
+      !url.port && !url.username && !url.password &&
+      url.pathname.startsWith('/api/webhooks/');
+  } catch {
+    return false;
+  }
+}
+
+// Discord user IDs are numeric strings, typically 17-19 digits
+export function isDiscordUserId(value: string): boolean {
+  return /^\d{17,19}$/.test(value);
+}
+
 async function postToWebhook(webhookUrl: string, payload: any) {
   await axios.post(webhookUrl, payload, {
     timeout: 5000,
@@ -102,7 +123,7 @@ async function sendSingleArtworkNotification(
     } : undefined,
     author: {
       name: artistDisplayName,
-      url: `https://www.artstation.com/${artistName}`
+      url: artwork.artistUrl || `https://www.artstation.com/${artistName}`
     },
     timestamp: new Date().toISOString(),
     footer: {
@@ -137,6 +158,75 @@ async function sendSummaryNotification(
   });
 }
 
+/**
+ * Tell a user that an artist they follow was renamed, deleted or made private on ArtStation
+ * Only sends if user has discord_webhook_url configured
+ */
+export async function sendDiscordAccountStatusNotification(
+  userId: number,
+  artist: { username: string; display_name?: string },
+  status: Exclude<db.ArtistAccountStatus, 'active'>,
+  newUsername?: string
+): Promise<boolean> {
+  const user = await db.getUserById(userId);
+  if (!user || !user.discord_webhook_url) {
+    return false;
+  }
+
+  const name = `**${artist.display_name || artist.username}** (@${artist.username})`;
+  const messages = {
+    renamed: `✏️ ${name} is now @${newUsername} on ArtStation`,
+    gone: `🚫 ${name} no longer exists on ArtStation. Their artworks stay in ArtTracker.`,
+    private: `🔒 ${name} made their ArtStation profile private. Checks resume once it's public again.`
+  };
+
+  try {
+    await sendDiscordCustomMessage(user, messages[status]);
+    return true;
+  } catch (error: any) {
+    console.error(`❌ [Discord] Failed to send notification for user ${userId}:`, error.message);
+    return false;
+  }
+}
+
+// Titles listed in a removed-artworks message; the rest are counted
+const REMOVED_ARTWORKS_LISTED = 10;
+
+/**
+ * Tell a user that a full rescan found artworks the artist took down from ArtStation
+ * Only sends if the user opted in (notify_removed_artworks) and has discord_webhook_url configured
+ */
+export async function sendDiscordRemovedArtworksNotification(
+  userId: number,
+  artist: { username: string; display_name?: string },
+  artworks: Array<{ title: string; artwork_url: string; is_favorite?: number }>
+): Promise<boolean> {
+  const user = await db.getUserById(userId);
+  if (!user || !user.discord_webhook_url || !user.notify_removed_artworks || artworks.length === 0) {
+    return false;
+  }
+
+  const name = `**${artist.display_name || artist.username}** (@${artist.username})`;
+  const lines = artworks
+    .slice(0, REMOVED_ARTWORKS_LISTED)
+    .map(artwork => `• ${artwork.is_favorite === 1 ? '⭐ ' : ''}${artwork.title.slice(0, 100)}`);
+  if (artworks.length > REMOVED_ARTWORKS_LISTED) {
+    lines.push(`…and ${artworks.length - REMOVED_ARTWORKS_LISTED} more`);
+  }
+  const count = `${artworks.length} artwork${artworks.length > 1 ? 's' : ''}`;
+
+  try {
+    await sendDiscordCustomMessage(
+      user,
+      `🗑️ ${name} removed ${count} from ArtStation. Favorites stay in ArtTracker.\n${lines.join('\n')}`
+    );
+    return true;
+  } catch (error: any) {
+    console.error(`❌ [Discord] Failed to send notification for user ${userId}:`, error.message);
+    return false;
+  }
+}
+
 export async function sendDiscordCustomMessage(user: db.User, content: string): Promise<void> {
   if (!user.discord_webhook_url) {
     throw new Error('Discord webhook not configured');
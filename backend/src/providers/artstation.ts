@@ -0,0 +1,40 @@
+import type { SourceProvider } from './types';
+import {
+  checkFollowersForUpdates,
+  listProjects,
+  scrapeArtist,
+  scrapeUpdatesForFollowers
+} from '../scraper-puppeteer';
+
+// Handles are letters, digits, dashes and underscores
+const HANDLE_PATTERN = /^[\w-]+$/;
+
+// The handle in an ArtStation profile URL (https://www.artstation.com/<handle>/... or
+// /users/<handle>/...), or a bare handle
+export function artstationHandle(input: string): string | null {
+  const trimmed = input.trim().replace(/^@/, '');
+  if (trimmed.includes('artstation.com')) {
+    const match = trimmed.match(/artstation\.com\/users\/([^\/\?#]+)/) || trimmed.match(/artstation\.com\/([^\/\?#]+)/);
+    return match && HANDLE_PATTERN.test(match[1]) ? match[1] : null;
+  }
+  return HANDLE_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+export const artstationProvider: SourceProvider = {
+  source: 'artstation',
+  name: 'ArtStation',
+
+  // Resolved without a request; the first scrape finds out whether the account exists
+  async resolveProfile(input) {
+    const username = artstationHandle(input);
+    if (!username) {
+      return null;
+    }
+    return { source: 'artstation', username, profile_url: `https://www.artstation.com/${username}` };
+  },
+
+  listWorks: (artist, options) => listProjects(artist, options),
+  checkForUpdates: followers => checkFollowersForUpdates(followers),
+  scrapeFollowers: (followers, options) => scrapeUpdatesForFollowers(followers, options),
+  scrapeArtist: artist => scrapeArtist(artist.id, artist.user_id)
+};
@@ -0,0 +1,44 @@
+// Source providers: where followed artists publish their work. Each artist stores its
+// source, and scrapes and checks go through that source's provider.
+
+import * as db from '../database';
+import { artstationProvider } from './artstation';
+import { rssProvider } from './rss';
+import type { ResolvedProfile, SourceProvider } from './types';
+
+// In the order resolveArtistInput tries them; ArtStation also takes bare handles, so it goes last
+export const providers: SourceProvider[] = [rssProvider, artstationProvider];
+
+export function getProvider(source: db.ArtistSource | undefined): SourceProvider {
+  return providers.find(provider => provider.source === (source || 'artstation')) || artstationProvider;
+}
+
+// The account behind a URL or handle entered by the user, from the first provider that
+// supports it. Null when none does; provider errors (like FEED_NOT_FOUND) are thrown.
+export async function resolveArtistInput(input: string): Promise<ResolvedProfile | null> {
+  for (const provider of providers) {
+    const profile = await provider.resolveProfile(input);
+    if (profile) {
+      return profile;
+    }
+  }
+  return null;
+}
+
+// Follow a resolved account, with the name and avatar the provider found (if the shared
+// catalog has none yet). Throws ARTIST_EXISTS like db.addArtist.
+export async function followResolvedProfile(userId: number, profile: ResolvedProfile): Promise<db.Artist> {
+  const artist = await db.addArtist(userId, profile.username, profile.profile_url, profile.source, profile.feed_url);
+  const details: Partial<db.Artist> = {};
+  if (profile.display_name && !artist.display_name) {
+    details.display_name = profile.display_name;
+  }
+  if (profile.avatar_url && !artist.avatar_url) {
+    details.avatar_url = profile.avatar_url;
+  }
+  if (Object.keys(details).length === 0) {
+    return artist;
+  }
+  await db.updateArtist(artist.id, userId, details);
+  return (await db.getArtistById(artist.id, userId)) || artist;
+}
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import * as db from '../database';
+import { fetchText } from '../fetcher';
+import { isRateLimitError } from '../rateLimiter';
+import { findFeedLinks, parseFeed, ParsedFeed } from '../utils/feed';
+import type { ScrapedArtwork, SourceProvider } from './types';
+import { followerStates, latestStoredDate, scrapeListedWorks } from './works';
+
+// catalog_artists.username is VARCHAR(100); longer feed keys are shortened with a hash
+const MAX_KEY_LENGTH = 100;
+// Feeds a page links to that are tried before giving up
+const MAX_DISCOVERED_FEEDS = 3;
+
+function sha1(text: string): string {
+  return crypto.createHash('sha1').update(text).digest('hex');
+}
+
+// Feed sources are keyed by their URL without the scheme, so http and https share an entry
+export function feedKey(feedUrl: string): string {
+  const url = new URL(feedUrl);
+  const key = `${url.host}${url.pathname}${url.search}`.replace(/\/+$/, '').toLowerCase();
+  return key.length <= MAX_KEY_LENGTH ? key : `${key.slice(0, MAX_KEY_LENGTH - 9)}~${sha1(key).slice(0, 8)}`;
+}
+
+// Web addresses anywhere but ArtStation
+export function isFeedCandidate(input: string): boolean {
+  try {
+    const url = new URL(input.trim());
+    return (url.protocol === 'http:' || url.protocol === 'https:') && !/(^|\.)artstation\.com$/i.test(url.hostname);
+  } catch (e) {
+    return false;
+  }
+}
+
+async function fetchFeed(url: string): Promise<{ url: string; feed: ParsedFeed } | null> {
+  const response = await fetchText(url);
+  if (!response) return null;
+  const feed = parseFeed(response.body, response.url);
+  return feed ? { url: response.url, feed } : null;
+}
+
+// Items keep their feed id (guid, Atom id or link) as a short hash, so any length fits
+function toArtwork(item: ParsedFeed['items'][number]): ScrapedArtwork {
+  return {
+    artwork_id: sha1(item.id).slice(0, 20),
+    title: item.title,
+    thumbnail_url: item.image_url || '',
+    high_quality_image_url: item.image_url,
+    artwork_url: item.link,
+    upload_date: item.published_at,
+    updated_at: item.updated_at
+  };
+}
+
+export const rssProvider: SourceProvider = {
+  source: 'rss',
+  name: 'RSS/Atom feed',
+
+  // A feed URL, or a page that links to its feed with <link rel="alternate">
+  async resolveProfile(input) {
+    if (!isFeedCandidate(input)) {
+      return null;
+    }
+
+    let found: { url: string; feed: ParsedFeed } | null = null;
+    let pageUrl: string | undefined;
+    try {
+      const response = await fetchText(input.trim());
+      if (response) {
+        const feed = parseFeed(response.body, response.url);
+        if (feed) {
+          found = { url: response.url, feed };
+        } else {
+          pageUrl = response.url;
+          for (const feedUrl of findFeedLinks(response.body, response.url).slice(0, MAX_DISCOVERED_FEEDS)) {
+            found = await fetchFeed(feedUrl);
+            if (found) break;
+          }
+        }
+      }
+    } catch (error: any) {
+      if (isRateLimitError(error)) {
+        throw error;
+      }
+      console.error(`  ⚠ Failed to fetch ${input}:`, error.message);
+    }
+
+    if (!found) {
+      throw new Error('FEED_NOT_FOUND');
+    }
+    return {
+      source: 'rss',
+      username: feedKey(found.url),
+      profile_url: found.feed.link || pageUrl || found.url,
+      feed_url: found.url,
+      display_name: found.feed.title,
+      avatar_url: found.feed.image_url
+    };
+  },
+
+  // Feeds only carry their latest items, so a listing is never complete (older items
+  // dropping out of the feed weren't removed by the artist)
+  async listWorks(artist, options) {
+    const fetched = await fetchFeed(artist.feed_url || artist.profile_url);
+    if (!fetched) {
+      return null;
+    }
+
+    const stopAt = options?.fullList ? undefined : options?.stopAt;
+    const works: ScrapedArtwork[] = [];
+    for (const item of fetched.feed.items) {
+      const artwork = toArtwork(item);
+      const alreadyExists = stopAt?.has(artwork.artwork_id) ?? false;
+      works.push({ ...artwork, alreadyExists });
+      if (alreadyExists) break;
+    }
+    return {
+      works,
+      complete: false,
+      pages: 1,
+      display_name: fetched.feed.title,
+      avatar_url: fetched.feed.image_url
+    };
+  },
+
+  // Items aren't always dated, so anything a follower hasn't stored yet counts as an update
+  async checkForUpdates(followers) {
+    const artist = followers[0];
+    try {
+      const listing = await rssProvider.listWorks(artist, { fullList: true });
+      await db.updateArtist(artist.id, artist.user_id, { last_checked: new Date().toISOString() });
+      if (!listing) {
+        return { hasUpdates: false };
+      }
+
+      const states = await followerStates(followers);
+      const hasUpdates = listing.works.some(work => states.some(state => !state.existingArtworkIds.has(work.artwork_id)));
+      return {
+        hasUpdates,
+        latestArtStationDate: listing.works[0]?.upload_date,
+        latestDbDate: await latestStoredDate(followers)
+      };
+    } catch (error: any) {
+      if (isRateLimitError(error)) {
+        throw error;
+      }
+      console.error(`  ⚠ Error checking updates for ${artist.username}:`, error.message);
+      await db.updateArtist(artist.id, artist.user_id, { last_checked: new Date().toISOString() });
+      return { hasUpdates: true };
+    }
+  },
+
+  scrapeFollowers: (followers, options) => scrapeListedWorks(rssProvider, followers, options),
+  scrapeArtist: artist => scrapeListedWorks(rssProvider, [artist])
+};
@@ -0,0 +1,97 @@
+import type * as db from '../database';
+import type { AccountStatusChange } from '../accountStatus';
+
+// One work as a provider lists it, before it is stored as an artwork
+export interface ScrapedArtwork {
+  artwork_id: string;
+  title: string;
+  thumbnail_url: string;
+  high_quality_image_url?: string;
+  artwork_url: string;
+  upload_date?: string;
+  updated_at?: string;
+  project_updated_at?: string; // ArtStation: used to refetch project details after an edit
+  image_hash?: string; // Perceptual hash of the thumbnail, once known (see reposts.ts)
+  alreadyExists?: boolean;
+}
+
+// Which account a URL or handle points to, ready to be followed
+export interface ResolvedProfile {
+  source: db.ArtistSource;
+  username: string;
+  profile_url: string;
+  feed_url?: string;
+  display_name?: string;
+  avatar_url?: string;
+}
+
+export interface ListWorksOptions {
+  stopAt?: Set<string>; // Stop after the first listed work with one of these ids
+  fullList?: boolean; // Ignore stopAt and list everything
+}
+
+export interface WorkListing {
+  works: ScrapedArtwork[]; // Newest first
+  complete: boolean; // Every work of the account, so stored ones that are missing were removed
+  pages: number; // Requests it took
+  display_name?: string;
+  avatar_url?: string;
+}
+
+// Quick check if an account has new works
+export interface UpdateCheckResult {
+  hasUpdates: boolean;
+  latestArtStationDate?: string; // Newest upload at the source (named for the first provider)
+  latestDbDate?: string;
+  account?: AccountStatusChange; // Set when the account turned out to be gone, private or renamed
+}
+
+// Options for scraping the followers of one account; the defaults are an update check
+export interface ScrapeArtistUpdateOptions {
+  fullRescan?: boolean;
+  allowInsert?: boolean;
+  markUpdatesAsNew?: boolean;
+  notify?: boolean;
+}
+
+// What one scrape of an account meant for a single follower
+export interface FollowerScrapeResult {
+  user_id: number;
+  artist_id: number;
+  new_artworks: number;
+  updated_artworks: number;
+}
+
+export interface AccountScrapeResult {
+  artist: string;
+  status?: 'completed' | 'skipped';
+  reason?: string;
+  total_found: number;
+  new_artworks: number;
+  updated_artworks?: number;
+  removed_artworks?: number;
+  skipped_reason?: string;
+  followers: FollowerScrapeResult[];
+}
+
+/**
+ * A place artists publish their work. Every followed artist has a source; scrapes, checks and
+ * adding an artist go through its provider (see providers/index.ts).
+ */
+export interface SourceProvider {
+  source: db.ArtistSource;
+  name: string;
+  // The account a URL (or handle) points to. Null when the input isn't for this provider;
+  // throws when it is, but there is nothing to follow there (FEED_NOT_FOUND for feeds).
+  resolveProfile(input: string): Promise<ResolvedProfile | null>;
+  // The account's works: all of them, or up to the first one in options.stopAt.
+  // Null when the account has nothing to list (missing, hidden or unreadable).
+  listWorks(artist: db.Artist, options?: ListWorksOptions): Promise<WorkListing | null>;
+  // Whether the account has something newer than every follower has stored
+  checkForUpdates(followers: db.Artist[]): Promise<UpdateCheckResult>;
+  // Scrape the account once and store the works for every follower passed in (all entries
+  // share the same catalog artist)
+  scrapeFollowers(followers: db.Artist[], options?: ScrapeArtistUpdateOptions): Promise<AccountScrapeResult>;
+  // Everything the account has, for one follower (adding an artist, a full scrape)
+  scrapeArtist(artist: db.Artist): Promise<Omit<AccountScrapeResult, 'followers'> & { followers?: FollowerScrapeResult[] }>;
+}
@@ -0,0 +1,258 @@
+// Storing what a provider listed, shared by every source: new and changed works go to each
+// follower of the account, with their Discord notifications.
+
+import * as db from '../database';
+import { sendDiscordNotification } from '../notifications/discord';
+import { archiveNewArtworks } from '../imageArchive';
+import { recordRemovedArtworks } from '../removedArtworks';
+import { hashScrapedArtworks, repostsToMute } from '../reposts';
+import type {
+  AccountScrapeResult,
+  FollowerScrapeResult,
+  ScrapeArtistUpdateOptions,
+  ScrapedArtwork,
+  SourceProvider
+} from './types';
+
+export interface FollowerState {
+  follower: db.Artist;
+  existingArtworkIds: Set<string>;
+}
+
+// Which artworks each follower already has (to know when to stop, and what is new for whom)
+export async function followerStates(followers: db.Artist[]): Promise<FollowerState[]> {
+  const states: FollowerState[] = [];
+  for (const follower of followers) {
+    const existingArtworks = await db.getAllArtworks(follower.user_id, { artist_id: follower.id });
+    states.push({ follower, existingArtworkIds: new Set(existingArtworks.map(a => a.artwork_id)) });
+  }
+  return states;
+}
+
+// Ids every one of the followers already has; listing can stop at the first of these
+export function idsKnownToAll(states: FollowerState[]): Set<string> {
+  if (states.length === 0) return new Set();
+  return new Set(
+    [...states[0].existingArtworkIds].filter(id => states.every(state => state.existingArtworkIds.has(id)))
+  );
+}
+
+// Newest stored upload of the follower who is furthest behind; undefined when one has nothing yet
+export async function latestStoredDate(followers: db.Artist[]): Promise<string | undefined> {
+  const latestDates: Array<string | undefined> = [];
+  for (const follower of followers) {
+    const dbArtworks = await db.getAllArtworks(follower.user_id, { artist_id: follower.id });
+    const latestDbArtwork = dbArtworks[0]; // Already sorted newest first
+    latestDates.push(latestDbArtwork?.upload_date || latestDbArtwork?.discovered_at);
+  }
+  // A follower without any artworks always needs a scrape
+  return latestDates.some(date => !date)
+    ? undefined
+    : latestDates.reduce((oldest, date) => new Date(date!).getTime() < new Date(oldest!).getTime() ? date : oldest);
+}
+
+export function emptyFollowerResults(followers: db.Artist[]): FollowerScrapeResult[] {
+  return followers.map(f => ({ user_id: f.user_id, artist_id: f.id, new_artworks: 0, updated_artworks: 0 }));
+}
+
+export function skippedRescanResult(artist: db.Artist): AccountScrapeResult {
+  console.log(`  ⏭ Skipping ${artist.username} full rescan - no existing artworks in database`);
+  return {
+    artist: artist.username,
+    total_found: 0,
+    new_artworks: 0,
+    updated_artworks: 0,
+    skipped_reason: 'no_existing_artworks',
+    followers: []
+  };
+}
+
+// Store scraped artworks for one follower and send their notifications
+export async function storeUpdatesForFollower(
+  follower: db.Artist,
+  existingArtworkIds: Set<string>,
+  artworks: ScrapedArtwork[],
+  displayName: string | undefined,
+  options?: ScrapeArtistUpdateOptions
+): Promise<FollowerScrapeResult> {
+  const isInitialImport = existingArtworkIds.size === 0;
+  const allowInsert = options?.allowInsert ?? true;
+  const markUpdatesAsNew = options?.markUpdatesAsNew ?? !isInitialImport;
+  const notify = options?.notify ?? !isInitialImport;
+  const mutedReposts = notify ? await repostsToMute(follower, artworks, existingArtworkIds) : new Set<string>();
+
+  // Store only new artworks and collect notification data
+  let newCount = 0;
+  let updatedCount = 0;
+  const newArtworksForNotification: Array<{
+    title: string;
+    artistName: string;
+    artistDisplayName?: string;
+    artistUrl?: string;
+    artworkUrl: string;
+    thumbnailUrl?: string;
+    uploadDate?: string;
+    changeType?: 'new' | 'updated';
+  }> = [];
+  const newArtworks: db.Artwork[] = [];
+
+  for (const artwork of artworks) {
+    const alreadyExists = existingArtworkIds.has(artwork.artwork_id);
+    const result = await db.addArtwork(
+      follower.user_id,
+      follower.id,
+      artwork.artwork_id,
+      artwork.title,
+      artwork.thumbnail_url,
+      artwork.artwork_url,
+      artwork.upload_date,
+      artwork.updated_at,
+      artwork.high_quality_image_url,
+      {
+        allowInsert: alreadyExists ? true : allowInsert,
+        markUpdatesAsNew: alreadyExists ? markUpdatesAsNew : true
+      }
+    );
+    if (result.skipped) {
+      continue;
+    }
+    if (result.isNew) {
+      newCount++;
+      if (result.artwork) {
+        newArtworks.push(result.artwork);
+      }
+      if (mutedReposts.has(artwork.artwork_id)) {
+        console.log(`    ⧉ Possible repost, not notifying: ${artwork.title}`);
+        continue;
+      }
+      newArtworksForNotification.push({
+        title: artwork.title,
+        artistName: follower.username,
+        artistDisplayName: follower.display_name || displayName,
+        artistUrl: follower.profile_url,
+        artworkUrl: artwork.artwork_url,
+        thumbnailUrl: artwork.thumbnail_url,
+        uploadDate: artwork.upload_date,
+        changeType: 'new'
+      });
+    } else if (result.wasUpdated) {
+      updatedCount++;
+      console.log(`    ↺ Updated artwork detected: ${artwork.title}`);
+      newArtworksForNotification.push({
+        title: artwork.title,
+        artistName: follower.username,
+        artistDisplayName: follower.display_name || displayName,
+        artistUrl: follower.profile_url,
+        artworkUrl: artwork.artwork_url,
+        thumbnailUrl: artwork.thumbnail_url,
+        uploadDate: artwork.upload_date,
+        changeType: 'updated'
+      });
+    }
+  }
+
+  // Send Discord notifications if new artworks were found (only for update checks, not initial imports)
+  if (notify && newArtworksForNotification.length > 0) {
+    try {
+      await sendDiscordNotification(
+        follower.user_id,
+        follower.username,
+        follower.display_name || displayName,
+        newArtworksForNotification
+      );
+    } catch (error: any) {
+      // Don't fail scraping if notification fails
+      console.error(`  ⚠️  Failed to send Discord notification:`, error.message);
+    }
+  } else if (isInitialImport && newCount > 0) {
+    console.log(`  ℹ️  Skipping Discord notifications for @${follower.username} initial import (${newCount} artworks).`);
+  }
+
+  // Keep copies of new images for users with the image archive on (not for initial imports)
+  if (!isInitialImport && newArtworks.length > 0) {
+    await archiveNewArtworks(follower.user_id, newArtworks);
+  }
+
+  return {
+    user_id: follower.user_id,
+    artist_id: follower.id,
+    new_artworks: newCount,
+    updated_artworks: updatedCount
+  };
+}
+
+// Scrape one account through provider.listWorks and store the result for every follower passed
+// in (all entries share the same catalog artist). For providers without special handling
+// of their own; ArtStation pages through its API in scraper-puppeteer.ts instead.
+export async function scrapeListedWorks(
+  provider: SourceProvider,
+  followers: db.Artist[],
+  options?: ScrapeArtistUpdateOptions
+): Promise<AccountScrapeResult> {
+  const artist = followers[0];
+  const fullRescan = options?.fullRescan ?? false;
+  const states = await followerStates(followers);
+
+  // A full rescan only revisits artworks that are already in the database
+  const targets = fullRescan ? states.filter(state => state.existingArtworkIds.size > 0) : states;
+  if (targets.length === 0) {
+    return skippedRescanResult(artist);
+  }
+
+  console.log(`🔍 Scraping updates for ${artist.username}${targets.length > 1 ? ` (${targets.length} followers)` : ''}...`);
+
+  const listing = await provider.listWorks(artist, { stopAt: idsKnownToAll(targets), fullList: fullRescan });
+  // Still checked, even if there was nothing to read this time
+  await db.updateArtist(artist.id, artist.user_id, { last_checked: new Date().toISOString() });
+  if (!listing) {
+    console.log(`  ⚠ Nothing listed for ${artist.username}`);
+    return {
+      artist: artist.username,
+      total_found: 0,
+      new_artworks: 0,
+      updated_artworks: 0,
+      followers: emptyFollowerResults(targets.map(t => t.follower))
+    };
+  }
+
+  // Shared catalog, so one update covers every follower
+  const updates: Partial<db.Artist> = {};
+  if (listing.display_name && listing.display_name !== artist.display_name) {
+    updates.display_name = listing.display_name;
+  }
+  if (listing.avatar_url && listing.avatar_url !== artist.avatar_url) {
+    updates.avatar_url = listing.avatar_url;
+  }
+  if (Object.keys(updates).length > 0) {
+    await db.updateArtist(artist.id, artist.user_id, updates);
+  }
+
+  // Before storing, so reposts are known for the notifications; the hashes are saved once the
+  // artworks are in the catalog
+  const imageHashes = await hashScrapedArtworks(artist, listing.works);
+
+  const followerResults: FollowerScrapeResult[] = [];
+  for (const { follower, existingArtworkIds } of targets) {
+    followerResults.push(await storeUpdatesForFollower(follower, existingArtworkIds, listing.works, listing.display_name, options));
+  }
+
+  await db.saveCatalogImageHashes(artist.catalog_artist_id, imageHashes);
+
+  let removedCount = 0;
+  if (fullRescan && listing.complete) {
+    removedCount = (await recordRemovedArtworks(artist, listing.works.map(a => a.artwork_id))).removed.length;
+  }
+
+  const newCount = followerResults.reduce((sum, r) => sum + r.new_artworks, 0);
+  const updatedCount = followerResults.reduce((sum, r) => sum + r.updated_artworks, 0);
+  console.log(`  ✓ ${newCount} new, ${updatedCount} updated artworks processed (${listing.pages} request(s))`);
+
+  return {
+    artist: artist.username,
+    total_found: listing.works.length,
+    new_artworks: newCount,
+    updated_artworks: updatedCount,
+    removed_artworks: removedCount,
+    followers: followerResults
+  };
+}
@@ -0,0 +1,257 @@
+// Paces every request to ArtStation (plain HTTP and browser alike).
+//
+// Each host gets a token bucket: RATE_LIMIT_BURST requests can go out back to back, after
+// that one request per 60000 / RATE_LIMIT_PER_MINUTE ms. When a host answers with HTTP 429
+// or a Cloudflare challenge, requests to it wait for an exponentially growing backoff.
+// After CIRCUIT_BREAKER_THRESHOLD blocks in a row the circuit breaker opens and all scraping
+// pauses for CIRCUIT_BREAKER_COOLDOWN_MS; the first request after that is a probe that
+// closes the breaker again on success or reopens it on another block.
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+const REQUESTS_PER_MINUTE = Math.max(1, parseInt(process.env.RATE_LIMIT_PER_MINUTE || '60'));
+const BURST = Math.max(1, parseInt(process.env.RATE_LIMIT_BURST || '5'));
+const BACKOFF_BASE_MS = parseInt(process.env.RATE_LIMIT_BACKOFF_BASE_MS || '30000');
+const BACKOFF_MAX_MS = parseInt(process.env.RATE_LIMIT_BACKOFF_MAX_MS || '900000'); // 15 minutes
+const BREAKER_THRESHOLD = Math.max(1, parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5'));
+const BREAKER_COOLDOWN_MS = parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS || '1800000'); // 30 minutes
+
+const MS_PER_TOKEN = 60000 / REQUESTS_PER_MINUTE;
+
+// Thrown by acquire() while the breaker is open; scrape loops stop on it instead of failing every artist
+export const SCRAPING_PAUSED = 'SCRAPING_PAUSED';
+// Thrown by fetchJson when a host keeps answering HTTP 429
+export const RATE_LIMITED = 'RATE_LIMITED';
+
+export type BlockReason = 'rate_limited' | 'challenge';
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+interface HostBucket {
+  tokens: number;
+  refilledAt: number;
+  consecutiveBlocks: number;
+  backoffMs: number;
+  blockedUntil: number;
+  lastBlock?: { reason: BlockReason; at: string };
+}
+
+interface Breaker {
+  state: BreakerState;
+  consecutiveBlocks: number;
+  openedAt?: number;
+  reopensAt?: number;
+  probeStartedAt?: number; // Half-open: when the one request let through went out
+  trips: number;
+}
+
+export interface HostRateLimitStatus {
+  host: string;
+  tokens: number;
+  capacity: number;
+  requests_per_minute: number;
+  backoff_ms: number; // 0 unless the host recently blocked us
+  blocked_until: string | null;
+  consecutive_blocks: number;
+  last_block?: { reason: BlockReason; at: string };
+}
+
+export interface RateLimiterStatus {
+  breaker: {
+    state: BreakerState;
+    consecutive_blocks: number;
+    threshold: number;
+    cooldown_ms: number;
+    opened_at: string | null;
+    reopens_at: string | null;
+    trips: number; // How often the breaker opened since the server started
+  };
+  hosts: HostRateLimitStatus[];
+}
+
+// What the requests made inside traceRequests() came to, for the scrape history
+export interface RequestTrace {
+  pages_fetched: number;
+  last_block?: BlockReason;
+}
+
+const buckets = new Map<string, HostBucket>();
+let breaker: Breaker = { state: 'closed', consecutiveBlocks: 0, trips: 0 };
+const traces = new AsyncLocalStorage<RequestTrace>();
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function hostOf(url: string): string {
+  return new URL(url).host;
+}
+
+function getBucket(host: string): HostBucket {
+  let bucket = buckets.get(host);
+  if (!bucket) {
+    bucket = { tokens: BURST, refilledAt: Date.now(), consecutiveBlocks: 0, backoffMs: 0, blockedUntil: 0 };
+    buckets.set(host, bucket);
+  }
+  return bucket;
+}
+
+function refill(bucket: HostBucket, now: number) {
+  bucket.tokens = Math.min(BURST, bucket.tokens + (now - bucket.refilledAt) / MS_PER_TOKEN);
+  bucket.refilledAt = now;
+}
+
+// These errors mean "stop for now": no point in trying the browser fallbacks
+export function isRateLimitError(error: any): boolean {
+  return error?.message === SCRAPING_PAUSED || error?.message === RATE_LIMITED;
+}
+
+export function isScrapingPaused(): boolean {
+  return breaker.state === 'open' && Date.now() < (breaker.reopensAt || 0);
+}
+
+// Throws while the breaker is open; true when this request is the probe of a half-open breaker.
+// Half-open lets one probe through at a time; a probe that never reports back (e.g. a network
+// error) is given up after the cooldown.
+function checkBreaker(): boolean {
+  if (breaker.state === 'closed') return false;
+  if (isScrapingPaused()) {
+    throw new Error(SCRAPING_PAUSED);
+  }
+  if (breaker.state === 'half_open' && Date.now() - (breaker.probeStartedAt || 0) < BREAKER_COOLDOWN_MS) {
+    throw new Error(SCRAPING_PAUSED);
+  }
+  if (breaker.state === 'open') {
+    breaker.state = 'half_open';
+    console.log('🔌 Circuit breaker half-open, probing ArtStation again');
+  }
+  breaker.probeStartedAt = Date.now();
+  return true;
+}
+
+// Wait until a request to this URL's host may go out
+export async function acquire(url: string): Promise<void> {
+  const bucket = getBucket(hostOf(url));
+  let probe = false;
+
+  for (;;) {
+    if (!probe) {
+      probe = checkBreaker();
+    }
+
+    const now = Date.now();
+    refill(bucket, now);
+    const wait = Math.max(
+      bucket.blockedUntil - now,
+      bucket.tokens >= 1 ? 0 : Math.ceil((1 - bucket.tokens) * MS_PER_TOKEN)
+    );
+    if (wait <= 0) {
+      bucket.tokens -= 1;
+      return;
+    }
+    await delay(wait);
+  }
+}
+
+// Count the requests fn makes (across its awaits) into trace; filled in even if fn throws
+export function traceRequests<T>(trace: RequestTrace, fn: () => Promise<T>): Promise<T> {
+  return traces.run(trace, fn);
+}
+
+export function recordSuccess(url: string) {
+  const trace = traces.getStore();
+  if (trace) trace.pages_fetched++;
+
+  const bucket = getBucket(hostOf(url));
+  bucket.consecutiveBlocks = 0;
+  bucket.backoffMs = 0;
+
+  breaker.consecutiveBlocks = 0;
+  if (breaker.state === 'half_open') {
+    breaker = { state: 'closed', consecutiveBlocks: 0, trips: breaker.trips };
+    console.log('🔌 Circuit breaker closed, scraping resumes');
+  }
+}
+
+// The host answered, but not with what was asked for (e.g. 404 or 5xx): neither a success nor a block.
+// Ends a half-open probe without closing the breaker, so the next request probes again.
+export function recordFailure() {
+  const trace = traces.getStore();
+  if (trace) trace.pages_fetched++;
+
+  breaker.probeStartedAt = undefined;
+}
+
+// HTTP 429 or a Cloudflare challenge; retryAfterMs comes from a Retry-After header if there was one
+export function recordBlock(url: string, reason: BlockReason, retryAfterMs?: number) {
+  const host = hostOf(url);
+  const bucket = getBucket(host);
+  const now = Date.now();
+
+  const trace = traces.getStore();
+  if (trace) trace.last_block = reason;
+
+  bucket.consecutiveBlocks++;
+  bucket.backoffMs = Math.max(
+    Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (bucket.consecutiveBlocks - 1)),
+    retryAfterMs || 0
+  );
+  bucket.blockedUntil = now + bucket.backoffMs;
+  bucket.tokens = 0;
+  bucket.lastBlock = { reason, at: new Date(now).toISOString() };
+  console.warn(`  ⏸ ${host} blocked the request (${reason}), backing off ${Math.round(bucket.backoffMs / 1000)}s`);
+
+  breaker.consecutiveBlocks++;
+  if (breaker.state === 'half_open' || breaker.consecutiveBlocks >= BREAKER_THRESHOLD) {
+    breaker.state = 'open';
+    breaker.openedAt = now;
+    breaker.reopensAt = now + BREAKER_COOLDOWN_MS;
+    breaker.probeStartedAt = undefined;
+    breaker.trips++;
+    console.warn(`🔌 Circuit breaker open after ${breaker.consecutiveBlocks} blocks, pausing scraping for ${Math.round(BREAKER_COOLDOWN_MS / 60000)} min`);
+  }
+}
+
+// Retry-After is either seconds or an HTTP date
+export function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function getRateLimiterStatus(): RateLimiterStatus {
+  const now = Date.now();
+  const toIso = (ms?: number) => (ms ? new Date(ms).toISOString() : null);
+
+  return {
+    breaker: {
+      state: breaker.state === 'open' && !isScrapingPaused() ? 'half_open' : breaker.state,
+      consecutive_blocks: breaker.consecutiveBlocks,
+      threshold: BREAKER_THRESHOLD,
+      cooldown_ms: BREAKER_COOLDOWN_MS,
+      opened_at: toIso(breaker.openedAt),
+      reopens_at: breaker.state === 'open' ? toIso(breaker.reopensAt) : null,
+      trips: breaker.trips
+    },
+    hosts: [...buckets.entries()].map(([host, bucket]) => {
+      refill(bucket, now);
+      return {
+        host,
+        tokens: Math.round(bucket.tokens * 100) / 100,
+        capacity: BURST,
+        requests_per_minute: REQUESTS_PER_MINUTE,
+        backoff_ms: bucket.blockedUntil > now ? bucket.backoffMs : 0,
+        blocked_until: bucket.blockedUntil > now ? toIso(bucket.blockedUntil) : null,
+        consecutive_blocks: bucket.consecutiveBlocks,
+        last_block: bucket.lastBlock
+      };
+    })
+  };
+}
+
+// Forget all host state and close the breaker (used by tests)
+export function resetRateLimiter() {
+  buckets.clear();
+  breaker = { state: 'closed', consecutiveBlocks: 0, trips: 0 };
+}
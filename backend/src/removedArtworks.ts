@@ -0,0 +1,36 @@
+// Artworks the artist took down from ArtStation.
+//
+// Incremental checks stop at the first known artwork, so only a full rescan that got every
+// page of an account's projects can tell what is missing. Stored artworks that aren't listed
+// any more are marked removed in the shared catalog; their records and thumbnails stay, but
+// the feed only keeps showing them to users who favorited them. Artworks that are listed
+// again (the artist unhid them) are unmarked.
+
+import * as db from './database';
+import { sendDiscordRemovedArtworksNotification } from './notifications/discord';
+
+// listedArtworkIds: the account's complete project list from a full rescan
+export async function recordRemovedArtworks(artist: db.Artist, listedArtworkIds: string[]): Promise<db.RemovedArtworksSync> {
+  if (listedArtworkIds.length === 0) {
+    // An empty profile is handled as a missing account (accountStatus.ts), never as removals
+    return { removed: [], restored: [] };
+  }
+
+  const sync = await db.syncRemovedArtworks(artist.catalog_artist_id, listedArtworkIds);
+  if (sync.restored.length > 0) {
+    console.log(`  ↩ ${sync.restored.length} removed artwork(s) of @${artist.username} are listed again`);
+  }
+  if (sync.removed.length === 0) {
+    return sync;
+  }
+
+  console.log(`  🗑️ @${artist.username} removed ${sync.removed.length} artwork(s) from ArtStation`);
+  const removed = new Set(sync.removed);
+  const followers = await db.getFollowersOfCatalogArtist(artist.catalog_artist_id);
+  for (const follower of followers) {
+    const artworks = (await db.getAllArtworks(follower.user_id, { artist_id: follower.id }))
+      .filter(artwork => removed.has(artwork.artwork_id));
+    await sendDiscordRemovedArtworksNotification(follower.user_id, follower, artworks);
+  }
+  return sync;
+}
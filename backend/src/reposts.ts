@@ -0,0 +1,139 @@
+// Likely reposts: the same picture uploaded again by an artist, or cross-posted by another one.
+//
+// Scrapes give every thumbnail a perceptual hash (utils/imageHash.ts), stored with the catalog
+// artwork. Two of a user's artworks whose hashes are at most REPOST_HASH_DISTANCE bits apart
+// are taken for the same picture, and the later one is a possible repost of the earliest.
+// Nothing is hidden: the feed groups reposts with their original, and users who ask for it get
+// no Discord notification for them.
+
+import * as db from './database';
+import { fetchBinary } from './fetcher';
+import type { ScrapedArtwork } from './providers/types';
+import { isRateLimitError } from './rateLimiter';
+import { hammingDistance, perceptualHash } from './utils/imageHash';
+
+// Bits (of 64) two hashes may differ in and still be the same picture
+export const REPOST_HASH_DISTANCE = parseInt(process.env.REPOST_HASH_DISTANCE || '6');
+// Thumbnails hashed per account and scrape (0 disables); the rest waits for the next scrape
+// that lists them, at the latest the weekly full rescan
+const IMAGE_HASHES_PER_RUN = parseInt(process.env.IMAGE_HASHES_PER_RUN || '25');
+const MAX_THUMBNAIL_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Set image_hash on scraped artworks: stored hashes are reused, thumbnails that are new or
+ * changed since are downloaded and hashed (up to limit). Returns the new hashes, to be stored
+ * with db.saveCatalogImageHashes once the artworks are in the catalog.
+ */
+export async function hashScrapedArtworks(
+  artist: db.Artist,
+  artworks: ScrapedArtwork[],
+  limit: number = IMAGE_HASHES_PER_RUN
+): Promise<Map<string, db.CatalogImageHash>> {
+  const computed = new Map<string, db.CatalogImageHash>();
+  if (artworks.length === 0) {
+    return computed;
+  }
+
+  const stored = await db.getCatalogImageHashes(artist.catalog_artist_id);
+  const pending: ScrapedArtwork[] = [];
+  for (const artwork of artworks) {
+    const hash = stored.get(artwork.artwork_id);
+    if (hash && hash.image_hash_url === artwork.thumbnail_url) {
+      artwork.image_hash = hash.image_hash;
+    } else if (artwork.thumbnail_url) {
+      pending.push(artwork);
+    }
+  }
+
+  for (const artwork of pending.slice(0, Math.max(0, limit))) {
+    try {
+      const file = await fetchBinary(artwork.thumbnail_url, MAX_THUMBNAIL_BYTES);
+      const hash = file ? perceptualHash(file.data) : null;
+      if (hash) {
+        artwork.image_hash = hash;
+        computed.set(artwork.artwork_id, { image_hash: hash, image_hash_url: artwork.thumbnail_url });
+      }
+    } catch (error: any) {
+      // Hashes are optional, the artworks are stored either way
+      console.error(`     ⚠ Failed to hash the thumbnail of ${artwork.artwork_id}:`, error.message);
+      if (isRateLimitError(error)) {
+        break;
+      }
+    }
+  }
+
+  if (computed.size > 0) {
+    console.log(`  → Hashed ${computed.size} thumbnail(s)`);
+  }
+  return computed;
+}
+
+function isSamePicture(a: string, b: string): boolean {
+  return hammingDistance(a, b) <= REPOST_HASH_DISTANCE;
+}
+
+/**
+ * artwork_ids of scraped artworks the follower doesn't have yet that look like one they have,
+ * or like an older one found in the same scrape. Empty unless they muted repost notifications.
+ */
+export async function repostsToMute(
+  follower: db.Artist,
+  artworks: ScrapedArtwork[],
+  existingArtworkIds: Set<string>
+): Promise<Set<string>> {
+  const muted = new Set<string>();
+  // Newest first, like the scrapes list them
+  const fresh = artworks.filter(artwork => artwork.image_hash && !existingArtworkIds.has(artwork.artwork_id));
+  if (fresh.length === 0) {
+    return muted;
+  }
+  const user = await db.getUserById(follower.user_id);
+  if (!user?.mute_repost_notifications) {
+    return muted;
+  }
+
+  const known = (await db.getUserImageHashes(user.id)).map(artwork => artwork.image_hash);
+  fresh.forEach((artwork, index) => {
+    const earlier = [...known, ...fresh.slice(index + 1).map(older => older.image_hash!)];
+    if (earlier.some(hash => isSamePicture(hash, artwork.image_hash!))) {
+      muted.add(artwork.artwork_id);
+    }
+  });
+  return muted;
+}
+
+// Upload date, or when it was found for artworks without one; the artwork id breaks ties
+function postedBefore(a: db.ArtworkImageHash, b: db.ArtworkImageHash): boolean {
+  const dateA = new Date(a.upload_date || a.discovered_at).getTime();
+  const dateB = new Date(b.upload_date || b.discovered_at).getTime();
+  return dateA !== dateB ? dateA < dateB : a.id < b.id;
+}
+
+/**
+ * repost_of on every artwork that looks like an earlier one of the user's (within one artist
+ * or across artists): the id of the earliest of them, so copies of a picture share it.
+ */
+export async function annotateReposts<T extends { id: number }>(
+  userId: number,
+  artworks: T[]
+): Promise<Array<T & { repost_of?: number }>> {
+  if (artworks.length === 0) {
+    return artworks;
+  }
+  const hashed = await db.getUserImageHashes(userId);
+  const byId = new Map(hashed.map(artwork => [artwork.id, artwork]));
+
+  return artworks.map(artwork => {
+    const own = byId.get(artwork.id);
+    if (!own) {
+      return artwork;
+    }
+    let original: db.ArtworkImageHash | undefined;
+    for (const other of hashed) {
+      if (postedBefore(other, own) && (!original || postedBefore(other, original)) && isSamePicture(other.image_hash, own.image_hash)) {
+        original = other;
+      }
+    }
+    return original ? { ...artwork, repost_of: original.id } : artwork;
+  });
+}
@@ -1,6 +1,8 @@
 import express from 'express';
 import * as db from '../database';
 import { requireAuth } from '../middleware/auth';
+import { MAX_PINNED_INTERVAL_HOURS, scheduleNextCheck } from '../checkSchedule';
+import { followResolvedProfile, resolveArtistInput } from '../providers';
 
 const router = express.Router();
 
@@ -21,6 +23,20 @@ router.get('/', async (req, res) => {
   }
 });
 
+// Get unfollowed artists that can still be restored (most recently deleted first)
+router.get('/trash', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const artists = await db.getTrashedArtists(req.user.id);
+    res.json({ retention_days: db.ARTIST_TRASH_RETENTION_DAYS, artists });
+  } catch (error) {
+    console.error('Error fetching trashed artists:', error);
+    res.status(500).json({ error: 'Failed to fetch trashed artists' });
+  }
+});
+
 // Get single artist
 router.get('/:id', async (req, res) => {
   try {
@@ -38,42 +54,148 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-// Add new artist
-router.post('/', async (req, res) => {
+// Failures since the last successful check (paused attempts don't count either way)
+function countConsecutiveFailures(history: db.ScrapeHistoryEntry[]): number {
+  let failures = 0;
+  for (const entry of history) {
+    if (entry.status === 'completed' || entry.status === 'skipped') break;
+    if (entry.status === 'failed') failures++;
+  }
+  return failures;
+}
+
+// Outcome of every scrape attempt at this artist, newest first, from the user's own and scheduled runs
+router.get('/:id/scrape-history', async (req, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
     }
-    const { username } = req.body;
-    
-    if (!username) {
-      return res.status(400).json({ error: 'Username is required' });
+    const artist = await db.getArtistById(parseInt(req.params.id), req.user.id);
+    if (!artist) {
+      return res.status(404).json({ error: 'Artist not found' });
     }
+    const limit = Math.min(200, Math.max(1, parseInt(req.query.limit as string) || 50));
+    const history = await db.getArtistScrapeHistory(artist.catalog_artist_id, req.user.id, limit);
+    const lastSuccess = history.find(entry => entry.status === 'completed' || entry.status === 'skipped');
+
+    res.json({
+      artist_id: artist.id,
+      username: artist.username,
+      last_checked: artist.last_checked,
+      last_success_at: lastSuccess?.created_at ?? null,
+      consecutive_failures: countConsecutiveFailures(history),
+      history
+    });
+  } catch (error) {
+    console.error('Error fetching scrape history:', error);
+    res.status(500).json({ error: 'Failed to fetch scrape history' });
+  }
+});
 
-    // Extract username from URL if full URL provided
-    let cleanUsername = username;
-    if (username.includes('artstation.com')) {
-      const match = username.match(/artstation\.com\/([^\/\?]+)/);
-      if (match) {
-        cleanUsername = match[1];
-      }
+// Profile details from the artist's last check, with daily follower counts (oldest first, ?days=1-730)
+router.get('/:id/profile', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const artist = await db.getArtistById(parseInt(req.params.id), req.user.id);
+    if (!artist) {
+      return res.status(404).json({ error: 'Artist not found' });
     }
+    const days = Math.min(730, Math.max(1, parseInt(req.query.days as string) || 365));
 
-    const profile_url = `https://www.artstation.com/${cleanUsername}`;
+    res.json({
+      artist,
+      profile: await db.getArtistProfile(artist.catalog_artist_id),
+      follower_history: await db.getFollowerCountHistory(artist.catalog_artist_id, days)
+    });
+  } catch (error) {
+    console.error('Error fetching artist profile:', error);
+    res.status(500).json({ error: 'Failed to fetch artist profile' });
+  }
+});
 
-    const newArtist = await db.addArtist(req.user.id, cleanUsername, profile_url);
+// Add new artist from a profile/feed URL or an ArtStation handle
+router.post('/', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    // Any supported URL (an ArtStation profile, a feed or a page linking to one), or an ArtStation handle
+    const input = req.body.url || req.body.username;
+    if (!input || typeof input !== 'string') {
+      return res.status(400).json({ error: 'Username or URL is required' });
+    }
+
+    const profile = await resolveArtistInput(input);
+    if (!profile) {
+      return res.status(400).json({ error: 'Not an ArtStation profile or a feed URL' });
+    }
+
+    const newArtist = await followResolvedProfile(req.user.id, profile);
     
     res.status(201).json(newArtist);
   } catch (error: any) {
     if (error.message === 'ARTIST_EXISTS') {
       return res.status(409).json({ error: 'Artist already exists' });
     }
+    if (error.message === 'FEED_NOT_FOUND') {
+      return res.status(400).json({ error: 'No RSS or Atom feed found at that URL' });
+    }
     console.error('Error adding artist:', error);
     res.status(500).json({ error: 'Failed to add artist' });
   }
 });
 
-// Delete artist
+// Pin how often the artist is checked ({ hours: 1-720 }), or { hours: null } for the adaptive schedule
+router.patch('/:id/check-interval', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const { hours } = req.body;
+    if (hours !== null && (!Number.isInteger(hours) || hours < 1 || hours > MAX_PINNED_INTERVAL_HOURS)) {
+      return res.status(400).json({ error: `hours must be a whole number from 1 to ${MAX_PINNED_INTERVAL_HOURS}, or null` });
+    }
+
+    const artistId = parseInt(req.params.id);
+    const updated = await db.setArtistCheckInterval(artistId, req.user.id, hours);
+    if (!updated) {
+      return res.status(404).json({ error: 'Artist not found' });
+    }
+
+    const artist = (await db.getArtistById(artistId, req.user.id))!;
+    await scheduleNextCheck(artist.catalog_artist_id);
+    res.json(await db.getArtistById(artistId, req.user.id));
+  } catch (error) {
+    console.error('Error updating check interval:', error);
+    res.status(500).json({ error: 'Failed to update check interval' });
+  }
+});
+
+// Restore an artist from the trash, with all artworks and their seen/favorite state
+router.post('/:id/restore', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const artist = await db.restoreArtist(parseInt(req.params.id), req.user.id);
+
+    if (!artist) {
+      return res.status(404).json({ error: 'Artist not found in trash' });
+    }
+
+    res.json(artist);
+  } catch (error: any) {
+    if (error.message === 'ARTIST_EXISTS') {
+      return res.status(409).json({ error: 'Artist is already followed' });
+    }
+    console.error('Error restoring artist:', error);
+    res.status(500).json({ error: 'Failed to restore artist' });
+  }
+});
+
+// Delete artist (moves it to the trash)
 router.delete('/:id', async (req, res) => {
   try {
     if (!req.user) {
@@ -85,7 +207,7 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Artist not found' });
     }
     
-    res.json({ message: 'Artist deleted successfully' });
+    res.json({ message: 'Artist moved to trash' });
   } catch (error) {
     console.error('Error deleting artist:', error);
     res.status(500).json({ error: 'Failed to delete artist' });
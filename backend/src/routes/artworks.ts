@@ -1,66 +1,113 @@
 import express from 'express';
 import * as db from '../database';
+import { archiveArtworkImages, getArchivedImageFile, isArchiveEnabled } from '../imageArchive';
 import { requireAuth } from '../middleware/auth';
+import { isRateLimitError } from '../rateLimiter';
+import { annotateReposts } from '../reposts';
 
 const router = express.Router();
 
 // All routes require authentication
 router.use(requireAuth);
 
-// Get all artworks (optionally filtered by artist)
+const SORT_KEYS: db.ArtworkSort[] = ['upload_date', 'discovered_at', 'last_updated_at', 'artist'];
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+// Get artworks one page at a time (optionally filtered by artist)
+// Query: limit, cursor (next_cursor of the previous page), sort, order, from, to,
+// artist_id, new_only, favorites_only, latest_per_artist
 router.get('/', async (req, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
     }
-    const { artist_id, new_only, favorites_only, latest_per_artist } = req.query;
-    
-    const filters: { artist_id?: number; new_only?: boolean; favorites_only?: boolean } = {};
-    
-    if (artist_id) {
-      filters.artist_id = parseInt(artist_id as string);
+    const { artist_id, new_only, favorites_only, latest_per_artist, sort, order, from, to, cursor, limit } = req.query;
+
+    const sortKey = (sort as db.ArtworkSort | undefined) || 'upload_date';
+    if (!SORT_KEYS.includes(sortKey)) {
+      return res.status(400).json({ error: `sort must be one of: ${SORT_KEYS.join(', ')}` });
     }
-    
-    if (new_only === 'true') {
-      filters.new_only = true;
+    if (order !== undefined && order !== 'asc' && order !== 'desc') {
+      return res.status(400).json({ error: 'order must be asc or desc' });
     }
-    
-    if (favorites_only === 'true') {
-      filters.favorites_only = true;
+    for (const [name, value] of [['from', from], ['to', to]] as const) {
+      if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+        return res.status(400).json({ error: `${name} must be a date` });
+      }
     }
-    
-    let artworks = await db.getArtworksWithArtistInfo(req.user.id, filters);
-    
-    // If latest_per_artist is true, return only the most recent artwork per artist
-    if (latest_per_artist === 'true' && !artist_id) {
-      const latestByArtist = new Map<number, any>();
-      
-      artworks.forEach(artwork => {
-        const existing = latestByArtist.get(artwork.artist_id);
-        const artworkDate = new Date(artwork.upload_date || artwork.discovered_at);
-        const existingDate = existing ? new Date(existing.upload_date || existing.discovered_at) : null;
-        
-        if (!existing || (existingDate && artworkDate > existingDate)) {
-          latestByArtist.set(artwork.artist_id, artwork);
-        }
-      });
-      
-      // Sort by upload_date (newest first)
-      artworks = Array.from(latestByArtist.values())
-        .sort((a, b) => {
-          const dateA = new Date(a.upload_date || a.discovered_at).getTime();
-          const dateB = new Date(b.upload_date || b.discovered_at).getTime();
-          return dateB - dateA; // Newest first
-        });
+
+    const pageSize = limit ? parseInt(limit as string) : DEFAULT_PAGE_SIZE;
+    if (isNaN(pageSize) || pageSize < 1) {
+      return res.status(400).json({ error: 'limit must be a positive number' });
     }
-    
-    res.json(artworks);
+
+    let after: db.ArtworkCursor | undefined;
+    if (cursor) {
+      after = db.decodeArtworkCursor(cursor as string, sortKey) || undefined;
+      if (!after) {
+        return res.status(400).json({ error: 'Invalid cursor' });
+      }
+    }
+
+    const page = await db.getArtworksPage(req.user.id, {
+      artist_id: artist_id ? parseInt(artist_id as string) : undefined,
+      new_only: new_only === 'true',
+      favorites_only: favorites_only === 'true',
+      // Only the most recent artwork per artist (ignored when viewing a single artist)
+      latest_per_artist: latest_per_artist === 'true' && !artist_id,
+      sort: sortKey,
+      // Dates default to newest first, artist names to A-Z
+      order: (order as 'asc' | 'desc' | undefined) || (sortKey === 'artist' ? 'asc' : 'desc'),
+      from: from as string | undefined,
+      to: to as string | undefined,
+      limit: Math.min(pageSize, MAX_PAGE_SIZE),
+      after
+    });
+
+    // repost_of marks likely reposts, so the feed can group them with their original
+    res.json({ ...page, artworks: await annotateReposts(req.user.id, page.artworks) });
   } catch (error) {
     console.error('Error fetching artworks:', error);
     res.status(500).json({ error: 'Failed to fetch artworks' });
   }
 });
 
+// Search artwork titles and artist names, best matches first
+// Query: q, limit, artist_id, new_only, favorites_only
+router.get('/search', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const { q, artist_id, new_only, favorites_only, limit } = req.query;
+
+    if (typeof q !== 'string' || !q.trim()) {
+      return res.status(400).json({ error: 'Search query (q) is required' });
+    }
+
+    const pageSize = limit ? parseInt(limit as string) : DEFAULT_SEARCH_LIMIT;
+    if (isNaN(pageSize) || pageSize < 1) {
+      return res.status(400).json({ error: 'limit must be a positive number' });
+    }
+
+    const results = await db.searchArtworks(req.user.id, {
+      q: q.trim(),
+      artist_id: artist_id ? parseInt(artist_id as string) : undefined,
+      new_only: new_only === 'true',
+      favorites_only: favorites_only === 'true',
+      limit: Math.min(pageSize, MAX_SEARCH_LIMIT)
+    });
+
+    res.json({ query: q.trim(), results: await annotateReposts(req.user.id, results) });
+  } catch (error) {
+    console.error('Error searching artworks:', error);
+    res.status(500).json({ error: 'Failed to search artworks' });
+  }
+});
+
 // Mark artwork as seen
 router.patch('/:id/mark-seen', async (req, res) => {
   try {
@@ -111,6 +158,107 @@ router.get('/new-count', async (req, res) => {
   }
 });
 
+// Get previous versions of an edited artwork (newest first)
+router.get('/:id/history', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const history = await db.getArtworkHistory(parseInt(req.params.id), req.user.id);
+
+    if (!history) {
+      return res.status(404).json({ error: 'Artwork not found' });
+    }
+
+    res.json(history);
+  } catch (error) {
+    console.error('Error fetching artwork history:', error);
+    res.status(500).json({ error: 'Failed to fetch artwork history' });
+  }
+});
+
+// Images of an artwork kept in the user's image archive (position 0 is the cover)
+router.get('/:id/archive', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const images = await db.getArchivedImages(req.user.id, parseInt(req.params.id));
+    res.json(images);
+  } catch (error) {
+    console.error('Error fetching archived images:', error);
+    res.status(500).json({ error: 'Failed to fetch archived images' });
+  }
+});
+
+// The archived copy of one image, for when the original URL is gone
+router.get('/:id/archive/:position', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const file = await getArchivedImageFile(req.user.id, parseInt(req.params.id), parseInt(req.params.position));
+
+    if (!file) {
+      return res.status(404).json({ error: 'Image not archived' });
+    }
+
+    res.type(file.content_type);
+    // Never rendered as a document, whatever the file turns out to be
+    res.set('X-Content-Type-Options', 'nosniff');
+    res.set('Content-Security-Policy', "default-src 'none'");
+    // Content-addressed, so a stored file never changes
+    res.set('Cache-Control', 'private, max-age=31536000, immutable');
+    res.sendFile(file.path);
+  } catch (error) {
+    console.error('Error serving archived image:', error);
+    res.status(500).json({ error: 'Failed to serve archived image' });
+  }
+});
+
+// Archive an artwork's images now instead of waiting for the next archive run
+router.post('/:id/archive', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    if (!isArchiveEnabled(req.user)) {
+      return res.status(400).json({ error: 'The image archive is turned off' });
+    }
+    const result = await archiveArtworkImages(req.user.id, parseInt(req.params.id));
+
+    if (!result) {
+      return res.status(404).json({ error: 'Artwork not found' });
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error archiving artwork images:', error);
+    res.status(isRateLimitError(error) ? 503 : 500).json({ error: error.message || 'Failed to archive artwork images' });
+  }
+});
+
+// Get one artwork with its project details (all assets, description, tags, ...)
+// details is null until the project page has been scraped
+router.get('/:id', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const artwork = await db.getArtworkWithDetails(parseInt(req.params.id), req.user.id);
+
+    if (!artwork) {
+      return res.status(404).json({ error: 'Artwork not found' });
+    }
+
+    const [annotated] = await annotateReposts(req.user.id, [artwork]);
+    res.json(annotated);
+  } catch (error) {
+    console.error('Error fetching artwork:', error);
+    res.status(500).json({ error: 'Failed to fetch artwork' });
+  }
+});
+
 // Toggle favorite status
 router.patch('/:id/toggle-favorite', async (req, res) => {
   try {
@@ -122,7 +270,14 @@ router.patch('/:id/toggle-favorite', async (req, res) => {
     if (!success) {
       return res.status(404).json({ error: 'Artwork not found' });
     }
-    
+
+    // New favorites go into the image archive right away; the response doesn't wait for it
+    const userId = req.user.id;
+    const artworkId = parseInt(req.params.id);
+    db.getArtworkWithDetails(artworkId, userId)
+      .then(artwork => (artwork?.is_favorite ? archiveArtworkImages(userId, artworkId) : null))
+      .catch(error => console.error('Error archiving favorite:', error.message));
+
     res.json({ message: 'Favorite status toggled' });
   } catch (error) {
     console.error('Error toggling favorite:', error);
@@ -1,5 +1,6 @@
 import express from 'express';
-import { runSyncAllUsers, runCheckAllUsersArtworks } from '../scheduler';
+import { runSyncAllUsers, runCheckAllUsersArtworks, runTrashPurge, runImageArchiveNow } from '../scheduler';
+import { toJobStatusResponse } from '../jobQueue';
 
 const router = express.Router();
 
@@ -32,7 +33,7 @@ router.use(authenticateCron);
 
 /**
  * POST /api/cron/sync
- * Manually trigger sync for all users (useful for external cron services)
+ * Queue a sync for all users (useful for external cron services); answers 202 with the job
  * 
  * Query params or header:
  * - api_key: API key (if CRON_API_KEY is set)
@@ -44,17 +45,13 @@ router.use(authenticateCron);
 router.post('/sync', async (req, res) => {
   try {
     console.log('📥 [Cron API] Manual sync trigger received');
-    const results = await runSyncAllUsers();
-    
-    res.json({
+    const job = await runSyncAllUsers();
+
+    res.status(202).json({
       success: true,
       timestamp: new Date().toISOString(),
-      results: results,
-      summary: {
-        total: results.length,
-        successful: results.filter(r => r.success).length,
-        failed: results.filter(r => !r.success).length
-      }
+      job_id: job ? job.id : null,
+      job: job ? toJobStatusResponse(job) : null
     });
   } catch (error: any) {
     console.error('Error in cron sync:', error);
@@ -67,7 +64,8 @@ router.post('/sync', async (req, res) => {
 
 /**
  * POST /api/cron/check-artworks
- * Manually trigger artwork check for all users (useful for external cron services)
+ * Queue an artwork check for all users (useful for external cron services); answers 202 with the job,
+ * or 200 with a null job when no account is due
  * 
  * Query params or header:
  * - api_key: API key (if CRON_API_KEY is set)
@@ -79,17 +77,14 @@ router.post('/sync', async (req, res) => {
 router.post('/check-artworks', async (req, res) => {
   try {
     console.log('📥 [Cron API] Manual artwork check trigger received');
-    const results = await runCheckAllUsersArtworks();
-    
-    res.json({
+    const job = await runCheckAllUsersArtworks();
+
+    // No job (and job_id null) when no account is due
+    res.status(job ? 202 : 200).json({
       success: true,
       timestamp: new Date().toISOString(),
-      results: results,
-      summary: {
-        total: results.length,
-        successful: results.filter(r => r.success).length,
-        failed: results.filter(r => !r.success).length
-      }
+      job_id: job ? job.id : null,
+      job: job ? toJobStatusResponse(job) : null
     });
   } catch (error: any) {
     console.error('Error in cron artwork check:', error);
@@ -100,6 +95,66 @@ router.post('/check-artworks', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/cron/purge-trash
+ * Permanently remove artists that have been in the trash longer than ARTIST_TRASH_RETENTION_DAYS
+ *
+ * Query params or header:
+ * - api_key: API key (if CRON_API_KEY is set)
+ *
+ * Example:
+ *   curl -X POST https://your-api.com/api/cron/purge-trash -H "X-API-Key: your-key"
+ */
+router.post('/purge-trash', async (req, res) => {
+  try {
+    console.log('📥 [Cron API] Manual trash purge trigger received');
+    const purged = await runTrashPurge();
+
+    res.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      purged_artists: purged
+    });
+  } catch (error: any) {
+    console.error('Error in cron trash purge:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to purge trash'
+    });
+  }
+});
+
+/**
+ * POST /api/cron/image-archive
+ * Archive favorites and missing assets for users with the image archive on, then delete
+ * archived files nobody references any more
+ *
+ * Example:
+ *   curl -X POST https://your-api.com/api/cron/image-archive -H "X-API-Key: your-key"
+ */
+router.post('/image-archive', async (req, res) => {
+  try {
+    console.log('📥 [Cron API] Manual image archive trigger received');
+    const summary = await runImageArchiveNow();
+
+    if (!summary) {
+      return res.status(409).json({ success: false, error: 'Image archive already running' });
+    }
+
+    res.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...summary
+    });
+  } catch (error: any) {
+    console.error('Error in cron image archive:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to run image archive'
+    });
+  }
+});
+
 /**
  * GET /api/cron/health
  * Health check for cron endpoints
@@ -1,14 +1,16 @@
 import express from 'express';
-import { importFollowingFromUser } from '../scraper-import-following';
+import { enqueueJob, toJobStatusResponse } from '../jobQueue';
 import { requireAuth } from '../middleware/auth';
 import * as db from '../database';
+import { importListJobResult, ImportListFormat, MAX_IMPORT_LIST_ENTRIES, previewImportList } from '../importList';
 
 const router = express.Router();
 
 // All routes require authentication
 router.use(requireAuth);
 
-// Import followed artists from an ArtStation user (replaces existing artists)
+// Import followed artists from an ArtStation user (replaces existing artists).
+// Answers 202 with the queued job; poll GET /api/jobs/:id for the import results.
 router.post('/following', async (req, res) => {
   try {
     if (!req.user) {
@@ -43,13 +45,71 @@ router.post('/following', async (req, res) => {
       await db.updateUser(req.user.id, { artstation_username: cleanUsername });
     }
 
-    const results = await importFollowingFromUser(req.user.id, cleanUsername, clearExisting === true, skipArtworkScraping === true);
-    res.json(results);
+    const job = await enqueueJob('import_following', req.user.id, {
+      username: cleanUsername,
+      clear_existing: clearExisting === true,
+      skip_artwork_scraping: skipArtworkScraping === true
+    });
+    res.status(202).json({ job_id: job.id, job: toJobStatusResponse(job) });
   } catch (error: any) {
     console.error('Error importing following:', error);
     res.status(500).json({ error: error.message || 'Failed to import following list' });
   }
 });
 
+const LIST_FORMATS: ImportListFormat[] = ['csv', 'opml', 'text'];
+
+// Follow artists from a CSV, OPML or plain-text list of usernames and URLs. With dryRun the
+// list is only normalized and checked against the artists already followed (for a preview).
+// Otherwise answers 202 with the queued job; GET /list/:jobId has the results per entry.
+router.post('/list', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { content, format, dryRun } = req.body;
+    if (typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({ error: 'A list of usernames or URLs is required' });
+    }
+    if (format !== undefined && !LIST_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Format must be one of: ${LIST_FORMATS.join(', ')}` });
+    }
+
+    const preview = await previewImportList(req.user.id, content, format);
+    if (dryRun === true) {
+      return res.json(preview);
+    }
+    const job = await enqueueJob('import_list', req.user.id, { format: preview.format, entries: preview.entries });
+    res.status(202).json({ job_id: job.id, job: toJobStatusResponse(job) });
+  } catch (error: any) {
+    if (error.message === 'INVALID_OPML') {
+      return res.status(400).json({ error: 'Not an OPML file' });
+    }
+    if (error.message === 'TOO_MANY_ENTRIES') {
+      return res.status(400).json({ error: `Lists are limited to ${MAX_IMPORT_LIST_ENTRIES} entries, split it into smaller ones` });
+    }
+    console.error('Error importing list:', error);
+    res.status(500).json({ error: error.message || 'Failed to import list' });
+  }
+});
+
+// Entries of a list import so far: added, already followed, not found or failed
+router.get('/list/:jobId', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const job = await db.getScrapeJob(parseInt(req.params.jobId));
+    if (!job || job.user_id !== req.user.id || job.type !== 'import_list') {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json({ ...importListJobResult(job), job: toJobStatusResponse(job) });
+  } catch (error: any) {
+    console.error('Error fetching list import:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch list import' });
+  }
+});
+
 export default router;
 
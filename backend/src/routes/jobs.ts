@@ -0,0 +1,61 @@
+import express from 'express';
+import * as db from '../database';
+import { requireAuth } from '../middleware/auth';
+import { retryDeadItems, toJobStatusResponse } from '../jobQueue';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+// The current user's most recent scrape and import jobs
+router.get('/', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+    const jobs = await db.getScrapeJobs({ user_id: req.user.id, limit });
+    res.json({ jobs: jobs.map(toJobStatusResponse) });
+  } catch (error: any) {
+    console.error('Error fetching jobs:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch jobs' });
+  }
+});
+
+// Progress and results of one job
+router.get('/:id', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const job = await db.getScrapeJob(parseInt(req.params.id));
+    if (!job || job.user_id !== req.user.id) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json(toJobStatusResponse(job));
+  } catch (error: any) {
+    console.error('Error fetching job:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch job' });
+  }
+});
+
+// Give the dead items of a job another round of attempts
+router.post('/:id/retry', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const job = await db.getScrapeJob(parseInt(req.params.id));
+    if (!job || job.user_id !== req.user.id) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    const retried = await retryDeadItems(job);
+    res.json({ retried, job: toJobStatusResponse((await db.getScrapeJob(job.id))!) });
+  } catch (error: any) {
+    console.error('Error retrying job:', error);
+    res.status(500).json({ error: error.message || 'Failed to retry job' });
+  }
+});
+
+export default router;
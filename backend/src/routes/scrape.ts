@@ -1,7 +1,10 @@
 import express from 'express';
-// Switch to Puppeteer scraper for Cloudflare bypass
-import { scrapeArtist, scrapeAllArtists, scrapeArtistUpdates, checkArtistForUpdates } from '../scraper-puppeteer';
+import { checkArtistForUpdates } from '../scraper';
+import { enqueueJob, toJobStatusResponse } from '../jobQueue';
 import * as db from '../database';
+import { getFetcherStats } from '../fetcher';
+import { getBrowserPoolStats } from '../browserPool';
+import { getRateLimiterStatus, isRateLimitError } from '../rateLimiter';
 import { requireAuth } from '../middleware/auth';
 
 const router = express.Router();
@@ -9,7 +12,9 @@ const router = express.Router();
 // All routes require authentication
 router.use(requireAuth);
 
-// Scrape a specific artist (full scrape - used for initial imports)
+// Queue a scrape of one artist. Full scrape by default (used for initial imports);
+// ?optimized=true checks first and only scrapes if there are updates.
+// Answers 202 with the job; poll GET /api/jobs/:id for the result.
 router.post('/artist/:id', async (req, res) => {
   try {
     if (!req.user) {
@@ -17,50 +22,17 @@ router.post('/artist/:id', async (req, res) => {
     }
     const artistId = parseInt(req.params.id);
     const optimized = req.query.optimized === 'true';
-    
-    console.log(`📥 Scrape request: artistId=${artistId}, userId=${req.user.id}, optimized=${optimized}`);
-    
+
     // Verify artist belongs to user
     const artist = await db.getArtistById(artistId, req.user.id);
     if (!artist) {
-      console.log(`❌ Artist ${artistId} not found for user ${req.user.id}`);
       return res.status(404).json({ error: 'Artist not found' });
     }
-    
-    console.log(`✓ Found artist: ${artist.username} (ID: ${artistId})`);
-    
-    // Use optimized scraping if requested (default for "Check for Updates")
-    if (optimized) {
-      console.log(`  → Using optimized scraping (check first, then scrape if updates exist)`);
-      // First check if there are updates
-      const checkResult = await checkArtistForUpdates(artistId, req.user.id);
-      console.log(`  → Check result: hasUpdates=${checkResult.hasUpdates}`);
-      
-      if (!checkResult.hasUpdates) {
-        console.log(`  → No updates, skipping scrape`);
-        return res.json({
-          artist: artist.username,
-          status: 'skipped',
-          reason: 'no_updates',
-          total_found: 0,
-          new_artworks: 0
-        });
-      }
-      
-      // Has updates, use optimized scraping
-      console.log(`  → Has updates, starting optimized scrape...`);
-      const result = await scrapeArtistUpdates(artistId, req.user.id);
-      console.log(`  → Optimized scrape complete: ${result.new_artworks} new artworks`);
-      res.json(result);
-    } else {
-      // Full scrape (for initial imports)
-      console.log(`  → Using full scrape (for initial imports)`);
-      const result = await scrapeArtist(artistId, req.user.id);
-      console.log(`  → Full scrape complete: ${result.total_found} total, ${result.new_artworks} new`);
-      res.json(result);
-    }
+
+    const job = await enqueueJob(optimized ? 'check' : 'update', req.user.id, { artist_id: artistId });
+    res.status(202).json({ job_id: job.id, job: toJobStatusResponse(job) });
   } catch (error: any) {
-    console.error('Error scraping artist:', error);
+    console.error('Error queueing artist scrape:', error);
     res.status(500).json({ error: error.message || 'Failed to scrape artist' });
   }
 });
@@ -83,23 +55,77 @@ router.get('/artist/:id/check', async (req, res) => {
     res.json(result);
   } catch (error: any) {
     console.error('Error checking artist:', error);
-    res.status(500).json({ error: error.message || 'Failed to check artist' });
+    res.status(isRateLimitError(error) ? 503 : 500).json({ error: error.message || 'Failed to check artist' });
   }
 });
 
-// Scrape all artists (optimized - checks first, only scrapes if updates exist)
+// Queue a check of all artists (checks first, only scrapes the ones with updates)
 router.post('/all', async (req, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
     }
-    const results = await scrapeAllArtists(req.user.id);
-    res.json(results);
+    const job = await enqueueJob('check', req.user.id);
+    res.status(202).json({ job_id: job.id, job: toJobStatusResponse(job) });
   } catch (error: any) {
-    console.error('Error scraping all artists:', error);
+    console.error('Error queueing scrape of all artists:', error);
     res.status(500).json({ error: error.message || 'Failed to scrape artists' });
   }
 });
 
-export default router;
+// Which fetch strategy (plain HTTP or browser) works per host since the server started,
+// and how busy the shared browser is
+router.get('/fetcher-stats', (req, res) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  res.json({ hosts: getFetcherStats(), browser_pool: getBrowserPoolStats() });
+});
+
+// Request pacing towards ArtStation: per-host backoff and whether the circuit breaker paused scraping
+router.get('/rate-limit', (req, res) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  res.json(getRateLimiterStatus());
+});
+
+// Recent scrape runs: the user's own and the scheduled ones, newest first
+router.get('/runs', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+    const runs = await db.getScrapeRuns(req.user.id, limit);
+    res.json({ retention_days: db.SCRAPE_RUN_RETENTION_DAYS, runs });
+  } catch (error: any) {
+    console.error('Error fetching scrape runs:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch scrape runs' });
+  }
+});
+
+// One run with the outcome of every attempt at an artist
+router.get('/runs/:id', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    const run = await db.getScrapeRun(parseInt(req.params.id));
+    if (!run || (run.user_id !== null && run.user_id !== req.user.id)) {
+      return res.status(404).json({ error: 'Scrape run not found' });
+    }
+    let outcomes = await db.getScrapeOutcomes(run.id);
+    if (run.user_id === null) {
+      // Scheduled runs cover every user: only the artists this user follows, not what others follow
+      const followed = new Set((await db.getAllArtists(req.user.id)).map(artist => artist.catalog_artist_id));
+      outcomes = outcomes.filter(outcome => outcome.catalog_artist_id !== null && followed.has(outcome.catalog_artist_id));
+    }
+    res.json({ ...run, outcomes });
+  } catch (error: any) {
+    console.error('Error fetching scrape run:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch scrape run' });
+  }
+});
 
+export default router;
@@ -1,7 +1,9 @@
 import express from 'express';
 import * as db from '../database';
 import { requireAuth } from '../middleware/auth';
-import { sendDiscordNotification, sendDiscordCustomMessage } from '../notifications/discord';
+import { sendDiscordNotification, sendDiscordCustomMessage, isDiscordUserId, isDiscordWebhookUrl } from '../notifications/discord';
+import { buildAccountArchive, importAccountArchive, validateAccountArchive } from '../accountArchive';
+import { IMAGE_ARCHIVE_QUOTA_BYTES } from '../imageArchive';
 
 const router = express.Router();
 
@@ -18,7 +20,7 @@ router.patch('/', async (req, res) => {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    const { discord_webhook_url, discord_user_id } = req.body;
+    const { discord_webhook_url, discord_user_id, notify_removed_artworks, image_archive, mute_repost_notifications } = req.body;
 
     const updates: Partial<db.User> = {};
 
@@ -28,9 +30,7 @@ router.patch('/', async (req, res) => {
         // Allow clearing the webhook
         updates.discord_webhook_url = undefined;
       } else if (typeof discord_webhook_url === 'string') {
-        // Basic validation - should be a Discord webhook URL
-        if (!discord_webhook_url.startsWith('https://discord.com/api/webhooks/') &&
-            !discord_webhook_url.startsWith('https://discordapp.com/api/webhooks/')) {
+        if (!isDiscordWebhookUrl(discord_webhook_url)) {
           return res.status(400).json({ 
             error: 'Invalid Discord webhook URL. Must start with https://discord.com/api/webhooks/' 
           });
@@ -44,8 +44,7 @@ router.patch('/', async (req, res) => {
       if (discord_user_id === null || discord_user_id === '') {
         updates.discord_user_id = undefined;
       } else if (typeof discord_user_id === 'string') {
-        // Discord user IDs are numeric strings, typically 17-19 digits
-        if (!/^\d{17,19}$/.test(discord_user_id)) {
+        if (!isDiscordUserId(discord_user_id)) {
           return res.status(400).json({ 
             error: 'Invalid Discord user ID. Must be a numeric string (17-19 digits).' 
           });
@@ -54,6 +53,30 @@ router.patch('/', async (req, res) => {
       }
     }
 
+    // Opt-in Discord message when a full rescan finds artworks the artist took down
+    if (notify_removed_artworks !== undefined) {
+      if (typeof notify_removed_artworks !== 'boolean') {
+        return res.status(400).json({ error: 'notify_removed_artworks must be true or false' });
+      }
+      updates.notify_removed_artworks = notify_removed_artworks;
+    }
+
+    // No Discord notification for new artworks that look like reposts
+    if (mute_repost_notifications !== undefined) {
+      if (typeof mute_repost_notifications !== 'boolean') {
+        return res.status(400).json({ error: 'mute_repost_notifications must be true or false' });
+      }
+      updates.mute_repost_notifications = mute_repost_notifications;
+    }
+
+    // Local copies of artwork images: off, covers or all
+    if (image_archive !== undefined) {
+      if (!['off', 'covers', 'all'].includes(image_archive)) {
+        return res.status(400).json({ error: 'image_archive must be off, covers or all' });
+      }
+      updates.image_archive = image_archive;
+    }
+
     if (Object.keys(updates).length === 0) {
       return res.status(400).json({ error: 'No valid updates provided' });
     }
@@ -72,7 +95,10 @@ router.patch('/', async (req, res) => {
         username: updatedUser?.username,
         artstation_username: updatedUser?.artstation_username,
         discord_webhook_url: updatedUser?.discord_webhook_url || null,
-        discord_user_id: updatedUser?.discord_user_id || null
+        discord_user_id: updatedUser?.discord_user_id || null,
+        notify_removed_artworks: !!updatedUser?.notify_removed_artworks,
+        image_archive: updatedUser?.image_archive || 'off',
+        mute_repost_notifications: !!updatedUser?.mute_repost_notifications
       }
     });
   } catch (error: any) {
@@ -103,6 +129,9 @@ router.get('/', async (req, res) => {
       artstation_username: user.artstation_username,
       discord_webhook_url: user.discord_webhook_url || null,
       discord_user_id: user.discord_user_id || null,
+      notify_removed_artworks: !!user.notify_removed_artworks,
+      image_archive: user.image_archive || 'off',
+      mute_repost_notifications: !!user.mute_repost_notifications,
       created_at: user.created_at
     });
   } catch (error) {
@@ -111,6 +140,78 @@ router.get('/', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/user/image-archive
+ * Archive mode and how much of the quota the user's archived images take (quota_bytes 0 means
+ * the server has the archive turned off)
+ */
+router.get('/image-archive', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const usage = await db.getImageArchiveUsage(req.user.id);
+    res.json({
+      mode: req.user.image_archive || 'off',
+      files: usage.files,
+      bytes: usage.bytes,
+      quota_bytes: IMAGE_ARCHIVE_QUOTA_BYTES
+    });
+  } catch (error) {
+    console.error('Error fetching image archive usage:', error);
+    res.status(500).json({ error: 'Failed to fetch image archive usage' });
+  }
+});
+
+/**
+ * GET /api/user/export
+ * Download the whole account (settings, artists, artworks with seen/favorite state,
+ * persistent favorites) as one versioned JSON document. The login token is not included.
+ */
+router.get('/export', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const archive = await buildAccountArchive(req.user);
+    const date = archive.exported_at.slice(0, 10);
+
+    res.setHeader('Content-Disposition', `attachment; filename="arttracker-${req.user.username}-${date}.json"`);
+    res.json(archive);
+  } catch (error) {
+    console.error('Error exporting account:', error);
+    res.status(500).json({ error: 'Failed to export account' });
+  }
+});
+
+/**
+ * POST /api/user/import
+ * Merge an archive produced by GET /api/user/export (from any instance or storage backend)
+ * into the current account. Existing artists and artworks are kept.
+ */
+router.post('/import', async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const validationError = validateAccountArchive(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const summary = await importAccountArchive(req.user, req.body);
+    console.log(`📦 Imported archive for user ${req.user.username}: +${summary.artists_added} artists, +${summary.artworks_added} artworks`);
+
+    res.json({ success: true, ...summary });
+  } catch (error: any) {
+    console.error('Error importing account:', error);
+    res.status(500).json({ error: error.message || 'Failed to import account' });
+  }
+});
+
 /**
  * POST /api/user/test-discord
  * Send a test Discord notification using the latest artwork from "Latest from All Artists"
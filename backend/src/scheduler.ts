@@ -1,199 +1,85 @@
 import cron from 'node-cron';
 import * as db from './database';
-import { importFollowingFromUser } from './scraper-import-following';
-import { scrapeAllArtists, rescanAllArtists } from './scraper-puppeteer';
+import { enqueueJob } from './jobQueue';
+import { CHECK_INTERVAL_MAX_HOURS, CHECK_INTERVAL_MIN_HOURS } from './checkSchedule';
+import { ArchiveRunSummary, IMAGE_ARCHIVE_QUOTA_BYTES, runImageArchive } from './imageArchive';
 
 // Schedule configuration
 const ENABLE_SCHEDULER = process.env.ENABLE_SCHEDULER === 'true';
 const CRON_SYNC_SCHEDULE = process.env.CRON_SYNC_SCHEDULE || '0 9 * * *'; // Daily at 9 AM UTC
-const CRON_ARTWORK_CHECK_SCHEDULE = process.env.CRON_ARTWORK_CHECK_SCHEDULE || '0 */6 * * *'; // Every 6 hours
+// Hourly; each run only checks the accounts that are due (see checkSchedule.ts)
+const CRON_ARTWORK_CHECK_SCHEDULE = process.env.CRON_ARTWORK_CHECK_SCHEDULE || '0 * * * *';
 const CRON_FULL_RESCAN_SCHEDULE = process.env.CRON_FULL_RESCAN_SCHEDULE || '0 0 * * 0'; // Weekly on Sunday at 00:00 UTC
+const CRON_TRASH_PURGE_SCHEDULE = process.env.CRON_TRASH_PURGE_SCHEDULE || '30 3 * * *'; // Daily at 3:30 AM UTC
+const CRON_IMAGE_ARCHIVE_SCHEDULE = process.env.CRON_IMAGE_ARCHIVE_SCHEDULE || '0 4 * * *'; // Daily at 4 AM UTC
 
-interface ScheduledTaskResult {
-  userId: number;
-  username: string;
-  success: boolean;
-  error?: string;
-  details?: any;
-}
+let isTrashPurgeRunning = false;
+let isImageArchiveRunning = false;
 
 /**
- * Sync all users' ArtStation following lists
- * Runs daily to check for new artists they're following
+ * Sync all users' ArtStation following lists (daily).
+ * Queued as one job with an item per user; new artworks are picked up by the next check.
  */
-let isSyncRunning = false;
-let isArtworkCheckRunning = false;
-let isRescanRunning = false;
-
-async function syncAllUsersFollowing(): Promise<ScheduledTaskResult[]> {
-  if (isSyncRunning) {
-    console.log('⏳ [Scheduler] Sync already running, skipping concurrent invocation');
-    return [];
-  }
-  isSyncRunning = true;
-
-  console.log('🔄 [Scheduler] Starting daily sync for all users...');
-  const users = await db.getAllUsers();
-  const results: ScheduledTaskResult[] = [];
-
-  for (const user of users) {
-    if (!user.artstation_username) {
-      console.log(`  ⏭ Skipping user ${user.username} - no ArtStation username set`);
-      continue;
-    }
-
-    try {
-      console.log(`  → Syncing following list for user ${user.username} (${user.artstation_username})...`);
-      
-      // Sync following list (clearExisting = false, skipArtworkScraping = true)
-      // We'll check for new artworks separately
-      const importResults = await importFollowingFromUser(
-        user.id,
-        user.artstation_username,
-        false, // Don't clear existing, just sync
-        true   // Skip artwork scraping (we'll do that in artwork check)
-      );
-
-      results.push({
-        userId: user.id,
-        username: user.username,
-        success: true,
-        details: {
-          added: importResults.added || 0,
-          removed: importResults.removed || 0,
-          already_exists: importResults.already_exists || 0
-        }
-      });
+async function syncAllUsersFollowing(trigger: db.ScrapeRunTrigger = 'scheduled'): Promise<db.ScrapeJob | null> {
+  console.log('🔄 [Scheduler] Queueing daily sync for all users...');
+  return enqueueJob('import_following', null, {}, trigger);
+}
 
-      console.log(`    ✓ Sync complete: +${importResults.added || 0} added, -${importResults.removed || 0} removed`);
-    } catch (error: any) {
-      console.error(`    ✗ Error syncing user ${user.username}:`, error.message);
-      results.push({
-        userId: user.id,
-        username: user.username,
-        success: false,
-        error: error.message
-      });
-    }
-  }
+/**
+ * Check the artists that are due for new artworks (looked at hourly by default).
+ * Each ArtStation account is one job item, scraped once no matter how many users follow it;
+ * no job is queued while no account is due.
+ */
+async function checkAllUsersArtworks(trigger: db.ScrapeRunTrigger = 'scheduled'): Promise<db.ScrapeJob | null> {
+  console.log('🔍 [Scheduler] Queueing artwork check for all users...');
+  return enqueueJob('check', null, {}, trigger);
+}
 
-  console.log(`✅ [Scheduler] Daily sync complete. Processed ${results.length} users.`);
-  isSyncRunning = false;
-  return results;
+/**
+ * Run a full rescan to detect edited artworks (weekly)
+ */
+async function rescanAllUsersArtworks(trigger: db.ScrapeRunTrigger = 'scheduled'): Promise<db.ScrapeJob | null> {
+  console.log('🧹 [Scheduler] Queueing weekly full rescan for edits...');
+  return enqueueJob('rescan', null, {}, trigger);
 }
 
 /**
- * Check all users' artists for new artworks
- * Runs every 6 hours (configurable)
+ * Permanently remove artists that have been in the trash longer than the retention period
  */
-async function checkAllUsersArtworks(): Promise<ScheduledTaskResult[]> {
-  if (isArtworkCheckRunning) {
-    console.log('⏳ [Scheduler] Artwork check already running, skipping concurrent invocation');
-    return [];
+async function purgeArtistTrash(): Promise<number> {
+  if (isTrashPurgeRunning) {
+    console.log('⏳ [Scheduler] Trash purge already running, skipping concurrent invocation');
+    return 0;
   }
-  isArtworkCheckRunning = true;
-
-  console.log('🔍 [Scheduler] Starting artwork check for all users...');
-  const users = await db.getAllUsers();
-  const results: ScheduledTaskResult[] = [];
-
-  for (const user of users) {
-    try {
-      const artists = await db.getAllArtists(user.id);
-      
-      if (artists.length === 0) {
-        console.log(`  ⏭ Skipping user ${user.username} - no artists to check`);
-        continue;
-      }
-
-      console.log(`  → Checking ${artists.length} artists for user ${user.username}...`);
-      
-      // Use optimized scraping (checks first, only scrapes if updates exist)
-      const scrapeResults = await scrapeAllArtists(user.id);
-
-      // Handle both return types: with results array or message (no artists)
-      const resultsArray = Array.isArray(scrapeResults.results) ? scrapeResults.results : [];
-      const totalNew = scrapeResults.total_new_artworks || 0;
-      const updated = scrapeResults.completed || 0;
-
-      results.push({
-        userId: user.id,
-        username: user.username,
-        success: true,
-        details: {
-          artists_checked: artists.length,
-          artists_updated: updated,
-          new_artworks: totalNew
-        }
-      });
-
-      console.log(`    ✓ Check complete: ${updated} artists updated, ${totalNew} new artworks found`);
-    } catch (error: any) {
-      console.error(`    ✗ Error checking artworks for user ${user.username}:`, error.message);
-      results.push({
-        userId: user.id,
-        username: user.username,
-        success: false,
-        error: error.message
-      });
-    }
+  isTrashPurgeRunning = true;
+
+  try {
+    const purged = await db.purgeExpiredArtists();
+    console.log(`🗑️ [Scheduler] Purged ${purged} artist(s) deleted more than ${db.ARTIST_TRASH_RETENTION_DAYS} day(s) ago`);
+    return purged;
+  } finally {
+    isTrashPurgeRunning = false;
   }
-
-  console.log(`✅ [Scheduler] Artwork check complete. Processed ${results.length} users.`);
-  isArtworkCheckRunning = false;
-  return results;
 }
 
 /**
- * Run a full rescan to detect edited artworks (weekly)
+ * Archive favorites and missing assets for users with the image archive on, then remove files
+ * nobody references any more (daily, after the trash purge)
  */
-async function rescanAllUsersArtworks(): Promise<ScheduledTaskResult[]> {
-  if (isRescanRunning) {
-    console.log('⏳ [Scheduler] Weekly rescan already running, skipping concurrent invocation');
-    return [];
+async function archiveImages(): Promise<ArchiveRunSummary | null> {
+  if (isImageArchiveRunning) {
+    console.log('⏳ [Scheduler] Image archive already running, skipping concurrent invocation');
+    return null;
   }
-  isRescanRunning = true;
-
-  console.log('🧹 [Scheduler] Starting weekly full rescan for edits...');
-  const users = await db.getAllUsers();
-  const results: ScheduledTaskResult[] = [];
-
-  for (const user of users) {
-    try {
-      const artists = await db.getAllArtists(user.id);
-
-      if (artists.length === 0) {
-        console.log(`  ⏭ Skipping user ${user.username} - no artists to rescan`);
-        continue;
-      }
-
-      const rescanResult = await rescanAllArtists(user.id);
-
-      results.push({
-        userId: user.id,
-        username: user.username,
-        success: true,
-        details: {
-          artists_scanned: artists.length,
-          updated_artworks: rescanResult.total_updated_artworks || 0
-        }
-      });
-
-      console.log(`    ✓ Rescan complete for ${user.username}: ${rescanResult.total_updated_artworks || 0} updated artwork(s)`);
-    } catch (error: any) {
-      console.error(`    ✗ Error rescanning artworks for user ${user.username}:`, error.message);
-      results.push({
-        userId: user.id,
-        username: user.username,
-        success: false,
-        error: error.message
-      });
-    }
+  isImageArchiveRunning = true;
+
+  try {
+    const summary = await runImageArchive();
+    console.log(`📦 [Scheduler] Archived ${summary.archived} image(s) for ${summary.users} user(s), removed ${summary.removed_files} unreferenced file(s)`);
+    return summary;
+  } finally {
+    isImageArchiveRunning = false;
   }
-
-  console.log(`✅ [Scheduler] Weekly rescan complete. Processed ${results.length} users.`);
-  isRescanRunning = false;
-  return results;
 }
 
 /**
@@ -207,8 +93,12 @@ export function initScheduler(): void {
 
   console.log('📅 [Scheduler] Initializing scheduled tasks...');
   console.log(`   Sync schedule: ${CRON_SYNC_SCHEDULE} (daily sync)`);
-  console.log(`   Artwork check schedule: ${CRON_ARTWORK_CHECK_SCHEDULE} (artwork updates)`);
+  console.log(`   Artwork check schedule: ${CRON_ARTWORK_CHECK_SCHEDULE} (due artists, every ${CHECK_INTERVAL_MIN_HOURS}-${CHECK_INTERVAL_MAX_HOURS}h)`);
   console.log(`   Full rescan schedule: ${CRON_FULL_RESCAN_SCHEDULE} (weekly edit scan)`);
+  console.log(`   Trash purge schedule: ${CRON_TRASH_PURGE_SCHEDULE} (${db.ARTIST_TRASH_RETENTION_DAYS} day retention)`);
+  if (IMAGE_ARCHIVE_QUOTA_BYTES > 0) {
+    console.log(`   Image archive schedule: ${CRON_IMAGE_ARCHIVE_SCHEDULE} (daily archive and cleanup)`);
+  }
 
   // Schedule daily sync (check for new artists)
   cron.schedule(CRON_SYNC_SCHEDULE, async () => {
@@ -223,7 +113,7 @@ export function initScheduler(): void {
     timezone: 'UTC'
   });
 
-  // Schedule artwork checking (every 6 hours by default)
+  // Schedule artwork checking (hourly by default, for the accounts that are due)
   cron.schedule(CRON_ARTWORK_CHECK_SCHEDULE, async () => {
     console.log(`\n⏰ [Scheduler] Running scheduled artwork check at ${new Date().toISOString()}`);
     try {
@@ -249,21 +139,57 @@ export function initScheduler(): void {
     timezone: 'UTC'
   });
 
+  // Schedule daily purge of expired trash entries
+  cron.schedule(CRON_TRASH_PURGE_SCHEDULE, async () => {
+    console.log(`\n⏰ [Scheduler] Running scheduled trash purge at ${new Date().toISOString()}`);
+    try {
+      await purgeArtistTrash();
+    } catch (error: any) {
+      console.error('❌ [Scheduler] Error in scheduled trash purge:', error);
+    }
+  }, {
+    scheduled: true,
+    timezone: 'UTC'
+  });
+
+  // Schedule daily image archive run (skipped when the archive is turned off server-wide)
+  if (IMAGE_ARCHIVE_QUOTA_BYTES > 0) {
+    cron.schedule(CRON_IMAGE_ARCHIVE_SCHEDULE, async () => {
+      console.log(`\n⏰ [Scheduler] Running scheduled image archive at ${new Date().toISOString()}`);
+      try {
+        await archiveImages();
+      } catch (error: any) {
+        console.error('❌ [Scheduler] Error in scheduled image archive:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: 'UTC'
+    });
+  }
+
   console.log('✅ [Scheduler] Scheduled tasks initialized');
 }
 
 /**
- * Manual trigger functions (for testing or external cron services)
+ * Manual trigger functions (for testing or external cron services); their runs show up as 'cron'
  */
-export async function runSyncAllUsers(): Promise<ScheduledTaskResult[]> {
-  return await syncAllUsersFollowing();
+export async function runSyncAllUsers(): Promise<db.ScrapeJob | null> {
+  return await syncAllUsersFollowing('cron');
 }
 
-export async function runCheckAllUsersArtworks(): Promise<ScheduledTaskResult[]> {
-  return await checkAllUsersArtworks();
+export async function runCheckAllUsersArtworks(): Promise<db.ScrapeJob | null> {
+  return await checkAllUsersArtworks('cron');
 }
 
-export async function runFullRescanAllUsers(): Promise<ScheduledTaskResult[]> {
-  return await rescanAllUsersArtworks();
+export async function runFullRescanAllUsers(): Promise<db.ScrapeJob | null> {
+  return await rescanAllUsersArtworks('cron');
 }
 
+export async function runTrashPurge(): Promise<number> {
+  return await purgeArtistTrash();
+}
+
+// Null when a run is already in progress
+export async function runImageArchiveNow(): Promise<ArchiveRunSummary | null> {
+  return await archiveImages();
+}
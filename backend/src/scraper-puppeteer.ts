@@ -1,25 +1,43 @@
-import puppeteer from 'puppeteer';
+// ArtStation, the first source provider (see providers/artstation.ts): pages through an
+// account's projects with the JSON API, with a browser fallback for the profile page.
+
 import * as db from './database';
-import { sendDiscordNotification } from './notifications/discord';
 import { convertToHighQualityUrl } from './utils/imageUrlConverter';
-
+import { parseProjectDetails } from './utils/projectDetails';
+import { parseArtistProfile } from './utils/artistProfile';
+import { BrowserFetch, fetchJson, logFetcherStats } from './fetcher';
+import { artstationUrl } from './utils/artstation';
+import { withPage } from './browserPool';
+import { acquire, isRateLimitError, recordBlock, recordSuccess } from './rateLimiter';
+import { AccountStatusChange, clearAccountStatus, resolveMissingAccount } from './accountStatus';
+import { recordRemovedArtworks } from './removedArtworks';
+import { hashScrapedArtworks } from './reposts';
+import type {
+  AccountScrapeResult,
+  FollowerScrapeResult,
+  ListWorksOptions,
+  ScrapeArtistUpdateOptions,
+  ScrapedArtwork,
+  UpdateCheckResult,
+  WorkListing
+} from './providers/types';
+import {
+  emptyFollowerResults,
+  followerStates,
+  idsKnownToAll,
+  latestStoredDate,
+  skippedRescanResult,
+  storeUpdatesForFollower
+} from './providers/works';
+
+// Request pacing lives in rateLimiter.ts; these only give browser pages time to render
 const SCRAPE_DELAY = parseInt(process.env.SCRAPE_DELAY_MS || '2000');
-const CONCURRENT_ARTIST_LIMIT = 1; // Sequential processing for Render free tier stability
-const QUICK_CHECK_DELAY = Math.max(200, Math.floor(SCRAPE_DELAY / 5));
-const PAGE_NAVIGATION_DELAY = Math.max(300, Math.floor(SCRAPE_DELAY / 3));
 const CLOUDFLARE_SETTLE_DELAY = Math.max(1500, Math.floor(SCRAPE_DELAY * 0.75));
 const PROFILE_PAGE_WAIT = Math.max(2500, SCRAPE_DELAY);
-
-interface ScrapedArtwork {
-  artwork_id: string;
-  title: string;
-  thumbnail_url: string;
-  high_quality_image_url?: string;
-  artwork_url: string;
-  upload_date?: string;
-  updated_at?: string;
-  alreadyExists?: boolean;
-}
+// Project pages fetched per account and run; the rest are picked up by later runs
+const PROJECT_DETAILS_PER_RUN = parseInt(process.env.PROJECT_DETAILS_PER_RUN || '25');
+// Profiles fetched this recently aren't fetched again (a quick check followed by a scrape)
+const PROFILE_REFRESH_MS = 30 * 60 * 1000;
 
 function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
@@ -38,236 +56,8 @@ function decodeHtmlEntities(text: string): string {
     .replace(/&apos;/g, "'");
 }
 
-let browser: any = null;
-
-async function getBrowser() {
-  if (!browser) {
-    console.log('🚀 Launching browser...');
-    
-    const fs = require('fs');
-    const path = require('path');
-    const launchOptions: any = {
-      headless: true, // Headless mode (use true for compatibility)
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-blink-features=AutomationControlled', // Remove automation flags (helps bypass Cloudflare)
-        '--disable-features=IsolateOrigins,site-per-process',
-        '--window-size=1920,1080',
-        '--start-maximized'
-      ]
-    };
-
-    // Set up cache directory for Puppeteer (must be set before Puppeteer operations)
-    const cacheDir = process.env.PUPPETEER_CACHE_DIR || '/opt/render/.cache/puppeteer';
-    
-    // CRITICAL: Set environment variable BEFORE any Puppeteer operations
-    // This ensures Puppeteer knows where to look for Chrome
-    if (!process.env.PUPPETEER_CACHE_DIR) {
-      process.env.PUPPETEER_CACHE_DIR = cacheDir;
-    }
-    
-    // Also set Puppeteer's cache directory environment variable
-    process.env.PUPPETEER_DOWNLOAD_PATH = cacheDir;
-    
-    console.log(`   📂 Cache directory: ${cacheDir}`);
-    
-    // Ensure cache directory exists
-    try {
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true });
-        console.log(`   📁 Created cache directory: ${cacheDir}`);
-      }
-      // Verify write permissions
-      fs.accessSync(cacheDir, fs.constants.W_OK);
-      console.log(`   ✅ Cache directory is writable`);
-    } catch (e: any) {
-      console.warn(`   ⚠️  Cache directory issue: ${e.message}`);
-    }
-
-    let executablePath: string | null = null;
-    
-    // Method 1: Try Puppeteer's executablePath first (respects PUPPETEER_CACHE_DIR)
-    // This is the most reliable method if Chrome was installed via 'puppeteer browsers install'
-    try {
-      const suggestedPath = puppeteer.executablePath();
-      if (suggestedPath && fs.existsSync(suggestedPath)) {
-        executablePath = suggestedPath;
-        console.log(`   ✅ Found Chrome via Puppeteer: ${executablePath}`);
-      }
-    } catch (e) {
-      console.log('   ⚠️  Puppeteer.executablePath() failed, searching manually...');
-    }
-
-    // Method 2: Search Puppeteer cache directory structure
-    // Puppeteer stores Chrome as: {cacheDir}/chrome/{platform}-{revision}/chrome-{platform}/chrome
-    if (!executablePath) {
-      try {
-        const chromeCacheDir = path.join(cacheDir, 'chrome');
-        if (fs.existsSync(chromeCacheDir)) {
-          // Look for chrome directories
-          const entries = fs.readdirSync(chromeCacheDir);
-          for (const entry of entries) {
-            const platformDir = path.join(chromeCacheDir, entry);
-            if (fs.statSync(platformDir).isDirectory()) {
-              // Look for chrome-* directories
-              const subEntries = fs.readdirSync(platformDir);
-              for (const subEntry of subEntries) {
-                if (subEntry.startsWith('chrome-')) {
-                  const chromeDir = path.join(platformDir, subEntry);
-                  // Chrome executable is usually in the root of chrome-* directory
-                  const chromeExe = path.join(chromeDir, 'chrome');
-                  if (fs.existsSync(chromeExe)) {
-                    executablePath = chromeExe;
-                    console.log(`   ✅ Found Chrome in cache structure: ${executablePath}`);
-                    break;
-                  }
-                }
-              }
-              if (executablePath) break;
-            }
-          }
-        }
-      } catch (e: any) {
-        console.log(`   ⚠️  Error searching cache structure: ${e.message}`);
-      }
-    }
-
-    // Method 3: Use find command as fallback (works on Linux)
-    if (!executablePath) {
-      try {
-        const { execSync } = require('child_process');
-        const result = execSync(
-          `find "${cacheDir}" -type f \( -name "chrome" -o -name "chromium" \) -executable 2>/dev/null | head -1`,
-          { encoding: 'utf8', timeout: 5000 }
-        ).trim();
-        if (result && fs.existsSync(result)) {
-          executablePath = result;
-          console.log(`   ✅ Found Chrome via find: ${executablePath}`);
-        }
-      } catch (e) {
-        // find command failed or no Chrome found
-      }
-    }
-
-    // Method 4: Search system Chrome locations (fastest if available)
-    if (!executablePath) {
-      const systemPaths = [
-        '/usr/bin/google-chrome',
-        '/usr/bin/google-chrome-stable',
-        '/usr/bin/chromium',
-        '/usr/bin/chromium-browser',
-        '/snap/bin/chromium'
-      ];
-      
-      for (const systemPath of systemPaths) {
-        try {
-          if (fs.existsSync(systemPath)) {
-            executablePath = systemPath;
-            console.log(`   ✅ Found system Chrome at: ${systemPath}`);
-            break;
-          }
-        } catch (e) {
-          // Continue searching
-        }
-      }
-    }
-
-    // Set executable path if we found one
-    if (executablePath) {
-      launchOptions.executablePath = executablePath;
-      console.log(`   🎯 Using Chrome at: ${executablePath}`);
-    } else {
-      // Chrome not found - try to install it at runtime
-      console.log('   📥 Chrome not found in any location');
-      console.log('   ⏳ Attempting to install Chrome at runtime...');
-      console.log(`   📂 Cache directory: ${cacheDir}`);
-      console.log('   ⏱️  This may take 3-5 minutes on first request');
-      
-      // Don't set executablePath - let Puppeteer download Chrome
-      // This will use PUPPETEER_CACHE_DIR if set
-      try {
-        // Try to install Chrome using Puppeteer's browser installer
-        const { execSync } = require('child_process');
-        console.log('   🔄 Installing Chrome via Puppeteer...');
-        execSync('npx puppeteer browsers install chrome', {
-          env: {
-            ...process.env,
-            PUPPETEER_CACHE_DIR: cacheDir,
-            PUPPETEER_DOWNLOAD_PATH: cacheDir,
-            PUPPETEER_SKIP_CHROMIUM_DOWNLOAD: 'false'
-          },
-          stdio: 'inherit',
-          timeout: 600000 // 10 minutes timeout for runtime installation
-        });
-        console.log('   ✅ Chrome installation completed');
-        
-        // Try to find Chrome again after installation
-        try {
-          const result = execSync(
-            `find "${cacheDir}" -type f -name "chrome" -executable 2>/dev/null | head -1`,
-            { encoding: 'utf8', timeout: 5000 }
-          ).trim();
-          if (result && fs.existsSync(result)) {
-            executablePath = result;
-            launchOptions.executablePath = executablePath;
-            console.log(`   ✅ Found Chrome after installation: ${executablePath}`);
-          } else {
-            // Try Puppeteer's executablePath after installation
-            try {
-              const suggestedPath = puppeteer.executablePath();
-              if (suggestedPath && fs.existsSync(suggestedPath)) {
-                executablePath = suggestedPath;
-                launchOptions.executablePath = executablePath;
-                console.log(`   ✅ Found Chrome via Puppeteer: ${executablePath}`);
-              }
-            } catch (e) {
-              // Still not found, but let Puppeteer try to launch anyway
-            }
-          }
-        } catch (e) {
-          console.warn('   ⚠️  Could not verify Chrome installation');
-        }
-      } catch (installError: any) {
-        const installErrorMsg = installError?.message || String(installError);
-        console.warn(`   ⚠️  Chrome installation failed: ${installErrorMsg}`);
-        console.warn('   💡 Trying to launch browser anyway - Puppeteer may handle it');
-        // Continue to launch attempt - Puppeteer might still work
-      }
-    }
-
-    // Launch browser
-    try {
-      browser = await puppeteer.launch(launchOptions);
-      console.log('   ✅ Browser launched successfully');
-    } catch (error: any) {
-      const errorMsg = error?.message || String(error);
-      console.error('   ❌ Failed to launch browser:', errorMsg);
-      
-      // Provide helpful error message with retry suggestion
-      if (errorMsg.includes('Could not find Chrome') || errorMsg.includes('Browser was not found')) {
-        throw new Error(
-          `Chrome not found and installation failed.\n` +
-          `This can happen on Render free tier due to:\n` +
-          `1. Disk space limitations (Chrome needs ~200MB)\n` +
-          `2. Network timeouts during download\n` +
-          `3. Build timeout preventing Chrome installation\n\n` +
-          `Solutions:\n` +
-          `- Wait a few minutes and try again (first install takes time)\n` +
-          `- Check Render logs for disk space warnings\n` +
-          `- Verify PUPPETEER_CACHE_DIR is set: ${process.env.PUPPETEER_CACHE_DIR || 'not set'}\n` +
-          `- Consider upgrading to Render paid tier for faster builds\n\n` +
-          `Error: ${errorMsg}`
-        );
-      }
-      throw error;
-    }
-  }
-  return browser;
-}
-
-export async function scrapeArtist(artistId: number, userId: number) {
+// afterRename: the account was just followed to its new handle, don't follow another rename
+export async function scrapeArtist(artistId: number, userId: number, afterRename: boolean = false) {
   const artist = await db.getArtistById(artistId, userId);
   
   if (!artist) {
@@ -277,7 +67,6 @@ export async function scrapeArtist(artistId: number, userId: number) {
   console.log(`🔍 Scraping ${artist.username} with Puppeteer...`);
 
   try {
-    const browser = await getBrowser();
     const artworks: ScrapedArtwork[] = [];
     
     // Fetch all pages of artworks with pagination
@@ -288,122 +77,9 @@ export async function scrapeArtist(artistId: number, userId: number) {
     while (hasMorePages) {
       console.log(`  → Fetching page ${currentPage}...`);
       
-      const page = await browser.newPage();
       try {
-        await page.setViewport({ width: 1920, height: 1080 });
-        await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
-        
-        // Remove webdriver property (Cloudflare detects this)
-        await page.evaluateOnNewDocument(() => {
-          // @ts-ignore - navigator is available in browser context
-          Object.defineProperty(navigator, 'webdriver', {
-            get: () => undefined,
-          });
-        });
-        
-        // Add realistic browser headers
-        await page.setExtraHTTPHeaders({
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'DNT': '1',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-          'Sec-Fetch-Dest': 'document',
-          'Sec-Fetch-Mode': 'navigate',
-          'Sec-Fetch-Site': 'none',
-          'Sec-Fetch-User': '?1',
-          'Cache-Control': 'max-age=0'
-        });
-
-        // Set longer timeouts for Cloudflare
-        page.setDefaultNavigationTimeout(180000); // 3 minutes
-        page.setDefaultTimeout(180000);
-
-        const apiUrl = `https://www.artstation.com/users/${artist.username}/projects.json?page=${currentPage}`;
-        
-        console.log(`     Navigating to: ${apiUrl}`);
-        await page.goto(apiUrl, { 
-          waitUntil: 'domcontentloaded', // Less strict than networkidle2
-          timeout: 180000 // 3 minutes
-        });
-
-        // Check if we hit Cloudflare challenge and wait for it to complete
-        let isCloudflare = false;
-        let waitTime = 0;
-        const maxWaitTime = 90000; // Wait up to 90 seconds for Cloudflare
-        const checkInterval = 3000; // Check every 3 seconds
-        
-        while (waitTime < maxWaitTime) {
-          const pageInfo = await page.evaluate(() => {
-            // @ts-ignore - document and window are available in browser context
-            return {
-              // @ts-ignore - document is available in browser context
-              title: document.title,
-              // @ts-ignore - window is available in browser context
-              url: window.location.href,
-              // @ts-ignore - document is available in browser context
-              bodyText: document.body ? document.body.textContent?.substring(0, 500) : ''
-            };
-          });
-          
-          // Check if we're on Cloudflare challenge page
-          if (pageInfo.title.includes('Just a moment') || 
-              pageInfo.title.includes('Please wait') ||
-              pageInfo.bodyText.includes('Please complete a security check') ||
-              pageInfo.bodyText.includes('Checking your browser') ||
-              pageInfo.bodyText.includes('DDoS protection by Cloudflare')) {
-            if (!isCloudflare) {
-              isCloudflare = true;
-              console.log(`     ⏳ Cloudflare challenge detected, waiting for it to complete...`);
-            }
-            console.log(`     ⏳ Still waiting... (${Math.round(waitTime/1000)}s/${Math.round(maxWaitTime/1000)}s)`);
-            await new Promise(resolve => setTimeout(resolve, checkInterval));
-            waitTime += checkInterval;
-            
-            // Try to wait for navigation (Cloudflare might redirect)
-            try {
-              await Promise.race([
-                page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: checkInterval }),
-                new Promise(resolve => setTimeout(resolve, checkInterval))
-              ]);
-            } catch (e) {
-              // Navigation might not happen, that's okay
-            }
-          } else {
-            // We're past Cloudflare
-            if (isCloudflare) {
-              console.log(`     ✓ Cloudflare challenge completed after ${Math.round(waitTime/1000)}s!`);
-            }
-            break;
-          }
-        }
-        
-        if (isCloudflare && waitTime >= maxWaitTime) {
-          console.log(`     ⚠️  Cloudflare challenge timed out after ${maxWaitTime/1000}s`);
-        }
-
-        // Wait for content to load after Cloudflare passes
-        await delay(CLOUDFLARE_SETTLE_DELAY);
-
-      // Extract the JSON data
-      const jsonData = await page.evaluate(() => {
-        // @ts-ignore - document is available in browser context
-        const preElement = document.querySelector('pre');
-        if (preElement) {
-          return JSON.parse(preElement.textContent || '{}');
-        }
-        // @ts-ignore - document is available in browser context
-        const bodyText = document.body.textContent;
-        if (bodyText) {
-          try {
-            return JSON.parse(bodyText);
-          } catch (e) {
-            return null;
-          }
-        }
-        return null;
-      });
+        const apiUrl = artstationUrl(`/users/${artist.username}/projects.json?page=${currentPage}`);
+        const jsonData = await fetchJson(apiUrl, browserFetch(90000));
 
         // Check if we got valid data
         if (jsonData && jsonData.data && Array.isArray(jsonData.data) && jsonData.data.length > 0) {
@@ -425,7 +101,8 @@ export async function scrapeArtist(artistId: number, userId: number) {
             high_quality_image_url: thumbnailUrl ? convertToHighQualityUrl(thumbnailUrl) : undefined,
             artwork_url: project.permalink || `https://www.artstation.com/artwork/${project.hash_id}`,
             upload_date: project.published_at || project.created_at,
-            updated_at: project.updated_at || project.published_at || project.created_at
+            updated_at: project.updated_at || project.published_at || project.created_at,
+            project_updated_at: project.updated_at
           };
 
             artworks.push(artwork);
@@ -435,6 +112,9 @@ export async function scrapeArtist(artistId: number, userId: number) {
           if (currentPage === 1 && jsonData.data[0]?.user) {
             userInfo = jsonData.data[0].user;
           }
+          if (currentPage === 1) {
+            await clearAccountStatus(artist);
+          }
 
           // Check if there are more pages
           // ArtStation typically returns 50 items per page
@@ -442,43 +122,42 @@ export async function scrapeArtist(artistId: number, userId: number) {
             hasMorePages = false;
           } else {
             currentPage++;
-            // Add a delay between page requests
-            await delay(PAGE_NAVIGATION_DELAY);
           }
         } else {
           // No more data
           hasMorePages = false;
           
-          // If this is the first page and we got no data, try fallback
+          // If this is the first page and we got no data, find out whether the account is
+          // still there before trying the fallback
           if (currentPage === 1) {
+            const change = await resolveMissingAccount(artist);
+            if (change?.moved && !afterRename) {
+              return await scrapeArtist(artistId, userId, true);
+            }
+            if (change) {
+              return unavailableAccountResult(artist, change);
+            }
             console.log('  ⚠ No valid JSON data found, trying profile page...');
-            await page.close();
-            return await scrapeFromProfilePage(artistId, userId, artist);
+            return await scrapeFromProfilePage([artist]);
           }
         }
       } catch (pageError: any) {
         console.error(`     Error fetching page ${currentPage}:`, pageError.message);
+        if (isRateLimitError(pageError)) {
+          throw pageError; // The profile page would be blocked just the same
+        }
         hasMorePages = false;
         if (currentPage === 1 && artworks.length === 0) {
-          await page.close();
           console.log('  ⚠ API failed, trying profile page fallback...');
-          return await scrapeFromProfilePage(artistId, userId, artist);
+          return await scrapeFromProfilePage([artist]);
         }
-      } finally {
-        await page.close();
       }
     }
 
     console.log(`  → Total: ${artworks.length} artworks across ${currentPage} page(s)`);
 
-    // Update artist info if available
     if (userInfo) {
-      if (!artist.display_name && userInfo.full_name) {
-        await db.updateArtist(artistId, userId, { display_name: userInfo.full_name });
-      }
-      if (!artist.avatar_url && userInfo.medium_avatar_url) {
-        await db.updateArtist(artistId, userId, { avatar_url: userInfo.medium_avatar_url });
-      }
+      await storeArtistProfile(artist, listedName(userInfo));
     }
 
     // Store artworks in database
@@ -500,6 +179,8 @@ export async function scrapeArtist(artistId: number, userId: number) {
       }
     }
 
+    await storeProjectDetails(artist, artworks);
+
     // Update last_checked timestamp
     await db.updateArtist(artistId, userId, { last_checked: new Date().toISOString() });
 
@@ -517,69 +198,31 @@ export async function scrapeArtist(artistId: number, userId: number) {
   }
 }
 
-// Fallback method: scrape from profile page
-async function scrapeFromProfilePage(artistId: number, userId: number, artist: any) {
-  const browser = await getBrowser();
-  const page = await browser.newPage();
-
-  try {
-    await page.setViewport({ width: 1920, height: 1080 });
-    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
-    
-    // Remove webdriver property (Cloudflare detects this)
-    await page.evaluateOnNewDocument(() => {
-      // @ts-ignore - navigator is available in browser context
-      Object.defineProperty(navigator, 'webdriver', {
-        get: () => undefined,
-      });
-    });
-    
-    // Add realistic browser headers
-    await page.setExtraHTTPHeaders({
-      'Accept-Language': 'en-US,en;q=0.9',
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-      'Accept-Encoding': 'gzip, deflate, br',
-      'DNT': '1',
-      'Connection': 'keep-alive',
-      'Upgrade-Insecure-Requests': '1',
-      'Sec-Fetch-Dest': 'document',
-      'Sec-Fetch-Mode': 'navigate',
-      'Sec-Fetch-Site': 'none',
-      'Sec-Fetch-User': '?1',
-      'Cache-Control': 'max-age=0'
-    });
-
-    // Set longer timeouts for Cloudflare
-    page.setDefaultNavigationTimeout(180000); // 3 minutes
+// Browser fallback for fetchJson, only used when plain HTTP runs into a Cloudflare challenge.
+// Returns the page text once the challenge is gone (or maxWaitTime has passed).
+async function fetchPageTextWithBrowser(url: string, maxWaitTime: number): Promise<string | null> {
+  return withPage(async page => {
+    page.setDefaultNavigationTimeout(180000);
     page.setDefaultTimeout(180000);
-    
-    console.log(`  → Trying profile page: ${artist.profile_url}`);
-    await page.goto(artist.profile_url, { 
-      waitUntil: 'domcontentloaded', // Less strict than networkidle2
-      timeout: 180000 // 3 minutes
-    });
 
-    // Check if we hit Cloudflare challenge and wait for it to complete
+    await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 180000 });
+
+    // Wait for the Cloudflare challenge to complete
     let isCloudflare = false;
     let waitTime = 0;
-    const maxWaitTime = 90000; // Wait up to 90 seconds for Cloudflare
     const checkInterval = 3000; // Check every 3 seconds
-    
+
     while (waitTime < maxWaitTime) {
       const pageInfo = await page.evaluate(() => {
-        // @ts-ignore - document and window are available in browser context
         return {
           // @ts-ignore - document is available in browser context
           title: document.title,
-          // @ts-ignore - window is available in browser context
-          url: window.location.href,
           // @ts-ignore - document is available in browser context
           bodyText: document.body ? document.body.textContent?.substring(0, 500) : ''
         };
       });
-      
-      // Check if we're on Cloudflare challenge page
-      if (pageInfo.title.includes('Just a moment') || 
+
+      if (pageInfo.title.includes('Just a moment') ||
           pageInfo.title.includes('Please wait') ||
           pageInfo.bodyText.includes('Please complete a security check') ||
           pageInfo.bodyText.includes('Checking your browser') ||
@@ -588,241 +231,241 @@ async function scrapeFromProfilePage(artistId: number, userId: number, artist: a
           isCloudflare = true;
           console.log(`     ⏳ Cloudflare challenge detected, waiting for it to complete...`);
         }
-        console.log(`     ⏳ Still waiting... (${Math.round(waitTime/1000)}s/${Math.round(maxWaitTime/1000)}s)`);
-        await new Promise(resolve => setTimeout(resolve, checkInterval));
+        await delay(checkInterval);
         waitTime += checkInterval;
-        
+
         // Try to wait for navigation (Cloudflare might redirect)
         try {
           await Promise.race([
             page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: checkInterval }),
-            new Promise(resolve => setTimeout(resolve, checkInterval))
+            delay(checkInterval)
           ]);
         } catch (e) {
           // Navigation might not happen, that's okay
         }
       } else {
-        // We're past Cloudflare
         if (isCloudflare) {
-          console.log(`     ✓ Cloudflare challenge completed after ${Math.round(waitTime/1000)}s!`);
+          console.log(`     ✓ Cloudflare challenge completed after ${Math.round(waitTime/1000)}s`);
         }
         break;
       }
     }
-    
+
     if (isCloudflare && waitTime >= maxWaitTime) {
       console.log(`     ⚠️  Cloudflare challenge timed out after ${maxWaitTime/1000}s`);
+      recordBlock(url, 'challenge');
+    }
+
+    // Wait for content to load after Cloudflare passes
+    if (isCloudflare) {
+      await delay(CLOUDFLARE_SETTLE_DELAY);
     }
 
-    console.log(`     Page loaded, waiting for content...`);
-    await delay(PROFILE_PAGE_WAIT); // Wait for JavaScript to execute after Cloudflare
+    return await page.evaluate(() => {
+      // @ts-ignore - document is available in browser context
+      const preElement = document.querySelector('pre');
+      // @ts-ignore - document is available in browser context
+      return preElement ? preElement.textContent : document.body?.textContent || null;
+    });
+  });
+}
 
-    const data = await page.evaluate(() => {
-      const result: any = {
-        artworks: [],
-        displayName: null,
-        avatarUrl: null
-      };
+function browserFetch(maxWaitTime: number): BrowserFetch {
+  return url => fetchPageTextWithBrowser(url, maxWaitTime);
+}
 
-      try {
-        // @ts-ignore - window is available in browser context
-        const initialState = window.__INITIAL_STATE__;
+// Fallback method: scrape from profile page
+// Fetched once; the artworks are stored for every follower passed in
+async function scrapeFromProfilePage(followers: db.Artist[]) {
+  const artist = followers[0];
+
+  try {
+    const data = await withPage(async page => {
+      // Set longer timeouts for Cloudflare
+      page.setDefaultNavigationTimeout(180000); // 3 minutes
+      page.setDefaultTimeout(180000);
+    
+      const profileUrl = artstationUrl(`/${artist.username}`);
+      console.log(`  → Trying profile page: ${profileUrl}`);
+      await acquire(profileUrl);
+      await page.goto(profileUrl, { 
+        waitUntil: 'domcontentloaded', // Less strict than networkidle2
+        timeout: 180000 // 3 minutes
+      });
+
+      // Check if we hit Cloudflare challenge and wait for it to complete
+      let isCloudflare = false;
+      let waitTime = 0;
+      const maxWaitTime = 90000; // Wait up to 90 seconds for Cloudflare
+      const checkInterval = 3000; // Check every 3 seconds
+    
+      while (waitTime < maxWaitTime) {
+        const pageInfo = await page.evaluate(() => {
+          // @ts-ignore - document and window are available in browser context
+          return {
+            // @ts-ignore - document is available in browser context
+            title: document.title,
+            // @ts-ignore - window is available in browser context
+            url: window.location.href,
+            // @ts-ignore - document is available in browser context
+            bodyText: document.body ? document.body.textContent?.substring(0, 500) : ''
+          };
+        });
+      
+        // Check if we're on Cloudflare challenge page
+        if (pageInfo.title.includes('Just a moment') || 
+            pageInfo.title.includes('Please wait') ||
+            pageInfo.bodyText.includes('Please complete a security check') ||
+            pageInfo.bodyText.includes('Checking your browser') ||
+            pageInfo.bodyText.includes('DDoS protection by Cloudflare')) {
+          if (!isCloudflare) {
+            isCloudflare = true;
+            console.log(`     ⏳ Cloudflare challenge detected, waiting for it to complete...`);
+          }
+          console.log(`     ⏳ Still waiting... (${Math.round(waitTime/1000)}s/${Math.round(maxWaitTime/1000)}s)`);
+          await new Promise(resolve => setTimeout(resolve, checkInterval));
+          waitTime += checkInterval;
         
-        if (initialState) {
-          if (initialState.user) {
-            result.displayName = initialState.user.full_name || initialState.user.username;
-            result.avatarUrl = initialState.user.medium_avatar_url || initialState.user.small_picture_url;
+          // Try to wait for navigation (Cloudflare might redirect)
+          try {
+            await Promise.race([
+              page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: checkInterval }),
+              new Promise(resolve => setTimeout(resolve, checkInterval))
+            ]);
+          } catch (e) {
+            // Navigation might not happen, that's okay
+          }
+        } else {
+          // We're past Cloudflare
+          if (isCloudflare) {
+            console.log(`     ✓ Cloudflare challenge completed after ${Math.round(waitTime/1000)}s!`);
           }
+          break;
+        }
+      }
+    
+      if (isCloudflare && waitTime >= maxWaitTime) {
+        console.log(`     ⚠️  Cloudflare challenge timed out after ${maxWaitTime/1000}s`);
+        recordBlock(profileUrl, 'challenge');
+      } else {
+        recordSuccess(profileUrl);
+      }
+
+      console.log(`     Page loaded, waiting for content...`);
+      await delay(PROFILE_PAGE_WAIT); // Wait for JavaScript to execute after Cloudflare
+
+      return await page.evaluate(() => {
+        const result: any = {
+          artworks: [],
+          displayName: null,
+          avatarUrl: null
+        };
+
+        try {
+          // @ts-ignore - window is available in browser context
+          const initialState = window.__INITIAL_STATE__;
+        
+          if (initialState) {
+            if (initialState.user) {
+              result.displayName = initialState.user.full_name || initialState.user.username;
+              result.avatarUrl = initialState.user.medium_avatar_url || initialState.user.small_picture_url;
+            }
           
-          if (initialState.projects && initialState.projects.data) {
-            initialState.projects.data.forEach((project: any) => {
-              result.artworks.push({
-                artwork_id: project.hash_id || project.id?.toString() || '',
-                title: decodeHtmlEntities(project.title || 'Untitled'),
-                thumbnail_url: project.cover?.thumb_url || project.cover?.small_square_url || project.cover?.url || '',
-                high_quality_image_url: (project.cover?.thumb_url || project.cover?.small_square_url || project.cover?.url || '') 
-                  ? convertToHighQualityUrl(project.cover?.thumb_url || project.cover?.small_square_url || project.cover?.url || '') 
-                  : undefined,
-                artwork_url: project.permalink || `https://www.artstation.com/artwork/${project.hash_id}`,
-                upload_date: project.published_at || project.created_at,
-                updated_at: project.updated_at || project.published_at || project.created_at
+            if (initialState.projects && initialState.projects.data) {
+              initialState.projects.data.forEach((project: any) => {
+                result.artworks.push({
+                  artwork_id: project.hash_id || project.id?.toString() || '',
+                  title: decodeHtmlEntities(project.title || 'Untitled'),
+                  thumbnail_url: project.cover?.thumb_url || project.cover?.small_square_url || project.cover?.url || '',
+                  high_quality_image_url: (project.cover?.thumb_url || project.cover?.small_square_url || project.cover?.url || '') 
+                    ? convertToHighQualityUrl(project.cover?.thumb_url || project.cover?.small_square_url || project.cover?.url || '') 
+                    : undefined,
+                  artwork_url: project.permalink || `https://www.artstation.com/artwork/${project.hash_id}`,
+                  upload_date: project.published_at || project.created_at,
+                  updated_at: project.updated_at || project.published_at || project.created_at
+                });
               });
-            });
+            }
           }
+        } catch (e) {
+          console.error('Error extracting from initial state:', e);
         }
-      } catch (e) {
-        console.error('Error extracting from initial state:', e);
-      }
 
-      return result;
+        return result;
+      });
     });
 
-    // Update artist info
+    // Update artist info (shared catalog, so one update covers every follower)
     if (data.displayName && !artist.display_name) {
-      await db.updateArtist(artistId, userId, { display_name: data.displayName });
+      await db.updateArtist(artist.id, artist.user_id, { display_name: data.displayName });
     }
     if (data.avatarUrl && !artist.avatar_url) {
-      await db.updateArtist(artistId, userId, { avatar_url: data.avatarUrl });
+      await db.updateArtist(artist.id, artist.user_id, { avatar_url: data.avatarUrl });
     }
 
     console.log(`  → Found ${data.artworks.length} artworks from profile`);
 
     let newCount = 0;
-    for (const artwork of data.artworks) {
-      const result = await db.addArtwork(
-        userId,
-        artistId,
-        artwork.artwork_id,
-        artwork.title,
-        artwork.thumbnail_url,
-        artwork.artwork_url,
-        artwork.upload_date,
-        artwork.updated_at,
-        artwork.high_quality_image_url
-      );
-      if (result.isNew) {
-        newCount++;
+    const followerResults: FollowerScrapeResult[] = [];
+    for (const follower of followers) {
+      const followerResult: FollowerScrapeResult = { user_id: follower.user_id, artist_id: follower.id, new_artworks: 0, updated_artworks: 0 };
+      followerResults.push(followerResult);
+      for (const artwork of data.artworks) {
+        const result = await db.addArtwork(
+          follower.user_id,
+          follower.id,
+          artwork.artwork_id,
+          artwork.title,
+          artwork.thumbnail_url,
+          artwork.artwork_url,
+          artwork.upload_date,
+          artwork.updated_at,
+          artwork.high_quality_image_url
+        );
+        if (result.isNew) {
+          newCount++;
+          followerResult.new_artworks++;
+        }
       }
     }
 
-    await db.updateArtist(artistId, userId, { last_checked: new Date().toISOString() });
-
-    await page.close();
+    await db.updateArtist(artist.id, artist.user_id, { last_checked: new Date().toISOString() });
 
     return {
       artist: artist.username,
       total_found: data.artworks.length,
-      new_artworks: newCount
+      new_artworks: newCount,
+      followers: followerResults
     };
   } catch (error: any) {
     console.error(`     Error in scrapeFromProfilePage:`, error.message);
-    await page.close();
     throw error;
   }
 }
 
-// Quick check if artist has new artworks (optimized for "Check for Updates")
-export async function checkArtistForUpdates(artistId: number, userId: number): Promise<{
-  hasUpdates: boolean;
-  latestArtStationDate?: string;
-  latestDbDate?: string;
-}> {
-  const artist = await db.getArtistById(artistId, userId);
-  if (!artist) {
-    throw new Error('Artist not found');
-  }
-
-  // Get most recent artwork from database
-  const dbArtworks = await db.getAllArtworks(userId, { artist_id: artistId });
-  const latestDbArtwork = dbArtworks[0]; // Already sorted newest first
-  const latestDbDate = latestDbArtwork?.upload_date || latestDbArtwork?.discovered_at;
+// One quick check per ArtStation account, compared against the follower who is furthest behind
+export async function checkFollowersForUpdates(followers: db.Artist[], afterRename: boolean = false): Promise<UpdateCheckResult> {
+  const artist = followers[0];
+  const latestDbDate = await latestStoredDate(followers);
 
   // Fetch only first page from ArtStation (quick check)
-  const browser = await getBrowser();
-  const page = await browser.newPage();
-  await page.setViewport({ width: 1920, height: 1080 });
-  await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
-  
-  // Remove webdriver property (Cloudflare detects this)
-  await page.evaluateOnNewDocument(() => {
-    // @ts-ignore - navigator is available in browser context
-    Object.defineProperty(navigator, 'webdriver', {
-      get: () => undefined,
-    });
-  });
-  
-  // Add realistic browser headers
-  await page.setExtraHTTPHeaders({
-    'Accept-Language': 'en-US,en;q=0.9',
-    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-    'Accept-Encoding': 'gzip, deflate, br',
-    'DNT': '1',
-    'Connection': 'keep-alive',
-    'Upgrade-Insecure-Requests': '1',
-    'Sec-Fetch-Dest': 'document',
-    'Sec-Fetch-Mode': 'navigate',
-    'Sec-Fetch-Site': 'none',
-    'Sec-Fetch-User': '?1',
-    'Cache-Control': 'max-age=0'
-  });
-  
-  page.setDefaultNavigationTimeout(180000);
-  page.setDefaultTimeout(180000);
-
   try {
-    const apiUrl = `https://www.artstation.com/users/${artist.username}/projects.json?page=1`;
-    await page.goto(apiUrl, { waitUntil: 'domcontentloaded', timeout: 180000 });
-    
-    // Check if we hit Cloudflare challenge and wait for it to complete (quick check, shorter timeout)
-    let isCloudflare = false;
-    let waitTime = 0;
-    const maxWaitTime = 30000; // Wait up to 30 seconds for Cloudflare (quick check)
-    const checkInterval = 2000; // Check every 2 seconds
-    
-    while (waitTime < maxWaitTime) {
-      const pageInfo = await page.evaluate(() => {
-        // @ts-ignore - document and window are available in browser context
-        return {
-          // @ts-ignore - document is available in browser context
-          title: document.title,
-          // @ts-ignore - document is available in browser context
-          bodyText: document.body ? document.body.textContent?.substring(0, 200) : ''
-        };
-      });
-      
-      // Check if we're on Cloudflare challenge page
-      if (pageInfo.title.includes('Just a moment') || 
-          pageInfo.title.includes('Please wait') ||
-          pageInfo.bodyText.includes('Please complete a security check') ||
-          pageInfo.bodyText.includes('Checking your browser')) {
-        if (!isCloudflare) {
-          isCloudflare = true;
-        }
-        await new Promise(resolve => setTimeout(resolve, checkInterval));
-        waitTime += checkInterval;
-        
-        try {
-          await Promise.race([
-            page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: checkInterval }),
-            new Promise(resolve => setTimeout(resolve, checkInterval))
-          ]);
-        } catch (e) {
-          // Ignore
-        }
-      } else {
-        break;
-      }
-    }
-    
-    await delay(QUICK_CHECK_DELAY);
-
-    const jsonData = await page.evaluate(() => {
-      // @ts-ignore - document is available in browser context
-      const preElement = document.querySelector('pre');
-      if (preElement) {
-        return JSON.parse(preElement.textContent || '{}');
-      }
-      // @ts-ignore - document is available in browser context
-      const bodyText = document.body.textContent;
-      if (bodyText) {
-        try {
-          return JSON.parse(bodyText);
-        } catch (e) {
-          return null;
-        }
-      }
-      return null;
-    });
-
-    await page.close();
+    const apiUrl = artstationUrl(`/users/${artist.username}/projects.json?page=1`);
+    const jsonData = await fetchJson(apiUrl, browserFetch(30000));
 
     // Update last_checked timestamp - this should happen regardless of whether updates are found
     // The date represents when we last checked, not when we last found updates
-    await db.updateArtist(artistId, userId, { last_checked: new Date().toISOString() });
+    await db.updateArtist(artist.id, artist.user_id, { last_checked: new Date().toISOString() });
 
     if (!jsonData?.data || !Array.isArray(jsonData.data) || jsonData.data.length === 0) {
-      return { hasUpdates: false };
+      const change = await resolveMissingAccount(artist);
+      if (change?.moved && !afterRename) {
+        return checkFollowersForUpdates(withUsername(followers, change.username), true);
+      }
+      return { hasUpdates: false, account: change || undefined };
     }
+    await clearAccountStatus(artist);
+    await storeArtistProfile(artist, listedName(jsonData.data[0].user));
 
     // Get the most recent artwork date from ArtStation
     const latestProject = jsonData.data[0];
@@ -844,167 +487,34 @@ export async function checkArtistForUpdates(artistId: number, userId: number): P
       latestDbDate
     };
   } catch (error: any) {
-    await page.close();
+    if (isRateLimitError(error)) {
+      throw error;
+    }
     console.error(`  ⚠ Error checking updates for ${artist.username}:`, error.message);
     // Update last_checked even on error, since we did attempt to check
-    await db.updateArtist(artistId, userId, { last_checked: new Date().toISOString() });
+    await db.updateArtist(artist.id, artist.user_id, { last_checked: new Date().toISOString() });
     // If check fails, assume we need to scrape (safer)
     return { hasUpdates: true };
   }
 }
 
-// Optimized scraping: Only scrape new artworks, stop when finding existing ones
-interface ScrapeArtistUpdateOptions {
-  fullRescan?: boolean;
-  allowInsert?: boolean;
-  markUpdatesAsNew?: boolean;
-  notify?: boolean;
-}
-
-export async function scrapeArtistUpdates(artistId: number, userId: number, options?: ScrapeArtistUpdateOptions) {
-  const artist = await db.getArtistById(artistId, userId);
-  if (!artist) {
-    throw new Error('Artist not found');
-  }
-
-  // Get existing artwork IDs for this artist (to know when to stop)
-  const existingArtworks = await db.getAllArtworks(userId, { artist_id: artistId });
-  const isInitialImport = existingArtworks.length === 0;
-  const existingArtworkIds = new Set(existingArtworks.map(a => a.artwork_id));
-
-  const fullRescan = options?.fullRescan ?? false;
-  const allowInsert = options?.allowInsert ?? true;
-  const markUpdatesAsNew = options?.markUpdatesAsNew ?? !isInitialImport;
-  const notify = options?.notify ?? !isInitialImport;
-
-  if (fullRescan && existingArtworks.length === 0) {
-    console.log(`  ⏭ Skipping ${artist.username} full rescan - no existing artworks in database`);
-    return {
-      artist: artist.username,
-      total_found: 0,
-      new_artworks: 0,
-      updated_artworks: 0,
-      skipped_reason: 'no_existing_artworks'
-    };
-  }
-
-  console.log(`🔍 Scraping updates for ${artist.username}...`);
-
-  const browser = await getBrowser();
+// The account's projects from the API, newest first. Paging stops at the first project in
+// options.stopAt. Null when the first page is empty: the account is gone, private or was
+// renamed, or ArtStation didn't answer with JSON.
+export async function listProjects(artist: db.Artist, options?: ListWorksOptions): Promise<WorkListing | null> {
+  const stopAt = options?.fullList ? undefined : options?.stopAt;
   const artworks: ScrapedArtwork[] = [];
   let currentPage = 1;
   let hasMorePages = true;
   let foundExistingArtwork = false;
+  let listComplete = false; // Paged to the end of the account's projects
   let userInfo: any = null;
 
-  while (hasMorePages && (!foundExistingArtwork || fullRescan)) {
+  while (hasMorePages && !foundExistingArtwork) {
     console.log(`  → Fetching page ${currentPage}...`);
     
-    const page = await browser.newPage();
-    await page.setViewport({ width: 1920, height: 1080 });
-    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
-    
-    // Remove webdriver property (Cloudflare detects this)
-    await page.evaluateOnNewDocument(() => {
-      // @ts-ignore - navigator is available in browser context
-      Object.defineProperty(navigator, 'webdriver', {
-        get: () => undefined,
-      });
-    });
-    
-    // Add realistic browser headers
-    await page.setExtraHTTPHeaders({
-      'Accept-Language': 'en-US,en;q=0.9',
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-      'Accept-Encoding': 'gzip, deflate, br',
-      'DNT': '1',
-      'Connection': 'keep-alive',
-      'Upgrade-Insecure-Requests': '1',
-      'Sec-Fetch-Dest': 'document',
-      'Sec-Fetch-Mode': 'navigate',
-      'Sec-Fetch-Site': 'none',
-      'Sec-Fetch-User': '?1',
-      'Cache-Control': 'max-age=0'
-    });
-    
-    page.setDefaultNavigationTimeout(180000);
-    page.setDefaultTimeout(180000);
-
-    const apiUrl = `https://www.artstation.com/users/${artist.username}/projects.json?page=${currentPage}`;
-    await page.goto(apiUrl, { waitUntil: 'domcontentloaded', timeout: 180000 });
-    
-    // Check if we hit Cloudflare challenge and wait for it to complete
-    let isCloudflare = false;
-    let waitTime = 0;
-    const maxWaitTime = 60000; // Wait up to 60 seconds for Cloudflare (shorter for update checks)
-    const checkInterval = 3000; // Check every 3 seconds
-    
-    while (waitTime < maxWaitTime) {
-      const pageInfo = await page.evaluate(() => {
-        // @ts-ignore - document and window are available in browser context
-        return {
-          // @ts-ignore - document is available in browser context
-          title: document.title,
-          // @ts-ignore - window is available in browser context
-          url: window.location.href,
-          // @ts-ignore - document is available in browser context
-          bodyText: document.body ? document.body.textContent?.substring(0, 500) : ''
-        };
-      });
-      
-      // Check if we're on Cloudflare challenge page
-      if (pageInfo.title.includes('Just a moment') || 
-          pageInfo.title.includes('Please wait') ||
-          pageInfo.bodyText.includes('Please complete a security check') ||
-          pageInfo.bodyText.includes('Checking your browser') ||
-          pageInfo.bodyText.includes('DDoS protection by Cloudflare')) {
-        if (!isCloudflare) {
-          isCloudflare = true;
-          console.log(`     ⏳ Cloudflare challenge detected, waiting...`);
-        }
-        await new Promise(resolve => setTimeout(resolve, checkInterval));
-        waitTime += checkInterval;
-        
-        // Try to wait for navigation (Cloudflare might redirect)
-        try {
-          await Promise.race([
-            page.waitForNavigation({ waitUntil: 'domcontentloaded', timeout: checkInterval }),
-            new Promise(resolve => setTimeout(resolve, checkInterval))
-          ]);
-        } catch (e) {
-          // Navigation might not happen, that's okay
-        }
-      } else {
-        // We're past Cloudflare
-        if (isCloudflare) {
-          console.log(`     ✓ Cloudflare challenge completed`);
-        }
-        break;
-      }
-    }
-    
-    // Wait a bit more after Cloudflare passes
-    await delay(2000);
-
-    const jsonData = await page.evaluate(() => {
-      // @ts-ignore - document is available in browser context
-      const preElement = document.querySelector('pre');
-      if (preElement) {
-        return JSON.parse(preElement.textContent || '{}');
-      }
-      // @ts-ignore - document is available in browser context
-      const bodyText = document.body.textContent;
-      if (bodyText) {
-        try {
-          return JSON.parse(bodyText);
-        } catch (e) {
-          return null;
-        }
-      }
-      return null;
-    });
-
-    await page.close();
+    const apiUrl = artstationUrl(`/users/${artist.username}/projects.json?page=${currentPage}`);
+    const jsonData = await fetchJson(apiUrl, browserFetch(60000));
 
     if (jsonData?.data && Array.isArray(jsonData.data) && jsonData.data.length > 0) {
       console.log(`     Found ${jsonData.data.length} artworks on page ${currentPage}`);
@@ -1013,11 +523,14 @@ export async function scrapeArtistUpdates(artistId: number, userId: number, opti
       if (currentPage === 1 && jsonData.data[0]?.user) {
         userInfo = jsonData.data[0].user;
       }
+      if (currentPage === 1) {
+        await clearAccountStatus(artist);
+      }
 
       for (const project of jsonData.data) {
         if (!project.hash_id) continue;
 
-        const alreadyExists = existingArtworkIds.has(project.hash_id);
+        const alreadyExists = stopAt?.has(project.hash_id) ?? false;
 
         const artwork: ScrapedArtwork = {
           artwork_id: project.hash_id,
@@ -1037,12 +550,13 @@ export async function scrapeArtistUpdates(artistId: number, userId: number, opti
             : undefined,
           artwork_url: project.permalink || `https://www.artstation.com/artwork/${project.hash_id}`,
           upload_date: project.published_at || project.created_at,
+          project_updated_at: project.updated_at,
           alreadyExists
         };
 
         artworks.push(artwork);
 
-        if (alreadyExists && !fullRescan) {
+        if (alreadyExists) {
           foundExistingArtwork = true;
           console.log(`     Found existing artwork, stopping at page ${currentPage}`);
           break;
@@ -1050,278 +564,203 @@ export async function scrapeArtistUpdates(artistId: number, userId: number, opti
       }
 
       // Check if there are more pages
-      if (jsonData.data.length < 50 || (foundExistingArtwork && !fullRescan)) {
+      if (jsonData.data.length < 50 || foundExistingArtwork) {
         hasMorePages = false;
+        listComplete = jsonData.data.length < 50;
       } else {
         currentPage++;
-        await delay(PAGE_NAVIGATION_DELAY);
       }
     } else {
-      hasMorePages = false;
-      
-      // If this is the first page and we got no data, try fallback
       if (currentPage === 1) {
-        console.log('  ⚠ No valid JSON data found, trying profile page...');
-        return await scrapeFromProfilePage(artistId, userId, artist);
+        return null;
       }
+      hasMorePages = false;
+      // An empty page after a full one is the end of the list; no answer at all is not
+      listComplete = Array.isArray(jsonData?.data);
     }
   }
 
-  // Update artist info if available
-  if (userInfo) {
-    if (!artist.display_name && userInfo.full_name) {
-      await db.updateArtist(artistId, userId, { display_name: userInfo.full_name });
-    }
-    if (!artist.avatar_url && userInfo.medium_avatar_url) {
-      await db.updateArtist(artistId, userId, { avatar_url: userInfo.medium_avatar_url });
-    }
+  return {
+    works: artworks,
+    complete: listComplete,
+    pages: currentPage,
+    ...listedName(userInfo)
+  };
+}
+
+// Scrape one ArtStation account once and store the result for every follower passed in
+// (all entries share the same catalog artist). Paging stops at the first artwork that
+// every follower already has.
+export async function scrapeUpdatesForFollowers(
+  followers: db.Artist[],
+  options?: ScrapeArtistUpdateOptions,
+  afterRename: boolean = false
+): Promise<AccountScrapeResult> {
+  const artist = followers[0];
+  const fullRescan = options?.fullRescan ?? false;
+  const states = await followerStates(followers);
+
+  // A full rescan only revisits artworks that are already in the database
+  const targets = fullRescan ? states.filter(state => state.existingArtworkIds.size > 0) : states;
+
+  if (targets.length === 0) {
+    return skippedRescanResult(artist);
   }
 
-  // Store only new artworks and collect notification data
-  let newCount = 0;
-  let updatedCount = 0;
-  const newArtworksForNotification: Array<{
-    title: string;
-    artistName: string;
-    artistDisplayName?: string;
-    artworkUrl: string;
-    thumbnailUrl?: string;
-    uploadDate?: string;
-    changeType?: 'new' | 'updated';
-  }> = [];
-
-  for (const artwork of artworks) {
-    const result = await db.addArtwork(
-      userId,
-      artistId,
-      artwork.artwork_id,
-      artwork.title,
-      artwork.thumbnail_url,
-      artwork.artwork_url,
-      artwork.upload_date,
-      artwork.updated_at,
-      artwork.high_quality_image_url,
-      {
-        allowInsert: artwork.alreadyExists ? true : allowInsert,
-        markUpdatesAsNew: artwork.alreadyExists ? markUpdatesAsNew : true
-      }
-    );
-    if (result.skipped) {
-      continue;
+  console.log(`🔍 Scraping updates for ${artist.username}${targets.length > 1 ? ` (${targets.length} followers)` : ''}...`);
+
+  const listing = await listProjects(artist, { stopAt: idsKnownToAll(targets), fullList: fullRescan });
+
+  // If the first page had no data, find out whether the account is still there before
+  // trying the fallback
+  if (!listing) {
+    const change = await resolveMissingAccount(artist);
+    if (change?.moved && !afterRename) {
+      return await scrapeUpdatesForFollowers(withUsername(followers, change.username), options, true);
     }
-    if (result.isNew) {
-      newCount++;
-      newArtworksForNotification.push({
-        title: artwork.title,
-        artistName: artist.username,
-        artistDisplayName: artist.display_name || userInfo?.full_name,
-        artworkUrl: artwork.artwork_url,
-        thumbnailUrl: artwork.thumbnail_url,
-        uploadDate: artwork.upload_date,
-        changeType: 'new'
-      });
-    } else if (result.wasUpdated) {
-      updatedCount++;
-      console.log(`    ↺ Updated artwork detected: ${artwork.title}`);
-      newArtworksForNotification.push({
-        title: artwork.title,
-        artistName: artist.username,
-        artistDisplayName: artist.display_name || userInfo?.full_name,
-        artworkUrl: artwork.artwork_url,
-        thumbnailUrl: artwork.thumbnail_url,
-        uploadDate: artwork.upload_date,
-        changeType: 'updated'
-      });
+    if (change) {
+      return unavailableAccountResult(artist, change, targets.map(t => t.follower));
     }
+    console.log('  ⚠ No valid JSON data found, trying profile page...');
+    return await scrapeFromProfilePage(targets.map(t => t.follower));
   }
+  const artworks = listing.works;
 
-  // Update last_checked timestamp
-  await db.updateArtist(artistId, userId, { last_checked: new Date().toISOString() });
+  // Shared catalog, so one update covers every follower
+  await storeArtistProfile(artist, listing);
 
-  console.log(`  ✓ ${newCount} new, ${updatedCount} updated artworks processed (checked ${currentPage} page(s))`);
+  // Before storing, so reposts are known for the notifications; the hashes are saved once the
+  // artworks are in the catalog
+  const imageHashes = await hashScrapedArtworks(artist, artworks);
 
-  // Send Discord notifications if new artworks were found (only for update checks, not initial imports)
-  if (notify && newArtworksForNotification.length > 0) {
-    try {
-      await sendDiscordNotification(
-        userId,
-        artist.username,
-        artist.display_name || userInfo?.full_name,
-        newArtworksForNotification
-      );
-    } catch (error: any) {
-      // Don't fail scraping if notification fails
-      console.error(`  ⚠️  Failed to send Discord notification:`, error.message);
-    }
-  } else if (isInitialImport && newCount > 0) {
-    console.log(`  ℹ️  Skipping Discord notifications for @${artist.username} initial import (${newCount} artworks).`);
+  const followerResults: FollowerScrapeResult[] = [];
+  for (const { follower, existingArtworkIds } of targets) {
+    followerResults.push(await storeUpdatesForFollower(follower, existingArtworkIds, artworks, listing.display_name, options));
+  }
+
+  await db.saveCatalogImageHashes(artist.catalog_artist_id, imageHashes);
+
+  await storeProjectDetails(artist, artworks);
+
+  let removedCount = 0;
+  if (fullRescan && listing.complete) {
+    removedCount = (await recordRemovedArtworks(artist, artworks.map(a => a.artwork_id))).removed.length;
   }
 
+  // Update last_checked timestamp
+  await db.updateArtist(artist.id, artist.user_id, { last_checked: new Date().toISOString() });
+
+  const newCount = followerResults.reduce((sum, r) => sum + r.new_artworks, 0);
+  const updatedCount = followerResults.reduce((sum, r) => sum + r.updated_artworks, 0);
+  console.log(`  ✓ ${newCount} new, ${updatedCount} updated artworks processed (checked ${listing.pages} page(s))`);
+
   return {
     artist: artist.username,
     total_found: artworks.length,
     new_artworks: newCount,
-    updated_artworks: updatedCount
+    updated_artworks: updatedCount,
+    removed_artworks: removedCount,
+    followers: followerResults
   };
 }
 
-// Optimized scrape all artists: Quick check first, only scrape if updates exist
-export async function scrapeAllArtists(userId: number) {
-  const artists = await db.getAllArtists(userId);
-  
-  if (artists.length === 0) {
-    return { 
-      message: 'No artists to scrape', 
-      completed: 0,
-      skipped: 0,
-      failed: 0,
-      total_new_artworks: 0,
-      results: [] 
-    };
+// Fetch the project pages of scraped artworks that have no details yet, or were edited after
+// their details were fetched. Stored in the shared catalog, so once per account.
+async function storeProjectDetails(artist: db.Artist, artworks: ScrapedArtwork[]): Promise<number> {
+  if (PROJECT_DETAILS_PER_RUN <= 0 || artworks.length === 0) {
+    return 0;
   }
 
-  console.log(`\n🔄 Checking ${artists.length} artists for updates...\n`);
+  const fetchedAt = await db.getArtworkDetailsFetchedAt(artist.catalog_artist_id);
+  const pending = artworks
+    .filter(artwork => {
+      const fetched = fetchedAt.get(artwork.artwork_id);
+      if (!fetched) return true;
+      return !!artwork.project_updated_at && new Date(artwork.project_updated_at) > new Date(fetched);
+    })
+    .slice(0, PROJECT_DETAILS_PER_RUN);
+
+  if (pending.length === 0) {
+    return 0;
+  }
 
-  const results: any[] = [];
+  console.log(`  → Fetching project details for ${pending.length} artwork(s)...`);
+  let storedCount = 0;
 
-  for (const artist of artists) {
-    const start = Date.now();
+  for (const artwork of pending) {
     try {
-      // Quick check: does this artist have new artworks?
-      const checkResult = await checkArtistForUpdates(artist.id, userId);
-      
-      if (!checkResult.hasUpdates) {
-        console.log(`  ⏭ Skipping @${artist.username} - no updates`);
-        results.push({
-          artist: artist.username,
-          status: 'skipped',
-          reason: 'no_updates',
-          duration_ms: Date.now() - start
-        });
-        // Small delay even for skipped artists
-        await delay(QUICK_CHECK_DELAY);
-        continue;
+      const project = await fetchJson(artstationUrl(`/projects/${artwork.artwork_id}.json`), browserFetch(30000));
+      if (project && project.hash_id === artwork.artwork_id) {
+        if (await db.saveArtworkDetails(artist.catalog_artist_id, artwork.artwork_id, parseProjectDetails(project))) {
+          storedCount++;
+        }
+      } else {
+        console.log(`     ⚠ No project data for ${artwork.artwork_id}`);
       }
-
-      // Has updates - scrape only new artworks
-      console.log(`  🔍 @${artist.username} has updates, scraping...`);
-      const scrapeResult = await scrapeArtistUpdates(artist.id, userId);
-      results.push({
-        ...scrapeResult,
-        status: 'completed',
-        duration_ms: Date.now() - start
-      });
-
-      // Small delay between artists
-      await delay(PAGE_NAVIGATION_DELAY);
     } catch (error: any) {
-      console.error(`  ✗ Error checking @${artist.username}:`, error.message);
-      results.push({
-        artist: artist.username,
-        status: 'failed',
-        error: error.message,
-        duration_ms: Date.now() - start
-      });
+      // Details are optional, the artwork itself is already stored
+      console.error(`     ⚠ Failed to fetch details for ${artwork.artwork_id}:`, error.message);
+      if (isRateLimitError(error)) {
+        break; // Leave the rest for a later run
+      }
     }
   }
 
-  const completed = results.filter(r => r.status === 'completed').length;
-  const skipped = results.filter(r => r.status === 'skipped').length;
-  const failed = results.filter(r => r.status === 'failed').length;
-  const totalNew = results.reduce((sum, r) => sum + (r.new_artworks || 0), 0);
-  const totalUpdated = results.reduce((sum, r) => sum + (r.updated_artworks || 0), 0);
-
-  console.log(`\n✅ Check complete!`);
-  console.log(`   Updated: ${completed} artists`);
-  console.log(`   Skipped: ${skipped} artists (no updates)`);
-  console.log(`   Failed: ${failed} artists`);
-  console.log(`   Total new artworks: ${totalNew}`);
-  if (totalUpdated > 0) {
-    console.log(`   Total updated artworks: ${totalUpdated}`);
-  }
-
-  return {
-    completed,
-    skipped,
-    failed,
-    total_new_artworks: totalNew,
-    total_updated_artworks: totalUpdated,
-    total_artists: artists.length,
-    results
-  };
+  console.log(`  ✓ Stored project details for ${storedCount} artwork(s)`);
+  return storedCount;
 }
 
-export async function rescanAllArtists(userId: number) {
-  const artists = await db.getAllArtists(userId);
-  
-  if (artists.length === 0) {
-    return { 
-      message: 'No artists to rescan', 
-      processed: 0,
-      failed: 0,
-      total_updated_artworks: 0,
-      results: [] 
-    };
-  }
-
-  console.log(`\n🧹 Running full rescan for ${artists.length} artists...\n`);
+// Name and avatar as the projects list shows them
+function listedName(userInfo: any): { display_name?: string; avatar_url?: string } {
+  return { display_name: userInfo?.full_name || undefined, avatar_url: userInfo?.medium_avatar_url || undefined };
+}
 
-  const results: any[] = [];
+// Refresh the account's profile (headline, bio, links, follower counts) in the shared catalog.
+// If the profile can't be fetched, the name and avatar from the projects list are still kept current.
+async function storeArtistProfile(artist: db.Artist, listed: { display_name?: string; avatar_url?: string }): Promise<void> {
+  try {
+    const stored = await db.getArtistProfile(artist.catalog_artist_id);
+    if (stored && Date.now() - new Date(stored.fetched_at).getTime() < PROFILE_REFRESH_MS) {
+      return;
+    }
 
-  for (const artist of artists) {
-    const start = Date.now();
-    try {
-      const rescanResult = await scrapeArtistUpdates(artist.id, userId, {
-        fullRescan: true,
-        allowInsert: false,
-        markUpdatesAsNew: false,
-        notify: false
-      });
-      results.push({
-        ...rescanResult,
-        status: 'completed',
-        duration_ms: Date.now() - start
-      });
-      await delay(PAGE_NAVIGATION_DELAY);
-    } catch (error: any) {
-      console.error(`  ✗ Error rescanning @${artist.username}:`, error.message);
-      results.push({
-        artist: artist.username,
-        status: 'failed',
-        error: error.message,
-        duration_ms: Date.now() - start
-      });
+    const user = await fetchJson(artstationUrl(`/users/${artist.username}.json`), browserFetch(30000));
+    if (user?.username) {
+      await db.saveArtistProfile(artist.catalog_artist_id, parseArtistProfile(user));
+      return;
     }
+    console.log(`  ⚠ No profile data for ${artist.username}`);
+  } catch (error: any) {
+    // The profile is optional, the artworks are what matter
+    console.error(`  ⚠ Failed to fetch profile for ${artist.username}:`, error.message);
   }
 
-  const processed = results.filter(r => r.status === 'completed').length;
-  const failed = results.filter(r => r.status === 'failed').length;
-  const totalUpdated = results.reduce((sum, r) => sum + (r.updated_artworks || 0), 0);
-
-  console.log(`\n✅ Full rescan complete!`);
-  console.log(`   Processed: ${processed} artists`);
-  console.log(`   Failed: ${failed} artists`);
-  console.log(`   Updated artworks: ${totalUpdated}`);
+  const updates: Partial<db.Artist> = {};
+  if (listed.display_name && listed.display_name !== artist.display_name) {
+    updates.display_name = listed.display_name;
+  }
+  if (listed.avatar_url && listed.avatar_url !== artist.avatar_url) {
+    updates.avatar_url = listed.avatar_url;
+  }
+  if (Object.keys(updates).length > 0) {
+    await db.updateArtist(artist.id, artist.user_id, updates);
+  }
+}
 
+// Nothing to scrape: the account is gone, private, or was renamed to a handle tracked separately
+function unavailableAccountResult(artist: db.Artist, change: AccountStatusChange, followers: db.Artist[] = []) {
   return {
-    processed,
-    failed,
-    total_updated_artworks: totalUpdated,
-    total_artists: artists.length,
-    results
+    artist: artist.username,
+    status: 'skipped' as const,
+    reason: `account_${change.status}`,
+    total_found: 0,
+    new_artworks: 0,
+    updated_artworks: 0,
+    followers: emptyFollowerResults(followers)
   };
 }
 
-// Clean up browser on process exit
-process.on('exit', async () => {
-  if (browser) {
-    await browser.close();
-  }
-});
-
-process.on('SIGINT', async () => {
-  if (browser) {
-    await browser.close();
-  }
-  process.exit();
-});
+// The same follow entries under the account's new handle
+function withUsername(followers: db.Artist[], username: string): db.Artist[] {
+  return followers.map(f => ({ ...f, username, profile_url: `https://www.artstation.com/${username}` }));
+}
@@ -0,0 +1,101 @@
+// Scrape entry points for every source: each account is checked and scraped by the provider
+// of its source (see providers/). Runs over many artists are queued as jobs (see jobQueue.ts).
+
+import * as db from './database';
+import { getProvider } from './providers';
+import type { ScrapeArtistUpdateOptions, UpdateCheckResult } from './providers/types';
+import { emptyFollowerResults } from './providers/works';
+
+// Accounts checked in parallel (1 = sequential, which keeps Render's free tier stable).
+// Browser pages are limited separately by BROWSER_MAX_PAGES.
+export const CONCURRENT_ARTIST_LIMIT = Math.max(1, parseInt(process.env.CONCURRENT_ARTIST_LIMIT || '1'));
+
+async function getArtistOrThrow(artistId: number, userId: number): Promise<db.Artist> {
+  const artist = await db.getArtistById(artistId, userId);
+  if (!artist) {
+    throw new Error('Artist not found');
+  }
+  return artist;
+}
+
+// Everything the account has, stored for one follower (used right after adding an artist)
+export async function scrapeArtist(artistId: number, userId: number) {
+  const artist = await getArtistOrThrow(artistId, userId);
+  return getProvider(artist.source).scrapeArtist(artist);
+}
+
+// Quick check if artist has new artworks (optimized for "Check for Updates")
+export async function checkArtistForUpdates(artistId: number, userId: number): Promise<UpdateCheckResult> {
+  const artist = await getArtistOrThrow(artistId, userId);
+  return getProvider(artist.source).checkForUpdates([artist]);
+}
+
+// Optimized scraping: Only scrape new artworks, stop when finding existing ones
+export async function scrapeArtistUpdates(artistId: number, userId: number, options?: ScrapeArtistUpdateOptions) {
+  const artist = await getArtistOrThrow(artistId, userId);
+  return getProvider(artist.source).scrapeFollowers([artist], options);
+}
+
+// Quick check first, then scrape only the new artworks if there are any
+export async function checkAndScrapeArtist(artistId: number, userId: number) {
+  const artist = await getArtistOrThrow(artistId, userId);
+
+  const checkResult = await checkArtistForUpdates(artist.id, userId);
+  if (checkResult.account) {
+    return {
+      artist: artist.username,
+      status: 'skipped' as const,
+      reason: `account_${checkResult.account.status}`,
+      new_artworks: 0
+    };
+  }
+  if (!checkResult.hasUpdates) {
+    console.log(`  ⏭ Skipping @${artist.username} - no updates`);
+    return {
+      artist: artist.username,
+      status: 'skipped' as const,
+      reason: 'no_updates',
+      new_artworks: 0
+    };
+  }
+
+  console.log(`  🔍 @${artist.username} has updates, scraping...`);
+  const scrapeResult = await scrapeArtistUpdates(artist.id, userId);
+  return { status: 'completed' as const, ...scrapeResult };
+}
+
+// One account of a scheduled run: checked (or fully rescanned) once, results fanned out to
+// all of its followers
+export async function scrapeFollowedAccount(followers: db.Artist[], options?: { fullRescan?: boolean }) {
+  const artist = followers[0];
+  const provider = getProvider(artist.source);
+
+  if (!options?.fullRescan) {
+    const checkResult = await provider.checkForUpdates(followers);
+    if (checkResult.account) {
+      return {
+        artist: artist.username,
+        status: 'skipped' as const,
+        reason: `account_${checkResult.account.status}`,
+        followers: emptyFollowerResults(followers)
+      };
+    }
+    if (!checkResult.hasUpdates) {
+      console.log(`  ⏭ Skipping @${artist.username} - no updates`);
+      return {
+        artist: artist.username,
+        status: 'skipped' as const,
+        reason: 'no_updates',
+        followers: emptyFollowerResults(followers)
+      };
+    }
+    console.log(`  🔍 @${artist.username} has updates, scraping...`);
+  }
+
+  const scrapeResult = await provider.scrapeFollowers(
+    followers,
+    options?.fullRescan ? { fullRescan: true, allowInsert: false, markUpdatesAsNew: false, notify: false } : undefined
+  );
+  return { status: 'completed' as const, ...scrapeResult };
+}
+
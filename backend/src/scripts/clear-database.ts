@@ -8,11 +8,28 @@ console.log('🗑️  Clearing all data from database...');
 // Create a fresh empty database
 const freshDatabase = {
   users: [],
+  catalogArtists: [],
+  catalogArtworks: [],
   artists: [],
   artworks: [],
+  artworkRevisions: [],
+  artworkDetails: [],
+  trashedArtists: [],
+  trashedArtworks: [],
+  scrapeJobs: [],
+  scrapeJobItems: [],
+  scrapeRuns: [],
+  scrapeOutcomes: [],
   nextUserId: 1,
+  nextCatalogArtistId: 1,
+  nextCatalogArtworkId: 1,
   nextArtistId: 1,
-  nextArtworkId: 1
+  nextArtworkId: 1,
+  nextArtworkRevisionId: 1,
+  nextScrapeJobId: 1,
+  nextScrapeJobItemId: 1,
+  nextScrapeRunId: 1,
+  nextScrapeOutcomeId: 1
 };
 
 // Ensure data directory exists
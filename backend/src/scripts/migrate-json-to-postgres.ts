@@ -0,0 +1,330 @@
+import fs from 'fs';
+import dotenv from 'dotenv';
+import type pg from 'pg';
+import { createPool } from '../database-postgres';
+import { runMigrations } from '../migrations';
+
+dotenv.config();
+
+// One-shot copy of backend/data/arttracker.json into PostgreSQL.
+// Usage: DATABASE_URL=postgres://... npm run migrate:json-to-postgres -- [--file=./data/arttracker.json]
+//
+// Users keep their tokens so existing logins keep working. Artist and artwork ids are
+// reassigned by Postgres and remapped. Every insert is keyed on the natural unique
+// columns, so running it again only adds what is missing.
+
+interface JsonDatabase {
+  users: any[];
+  artists: any[];
+  artworks: any[];
+  catalogArtists?: any[];
+  catalogArtworks?: any[];
+  persistentFavorites?: any[];
+}
+
+interface UserCounts {
+  username: string;
+  artists: number;
+  artworks: number;
+  persistent_favorites: number;
+}
+
+function parseArgs() {
+  const fileArg = process.argv.slice(2).find(arg => arg.startsWith('--file='));
+  return {
+    file: fileArg ? fileArg.slice('--file='.length) : (process.env.DATABASE_PATH || './data/arttracker.json')
+  };
+}
+
+function toDate(value?: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Files written since the shared catalog keep content in catalogArtists/catalogArtworks.
+// Join it back into one flat row per user so both layouts are copied the same way.
+function flattenCatalog(source: JsonDatabase): JsonDatabase {
+  if (!source.catalogArtists) {
+    return source;
+  }
+
+  const catalogArtists = new Map(source.catalogArtists.map(c => [c.id, c]));
+  const catalogArtworks = new Map((source.catalogArtworks || []).map(c => [c.id, c]));
+
+  return {
+    ...source,
+    artists: source.artists.map(artist => {
+      const { id: _catalogId, created_at: _catalogCreatedAt, ...catalog } = catalogArtists.get(artist.catalog_artist_id) || {};
+      return { ...catalog, ...artist };
+    }),
+    artworks: source.artworks
+      .filter(artwork => catalogArtworks.has(artwork.catalog_artwork_id))
+      .map(artwork => {
+        const { id: _catalogId, discovered_at: _catalogDiscoveredAt, ...catalog } = catalogArtworks.get(artwork.catalog_artwork_id);
+        return { ...catalog, ...artwork };
+      })
+  };
+}
+
+async function migrateUser(client: pg.PoolClient, user: any): Promise<number> {
+  const existing = await client.query('SELECT id, token FROM users WHERE LOWER(username) = LOWER($1)', [user.username]);
+  if (existing.rows.length > 0) {
+    if (existing.rows[0].token !== user.token) {
+      console.warn(`   ⚠️  User ${user.username} already exists in Postgres with a different token; keeping the Postgres token`);
+    }
+    return existing.rows[0].id;
+  }
+
+  const result = await client.query(
+    `INSERT INTO users (username, artstation_username, token, created_at, discord_webhook_url, discord_user_id)
+     VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+    [
+      user.username,
+      user.artstation_username || null,
+      user.token,
+      toDate(user.created_at) || new Date(),
+      user.discord_webhook_url || null,
+      user.discord_user_id || null
+    ]
+  );
+  return result.rows[0].id;
+}
+
+async function migrateArtist(client: pg.PoolClient, userId: number, artist: any): Promise<number> {
+  // Files from before feed sources only have ArtStation artists
+  const source = artist.source || 'artstation';
+  const existing = await client.query(
+    `SELECT a.id FROM artists a
+     JOIN catalog_artists ca ON ca.id = a.catalog_artist_id
+     WHERE a.user_id = $1 AND LOWER(ca.username) = LOWER($2) AND ca.source = $3`,
+    [userId, artist.username, source]
+  );
+  if (existing.rows.length > 0) {
+    return existing.rows[0].id;
+  }
+
+  // Shared catalog entry; other users following the same account reuse it
+  const catalog = await client.query(
+    `INSERT INTO catalog_artists (username, source, feed_url, display_name, profile_url, avatar_url, last_checked, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT ((LOWER(username))) DO UPDATE
+       SET feed_url = COALESCE(catalog_artists.feed_url, EXCLUDED.feed_url),
+           display_name = COALESCE(catalog_artists.display_name, EXCLUDED.display_name),
+           avatar_url = COALESCE(catalog_artists.avatar_url, EXCLUDED.avatar_url),
+           last_checked = GREATEST(catalog_artists.last_checked, EXCLUDED.last_checked)
+     RETURNING id`,
+    [
+      artist.username,
+      source,
+      artist.feed_url || null,
+      artist.display_name || null,
+      artist.profile_url || artist.feed_url || `https://www.artstation.com/${artist.username}`,
+      artist.avatar_url || null,
+      toDate(artist.last_checked),
+      toDate(artist.created_at) || new Date()
+    ]
+  );
+
+  const result = await client.query(
+    'INSERT INTO artists (user_id, catalog_artist_id, created_at) VALUES ($1, $2, $3) RETURNING id',
+    [userId, catalog.rows[0].id, toDate(artist.created_at) || new Date()]
+  );
+  return result.rows[0].id;
+}
+
+async function migrateArtwork(client: pg.PoolClient, userId: number, artistId: number, artwork: any): Promise<boolean> {
+  const catalog = await client.query(
+    `INSERT INTO catalog_artworks (catalog_artist_id, artwork_id, title, thumbnail_url, high_quality_image_url, artwork_url,
+                                   upload_date, last_updated_at, discovered_at)
+     SELECT catalog_artist_id, $2, $3, $4, $5, $6, $7, $8, $9 FROM artists WHERE id = $1
+     ON CONFLICT (catalog_artist_id, artwork_id) DO UPDATE SET artwork_id = EXCLUDED.artwork_id
+     RETURNING id, revision`,
+    [
+      artistId,
+      artwork.artwork_id,
+      artwork.title || 'Untitled',
+      artwork.thumbnail_url || '',
+      artwork.high_quality_image_url || null,
+      artwork.artwork_url,
+      toDate(artwork.upload_date),
+      toDate(artwork.last_updated_at) || toDate(artwork.upload_date),
+      toDate(artwork.discovered_at) || new Date()
+    ]
+  );
+
+  const result = await client.query(
+    `INSERT INTO artworks (user_id, artist_id, catalog_artwork_id, is_new, is_favorite, synced_revision, discovered_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (user_id, catalog_artwork_id) DO NOTHING`,
+    [
+      userId,
+      artistId,
+      catalog.rows[0].id,
+      artwork.is_new ?? 0,
+      artwork.is_favorite || 0,
+      catalog.rows[0].revision,
+      toDate(artwork.discovered_at) || new Date()
+    ]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+async function countRows(client: pg.PoolClient | pg.Pool, userId: number): Promise<Omit<UserCounts, 'username'>> {
+  const result = await client.query(
+    `SELECT
+       (SELECT COUNT(*) FROM artists WHERE user_id = $1) AS artists,
+       (SELECT COUNT(*) FROM artworks WHERE user_id = $1) AS artworks,
+       (SELECT COUNT(*) FROM persistent_favorites WHERE user_id = $1) AS persistent_favorites`,
+    [userId]
+  );
+  const row = result.rows[0];
+  return {
+    artists: parseInt(row.artists, 10),
+    artworks: parseInt(row.artworks, 10),
+    persistent_favorites: parseInt(row.persistent_favorites, 10)
+  };
+}
+
+async function main() {
+  const { file } = parseArgs();
+  const databaseUrl = process.env.DATABASE_URL;
+
+  if (!databaseUrl || databaseUrl.startsWith('sqlite:')) {
+    console.error('❌ DATABASE_URL must point to the target PostgreSQL database.');
+    process.exit(1);
+  }
+
+  if (!fs.existsSync(file)) {
+    console.error(`❌ JSON database not found: ${file}`);
+    process.exit(1);
+  }
+
+  const source = flattenCatalog(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  const persistentFavorites = source.persistentFavorites || [];
+  console.log(`📂 Read ${file}`);
+  console.log(`   Users: ${source.users.length}, Artists: ${source.artists.length}, Artworks: ${source.artworks.length}, Persistent favorites: ${persistentFavorites.length}`);
+
+  const pool = createPool(databaseUrl);
+
+  try {
+    console.log('⬆️  Making sure the Postgres schema is up to date...');
+    await runMigrations(pool);
+
+    const client = await pool.connect();
+    const expected = new Map<number, UserCounts>();
+    const summary = { users: 0, artists: 0, artworks_inserted: 0, artworks_existing: 0, skipped_orphans: 0 };
+
+    try {
+      await client.query('BEGIN');
+
+      const userIdMap = new Map<number, number>();
+      for (const user of source.users) {
+        const pgUserId = await migrateUser(client, user);
+        userIdMap.set(user.id, pgUserId);
+        summary.users++;
+      }
+
+      // Artist ids are only unique per JSON file, so remap them through (json id -> postgres id)
+      const artistIdMap = new Map<number, number>();
+      for (const artist of source.artists) {
+        const pgUserId = userIdMap.get(artist.user_id);
+        if (!pgUserId) {
+          summary.skipped_orphans++;
+          continue;
+        }
+        artistIdMap.set(artist.id, await migrateArtist(client, pgUserId, artist));
+        summary.artists++;
+      }
+
+      for (const artwork of source.artworks) {
+        const pgUserId = userIdMap.get(artwork.user_id);
+        const pgArtistId = artistIdMap.get(artwork.artist_id);
+        if (!pgUserId || !pgArtistId) {
+          summary.skipped_orphans++;
+          continue;
+        }
+        if (await migrateArtwork(client, pgUserId, pgArtistId, artwork)) {
+          summary.artworks_inserted++;
+        } else {
+          summary.artworks_existing++;
+        }
+      }
+
+      for (const favorite of persistentFavorites) {
+        const pgUserId = userIdMap.get(favorite.user_id);
+        if (!pgUserId) {
+          summary.skipped_orphans++;
+          continue;
+        }
+        await client.query(
+          `INSERT INTO persistent_favorites (user_id, artist_username, artwork_id, artwork_url)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (user_id, artist_username, artwork_id) DO NOTHING`,
+          [pgUserId, favorite.artist_username.toLowerCase(), favorite.artwork_id, favorite.artwork_url]
+        );
+      }
+
+      // Expected per-user counts, based on what the JSON file holds for each user
+      for (const user of source.users) {
+        const pgUserId = userIdMap.get(user.id)!;
+        expected.set(pgUserId, {
+          username: user.username,
+          artists: source.artists.filter(a => a.user_id === user.id).length,
+          artworks: source.artworks.filter(a => a.user_id === user.id && artistIdMap.has(a.artist_id)).length,
+          persistent_favorites: new Set(
+            persistentFavorites
+              .filter(f => f.user_id === user.id)
+              .map(f => `${f.artist_username.toLowerCase()}:${f.artwork_id}`)
+          ).size
+        });
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    console.log('\n✅ Copy complete');
+    console.log(`   Users: ${summary.users}, Artists: ${summary.artists}`);
+    console.log(`   Artworks inserted: ${summary.artworks_inserted}, already present: ${summary.artworks_existing}`);
+    if (summary.skipped_orphans > 0) {
+      console.log(`   ⚠️  Skipped ${summary.skipped_orphans} row(s) pointing at a missing user or artist`);
+    }
+
+    // Verify: Postgres must hold at least what the JSON file had for every user
+    console.log('\n🔎 Verifying row counts...');
+    let mismatches = 0;
+    for (const [pgUserId, counts] of expected) {
+      const actual = await countRows(pool, pgUserId);
+      const ok =
+        actual.artists >= counts.artists &&
+        actual.artworks >= counts.artworks &&
+        actual.persistent_favorites >= counts.persistent_favorites;
+      if (!ok) mismatches++;
+      console.log(
+        `   ${ok ? '✓' : '✗'} ${counts.username}: ` +
+        `artists ${actual.artists}/${counts.artists}, ` +
+        `artworks ${actual.artworks}/${counts.artworks}, ` +
+        `persistent favorites ${actual.persistent_favorites}/${counts.persistent_favorites}`
+      );
+    }
+
+    if (mismatches > 0) {
+      console.error(`\n❌ ${mismatches} user(s) have fewer rows in Postgres than in the JSON file.`);
+      process.exitCode = 1;
+    } else {
+      console.log('\n✅ All row counts match. Point DATABASE_URL at Postgres and restart the backend.');
+    }
+  } catch (error: any) {
+    console.error('❌ Migration failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
@@ -0,0 +1,54 @@
+import dotenv from 'dotenv';
+import { createPool } from '../database-postgres';
+import { getMigrationStatus, runMigrations } from '../migrations';
+
+dotenv.config();
+
+// Usage: npm run migrate -- --status | --up | --dry-run
+async function main() {
+  const args = process.argv.slice(2);
+  const databaseUrl = process.env.DATABASE_URL;
+
+  if (!databaseUrl || databaseUrl.startsWith('sqlite:')) {
+    console.error('❌ DATABASE_URL must point to a PostgreSQL database to run migrations.');
+    process.exit(1);
+  }
+
+  const pool = createPool(databaseUrl);
+
+  try {
+    if (args.includes('--up')) {
+      console.log('⬆️  Applying pending migrations...');
+      const applied = await runMigrations(pool);
+      if (applied.length === 0) {
+        console.log('✅ Schema is up to date, nothing to apply.');
+      } else {
+        console.log(`✅ Applied ${applied.length} migration(s).`);
+      }
+    } else if (args.includes('--dry-run')) {
+      const pending = await runMigrations(pool, { dryRun: true });
+      if (pending.length === 0) {
+        console.log('✅ Schema is up to date, nothing would be applied.');
+      } else {
+        console.log(`📝 ${pending.length} migration(s) would be applied:`);
+        pending.forEach(m => console.log(`   - ${m.filename}`));
+      }
+    } else {
+      const status = await getMigrationStatus(pool);
+      console.log('📋 Migration status:');
+      status.applied.forEach(m => console.log(`   ✓ ${m.version}_${m.name} (applied ${m.applied_at})`));
+      status.pending.forEach(m => console.log(`   • ${m.filename} (pending)`));
+      status.unknown.forEach(m => console.log(`   ⚠️  ${m.version}_${m.name} (applied, but not in this build)`));
+      if (status.unknown.length > 0) {
+        console.log('\n⚠️  The database schema is ahead of this build. The server will refuse to start.');
+      }
+    }
+  } catch (error: any) {
+    console.error('❌ Migration failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
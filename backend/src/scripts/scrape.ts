@@ -1,16 +1,42 @@
 import dotenv from 'dotenv';
-import { initDatabase } from '../database';
-// Switch to Puppeteer scraper for Cloudflare bypass
-import { scrapeAllArtists } from '../scraper-puppeteer';
+import * as db from '../database';
+import { enqueueJob, startJobWorker, stopJobWorker, summarizeJob } from '../jobQueue';
 
 dotenv.config();
 
+const POLL_INTERVAL_MS = 2000;
+
+// Usage: npm run scrape [-- --task rescan-all]
+// Queues the same job as the scheduler (every followed account once) and runs the job worker
+// until it is finished. Leave the server stopped meanwhile, or it works the queue as well.
 async function main() {
-  console.log('🚀 Starting manual scrape...\n');
-  console.log('⚠️  Note: This script requires a user ID. Use the API endpoints instead.');
-  console.log('   Example: POST /api/scrape/all (requires authentication)');
-  process.exit(1);
-}
+  const args = process.argv.slice(2);
+  const type: db.ScrapeJobType = args.includes('rescan-all') ? 'rescan' : 'check';
+
+  await db.initDatabase();
+  console.log(`🚀 Starting manual ${type === 'rescan' ? 'full rescan' : 'update check'}...\n`);
 
-main();
+  const queued = await enqueueJob(type, null, {}, 'manual');
+  if (!queued) {
+    console.log('✅ No account is due for a check');
+    process.exit(0);
+  }
+  await startJobWorker();
 
+  let job = queued;
+  while (job.status === 'queued' || job.status === 'running') {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    job = (await db.getScrapeJob(queued.id)) || { ...job, status: 'failed' };
+  }
+  stopJobWorker();
+
+  const summary = summarizeJob(job);
+  console.log(`\n✅ Job #${job.id} ${job.status}: ${summary.completed} of ${summary.total} account(s) done, ${summary.dead} dead`);
+  console.log(`   New artworks: ${summary.new_artworks}, updated artworks: ${summary.updated_artworks}`);
+  process.exit(job.status === 'completed' ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error('❌ Scrape failed:', error);
+  process.exit(1);
+});
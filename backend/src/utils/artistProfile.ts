@@ -0,0 +1,54 @@
+/**
+ * Parses ArtStation's profile JSON (https://www.artstation.com/users/<name>.json)
+ * into the profile stored next to a catalog artist.
+ */
+
+import type { ArtistLink, ArtistProfile } from '../database';
+import { htmlToText, optionalNumber } from './projectDetails';
+
+function optionalText(value: any): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function httpUrl(value: any): string | undefined {
+  const url = optionalText(value);
+  return url && /^https?:\/\//i.test(url) ? url : undefined;
+}
+
+// Social and portfolio links; ArtStation keeps e-mail addresses among them, which are dropped
+export function parseArtistLinks(user: any): ArtistLink[] {
+  const links: ArtistLink[] = [];
+  const add = (network: any, value: any) => {
+    const url = httpUrl(value);
+    if (url && !links.some(link => link.url === url)) {
+      links.push({ network: optionalText(network)?.toLowerCase() || 'website', url });
+    }
+  };
+
+  if (Array.isArray(user.social_profiles)) {
+    for (const profile of [...user.social_profiles].sort((a, b) => (a?.position ?? 0) - (b?.position ?? 0))) {
+      add(profile?.social_network, profile?.url);
+    }
+  }
+  add('website', user.website_url);
+  return links;
+}
+
+export function parseArtistProfile(user: any, fetchedAt: string = new Date().toISOString()): ArtistProfile {
+  const bio = optionalText(user.summary) ?? optionalText(user.bio);
+  const location = optionalText(user.location)
+    ?? ([optionalText(user.city), optionalText(user.country)].filter(Boolean).join(', ') || undefined);
+
+  return {
+    display_name: optionalText(user.full_name),
+    avatar_url: httpUrl(user.medium_avatar_url) ?? httpUrl(user.large_avatar_url),
+    headline: optionalText(user.headline),
+    bio: bio ? htmlToText(bio) || undefined : undefined,
+    location,
+    cover_url: httpUrl(user.cover_url) ?? httpUrl(user.default_cover_url),
+    links: parseArtistLinks(user),
+    followers_count: optionalNumber(user.followers_count),
+    following_count: optionalNumber(user.following_count),
+    fetched_at: fetchedAt
+  };
+}
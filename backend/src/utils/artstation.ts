@@ -0,0 +1,17 @@
+/**
+ * Where ArtStation is fetched from. Defaults to the real site; tests point
+ * ARTSTATION_BASE_URL at the local stand-in server (see test/fake-artstation).
+ * Stored links (profile_url, artwork_url) always use the public site.
+ */
+
+const DEFAULT_BASE_URL = 'https://www.artstation.com';
+
+// Read on every call so the base URL can be set after startup (the test server picks a free port)
+export function getArtStationBaseUrl(): string {
+  return (process.env.ARTSTATION_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+}
+
+// Absolute URL for a path like /users/<name>/projects.json
+export function artstationUrl(path: string): string {
+  return `${getArtStationBaseUrl()}${path}`;
+}
@@ -0,0 +1,218 @@
+/**
+ * Parses syndication feeds (RSS 2.0, RSS 1.0/RDF, Atom and JSON Feed) into the
+ * items the feed provider stores as artworks, and finds the feeds a web page links to.
+ */
+
+import * as cheerio from 'cheerio';
+import { htmlToText } from './projectDetails';
+
+export interface FeedItem {
+  id: string; // guid/id as published, or the link when there is none
+  title: string;
+  link: string;
+  image_url?: string;
+  published_at?: string;
+  updated_at?: string;
+}
+
+export interface ParsedFeed {
+  title?: string;
+  link?: string; // The site the feed belongs to
+  image_url?: string;
+  items: FeedItem[]; // Newest first when every item is dated, otherwise in feed order
+}
+
+const FEED_TYPES = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/rdf+xml',
+  'application/feed+json',
+  'application/json'
+];
+
+const IMAGE_EXTENSION = /\.(jpe?g|png|gif|webp|avif)(\?|#|$)/i;
+
+function absoluteUrl(value: string | undefined, base: string): string | undefined {
+  if (!value || !value.trim()) return undefined;
+  try {
+    const url = new URL(value.trim(), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function isoDate(value: string | undefined): string | undefined {
+  if (!value || !value.trim()) return undefined;
+  const time = new Date(value.trim()).getTime();
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function plainTitle(value: string | undefined): string {
+  const title = htmlToText(value || '').replace(/\s+/g, ' ').trim();
+  return title || 'Untitled';
+}
+
+// First image in an item's HTML body
+function firstImageInHtml(html: string | undefined, base: string): string | undefined {
+  if (!html || !/<img/i.test(html)) return undefined;
+  return absoluteUrl(cheerio.load(html)('img[src]').first().attr('src'), base);
+}
+
+// Newest first, unless some items have no date to sort by
+function sortItems(items: FeedItem[]): FeedItem[] {
+  if (items.some(item => !item.published_at)) return items;
+  return [...items].sort((a, b) => new Date(b.published_at!).getTime() - new Date(a.published_at!).getTime());
+}
+
+function parseJsonFeed(feed: any, feedUrl: string): ParsedFeed | null {
+  if (!feed || typeof feed !== 'object' || !String(feed.version || '').includes('jsonfeed.org') || !Array.isArray(feed.items)) {
+    return null;
+  }
+  const link = absoluteUrl(feed.home_page_url, feedUrl);
+  const items: FeedItem[] = [];
+  for (const item of feed.items) {
+    const itemLink = absoluteUrl(item?.url || item?.external_url, feedUrl);
+    const id = item?.id !== undefined && item?.id !== null ? String(item.id) : itemLink;
+    if (!id) continue;
+    const attachment = Array.isArray(item.attachments)
+      ? item.attachments.find((a: any) => String(a?.mime_type || '').startsWith('image/'))
+      : undefined;
+    items.push({
+      id,
+      title: plainTitle(item.title || item.content_text?.slice(0, 100)),
+      link: itemLink || link || feedUrl,
+      image_url: absoluteUrl(item.image || item.banner_image || attachment?.url, feedUrl) ||
+        firstImageInHtml(item.content_html, itemLink || feedUrl),
+      published_at: isoDate(item.date_published),
+      updated_at: isoDate(item.date_modified || item.date_published)
+    });
+  }
+  return {
+    title: typeof feed.title === 'string' ? feed.title.trim() || undefined : undefined,
+    link,
+    image_url: absoluteUrl(feed.icon || feed.favicon, feedUrl),
+    items: sortItems(items)
+  };
+}
+
+export function parseFeed(body: string, feedUrl: string): ParsedFeed | null {
+  const text = body.trim();
+  if (text.startsWith('{')) {
+    try {
+      return parseJsonFeed(JSON.parse(text), feedUrl);
+    } catch (e) {
+      return null;
+    }
+  }
+  if (!text.startsWith('<')) return null;
+
+  const $ = cheerio.load(text, { xml: true });
+  // Namespaced tags (media:content, dc:date) are matched by name rather than with selectors
+  const children = (parent: any, ...names: string[]) =>
+    $(parent).children().filter((_, el) => names.includes((el as any).tagName?.toLowerCase()));
+  const childText = (parent: any, ...names: string[]) => {
+    for (const name of names) {
+      const value = children(parent, name).first().text().trim();
+      if (value) return value;
+    }
+    return undefined;
+  };
+  const mediaImage = (parent: any): string | undefined => {
+    const thumbnail = children(parent, 'media:thumbnail').first().attr('url');
+    if (thumbnail) return thumbnail;
+    const media = children(parent, 'media:content').toArray().concat(
+      children(children(parent, 'media:group').toArray(), 'media:content').toArray()
+    );
+    const image = media.find(el => {
+      const medium = $(el).attr('medium');
+      const type = $(el).attr('type') || '';
+      return medium === 'image' || type.startsWith('image/') || IMAGE_EXTENSION.test($(el).attr('url') || '');
+    });
+    if (image) return $(image).attr('url');
+    const enclosure = children(parent, 'enclosure').toArray()
+      .find(el => ($(el).attr('type') || '').startsWith('image/') || IMAGE_EXTENSION.test($(el).attr('url') || ''));
+    return enclosure ? $(enclosure).attr('url') : undefined;
+  };
+
+  const root = $.root().children().first();
+  const rootName = (root.get(0) as any)?.tagName?.toLowerCase();
+
+  if (rootName === 'feed') {
+    const atomLink = (parent: any, rel: string) => {
+      const link = children(parent, 'link').toArray().find(el => ($(el).attr('rel') || 'alternate') === rel);
+      return link ? $(link).attr('href') : undefined;
+    };
+    const feedLink = absoluteUrl(atomLink(root, 'alternate'), feedUrl);
+    const items: FeedItem[] = [];
+    for (const entry of children(root, 'entry').toArray()) {
+      const link = absoluteUrl(atomLink(entry, 'alternate'), feedUrl);
+      const id = childText(entry, 'id') || link;
+      if (!id) continue;
+      const enclosure = children(entry, 'link').toArray()
+        .find(el => $(el).attr('rel') === 'enclosure' && ($(el).attr('type') || '').startsWith('image/'));
+      items.push({
+        id,
+        title: plainTitle(childText(entry, 'title')),
+        link: link || feedLink || feedUrl,
+        image_url: absoluteUrl(mediaImage(entry) || (enclosure ? $(enclosure).attr('href') : undefined), feedUrl) ||
+          firstImageInHtml(childText(entry, 'content', 'summary'), link || feedUrl),
+        published_at: isoDate(childText(entry, 'published', 'updated')),
+        updated_at: isoDate(childText(entry, 'updated', 'published'))
+      });
+    }
+    return {
+      title: childText(root, 'title'),
+      link: feedLink,
+      image_url: absoluteUrl(childText(root, 'logo', 'icon'), feedUrl),
+      items: sortItems(items)
+    };
+  }
+
+  if (rootName !== 'rss' && rootName !== 'rdf:rdf') return null;
+
+  const channel = children(root, 'channel').first();
+  // RSS 2.0 keeps its items inside the channel, RSS 1.0 next to it
+  const itemElements = rootName === 'rss' ? children(channel, 'item').toArray() : children(root, 'item').toArray();
+  const channelLink = absoluteUrl(childText(channel, 'link'), feedUrl);
+  const items: FeedItem[] = [];
+  for (const item of itemElements) {
+    const link = absoluteUrl(childText(item, 'link') || $(item).attr('rdf:about'), feedUrl);
+    const id = childText(item, 'guid') || $(item).attr('rdf:about') || link;
+    if (!id) continue;
+    const body = childText(item, 'content:encoded', 'description');
+    const date = childText(item, 'pubdate', 'dc:date');
+    items.push({
+      id,
+      title: plainTitle(childText(item, 'title') || body?.slice(0, 100)),
+      link: link || channelLink || feedUrl,
+      image_url: absoluteUrl(mediaImage(item), feedUrl) || firstImageInHtml(body, link || feedUrl),
+      published_at: isoDate(date),
+      updated_at: isoDate(childText(item, 'atom:updated') || date)
+    });
+  }
+  const image = children(rootName === 'rss' ? channel : root, 'image').first();
+  return {
+    title: childText(channel, 'title'),
+    link: channelLink,
+    image_url: absoluteUrl(
+      childText(image, 'url') || image.attr('rdf:resource') || children(channel, 'itunes:image').first().attr('href'),
+      feedUrl
+    ),
+    items: sortItems(items)
+  };
+}
+
+// Feeds a web page announces with <link rel="alternate">, in page order
+export function findFeedLinks(html: string, pageUrl: string): string[] {
+  const $ = cheerio.load(html);
+  const links: string[] = [];
+  $('link[rel~="alternate"][href]').each((_, el) => {
+    const type = ($(el).attr('type') || '').split(';')[0].trim().toLowerCase();
+    const url = FEED_TYPES.includes(type) ? absoluteUrl($(el).attr('href'), pageUrl) : undefined;
+    if (url && !links.includes(url)) {
+      links.push(url);
+    }
+  });
+  return links;
+}
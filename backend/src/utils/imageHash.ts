@@ -0,0 +1,126 @@
+/**
+ * Perceptual hash (pHash) of an image: the low frequencies of a 32x32 grayscale copy, one bit
+ * per coefficient for whether it is above the median. Resized, recompressed or slightly edited
+ * copies of a picture end up a few bits apart; different pictures about half the bits apart.
+ */
+
+import * as jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+
+const SIZE = 32; // The image is scaled down to SIZE x SIZE
+const LOW = 8; // The LOW x LOW lowest frequencies make up the 64 bits
+
+// Decoding limits, so a huge or malicious file can't take the server's memory
+const MAX_RESOLUTION_MP = 50;
+const MAX_MEMORY_MB = 256;
+
+interface Pixels {
+  width: number;
+  height: number;
+  data: Uint8Array; // RGBA
+}
+
+function decode(data: Buffer): Pixels | null {
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return jpeg.decode(data, {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: MAX_RESOLUTION_MP,
+      maxMemoryUsageInMB: MAX_MEMORY_MB
+    });
+  }
+  if (data.subarray(1, 4).toString('latin1') === 'PNG') {
+    // pngjs has no limits of its own: check the size in the IHDR header before inflating anything
+    if (data.length < 24 || data.subarray(12, 16).toString('latin1') !== 'IHDR' ||
+        data.readUInt32BE(16) * data.readUInt32BE(20) > MAX_RESOLUTION_MP * 1000000) {
+      throw new Error('PNG image too large or broken');
+    }
+    return PNG.sync.read(data);
+  }
+  return null; // GIF, WebP, ... aren't hashed
+}
+
+// Average luminance of each cell of a SIZE x SIZE grid over the image
+function grayscaleGrid({ width, height, data }: Pixels): number[][] {
+  const grid: number[][] = [];
+  for (let y = 0; y < SIZE; y++) {
+    const top = Math.floor((y * height) / SIZE);
+    const bottom = Math.max(top + 1, Math.floor(((y + 1) * height) / SIZE));
+    const row: number[] = [];
+    for (let x = 0; x < SIZE; x++) {
+      const left = Math.floor((x * width) / SIZE);
+      const right = Math.max(left + 1, Math.floor(((x + 1) * width) / SIZE));
+      let sum = 0;
+      for (let py = top; py < bottom; py++) {
+        for (let px = left; px < right; px++) {
+          const i = (py * width + px) * 4;
+          sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        }
+      }
+      row.push(sum / ((bottom - top) * (right - left)));
+    }
+    grid.push(row);
+  }
+  return grid;
+}
+
+// DCT-II coefficients (u, v) for u, v < LOW
+function lowFrequencies(grid: number[][]): number[] {
+  const cosines = Array.from({ length: LOW }, (_, u) =>
+    Array.from({ length: SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * SIZE)))
+  );
+  const coefficients: number[] = [];
+  for (let v = 0; v < LOW; v++) {
+    for (let u = 0; u < LOW; u++) {
+      let sum = 0;
+      for (let y = 0; y < SIZE; y++) {
+        for (let x = 0; x < SIZE; x++) {
+          sum += grid[y][x] * cosines[u][x] * cosines[v][y];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+  return coefficients;
+}
+
+/**
+ * 64-bit perceptual hash as 16 hex digits; null for formats that can't be decoded.
+ * Throws on a broken JPEG or PNG.
+ */
+export function perceptualHash(data: Buffer): string | null {
+  const pixels = decode(data);
+  if (!pixels || pixels.width === 0 || pixels.height === 0) {
+    return null;
+  }
+
+  const coefficients = lowFrequencies(grayscaleGrid(pixels));
+  // The first coefficient is the overall brightness; it would dominate the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+
+  let hex = '';
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0);
+    }
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+const HASH_PATTERN = /^[0-9a-f]{16}$/;
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+// Number of differing bits between two hashes; all 64 when they aren't both 16 hex digits
+export function hammingDistance(a: string, b: string): number {
+  if (!HASH_PATTERN.test(a) || !HASH_PATTERN.test(b)) {
+    return 64;
+  }
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+}
@@ -0,0 +1,81 @@
+/**
+ * Parses ArtStation's per-project JSON (https://www.artstation.com/projects/<hash_id>.json)
+ * into the details stored next to a catalog artwork.
+ */
+
+import type { ArtworkAsset, ArtworkDetails } from '../database';
+
+// Asset types that only exist for ArtStation's own layout (the cover is already the thumbnail)
+const SKIPPED_ASSET_TYPES = ['cover'];
+
+// Plain text from ArtStation's description HTML
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Videos come as embed HTML (an iframe for YouTube/Vimeo, a video tag for clips)
+function embedSource(html: string | undefined): string | undefined {
+  if (!html) return undefined;
+  const match = html.match(/\ssrc=["']([^"']+)["']/i);
+  return match && /^https?:\/\//.test(match[1]) ? match[1] : undefined;
+}
+
+function names(items: any): string[] {
+  if (!Array.isArray(items)) return [];
+  return items
+    .map(item => (typeof item === 'string' ? item : item?.name))
+    .filter((name): name is string => typeof name === 'string' && name.length > 0);
+}
+
+export function optionalNumber(value: any): number | undefined {
+  return typeof value === 'number' && isFinite(value) ? value : undefined;
+}
+
+export function parseProjectAssets(assets: any): ArtworkAsset[] {
+  if (!Array.isArray(assets)) return [];
+
+  return assets
+    .filter(asset => asset && !SKIPPED_ASSET_TYPES.includes(asset.asset_type))
+    .map((asset, index) => ({
+      position: optionalNumber(asset.position) ?? index,
+      asset_type: String(asset.asset_type || 'image'),
+      image_url: asset.has_image === false ? undefined : asset.image_url || undefined,
+      video_url: embedSource(asset.player_embedded),
+      width: optionalNumber(asset.width),
+      height: optionalNumber(asset.height),
+      title: asset.title || undefined
+    }))
+    .filter(asset => asset.image_url || asset.video_url)
+    .sort((a, b) => a.position - b.position);
+}
+
+export function parseProjectDetails(project: any, fetchedAt: string = new Date().toISOString()): ArtworkDetails {
+  const description = project.description
+    ? htmlToText(String(project.description))
+    : project.description_html
+      ? htmlToText(String(project.description_html))
+      : '';
+
+  return {
+    description: description || undefined,
+    tags: names(project.tags),
+    mediums: names(project.mediums),
+    software: names(project.software_items),
+    categories: names(project.categories),
+    likes_count: optionalNumber(project.likes_count),
+    views_count: optionalNumber(project.views_count),
+    assets: parseProjectAssets(project.assets),
+    fetched_at: fetchedAt
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * In-memory full-text search used by the JSON and SQLite backends
+ * (PostgreSQL uses tsvector columns instead, see migrations/007_artwork_search.sql)
+ *
+ * Matching mirrors Postgres' 'simple' configuration with prefix queries:
+ * text is lowercased and split into words, every query term must match,
+ * and a term matches any word that starts with it ("drag" finds "dragon").
+ */
+
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+
+const MAX_TERMS = 10;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Matches in the title count more than matches in the artist name (like tsvector weights A/B)
+export const TITLE_WEIGHT = 1;
+export const ARTIST_WEIGHT = 0.4;
+const PREFIX_FACTOR = 0.5; // A prefix match ranks lower than a whole-word match
+
+export interface SearchField {
+  text: string;
+  weight: number;
+}
+
+export interface SearchDocument {
+  id: number;
+  fields: SearchField[];
+}
+
+// token -> document id -> accumulated weight
+export type SearchIndex = Map<string, Map<number, number>>;
+
+export function tokenize(text: string): string[] {
+  return (text || '').toLowerCase().match(WORD_PATTERN) || [];
+}
+
+// Unique query terms, in order
+export function parseSearchTerms(query: string): string[] {
+  return [...new Set(tokenize(query))].slice(0, MAX_TERMS);
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const index: SearchIndex = new Map();
+
+  for (const document of documents) {
+    for (const field of document.fields) {
+      for (const token of tokenize(field.text)) {
+        let postings = index.get(token);
+        if (!postings) {
+          postings = new Map();
+          index.set(token, postings);
+        }
+        postings.set(document.id, (postings.get(document.id) || 0) + field.weight);
+      }
+    }
+  }
+
+  return index;
+}
+
+// Rank of every document matching all terms (higher is better)
+export function searchIndex(index: SearchIndex, terms: string[]): Map<number, number> {
+  let ranks: Map<number, number> | null = null;
+
+  for (const term of terms) {
+    const termRanks = new Map<number, number>();
+    for (const [token, postings] of index) {
+      if (!token.startsWith(term)) continue;
+      const factor = token === term ? 1 : PREFIX_FACTOR;
+      for (const [id, weight] of postings) {
+        termRanks.set(id, (termRanks.get(id) || 0) + weight * factor);
+      }
+    }
+
+    const previous: Map<number, number> | null = ranks;
+    ranks = new Map();
+    for (const [id, rank] of termRanks) {
+      if (previous === null) {
+        ranks.set(id, rank);
+      } else if (previous.has(id)) {
+        ranks.set(id, previous.get(id)! + rank);
+      }
+    }
+
+    if (ranks.size === 0) break;
+  }
+
+  return ranks || new Map();
+}
+
+// Rank a single document without building an index (0 when a term doesn't match)
+export function scoreDocument(fields: SearchField[], terms: string[]): number {
+  let total = 0;
+
+  for (const term of terms) {
+    let termRank = 0;
+    for (const field of fields) {
+      for (const token of tokenize(field.text)) {
+        if (token.startsWith(term)) {
+          termRank += field.weight * (token === term ? 1 : PREFIX_FACTOR);
+        }
+      }
+    }
+    if (termRank === 0) return 0;
+    total += termRank;
+  }
+
+  return total;
+}
+
+// Wrap every word matching a term in <mark></mark>, keeping the original text
+export function highlightMatches(text: string, terms: string[]): string {
+  if (!text) return text;
+  return text.replace(WORD_PATTERN, word => {
+    const token = word.toLowerCase();
+    return terms.some(term => token.startsWith(term)) ? `${HIGHLIGHT_START}${word}${HIGHLIGHT_END}` : word;
+  });
+}
@@ -0,0 +1,125 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as db from '../src/database';
+import { buildAccountArchive, importAccountArchive } from '../src/accountArchive';
+import { scrapeArtist } from '../src/scraper';
+import { createTestUser, followArtist, useFakeArtStation } from './helpers/context';
+
+useFakeArtStation();
+
+describe('account archive', () => {
+  it('links artworks the catalog has without changing them and skips the rest', async () => {
+    const follower = await createTestUser();
+    const artist = await followArtist(follower, 'sculptor');
+    await scrapeArtist(artist.id, follower.id);
+    const [scraped] = await db.getAllArtworks(follower.id, { artist_id: artist.id });
+
+    const archive = await buildAccountArchive(follower);
+    const archivedArtist = archive.artists[0];
+    archivedArtist.artworks = [
+      {
+        ...archivedArtist.artworks.find(artwork => artwork.artwork_id === scraped.artwork_id)!,
+        title: 'Defaced',
+        thumbnail_url: 'https://attacker.example/thumb.png',
+        artwork_url: 'https://attacker.example/artwork'
+      },
+      {
+        ...archivedArtist.artworks[0],
+        artwork_id: 'archived-only',
+        title: 'Only in the archive',
+        artwork_url: 'https://www.artstation.com/artwork/archived-only'
+      }
+    ];
+
+    const importer = await createTestUser();
+    const summary = await importAccountArchive(importer, archive);
+    assert.equal(summary.artworks_added, 1);
+    assert.equal(summary.artworks_skipped, 1);
+
+    // The shared catalog row, and so every follower's feed, is unchanged
+    const [unchanged] = await db.getAllArtworks(follower.id, { artist_id: artist.id }).then(artworks =>
+      artworks.filter(artwork => artwork.artwork_id === scraped.artwork_id)
+    );
+    assert.equal(unchanged.title, scraped.title);
+    assert.equal(unchanged.thumbnail_url, scraped.thumbnail_url);
+    assert.equal(unchanged.artwork_url, scraped.artwork_url);
+    assert.equal(unchanged.is_new, scraped.is_new);
+
+    const imported = await db.getAllArtworks(importer.id);
+    assert.equal(imported.find(artwork => artwork.artwork_id === scraped.artwork_id)?.thumbnail_url, scraped.thumbnail_url);
+    assert.equal(imported.find(artwork => artwork.artwork_id === 'archived-only'), undefined);
+    assert.equal((await db.getAllArtworks(follower.id)).find(artwork => artwork.artwork_id === 'archived-only'), undefined);
+  });
+
+  it('follows new accounts by handle only and never takes artist details from the archive', async () => {
+    const source = await createTestUser();
+    const archive = await buildAccountArchive(source);
+    const artwork = {
+      artwork_id: 'forged',
+      title: 'Forged',
+      thumbnail_url: 'https://attacker.example/thumb.png',
+      artwork_url: 'javascript:alert(1)',
+      is_new: 0,
+      is_favorite: 1,
+      discovered_at: new Date().toISOString()
+    };
+    archive.artists = [
+      {
+        username: 'archived-handle',
+        display_name: 'Forged name',
+        profile_url: 'javascript:alert(1)',
+        avatar_url: 'https://attacker.example/avatar.png',
+        created_at: new Date().toISOString(),
+        artworks: [artwork]
+      },
+      {
+        source: 'rss',
+        username: 'attacker.example/feed',
+        profile_url: 'javascript:alert(1)',
+        feed_url: 'https://attacker.example/feed',
+        created_at: new Date().toISOString(),
+        artworks: [artwork]
+      },
+      {
+        username: 'not a handle',
+        profile_url: 'https://www.artstation.com/x',
+        created_at: new Date().toISOString(),
+        artworks: []
+      }
+    ];
+
+    const importer = await createTestUser();
+    const summary = await importAccountArchive(importer, archive);
+    assert.deepEqual(
+      [summary.artists_added, summary.artists_skipped, summary.artworks_added, summary.artworks_skipped, summary.persistent_favorites],
+      [1, 2, 0, 1, 0]
+    );
+
+    const [artist] = await db.getAllArtists(importer.id);
+    assert.equal(artist.username, 'archived-handle');
+    assert.equal(artist.profile_url, 'https://www.artstation.com/archived-handle');
+    assert.equal(artist.display_name, undefined);
+    assert.equal(artist.avatar_url, undefined);
+    assert.deepEqual(await db.getAllArtworks(importer.id), []);
+  });
+
+  it('only restores Discord settings that PATCH /api/user would accept', async () => {
+    const source = await createTestUser();
+    const archive = await buildAccountArchive(source);
+
+    const rejected = await createTestUser();
+    archive.profile.discord_webhook_url = 'http://169.254.169.254/latest/meta-data/';
+    archive.profile.discord_user_id = 'everyone';
+    assert.deepEqual((await importAccountArchive(rejected, archive)).profile_fields_updated, []);
+    assert.equal((await db.getUserById(rejected.id))?.discord_webhook_url, undefined);
+
+    const accepted = await createTestUser();
+    archive.profile.discord_webhook_url = 'https://discord.com/api/webhooks/123/abc';
+    archive.profile.discord_user_id = '123456789012345678';
+    await importAccountArchive(accepted, archive);
+    const restored = await db.getUserById(accepted.id);
+    assert.equal(restored?.discord_webhook_url, 'https://discord.com/api/webhooks/123/abc');
+    assert.equal(restored?.discord_user_id, '123456789012345678');
+  });
+});
@@ -0,0 +1,133 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import * as db from '../src/database';
+import { usernameFromLocation } from '../src/accountStatus';
+import { checkAndScrapeArtist, scrapeArtist } from '../src/scraper';
+import { createTestUser, followArtist, newProject, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+// Stands in for the Discord webhook, collecting the messages sent to it
+const webhookMessages: string[] = [];
+let webhookUrl = '';
+let closeWebhook = () => {};
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.post('/webhook', (req, res) => {
+    webhookMessages.push(req.body.content);
+    res.status(204).end();
+  });
+  const listening = await new Promise<ReturnType<typeof app.listen>>(resolve => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  webhookUrl = `http://127.0.0.1:${(listening.address() as AddressInfo).port}/webhook`;
+  closeWebhook = () => listening.close();
+});
+
+after(() => closeWebhook());
+
+// A fresh account per test, so the shared catalog doesn't carry artworks over from another test
+function addAccount(username: string, projectCount: number): any[] {
+  const template = server().accounts.get('painter')![0];
+  const projects = Array.from({ length: projectCount }, (_, i) =>
+    newProject(template, `${username}-${i}`, `Piece ${i}`)
+  );
+  server().accounts.set(username, projects);
+  return projects;
+}
+
+async function createNotifiedUser(): Promise<db.User> {
+  const user = await createTestUser();
+  await db.updateUser(user.id, { discord_webhook_url: webhookUrl });
+  return user;
+}
+
+describe('account status', () => {
+  it('follows a renamed account to its new handle and keeps its artworks', async () => {
+    const user = await createNotifiedUser();
+    const projects = addAccount('oldhandle', 3);
+    const artist = await followArtist(user, 'oldhandle');
+    await scrapeArtist(artist.id, user.id);
+    const [favorite] = await db.getAllArtworks(user.id, { artist_id: artist.id });
+    await db.toggleFavorite(favorite.id, user.id);
+
+    server().accounts.delete('oldhandle');
+    server().accounts.set('newhandle', [newProject(projects[0], 'newhandle-0', 'After the move'), ...projects]);
+    server().renamed.set('oldhandle', 'newhandle');
+    webhookMessages.length = 0;
+
+    const result = await checkAndScrapeArtist(artist.id, user.id);
+
+    assert.equal(result.status, 'completed');
+    assert.equal(result.new_artworks, 1);
+    const renamed = (await db.getArtistById(artist.id, user.id))!;
+    assert.equal(renamed.username, 'newhandle');
+    assert.equal(renamed.profile_url, 'https://www.artstation.com/newhandle');
+    assert.equal(renamed.previous_username, 'oldhandle');
+    assert.equal(renamed.account_status, 'renamed');
+    assert.equal((await db.getAllArtworks(user.id, { artist_id: artist.id })).length, 4);
+    assert.equal(await db.isPersistentFavorite(user.id, 'newhandle', favorite.artwork_id), true);
+    // The rename, then the new artwork
+    const renameMessages = webhookMessages.filter(message => message.includes('is now'));
+    assert.equal(renameMessages.length, 1);
+    assert.match(renameMessages[0], /@oldhandle\) is now @newhandle/);
+  });
+
+  it('marks a deleted account as gone and notifies its followers once', async () => {
+    const user = await createNotifiedUser();
+    const otherUser = await createNotifiedUser();
+    addAccount('vanished', 2);
+    const artist = await followArtist(user, 'vanished');
+    await followArtist(otherUser, 'vanished');
+    await scrapeArtist(artist.id, user.id);
+
+    server().accounts.delete('vanished');
+    webhookMessages.length = 0;
+
+    const first = await checkAndScrapeArtist(artist.id, user.id);
+    const second = await checkAndScrapeArtist(artist.id, user.id);
+
+    assert.equal(first.status, 'skipped');
+    assert.equal(first.reason, 'account_gone');
+    assert.equal(second.reason, 'account_gone');
+    const gone = (await db.getArtistById(artist.id, user.id))!;
+    assert.equal(gone.account_status, 'gone');
+    assert.ok(gone.account_status_changed_at);
+    assert.ok(new Date(gone.last_checked!).getTime() >= new Date(gone.account_status_changed_at!).getTime());
+    assert.equal((await db.getAllArtworks(user.id, { artist_id: artist.id })).length, 2);
+    // One message per follower, none for the second check
+    assert.equal(webhookMessages.length, 2);
+    assert.ok(webhookMessages.every(message => message.includes('no longer exists')));
+  });
+
+  it('marks a hidden account as private until it loads again', async () => {
+    const user = await createNotifiedUser();
+    addAccount('shy', 2);
+    const artist = await followArtist(user, 'shy');
+    server().privateAccounts.add('shy');
+
+    const hidden = await checkAndScrapeArtist(artist.id, user.id);
+
+    assert.equal(hidden.status, 'skipped');
+    assert.equal(hidden.reason, 'account_private');
+    assert.equal((await db.getArtistById(artist.id, user.id))!.account_status, 'private');
+
+    server().privateAccounts.delete('shy');
+    const visible = await scrapeArtist(artist.id, user.id);
+
+    assert.equal(visible.new_artworks, 2);
+    assert.equal((await db.getArtistById(artist.id, user.id))!.account_status, 'active');
+  });
+
+  it('reads the handle from redirect targets', () => {
+    assert.equal(usernameFromLocation('/users/newname.json'), 'newname');
+    assert.equal(usernameFromLocation('https://www.artstation.com/newname'), 'newname');
+    assert.equal(usernameFromLocation('/users/newname/projects.json?page=1'), 'newname');
+    assert.equal(usernameFromLocation('/'), null);
+  });
+});
@@ -0,0 +1,109 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as db from '../src/database';
+import { checkArtistForUpdates, scrapeArtist } from '../src/scraper';
+import { parseArtistProfile } from '../src/utils/artistProfile';
+import { createTestUser, followArtist, newProject, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+// A fresh account per test, so profiles stored by another test don't get in the way
+function addAccount(username: string, profile: any) {
+  const template = server().accounts.get('painter')![0];
+  server().accounts.set(username, [
+    { ...newProject(template, `${username}-0`, 'Piece 0'), user: { ...template.user, username, full_name: 'First Name' } }
+  ]);
+  server().profiles.set(username, profile);
+}
+
+// Profiles younger than half an hour aren't fetched again, so age the stored one
+async function ageProfile(catalogArtistId: number, fetchedAt: string) {
+  const profile = (await db.getArtistProfile(catalogArtistId))!;
+  await db.saveArtistProfile(catalogArtistId, { ...profile, fetched_at: fetchedAt });
+}
+
+describe('artist profile', () => {
+  it('stores the profile and a follower count per day', async () => {
+    const user = await createTestUser();
+    addAccount('portraitist', {
+      headline: 'Concept artist',
+      summary: '<p>Paints <b>people</b>.</p>',
+      city: 'Lisbon',
+      country: 'Portugal',
+      default_cover_url: 'https://cdn.example.com/cover.jpg',
+      social_profiles: [
+        { social_network: 'twitter', url: 'https://twitter.com/portraitist', position: 1 },
+        { social_network: 'public_email', url: 'mailto:me@example.com', position: 0 }
+      ],
+      website_url: 'https://portraitist.example.com',
+      followers_count: 120,
+      following_count: 8
+    });
+    const artist = await followArtist(user, 'portraitist');
+
+    await scrapeArtist(artist.id, user.id);
+
+    const profile = (await db.getArtistProfile(artist.catalog_artist_id))!;
+    assert.equal(profile.display_name, 'First Name');
+    assert.equal(profile.headline, 'Concept artist');
+    assert.equal(profile.bio, 'Paints people.');
+    assert.equal(profile.location, 'Lisbon, Portugal');
+    assert.equal(profile.cover_url, 'https://cdn.example.com/cover.jpg');
+    assert.deepEqual(profile.links, [
+      { network: 'twitter', url: 'https://twitter.com/portraitist' },
+      { network: 'website', url: 'https://portraitist.example.com' }
+    ]);
+    assert.equal(profile.followers_count, 120);
+
+    // Several checks on one day keep the last count
+    const yesterday = new Date(Date.now() - 24 * 3600000).toISOString();
+    await ageProfile(artist.catalog_artist_id, yesterday);
+    server().profiles.set('portraitist', { ...server().profiles.get('portraitist'), followers_count: 125 });
+    await checkArtistForUpdates(artist.id, user.id);
+    server().profiles.set('portraitist', { ...server().profiles.get('portraitist'), followers_count: 130 });
+    await scrapeArtist(artist.id, user.id); // Within half an hour of the check, not fetched again
+    await ageProfile(artist.catalog_artist_id, yesterday);
+    await checkArtistForUpdates(artist.id, user.id);
+
+    const history = await db.getFollowerCountHistory(artist.catalog_artist_id, 30);
+    assert.deepEqual(history.map(point => point.followers_count), [125, 130]);
+    assert.equal(history[1].date, new Date().toISOString().slice(0, 10));
+    assert.equal(history[1].following_count, 8);
+  });
+
+  it('refreshes the name and avatar on every check', async () => {
+    const user = await createTestUser();
+    addAccount('rebrand', { followers_count: 5 });
+    const artist = await followArtist(user, 'rebrand');
+    await scrapeArtist(artist.id, user.id);
+    assert.equal((await db.getArtistById(artist.id, user.id))!.display_name, 'First Name');
+
+    await ageProfile(artist.catalog_artist_id, new Date(Date.now() - 3600000).toISOString());
+    server().profiles.set('rebrand', {
+      full_name: 'New Name',
+      medium_avatar_url: 'https://cdn.example.com/new-avatar.jpg'
+    });
+    await checkArtistForUpdates(artist.id, user.id);
+
+    const refreshed = (await db.getArtistById(artist.id, user.id))!;
+    assert.equal(refreshed.display_name, 'New Name');
+    assert.equal(refreshed.avatar_url, 'https://cdn.example.com/new-avatar.jpg');
+    // No follower count on the profile this time, so the last point stays
+    const history = await db.getFollowerCountHistory(artist.catalog_artist_id, 30);
+    assert.equal(history[history.length - 1].followers_count, 5);
+  });
+
+  it('falls back to the location field and drops links that are not web addresses', () => {
+    const profile = parseArtistProfile({
+      location: 'Somewhere',
+      city: 'Ignored',
+      social_profiles: [{ social_network: 'Instagram', url: 'javascript:alert(1)' }]
+    }, '2026-01-01T00:00:00.000Z');
+
+    assert.equal(profile.location, 'Somewhere');
+    assert.deepEqual(profile.links, []);
+    assert.equal(profile.followers_count, undefined);
+    assert.equal(profile.fetched_at, '2026-01-01T00:00:00.000Z');
+  });
+});
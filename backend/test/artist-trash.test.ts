@@ -0,0 +1,94 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+import * as db from '../src/database';
+import { scrapeArtist } from '../src/scraper';
+import { createTestUser, followArtist, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Follows and scrapes the account, then marks its first artwork seen and its second a favorite
+async function followAndScrape(user: db.User, username: string): Promise<{ artist: db.Artist; artworks: db.Artwork[] }> {
+  const artist = await followArtist(user, username);
+  await scrapeArtist(artist.id, user.id);
+  const [seen, favorite] = await db.getAllArtworks(user.id, { artist_id: artist.id });
+  await db.markArtworkSeen(seen.id, user.id);
+  await db.toggleFavorite(favorite.id, user.id);
+  return { artist, artworks: await db.getAllArtworks(user.id, { artist_id: artist.id }) };
+}
+
+const stateOf = (artworks: db.Artwork[]) =>
+  artworks
+    .map(artwork => ({ artwork_id: artwork.artwork_id, is_new: artwork.is_new, is_favorite: artwork.is_favorite || 0 }))
+    .sort((a, b) => a.artwork_id.localeCompare(b.artwork_id));
+
+// Unfollows the artist as if it happened the given number of days ago
+async function deleteDaysAgo(artist: db.Artist, user: db.User, days: number) {
+  mock.timers.enable({ apis: ['Date'], now: Date.now() - days * DAY_MS });
+  try {
+    assert.equal(await db.deleteArtist(artist.id, user.id), true);
+  } finally {
+    mock.timers.reset();
+  }
+}
+
+describe('artist trash', () => {
+  it('moves an artist and its artworks to the trash and restores both with their state', async () => {
+    const user = await createTestUser();
+    const { artist, artworks } = await followAndScrape(user, 'painter');
+    assert.equal(artworks.length, server().accounts.get('painter')!.length);
+
+    assert.equal(await db.deleteArtist(artist.id, user.id), true);
+    assert.equal(await db.deleteArtist(artist.id, user.id), false);
+    assert.equal(await db.getArtistById(artist.id, user.id), undefined);
+    assert.equal((await db.getAllArtworks(user.id)).length, 0);
+
+    const [trashed, ...others] = await db.getTrashedArtists(user.id);
+    assert.equal(others.length, 0);
+    assert.equal(trashed.id, artist.id);
+    assert.equal(trashed.username, 'painter');
+    assert.equal(trashed.artwork_count, artworks.length);
+    assert.equal(
+      new Date(trashed.purge_at).getTime() - new Date(trashed.deleted_at).getTime(),
+      db.ARTIST_TRASH_RETENTION_DAYS * DAY_MS
+    );
+
+    const restored = (await db.restoreArtist(artist.id, user.id))!;
+    assert.equal(restored.id, artist.id);
+    assert.deepEqual(stateOf(await db.getAllArtworks(user.id, { artist_id: artist.id })), stateOf(artworks));
+    assert.deepEqual(await db.getTrashedArtists(user.id), []);
+    assert.equal(await db.restoreArtist(artist.id, user.id), undefined);
+  });
+
+  it('brings a trashed artist back when the account is followed again', async () => {
+    const user = await createTestUser();
+    const { artist, artworks } = await followAndScrape(user, 'sculptor');
+    await db.deleteArtist(artist.id, user.id);
+
+    const again = await followArtist(user, 'sculptor');
+    assert.equal(again.id, artist.id);
+    assert.deepEqual(stateOf(await db.getAllArtworks(user.id, { artist_id: artist.id })), stateOf(artworks));
+    assert.deepEqual(await db.getTrashedArtists(user.id), []);
+  });
+
+  it('purges artists deleted longer ago than the retention period', async () => {
+    const user = await createTestUser();
+    const { artist: expired } = await followAndScrape(user, 'painter');
+    const { artist: recent } = await followAndScrape(user, 'sculptor');
+    await deleteDaysAgo(expired, user, db.ARTIST_TRASH_RETENTION_DAYS + 1);
+    await deleteDaysAgo(recent, user, db.ARTIST_TRASH_RETENTION_DAYS - 1);
+
+    assert.equal(await db.purgeExpiredArtists(), 1);
+    assert.deepEqual((await db.getTrashedArtists(user.id)).map(artist => artist.id), [recent.id]);
+    assert.equal(await db.restoreArtist(expired.id, user.id), undefined);
+
+    // Following the purged account again starts over, with every artwork new
+    const again = await followArtist(user, 'painter');
+    assert.notEqual(again.id, expired.id);
+    const artworks = await db.getAllArtworks(user.id, { artist_id: again.id });
+    assert.equal(artworks.length, server().accounts.get('painter')!.length);
+    assert.ok(artworks.every(artwork => artwork.is_new === 1));
+  });
+});
@@ -0,0 +1,72 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import * as db from '../src/database';
+import artworkRoutes from '../src/routes/artworks';
+import { scrapeArtist, scrapeArtistUpdates } from '../src/scraper';
+import { createTestUser, followArtist, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+// The artworks routes as the server mounts them
+let apiUrl = '';
+let closeApi = () => {};
+
+before(async () => {
+  const app = express();
+  app.use('/api/artworks', artworkRoutes);
+  const listening = await new Promise<ReturnType<typeof app.listen>>(resolve => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  apiUrl = `http://127.0.0.1:${(listening.address() as AddressInfo).port}/api/artworks`;
+  closeApi = () => listening.close();
+});
+
+after(() => closeApi());
+
+async function getHistory(user: db.User, artworkId: number) {
+  const response = await fetch(`${apiUrl}/${artworkId}/history`, { headers: { Authorization: `Bearer ${user.token}` } });
+  return { status: response.status, body: (await response.json()) as any };
+}
+
+async function rescan(artist: db.Artist, user: db.User) {
+  await scrapeArtistUpdates(artist.id, user.id, { fullRescan: true, allowInsert: false, markUpdatesAsNew: false, notify: false });
+}
+
+describe('artwork history', () => {
+  it('keeps the previous title and image of an edited artwork, newest first', async () => {
+    const user = await createTestUser();
+    const artist = await followArtist(user, 'painter');
+    await scrapeArtist(artist.id, user.id);
+    const original = (await db.getAllArtworks(user.id, { artist_id: artist.id })).find(a => a.artwork_id === 'pA001')!;
+    assert.equal(original.title, 'Forest spirit 1');
+    assert.deepEqual((await getHistory(user, original.id)).body.revisions, []);
+
+    // First the title changes, then the cover
+    const project = server().accounts.get('painter')!.find(p => p.hash_id === 'pA001')!;
+    project.title = 'Forest spirit (repainted)';
+    await rescan(artist, user);
+    const newCover = original.thumbnail_url.replace('pA001.jpg', 'pA001-v2.jpg');
+    project.cover = { ...project.cover, thumb_url: newCover };
+    await rescan(artist, user);
+
+    const { status, body } = await getHistory(user, original.id);
+    assert.equal(status, 200);
+    assert.equal(body.artwork.title, 'Forest spirit (repainted)');
+    assert.equal(body.artwork.thumbnail_url, newCover);
+    assert.deepEqual(
+      body.revisions.map((revision: db.ArtworkRevision) => [revision.revision, revision.title, revision.thumbnail_url]),
+      [
+        [2, 'Forest spirit (repainted)', original.thumbnail_url],
+        [1, 'Forest spirit 1', original.thumbnail_url]
+      ]
+    );
+    assert.equal(body.revisions[1].high_quality_image_url, original.high_quality_image_url);
+
+    // Another user's artwork has no history to show
+    const stranger = await createTestUser();
+    assert.equal((await getHistory(stranger, original.id)).status, 404);
+  });
+});
@@ -0,0 +1,112 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import * as db from '../src/database';
+import artworkRoutes from '../src/routes/artworks';
+import { scrapeArtist } from '../src/scraper';
+import { createTestUser, followArtist, newProject, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+// The artworks routes as the server mounts them
+let apiUrl = '';
+let closeApi = () => {};
+
+before(async () => {
+  const app = express();
+  app.use('/api/artworks', artworkRoutes);
+  const listening = await new Promise<ReturnType<typeof app.listen>>(resolve => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  apiUrl = `http://127.0.0.1:${(listening.address() as AddressInfo).port}/api/artworks`;
+  closeApi = () => listening.close();
+});
+
+after(() => closeApi());
+
+async function search(user: db.User | null, query: Record<string, string>) {
+  const response = await fetch(`${apiUrl}/search?${new URLSearchParams(query)}`, {
+    headers: user ? { Authorization: `Bearer ${user.token}` } : {}
+  });
+  return { status: response.status, body: (await response.json()) as any };
+}
+
+const titles = (body: any) => body.results.map((result: db.ArtworkSearchResult) => result.title);
+
+// Follows a fresh account with the given titles and scrapes it
+async function followAccount(user: db.User, username: string, projectTitles: string[]): Promise<db.Artist> {
+  const template = server().accounts.get('painter')![0];
+  server().accounts.set(username, projectTitles.map((title, i) => newProject(template, `${username}-${i}`, title)));
+  const artist = await followArtist(user, username);
+  await scrapeArtist(artist.id, user.id);
+  return artist;
+}
+
+const byTitle = async (user: db.User, title: string) =>
+  (await db.getAllArtworks(user.id)).find(artwork => artwork.title === title)!;
+
+describe('artwork search', () => {
+  it('ranks whole words above prefixes and titles above artist names, and highlights the matches', async () => {
+    const user = await createTestUser();
+    await followAccount(user, 'moonfan', ['Sun', 'Moonrise', 'Moon']);
+
+    const { status, body } = await search(user, { q: 'Moon' });
+    assert.equal(status, 200);
+    assert.equal(body.query, 'Moon');
+    assert.deepEqual(titles(body), ['Moon', 'Moonrise', 'Sun']);
+    assert.ok(body.results[0].rank > body.results[1].rank && body.results[1].rank > body.results[2].rank);
+    assert.deepEqual(body.results.map((result: db.ArtworkSearchResult) => result.title_highlight), [
+      '<mark>Moon</mark>',
+      '<mark>Moonrise</mark>',
+      'Sun'
+    ]);
+    assert.ok(body.results.every((result: db.ArtworkSearchResult) => result.artist_highlight === '<mark>moonfan</mark>'));
+
+    // Every term has to match, in the title or the artist name
+    assert.deepEqual(titles((await search(user, { q: 'moon sun' })).body), ['Sun']);
+    assert.deepEqual(titles((await search(user, { q: 'moonr' })).body), ['Moonrise']);
+    assert.deepEqual(titles((await search(user, { q: 'eclipse' })).body), []);
+
+    const sculptor = await followArtist(user, 'sculptor');
+    await scrapeArtist(sculptor.id, user.id);
+    const dragon = (await search(user, { q: 'drag' })).body;
+    assert.deepEqual(titles(dragon), ['Dragon bust']);
+    assert.equal(dragon.results[0].title_highlight, '<mark>Dragon</mark> bust');
+    assert.equal(dragon.results[0].username, 'sculptor');
+  });
+
+  it('combines the search with the artist, new and favorite filters', async () => {
+    const user = await createTestUser();
+    const stars = await followAccount(user, 'astronomer', ['Star map', 'Star field', 'Comet']);
+    const other = await followAccount(user, 'nightowl', ['Star trail']);
+
+    assert.deepEqual(titles((await search(user, { q: 'star' })).body).sort(), ['Star field', 'Star map', 'Star trail']);
+    assert.deepEqual(titles((await search(user, { q: 'star', artist_id: String(other.id) })).body), ['Star trail']);
+
+    await db.markArtworkSeen((await byTitle(user, 'Star map')).id, user.id);
+    assert.deepEqual(
+      titles((await search(user, { q: 'star', artist_id: String(stars.id), new_only: 'true' })).body),
+      ['Star field']
+    );
+
+    await db.toggleFavorite((await byTitle(user, 'Star map')).id, user.id);
+    assert.deepEqual(titles((await search(user, { q: 'star', favorites_only: 'true' })).body), ['Star map']);
+    assert.deepEqual(titles((await search(user, { q: 'star', favorites_only: 'true', new_only: 'true' })).body), []);
+
+    // Other users' artworks are never searched
+    const stranger = await createTestUser();
+    assert.deepEqual(titles((await search(stranger, { q: 'star' })).body), []);
+  });
+
+  it('limits the results and rejects bad requests', async () => {
+    const user = await createTestUser();
+    await followAccount(user, 'limiter', ['Wave one', 'Wave two', 'Wave three']);
+
+    assert.equal((await search(user, { q: 'wave', limit: '2' })).body.results.length, 2);
+    assert.equal((await search(user, { q: '  ' })).status, 400);
+    assert.equal((await search(user, { q: 'wave', limit: '0' })).status, 400);
+    assert.equal((await search(null, { q: 'wave' })).status, 401);
+  });
+});
@@ -0,0 +1,41 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as db from '../src/database';
+import { scrapeArtist } from '../src/scraper';
+import { createTestUser, followArtist, useFakeArtStation } from './helpers/context';
+
+useFakeArtStation();
+
+const encode = (value: unknown, id: unknown) => Buffer.from(JSON.stringify([value, id])).toString('base64url');
+
+describe('artwork pages', () => {
+  it('pages through artworks with the cursor of the previous page', async () => {
+    const user = await createTestUser();
+    const artist = await followArtist(user, 'painter');
+    await scrapeArtist(artist.id, user.id);
+    const all = await db.getAllArtworks(user.id);
+    assert.ok(all.length > 1);
+
+    const seen: number[] = [];
+    let cursor: string | null = null;
+    do {
+      const after: db.ArtworkCursor | undefined = cursor ? db.decodeArtworkCursor(cursor, 'upload_date')! : undefined;
+      const page = await db.getArtworksPage(user.id, { sort: 'upload_date', order: 'desc', limit: 1, after });
+      seen.push(...page.artworks.map(artwork => artwork.id));
+      cursor = page.next_cursor;
+    } while (cursor);
+    assert.deepEqual([...seen].sort(), all.map(artwork => artwork.id).sort());
+  });
+
+  it('refuses cursors that do not fit the sort', () => {
+    assert.deepEqual(db.decodeArtworkCursor(encode('2024-01-01T00:00:00.000Z', 3), 'upload_date'), { value: '2024-01-01T00:00:00.000Z', id: 3 });
+    assert.deepEqual(db.decodeArtworkCursor(encode('painter', 3), 'artist'), { value: 'painter', id: 3 });
+
+    assert.equal(db.decodeArtworkCursor(encode('painter', 3), 'upload_date'), null);
+    assert.equal(db.decodeArtworkCursor(encode('2024-13-45', 3), 'discovered_at'), null);
+    assert.equal(db.decodeArtworkCursor(encode(5, 3), 'artist'), null);
+    assert.equal(db.decodeArtworkCursor(encode('2024-01-01', 'x'), 'upload_date'), null);
+    assert.equal(db.decodeArtworkCursor('not a cursor', 'upload_date'), null);
+  });
+});
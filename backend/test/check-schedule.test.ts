@@ -0,0 +1,118 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as db from '../src/database';
+import {
+  CHECK_INTERVAL_MAX_HOURS,
+  CHECK_INTERVAL_MIN_HOURS,
+  adaptiveIntervalHours,
+  scheduleNextCheck
+} from '../src/checkSchedule';
+import { enqueueJob, runDueJobs } from '../src/jobQueue';
+import { createTestUser, followArtist, newProject, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+const HOUR_MS = 3600000;
+
+// Uploads every `gapHours`, the newest one `sinceHours` before `now`
+function uploadDates(count: number, gapHours: number, sinceHours: number = 0, now: number = Date.now()): string[] {
+  return Array.from({ length: count }, (_, i) =>
+    new Date(now - (sinceHours + i * gapHours) * HOUR_MS).toISOString()
+  );
+}
+
+function addAccount(username: string, dates: string[]) {
+  const template = server().accounts.get('painter')![0];
+  server().accounts.set(
+    username,
+    dates.map((date, i) => ({
+      ...newProject(template, `${username}-${i}`, `Piece ${i}`),
+      published_at: date,
+      created_at: date
+    }))
+  );
+}
+
+function hoursUntil(date: string): number {
+  return (new Date(date).getTime() - Date.now()) / HOUR_MS;
+}
+
+describe('adaptive check interval', () => {
+  it('follows the posting cadence within the bounds', () => {
+    assert.equal(adaptiveIntervalHours(uploadDates(10, 24)), 6); // Daily: four checks a day
+    assert.equal(adaptiveIntervalHours(uploadDates(10, 1)), CHECK_INTERVAL_MIN_HOURS);
+    assert.equal(adaptiveIntervalHours(uploadDates(10, 24 * 60)), CHECK_INTERVAL_MAX_HOURS);
+  });
+
+  it('slows down for artists who stopped posting', () => {
+    // The same clock for both, or the quiet time is off by the milliseconds in between
+    const now = Date.now();
+    assert.equal(adaptiveIntervalHours(uploadDates(10, 24, 24 * 10, now), now), 60);
+  });
+
+  it('uses six hours until there is a cadence to go by', () => {
+    assert.equal(adaptiveIntervalHours([]), 6);
+    assert.equal(adaptiveIntervalHours(uploadDates(1, 0)), 6);
+  });
+});
+
+describe('check schedule', () => {
+  it('schedules the next check after a scheduled run and skips accounts that are not due', async () => {
+    const user = await createTestUser();
+    addAccount('daily', uploadDates(10, 24, 1));
+    addAccount('weekly', uploadDates(10, 24 * 7, 1));
+    const daily = await followArtist(user, 'daily');
+    const weekly = await followArtist(user, 'weekly');
+
+    const first = (await enqueueJob('check', null))!;
+    assert.deepEqual(first.items.map(item => item.label).sort(), ['daily', 'weekly']);
+    await runDueJobs();
+
+    const dailyNext = (await db.getArtistById(daily.id, user.id))!.next_check_at!;
+    const weeklyNext = (await db.getArtistById(weekly.id, user.id))!.next_check_at!;
+    assert.ok(Math.abs(hoursUntil(dailyNext) - 6) < 0.1);
+    assert.ok(Math.abs(hoursUntil(weeklyNext) - 42) < 0.1);
+
+    // Nothing is due, so no job or run is recorded
+    const runsBefore = await db.getScrapeRuns(user.id, 100);
+    assert.equal(await enqueueJob('check', null), null);
+    assert.equal((await db.getScrapeRuns(user.id, 100)).length, runsBefore.length);
+
+    // Checks started by the user ignore the schedule
+    const manual = await enqueueJob('check', user.id);
+    assert.equal(manual.items.length, 2);
+    await runDueJobs();
+  });
+
+  it('uses the most frequent pinned interval, or the cadence while someone has not pinned one', async () => {
+    const user = await createTestUser();
+    const otherUser = await createTestUser();
+    addAccount('pinned', uploadDates(10, 24, 1));
+    const artist = await followArtist(user, 'pinned');
+    const otherArtist = await followArtist(otherUser, 'pinned');
+
+    await db.setArtistCheckInterval(artist.id, user.id, 48);
+    const withAdaptive = (await scheduleNextCheck(artist.catalog_artist_id))!;
+    assert.ok(Math.abs(hoursUntil(withAdaptive) - 6) < 0.1);
+
+    await db.setArtistCheckInterval(otherArtist.id, otherUser.id, 72);
+    const pinned = (await scheduleNextCheck(artist.catalog_artist_id))!;
+    assert.ok(Math.abs(hoursUntil(pinned) - 48) < 0.1);
+    assert.equal((await db.getArtistById(artist.id, user.id))!.check_interval_hours, 48);
+
+    await db.setArtistCheckInterval(artist.id, user.id, null);
+    assert.equal((await db.getArtistById(artist.id, user.id))!.check_interval_hours, undefined);
+  });
+
+  it('keeps a pinned interval through the trash', async () => {
+    const user = await createTestUser();
+    addAccount('trashed-pinned', uploadDates(10, 24, 1));
+    const artist = await followArtist(user, 'trashed-pinned');
+    await db.setArtistCheckInterval(artist.id, user.id, 24);
+
+    assert.equal(await db.deleteArtist(artist.id, user.id), true);
+    const restored = await db.restoreArtist(artist.id, user.id);
+    assert.equal(restored?.check_interval_hours, 24);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Local stand-in for ArtStation, serving the recorded responses in test/fixtures/artstation.
+ * Point the scrapers at it with ARTSTATION_BASE_URL (tests do this automatically).
+ *
+ * Served like the real site:
+ *   GET /users/:username.json                   profile; 301 to the new handle after a rename
+ *   GET /users/:username/projects.json?page=N   50 projects per page, newest first
+ *   GET /users/:username/following.json?page=N  20 users per page
+ *   GET /users/:username/following              following page (HTML)
+ *   GET /projects/:hash_id.json                 a single project
+ *   GET /:username                              profile page with window.__INITIAL_STATE__
+ *
+ * Accounts missing from `accounts` answer 404 (deleted). Tests can rename and hide accounts,
+ * fill in profile details, and make the next requests answer with a Cloudflare challenge or HTTP 429.
+ *
+ * Run standalone with `npm run fake-artstation` (port FAKE_ARTSTATION_PORT, default 4010).
+ */
+
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import type { AddressInfo } from 'net';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'artstation');
+const PROJECTS_PER_PAGE = 50;
+const FOLLOWING_PER_PAGE = 20;
+
+export interface FakeArtStation {
+  baseUrl: string;
+  // Paths requested so far (including the query string), in order
+  requests: string[];
+  // Projects per account, newest first; tests edit these to simulate uploads and edits
+  accounts: Map<string, any[]>;
+  following: Map<string, any[]>;
+  // Old handle -> new handle; the old one redirects, its projects are gone
+  renamed: Map<string, string>;
+  // Handles whose profile is hidden: no projects and an empty profile
+  privateAccounts: Set<string>;
+  // Extra profile JSON fields per handle (headline, summary, social_profiles, followers_count, ...)
+  profiles: Map<string, any>;
+  // Answer the next `count` requests with a Cloudflare challenge page
+  challengeNext(count?: number): void;
+  // Answer the next `count` requests with HTTP 429, optionally with a Retry-After header (seconds)
+  rateLimitNext(count?: number, retryAfter?: number): void;
+  // Back to the recorded fixtures
+  reset(): void;
+  close(): Promise<void>;
+}
+
+function readFixture(relativePath: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, relativePath), 'utf-8');
+}
+
+// Every <name>.json in a fixture directory, keyed by name
+function loadFixtureDir(dir: string): Map<string, any[]> {
+  const entries = new Map<string, any[]>();
+  for (const file of fs.readdirSync(path.join(FIXTURES_DIR, dir))) {
+    if (file.endsWith('.json')) {
+      entries.set(path.basename(file, '.json'), JSON.parse(readFixture(path.join(dir, file))));
+    }
+  }
+  return entries;
+}
+
+export function loadAccountFixture(username: string): any[] {
+  return JSON.parse(readFixture(path.join('accounts', `${username}.json`)));
+}
+
+function paginate(items: any[], pageParam: any, perPage: number) {
+  const page = Math.max(1, parseInt(pageParam as string) || 1);
+  return {
+    data: items.slice((page - 1) * perPage, page * perPage),
+    total_count: items.length
+  };
+}
+
+export async function startFakeArtStation(port: number = 0): Promise<FakeArtStation> {
+  const app = express();
+  const challengePage = readFixture('cloudflare-challenge.html');
+  let challengesLeft = 0;
+  let rateLimitsLeft = 0;
+  let retryAfterSeconds: number | undefined;
+
+  const fake = {
+    requests: [] as string[],
+    accounts: loadFixtureDir('accounts'),
+    following: loadFixtureDir('following'),
+    renamed: new Map<string, string>(),
+    privateAccounts: new Set<string>(),
+    profiles: new Map<string, any>()
+  };
+
+  app.use((req, res, next) => {
+    fake.requests.push(req.originalUrl);
+    if (challengesLeft > 0) {
+      challengesLeft--;
+      return res.status(403).set('cf-mitigated', 'challenge').type('html').send(challengePage);
+    }
+    if (rateLimitsLeft > 0) {
+      rateLimitsLeft--;
+      if (retryAfterSeconds !== undefined) {
+        res.set('Retry-After', String(retryAfterSeconds));
+      }
+      return res.status(429).json({ error: 'Too Many Requests' });
+    }
+    next();
+  });
+
+  app.get('/users/:file', (req, res) => {
+    const username = req.params.file.replace(/\.json$/, '');
+    const newUsername = fake.renamed.get(username);
+    if (newUsername) {
+      return res.redirect(301, `/users/${newUsername}.json`);
+    }
+    if (fake.privateAccounts.has(username)) {
+      return res.json({});
+    }
+    const projects = fake.accounts.get(username);
+    if (!projects) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    res.json({
+      username,
+      full_name: projects[0]?.user?.full_name || username,
+      medium_avatar_url: projects[0]?.user?.medium_avatar_url,
+      ...fake.profiles.get(username)
+    });
+  });
+
+  app.get('/users/:username/projects.json', (req, res) => {
+    if (fake.privateAccounts.has(req.params.username)) {
+      return res.json({ data: [], total_count: 0 });
+    }
+    const projects = fake.accounts.get(req.params.username);
+    if (!projects) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    res.json(paginate(projects, req.query.page, PROJECTS_PER_PAGE));
+  });
+
+  app.get('/users/:username/following.json', (req, res) => {
+    const users = fake.following.get(req.params.username);
+    if (!users) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    res.json(paginate(users, req.query.page, FOLLOWING_PER_PAGE));
+  });
+
+  app.get('/users/:username/following', (req, res) => {
+    const users = fake.following.get(req.params.username);
+    if (!users) {
+      return res.status(404).type('html').send('<html><body>Not found</body></html>');
+    }
+    const links = users
+      .map(user => `<a class="user-name" href="/${user.username}">${user.full_name}</a>`)
+      .join('\n');
+    res.type('html').send(`<html><body><h1>Following (${users.length})</h1>\n${links}\n</body></html>`);
+  });
+
+  app.get('/projects/:file', (req, res) => {
+    const hashId = req.params.file.replace(/\.json$/, '');
+    for (const projects of fake.accounts.values()) {
+      const project = projects.find(p => p.hash_id === hashId);
+      if (project) {
+        return res.json({ ...project, assets: [] });
+      }
+    }
+    res.status(404).json({ error: 'Not found' });
+  });
+
+  app.get('/:username', (req, res) => {
+    const file = path.join('profiles', `${req.params.username}.html`);
+    if (!fs.existsSync(path.join(FIXTURES_DIR, file))) {
+      return res.status(404).type('html').send('<html><body>Not found</body></html>');
+    }
+    res.type('html').send(readFixture(file));
+  });
+
+  const server = await new Promise<ReturnType<typeof app.listen>>(resolve => {
+    const listening = app.listen(port, '127.0.0.1', () => resolve(listening));
+  });
+  const { port: actualPort } = server.address() as AddressInfo;
+
+  return Object.assign(fake, {
+    baseUrl: `http://127.0.0.1:${actualPort}`,
+    challengeNext(count: number = 1) {
+      challengesLeft = count;
+    },
+    rateLimitNext(count: number = 1, retryAfter?: number) {
+      rateLimitsLeft = count;
+      retryAfterSeconds = retryAfter;
+    },
+    reset() {
+      fake.requests.length = 0;
+      fake.accounts = loadFixtureDir('accounts');
+      fake.following = loadFixtureDir('following');
+      fake.renamed = new Map();
+      fake.privateAccounts = new Set();
+      fake.profiles = new Map();
+      challengesLeft = 0;
+      rateLimitsLeft = 0;
+      retryAfterSeconds = undefined;
+    },
+    close() {
+      return new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+  });
+}
+
+if (require.main === module) {
+  startFakeArtStation(parseInt(process.env.FAKE_ARTSTATION_PORT || '4010')).then(fake => {
+    console.log(`🎭 Fake ArtStation listening on ${fake.baseUrl}`);
+    console.log(`   Start the backend with ARTSTATION_BASE_URL=${fake.baseUrl} to scrape it`);
+  });
+}
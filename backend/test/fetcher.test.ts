@@ -0,0 +1,135 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import axios from 'axios';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { fetchBinary, fetchJson, fetchText, getFetcherStats, isCloudflareChallenge, isPublicAddress, parseJsonBody, PRIVATE_ADDRESS } from '../src/fetcher';
+import { artstationUrl } from '../src/utils/artstation';
+import { useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+// Stands in for Puppeteer getting past the challenge: simply asks again
+const browserFetch = async (url: string) => (await axios.get<string>(url, { responseType: 'text' })).data;
+
+describe('fetchJson', () => {
+  it('uses plain HTTP while there is no challenge', async () => {
+    let browserCalls = 0;
+    const data = await fetchJson(artstationUrl('/users/sculptor/projects.json?page=1'), async url => {
+      browserCalls++;
+      return browserFetch(url);
+    });
+
+    assert.equal(data.data.length, 3);
+    assert.equal(browserCalls, 0);
+  });
+
+  it('returns null for a missing account', async () => {
+    assert.equal(await fetchJson(artstationUrl('/users/nobody/projects.json?page=1'), browserFetch), null);
+  });
+
+  it('falls back to the browser on a Cloudflare challenge and keeps using it for that host', async () => {
+    server().challengeNext(1);
+
+    const data = await fetchJson(artstationUrl('/users/painter/projects.json?page=1'), browserFetch);
+    assert.equal(data.data.length, 50);
+
+    const [stats] = getFetcherStats().filter(s => s.host === new URL(server().baseUrl).host);
+    assert.equal(stats.challenges, 1);
+    assert.equal(stats.browser.successes, 1);
+    assert.equal(stats.next_strategy, 'browser');
+
+    let browserCalls = 0;
+    await fetchJson(artstationUrl('/users/painter/projects.json?page=2'), async url => {
+      browserCalls++;
+      return browserFetch(url);
+    });
+    assert.equal(browserCalls, 1);
+  });
+});
+
+describe('challenge detection', () => {
+  it('recognises the recorded challenge page', async () => {
+    server().challengeNext(1);
+    const response = await axios.get<string>(artstationUrl('/users/painter/projects.json'), {
+      responseType: 'text',
+      validateStatus: () => true
+    });
+
+    assert.equal(isCloudflareChallenge(response.status, response.headers, response.data), true);
+    assert.equal(isCloudflareChallenge(200, {}, '{"data":[]}'), false);
+    assert.equal(isCloudflareChallenge(404, {}, '<html><head><title>Not found</title></head></html>'), false);
+  });
+
+  it('parses JSON shown inside a browser page', () => {
+    assert.deepEqual(parseJsonBody('<html><body><pre>{"data":[1]}</pre></body></html>'), { data: [1] });
+    assert.equal(parseJsonBody('<html><body>Not JSON</body></html>'), null);
+  });
+});
+
+describe('user-supplied URLs', () => {
+  // Stands in for a feed host that redirects its old address, and one that points at itself
+  let baseUrl = '';
+  let close = () => {};
+
+  before(async () => {
+    const app = express();
+    app.get('/old-feed', (req, res) => res.redirect(301, '/feed'));
+    app.get('/feed', (req, res) => res.type('application/rss+xml').send('<rss></rss>'));
+    app.get('/loop', (req, res) => res.redirect(302, '/loop'));
+    app.get('/to-metadata', (req, res) => res.redirect(302, 'http://169.254.169.254/latest/meta-data/'));
+    const listening = await new Promise<ReturnType<typeof app.listen>>(resolve => {
+      const s = app.listen(0, '127.0.0.1', () => resolve(s));
+    });
+    baseUrl = `http://127.0.0.1:${(listening.address() as AddressInfo).port}`;
+    close = () => listening.close();
+  });
+
+  after(() => close());
+
+  async function withoutPrivateAddresses(run: () => Promise<void>) {
+    process.env.FETCH_ALLOW_PRIVATE_ADDRESSES = 'false';
+    try {
+      await run();
+    } finally {
+      process.env.FETCH_ALLOW_PRIVATE_ADDRESSES = 'true';
+    }
+  }
+
+  it('tells public addresses from loopback, private and link-local ones', () => {
+    for (const address of ['8.8.8.8', '151.101.1.69', '2606:4700::1111']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1',
+                           '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', 'localhost']) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('follows redirects itself, up to a limit', async () => {
+    const result = await fetchText(`${baseUrl}/old-feed`);
+    assert.equal(result?.url, `${baseUrl}/feed`);
+    assert.equal(result?.body, '<rss></rss>');
+    assert.equal(await fetchText(`${baseUrl}/loop`), null);
+  });
+
+  it('refuses non-public addresses, by address, by name and after a redirect', async () => {
+    await withoutPrivateAddresses(async () => {
+      const port = new URL(baseUrl).port;
+      await assert.rejects(fetchText(`${baseUrl}/feed`), { message: PRIVATE_ADDRESS });
+      await assert.rejects(fetchText(`http://localhost:${port}/feed`), { message: PRIVATE_ADDRESS });
+      await assert.rejects(fetchBinary('http://[::1]/image.png', 1000), { message: PRIVATE_ADDRESS });
+    });
+
+    // The first hop is allowed here, the redirect to the metadata endpoint is checked on its own
+    process.env.FETCH_ALLOW_PRIVATE_ADDRESSES = 'true';
+    const redirected = fetchText(`${baseUrl}/to-metadata`);
+    process.env.FETCH_ALLOW_PRIVATE_ADDRESSES = 'false';
+    try {
+      await assert.rejects(redirected, { message: PRIVATE_ADDRESS });
+    } finally {
+      process.env.FETCH_ALLOW_PRIVATE_ADDRESSES = 'true';
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import './setup';
+import fs from 'fs';
+import { after, before, beforeEach } from 'node:test';
+import * as db from '../../src/database';
+import { resetRateLimiter } from '../../src/rateLimiter';
+import { FakeArtStation, startFakeArtStation } from '../fake-artstation/server';
+import { TEST_DATA_DIR } from './setup';
+
+let userCount = 0;
+
+// Starts the fake ArtStation and the test database for the current test file.
+// The fixtures and the rate limiter are reset before every test; the database is shared, so tests
+// use their own users.
+export function useFakeArtStation(): { server: () => FakeArtStation } {
+  let fake: FakeArtStation | null = null;
+
+  before(async () => {
+    fake = await startFakeArtStation();
+    process.env.ARTSTATION_BASE_URL = fake.baseUrl;
+    await db.initDatabase();
+    // Registered after the database's own exit handler, so the last save is written before this runs
+    process.on('exit', () => fs.rmSync(TEST_DATA_DIR, { recursive: true, force: true }));
+  });
+
+  beforeEach(() => {
+    fake?.reset();
+    resetRateLimiter();
+  });
+
+  after(async () => {
+    await fake?.close();
+  });
+
+  return {
+    server: () => {
+      if (!fake) throw new Error('Fake ArtStation is not running');
+      return fake;
+    }
+  };
+}
+
+export async function createTestUser(): Promise<db.User> {
+  return db.createUser(`test-user-${++userCount}`);
+}
+
+export async function followArtist(user: db.User, username: string): Promise<db.Artist> {
+  return db.addArtist(user.id, username, `https://www.artstation.com/${username}`);
+}
+
+// A project shaped like ArtStation's projects.json entries, newer than every fixture
+export function newProject(template: any, hashId: string, title: string): any {
+  const publishedAt = new Date().toISOString();
+  return {
+    ...template,
+    id: template.id + 100000,
+    hash_id: hashId,
+    title,
+    permalink: `https://www.artstation.com/artwork/${hashId}`,
+    published_at: publishedAt,
+    created_at: publishedAt,
+    updated_at: publishedAt
+  };
+}
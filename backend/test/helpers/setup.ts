@@ -0,0 +1,47 @@
+/**
+ * Imported first by every test file (before anything from src/), because the
+ * database and scraper modules read their configuration when they are loaded.
+ * Each test file runs in its own process with its own throwaway database: a JSON file, or a
+ * SQLite file with TEST_STORAGE=sqlite (npm test runs the suite once with each).
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'arttracker-test-'));
+
+if (process.env.TEST_STORAGE === 'sqlite') {
+  process.env.DATABASE_URL = `sqlite:${path.join(dataDir, 'arttracker.db')}`;
+} else {
+  delete process.env.DATABASE_URL;
+}
+process.env.DATABASE_PATH = path.join(dataDir, 'arttracker.json');
+process.env.JSON_BACKUP_DIR = path.join(dataDir, 'backups');
+process.env.SCRAPE_DELAY_MS = '0';
+process.env.PROJECT_DETAILS_PER_RUN = '0';
+// No pacing against the fake server, and backoffs short enough to wait out in a test
+process.env.RATE_LIMIT_PER_MINUTE = '60000';
+process.env.RATE_LIMIT_BURST = '1000';
+process.env.RATE_LIMIT_BACKOFF_BASE_MS = '20';
+process.env.RATE_LIMIT_BACKOFF_MAX_MS = '200';
+process.env.CIRCUIT_BREAKER_THRESHOLD = '5';
+process.env.CIRCUIT_BREAKER_COOLDOWN_MS = '1000';
+// Job items give up after two attempts, with a retry short enough to wait for
+process.env.JOB_MAX_ATTEMPTS = '2';
+process.env.JOB_RETRY_BASE_MS = '300';
+// Archived images go to the temp dir; a quota of about 10 KB fills up after a few test images
+process.env.IMAGE_ARCHIVE_DIR = path.join(dataDir, 'images');
+process.env.IMAGE_ARCHIVE_QUOTA_MB = '0.01';
+// Feeds and images in the tests are served from 127.0.0.1
+process.env.FETCH_ALLOW_PRIVATE_ADDRESSES = 'true';
+// Fixture thumbnails point at the real CDN; tests that hash thumbnails ask for it themselves
+process.env.IMAGE_HASHES_PER_RUN = '0';
+
+export const TEST_DATA_DIR = dataDir;
+
+// The scrapers log every page; keep the test output readable (set TEST_LOGS=1 to see it).
+// Lots of stdout from a test file can also garble the runner's own reporting on Node 20.
+if (!process.env.TEST_LOGS) {
+  console.log = () => {};
+}
@@ -0,0 +1,133 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import fs from 'fs';
+import path from 'path';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import * as db from '../src/database';
+import { cleanupImageArchive, getArchivedImageFile, IMAGE_ARCHIVE_DIR, runImageArchive } from '../src/imageArchive';
+import { scrapeArtist, scrapeFollowedAccount } from '../src/scraper';
+import { createTestUser, followArtist, newProject, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+// Stands in for the image CDN; every file name gets its own 4 KB of bytes
+const images = new Map<string, Buffer>();
+let imagesUrl = '';
+let closeImages = () => {};
+
+before(async () => {
+  const app = express();
+  app.get('/images/*', (req, res) => {
+    const data = images.get(path.basename(req.path));
+    if (!data) {
+      return res.status(404).end();
+    }
+    res.type(req.path.endsWith('.svg') ? 'image/svg+xml' : 'image/jpeg').send(data);
+  });
+  const listening = await new Promise<ReturnType<typeof app.listen>>(resolve => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  imagesUrl = `http://127.0.0.1:${(listening.address() as AddressInfo).port}/images`;
+  closeImages = () => listening.close();
+});
+
+after(() => closeImages());
+
+function image(name: string): string {
+  if (!images.has(name)) {
+    images.set(name, Buffer.alloc(4000, name));
+  }
+  return `${imagesUrl}/large/${name}`;
+}
+
+function project(template: any, hashId: string, imageName: string): any {
+  const url = image(imageName);
+  return { ...newProject(template, hashId, hashId), cover: { thumb_url: url, small_square_url: url, url } };
+}
+
+function addAccount(username: string, imageNames: string[]): any[] {
+  const template = server().accounts.get('painter')![0];
+  const projects = imageNames.map((name, i) => project(template, `${username}-${i}`, name));
+  server().accounts.set(username, projects);
+  return projects;
+}
+
+function storedFiles(): string[] {
+  if (!fs.existsSync(IMAGE_ARCHIVE_DIR)) return [];
+  return fs.readdirSync(IMAGE_ARCHIVE_DIR).flatMap(dir => fs.readdirSync(path.join(IMAGE_ARCHIVE_DIR, dir)));
+}
+
+describe('image archive', () => {
+  it('keeps covers of new artworks, stored once for every user', async () => {
+    const first = await createTestUser();
+    const second = await createTestUser();
+    const optedOut = await createTestUser();
+    await db.updateUser(first.id, { image_archive: 'covers' });
+    await db.updateUser(second.id, { image_archive: 'covers' });
+    const projects = addAccount('archived', ['old.jpg']);
+    const followers = [
+      await followArtist(first, 'archived'),
+      await followArtist(second, 'archived'),
+      await followArtist(optedOut, 'archived')
+    ];
+    for (const follower of followers) {
+      await scrapeArtist(follower.id, follower.user_id);
+    }
+    // Not for the first scrape of an artist
+    assert.deepEqual(await db.getArchivedImages(first.id), []);
+
+    server().accounts.set('archived', [project(projects[0], 'archived-new', 'new.jpg'), ...projects]);
+    await scrapeFollowedAccount(followers);
+
+    const [archived] = await db.getArchivedImages(first.id);
+    assert.equal(archived.position, 0);
+    assert.equal(archived.byte_size, 4000);
+    assert.equal((await db.getArchivedImages(second.id))[0].hash, archived.hash);
+    assert.deepEqual(await db.getArchivedImages(optedOut.id), []);
+    assert.deepEqual(storedFiles(), [archived.hash]);
+
+    const file = await getArchivedImageFile(first.id, archived.artwork_id, 0);
+    assert.equal(file?.content_type, 'image/jpeg');
+    assert.deepEqual(fs.readFileSync(file!.path), images.get('new.jpg'));
+    assert.equal(await getArchivedImageFile(optedOut.id, archived.artwork_id, 0), null);
+  });
+
+  it('only keeps raster images', async () => {
+    const user = await createTestUser();
+    await db.updateUser(user.id, { image_archive: 'covers' });
+    const projects = addAccount('vectors', ['old.svg']);
+    const artist = await followArtist(user, 'vectors');
+    await scrapeArtist(artist.id, user.id);
+
+    server().accounts.set('vectors', [project(projects[0], 'vectors-new', 'new.svg'), ...projects]);
+    await scrapeFollowedAccount([artist]);
+
+    assert.deepEqual(await db.getArchivedImages(user.id), []);
+  });
+
+  it('stops at the quota and deletes files nobody references', async () => {
+    const user = await createTestUser();
+    await db.updateUser(user.id, { image_archive: 'covers' });
+    addAccount('favorites', ['fav-0.jpg', 'fav-1.jpg', 'fav-2.jpg']);
+    const artist = await followArtist(user, 'favorites');
+    await scrapeArtist(artist.id, user.id);
+    for (const artwork of await db.getAllArtworks(user.id)) {
+      await db.toggleFavorite(artwork.id, user.id);
+    }
+
+    const summary = await runImageArchive();
+    assert.equal(summary.archived, 2); // A third 4 KB file doesn't fit in the 10 KB quota
+    assert.equal(summary.quota_reached, true);
+    assert.deepEqual(await db.getImageArchiveUsage(user.id), { files: 2, bytes: 8000 });
+
+    const hashes = (await db.getArchivedImages(user.id)).map(archived => archived.hash);
+    await db.deleteAllArtworks(user.id);
+    const cleanup = await cleanupImageArchive();
+    assert.equal(cleanup.removed_references, 2);
+    assert.equal(cleanup.removed_files, 2);
+    assert.equal(storedFiles().some(name => hashes.includes(name)), false);
+    assert.deepEqual(await db.getImageArchiveUsage(user.id), { files: 0, bytes: 0 });
+  });
+});
@@ -0,0 +1,56 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as db from '../src/database';
+import { importFollowingFromUser } from '../src/scraper-import-following';
+import { createTestUser, followArtist, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+describe('importFollowingFromUser', () => {
+  it('imports every page of the following list', async () => {
+    const user = await createTestUser();
+
+    const result = await importFollowingFromUser(user.id, 'collector', false, true);
+
+    assert.equal(result.total_found, 25);
+    assert.equal(result.added, 25);
+    assert.equal(result.newly_added_artist_ids.length, 25);
+    assert.deepEqual(
+      server().requests.filter(url => url.includes('/following')),
+      ['/users/collector/following.json?page=1', '/users/collector/following.json?page=2']
+    );
+
+    const artists = await db.getAllArtists(user.id);
+    const artist = artists.find(a => a.username === 'artist07');
+    assert.equal(artist?.display_name, 'Artist 07');
+    assert.equal(artist?.profile_url, 'https://www.artstation.com/artist07');
+  });
+
+  it('keeps existing follows and unfollows artists missing from the list', async () => {
+    const user = await createTestUser();
+    await followArtist(user, 'artist01');
+    await followArtist(user, 'painter');
+
+    const result = await importFollowingFromUser(user.id, 'collector', false, true);
+
+    assert.equal(result.added, 24);
+    assert.equal(result.already_exists, 1);
+    assert.equal(result.removed, 1);
+
+    const usernames = (await db.getAllArtists(user.id)).map(a => a.username);
+    assert.equal(usernames.length, 25);
+    assert.ok(!usernames.includes('painter'));
+    assert.equal((await db.getTrashedArtists(user.id))[0]?.username, 'painter');
+  });
+
+  it('loads the artworks of newly followed artists', async () => {
+    const user = await createTestUser();
+    server().following.set('collector', [{ id: 501, username: 'sculptor', full_name: 'Sam Sculptor' }]);
+
+    const result = await importFollowingFromUser(user.id, 'collector');
+
+    assert.equal(result.added, 1);
+    assert.equal(result.artworks_loaded, 3);
+  });
+});
@@ -0,0 +1,130 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import * as db from '../src/database';
+import { importListJobResult, parseImportList, previewImportList } from '../src/importList';
+import { enqueueJob, runDueJobs } from '../src/jobQueue';
+import { recordBlock } from '../src/rateLimiter';
+import { createTestUser, followArtist, newProject, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+// Stands in for a blog with one feed
+let siteUrl = '';
+let closeSite = () => {};
+
+before(async () => {
+  const app = express();
+  app.get('/feed.xml', (req, res) => {
+    res.type('application/rss+xml').send(
+      `<?xml version="1.0"?><rss version="2.0"><channel><title>Blog art</title><link>${siteUrl}/</link></channel></rss>`
+    );
+  });
+  const listening = await new Promise<ReturnType<typeof app.listen>>(resolve => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  siteUrl = `http://127.0.0.1:${(listening.address() as AddressInfo).port}`;
+  closeSite = () => listening.close();
+});
+
+after(() => closeSite());
+
+function addAccount(username: string) {
+  const template = server().accounts.get('painter')![0];
+  server().accounts.set(username, [newProject(template, `${username}-0`, 'Piece')]);
+}
+
+// What POST /api/import/list does without dryRun, then the worker's part
+async function importList(user: db.User, list: string) {
+  const preview = await previewImportList(user.id, list);
+  const job = await enqueueJob('import_list', user.id, { format: preview.format, entries: preview.entries });
+  await runDueJobs();
+  return importListJobResult((await db.getScrapeJob(job.id))!);
+}
+
+describe('import list', () => {
+  it('reads usernames and URLs from text, CSV and OPML', () => {
+    const text = parseImportList('painter\n\n# a comment\nhttps://www.artstation.com/users/Sculptor/following\n@painter\nnot a handle');
+    assert.equal(text.format, 'text');
+    assert.deepEqual(text.entries.map(entry => [entry.line, entry.username ?? null, entry.status, entry.duplicate_of ?? null]), [
+      [1, 'painter', 'ready', null],
+      [4, 'Sculptor', 'ready', null],
+      [5, 'painter', 'duplicate', 1],
+      [6, null, 'invalid', null]
+    ]);
+
+    const csv = parseImportList('name,"Profile URL"\n"Doe, Jane",https://www.artstation.com/jane\nBlog,https://Blog.example.com/feed/\n');
+    assert.equal(csv.format, 'csv');
+    assert.deepEqual(csv.entries.map(entry => [entry.line, entry.source, entry.username]), [
+      [2, 'artstation', 'jane'],
+      [3, 'rss', 'blog.example.com/feed']
+    ]);
+
+    const opml = parseImportList(`<?xml version="1.0"?>
+<opml version="2.0">
+  <body>
+    <outline text="Art">
+      <outline text="Blog" type="rss" xmlUrl="https://blog.example.com/feed" />
+      <outline text="Painter" htmlUrl="https://www.artstation.com/painter" />
+    </outline>
+  </body>
+</opml>`);
+    assert.equal(opml.format, 'opml');
+    assert.deepEqual(opml.entries.map(entry => [entry.line, entry.username]), [
+      [5, 'blog.example.com/feed'],
+      [6, 'painter']
+    ]);
+    assert.throws(() => parseImportList('<html><body></body></html>'), /INVALID_OPML/);
+  });
+
+  it('previews without adding, then follows new accounts and reports the rest', async () => {
+    const user = await createTestUser();
+    addAccount('listed');
+    await followArtist(user, 'painter');
+    const list = ['painter', 'listed', 'LISTED', 'no-such-artist', `${siteUrl}/feed.xml`, 'http://', 'not a handle'].join('\n');
+
+    const preview = await previewImportList(user.id, list);
+    assert.deepEqual(preview.entries.map(entry => entry.status), ['exists', 'ready', 'duplicate', 'ready', 'ready', 'invalid', 'invalid']);
+    assert.equal(preview.added, 0);
+    assert.equal((await db.getAllArtists(user.id)).length, 1);
+
+    const result = await importList(user, list);
+    assert.deepEqual(result.entries.map(entry => entry.status), ['exists', 'added', 'duplicate', 'not_found', 'added', 'invalid', 'invalid']);
+    assert.deepEqual(
+      [result.added, result.already_exists, result.duplicates, result.not_found, result.invalid, result.failed],
+      [2, 1, 1, 1, 2, 0]
+    );
+
+    const artists = await db.getAllArtists(user.id);
+    assert.deepEqual(result.newly_added_artist_ids.sort(), artists.filter(artist => artist.username !== 'painter').map(artist => artist.id).sort());
+    const feed = artists.find(artist => artist.source === 'rss')!;
+    assert.equal(feed.feed_url, `${siteUrl}/feed.xml`);
+    assert.equal(feed.display_name, 'Blog art');
+
+    // Running the same list again adds nothing
+    const again = await importList(user, list);
+    assert.equal(again.added, 0);
+    assert.equal(again.already_exists, 3);
+  });
+
+  it('waits for the circuit breaker instead of failing the remaining entries', async () => {
+    const user = await createTestUser();
+    addAccount('paused-one');
+    addAccount('paused-two');
+    for (let i = 0; i < 5; i++) {
+      recordBlock(server().baseUrl, 'rate_limited');
+    }
+
+    const paused = await importList(user, 'paused-one\npaused-two');
+    assert.deepEqual(paused.entries.map(entry => entry.status), ['ready', 'ready']);
+    assert.equal(paused.failed, 0);
+
+    // The entries are due again when the breaker lets requests through
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    await runDueJobs();
+    const [job] = await db.getScrapeJobs({ user_id: user.id });
+    assert.deepEqual(importListJobResult(job).entries.map(entry => entry.status), ['added', 'added']);
+  });
+});
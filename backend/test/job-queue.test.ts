@@ -0,0 +1,134 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as db from '../src/database';
+import { enqueueJob, retryDeadItems, runDueJobs, summarizeJob } from '../src/jobQueue';
+import { createTestUser, followArtist, newProject, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+const projectPages = (username: string) =>
+  server().requests.filter(url => url.startsWith(`/users/${username}/projects.json`));
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('scrape job queue', () => {
+  it('runs a check job and records the results per item', async () => {
+    const user = await createTestUser();
+    const artist = await followArtist(user, 'sculptor');
+
+    const job = await enqueueJob('check', user.id);
+    assert.equal(job.status, 'queued');
+    assert.deepEqual(job.items.map(item => item.label), ['sculptor']);
+
+    await runDueJobs();
+
+    const finished = (await db.getScrapeJob(job.id))!;
+    assert.equal(finished.status, 'completed');
+    assert.ok(finished.started_at && finished.finished_at);
+    assert.equal(finished.items[0].status, 'completed');
+    assert.equal(finished.items[0].attempts, 1);
+    assert.equal(summarizeJob(finished).new_artworks, 3);
+    assert.equal((await db.getAllArtworks(user.id, { artist_id: artist.id })).length, 3);
+  });
+
+  it('returns the unfinished job instead of queueing the same one twice', async () => {
+    const user = await createTestUser();
+    const artist = await followArtist(user, 'illustrator');
+
+    const first = await enqueueJob('update', user.id, { artist_id: artist.id });
+    const second = await enqueueJob('update', user.id, { artist_id: artist.id });
+    const other = await enqueueJob('check', user.id);
+    assert.equal(second.id, first.id);
+    assert.notEqual(other.id, first.id);
+
+    await runDueJobs();
+    const again = await enqueueJob('update', user.id, { artist_id: artist.id });
+    assert.notEqual(again.id, first.id); // The first one is finished now
+    await runDueJobs();
+  });
+
+  it('resumes an interrupted job without redoing finished items', async () => {
+    const user = await createTestUser();
+    await followArtist(user, 'painter');
+    await followArtist(user, 'sculptor');
+
+    // As if the server stopped after the first artist
+    const job = await enqueueJob('update', user.id);
+    const painterItem = job.items.find(item => item.label === 'painter')!;
+    await db.updateScrapeJob(job.id, { status: 'running', started_at: new Date().toISOString() });
+    await db.updateScrapeJobItem(painterItem.id, {
+      status: 'completed',
+      attempts: 1,
+      result: { artist: 'painter', new_artworks: 55 },
+      finished_at: new Date().toISOString()
+    });
+
+    await runDueJobs();
+
+    assert.deepEqual(projectPages('painter'), []);
+    assert.equal(projectPages('sculptor').length, 1);
+    const finished = (await db.getScrapeJob(job.id))!;
+    assert.equal(finished.status, 'completed');
+    assert.deepEqual(finished.items.map(item => item.attempts), [1, 1]);
+    assert.equal(finished.items.find(item => item.id === painterItem.id)!.result.new_artworks, 55);
+  });
+
+  it('retries failed items with a backoff, then moves them to the dead-letter queue', async () => {
+    const user = await createTestUser();
+    await followArtist(user, 'painter');
+    const baseUrl = process.env.ARTSTATION_BASE_URL;
+    process.env.ARTSTATION_BASE_URL = 'http://127.0.0.1:1'; // Nothing listens there
+
+    try {
+      const job = await enqueueJob('check', user.id);
+      await runDueJobs();
+
+      let item = (await db.getScrapeJob(job.id))!.items[0];
+      assert.equal(item.status, 'pending');
+      assert.equal(item.attempts, 1);
+      assert.ok(item.last_error);
+      assert.ok(new Date(item.next_attempt_at).getTime() > Date.now()); // Not retried right away
+
+      await wait(350); // JOB_RETRY_BASE_MS in the test setup
+      await runDueJobs();
+
+      const failed = (await db.getScrapeJob(job.id))!;
+      item = failed.items[0];
+      assert.equal(item.status, 'dead');
+      assert.equal(item.attempts, 2);
+      assert.equal(failed.status, 'failed');
+
+      process.env.ARTSTATION_BASE_URL = baseUrl;
+      assert.equal(await retryDeadItems(failed), 1);
+      await runDueJobs();
+
+      const retried = (await db.getScrapeJob(job.id))!;
+      assert.equal(retried.status, 'completed');
+      assert.equal(retried.items[0].status, 'completed');
+      assert.equal(summarizeJob(retried).new_artworks, 55);
+    } finally {
+      process.env.ARTSTATION_BASE_URL = baseUrl;
+    }
+  });
+
+  it('checks each account once in a scheduled job, however many users follow it', async () => {
+    const first = await createTestUser();
+    const second = await createTestUser();
+    server().accounts.set('newcomer', [newProject(server().accounts.get('painter')![0], 'nWnew1', 'First upload')]);
+    const firstFollow = await followArtist(first, 'newcomer');
+    const secondFollow = await followArtist(second, 'newcomer');
+
+    const job = (await enqueueJob('check', null))!;
+    const items = job.items.filter(item => item.label === 'newcomer');
+    assert.equal(items.length, 1);
+
+    await runDueJobs();
+
+    // One quick check and one scrape for both followers
+    assert.equal(projectPages('newcomer').length, 2);
+    assert.equal((await db.getAllArtworks(first.id, { artist_id: firstFollow.id })).length, 1);
+    assert.equal((await db.getAllArtworks(second.id, { artist_id: secondFollow.id })).length, 1);
+    assert.equal((await db.getScrapeJob(job.id))!.status, 'completed');
+  });
+});
@@ -0,0 +1,109 @@
+import { TEST_DATA_DIR } from './helpers/setup';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import fs from 'fs';
+import path from 'path';
+import { after, afterEach, beforeEach, describe, it } from 'node:test';
+
+// The JSON storage reads its paths when it is loaded and recovers only at startup, so every
+// "server start" here is a fresh process on the same DATABASE_PATH.
+let dataDir = '';
+const dbPath = () => path.join(dataDir, 'arttracker.json');
+const backupDir = () => path.join(dataDir, 'backups');
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(TEST_DATA_DIR, 'json-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+after(() => {
+  fs.rmSync(TEST_DATA_DIR, { recursive: true, force: true });
+});
+
+// Starts the JSON storage in a child process, optionally adds a user, and returns the usernames it has
+function startStorage(addUser?: string): { status: number | null; usernames?: string[]; stderr: string } {
+  const script = `
+    const db = require('./src/database-json');
+    db.initDatabase();
+    ${addUser ? `db.createUser(${JSON.stringify(addUser)});` : ''}
+    process.stdout.write('USERS ' + JSON.stringify(db.getAllUsers().map(user => user.username)) + '\\n');
+  `;
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    DATABASE_PATH: dbPath(),
+    JSON_BACKUP_DIR: backupDir(),
+    JSON_BACKUP_COUNT: '3'
+  };
+  delete env.DATABASE_URL;
+
+  const child = spawnSync(process.execPath, ['--import', 'tsx', '-e', script], {
+    cwd: path.join(__dirname, '..'),
+    env,
+    encoding: 'utf-8',
+    timeout: 60000
+  });
+  const line = child.stdout.split('\n').find(l => l.startsWith('USERS '));
+  return { status: child.status, usernames: line ? JSON.parse(line.slice(6)) : undefined, stderr: child.stderr };
+}
+
+// Backups, newest first, with the users each one holds
+function backups(): string[][] {
+  return fs.readdirSync(backupDir())
+    .sort()
+    .reverse()
+    .map(name => JSON.parse(fs.readFileSync(path.join(backupDir(), name), 'utf-8')).users.map((u: any) => u.username));
+}
+
+// Four starts, each adding a user; every start but the first backs up the file it loaded
+function startFourTimes() {
+  for (const username of ['ada', 'bo', 'cy', 'di']) {
+    assert.equal(startStorage(username).status, 0);
+  }
+}
+
+describe('JSON storage crash safety', () => {
+  it('keeps the configured number of backups, newest first, and leaves no temp files', () => {
+    startFourTimes();
+    assert.equal(startStorage().status, 0);
+
+    assert.deepEqual(backups(), [
+      ['ada', 'bo', 'cy', 'di'],
+      ['ada', 'bo', 'cy'],
+      ['ada', 'bo']
+    ]);
+    assert.deepEqual(fs.readdirSync(dataDir).sort(), ['arttracker.json', 'backups']);
+  });
+
+  it('recovers from the newest valid backup when the file is corrupt', () => {
+    startFourTimes();
+    fs.writeFileSync(dbPath(), '{"users": [');
+    // The newest backup is damaged as well, so the one before it is used
+    const [newest] = fs.readdirSync(backupDir()).sort().reverse();
+    fs.writeFileSync(path.join(backupDir(), newest), '');
+
+    const started = startStorage();
+    assert.equal(started.status, 0);
+    assert.deepEqual(started.usernames, ['ada', 'bo']);
+
+    // The unreadable file is kept aside, and the recovered data is what gets saved from now on
+    const corrupt = fs.readdirSync(dataDir).filter(name => name.startsWith('arttracker.json.corrupt-'));
+    assert.equal(corrupt.length, 1);
+    assert.equal(fs.readFileSync(path.join(dataDir, corrupt[0]), 'utf-8'), '{"users": [');
+    assert.deepEqual(startStorage('ed').usernames, ['ada', 'bo', 'ed']);
+  });
+
+  it('refuses to start when there is no valid backup', () => {
+    assert.equal(startStorage('ada').status, 0);
+    fs.writeFileSync(dbPath(), 'not json');
+
+    const started = startStorage();
+    assert.notEqual(started.status, 0);
+    assert.equal(started.usernames, undefined);
+    assert.match(started.stderr, /no valid backup was found/);
+    // Nothing was overwritten
+    assert.equal(fs.readFileSync(dbPath(), 'utf-8'), 'not json');
+  });
+});
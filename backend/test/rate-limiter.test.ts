@@ -0,0 +1,133 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { fetchJson } from '../src/fetcher';
+import { getRateLimiterStatus, isScrapingPaused, parseRetryAfter, RATE_LIMITED, SCRAPING_PAUSED } from '../src/rateLimiter';
+import * as db from '../src/database';
+import { enqueueJob, runDueJobs } from '../src/jobQueue';
+import { artstationUrl } from '../src/utils/artstation';
+import { createTestUser, followArtist, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+// The fake server never challenges in these tests, so the browser is never needed
+const noBrowser = async () => {
+  throw new Error('Browser should not be used');
+};
+
+const hostStatus = () => getRateLimiterStatus().hosts.find(h => h.host === new URL(server().baseUrl).host)!;
+
+describe('fetchJson rate limiting', () => {
+  it('backs off and retries after HTTP 429', async () => {
+    server().rateLimitNext(1);
+
+    const data = await fetchJson(artstationUrl('/users/sculptor/projects.json?page=1'), noBrowser);
+
+    assert.equal(data.data.length, 3);
+    assert.equal(server().requests.length, 2);
+    const status = hostStatus();
+    assert.equal(status.last_block?.reason, 'rate_limited');
+    assert.equal(status.consecutive_blocks, 0); // Reset by the successful retry
+  });
+
+  it('gives up when the host keeps answering 429', async () => {
+    server().rateLimitNext(10);
+
+    await assert.rejects(fetchJson(artstationUrl('/users/sculptor/projects.json?page=1'), noBrowser), {
+      message: RATE_LIMITED
+    });
+    assert.equal(server().requests.length, 3);
+    assert.equal(hostStatus().consecutive_blocks, 3);
+    assert.equal(getRateLimiterStatus().breaker.state, 'closed');
+  });
+
+  it('reads Retry-After as seconds or a date', () => {
+    assert.equal(parseRetryAfter('120'), 120000);
+    assert.equal(parseRetryAfter(undefined), undefined);
+    assert.equal(parseRetryAfter('soon'), undefined);
+    const inOneMinute = parseRetryAfter(new Date(Date.now() + 60000).toUTCString())!;
+    assert.ok(inOneMinute > 55000 && inOneMinute <= 60000);
+  });
+});
+
+describe('circuit breaker', () => {
+  it('pauses scraping after repeated blocks and holds the remaining artists until it reopens', async () => {
+    const user = await createTestUser();
+    await followArtist(user, 'painter');
+    await followArtist(user, 'sculptor');
+    await followArtist(user, 'illustrator');
+    server().rateLimitNext(100);
+
+    const queued = await enqueueJob('check', user.id);
+    await runDueJobs();
+
+    // Three blocks for the first artist, the fifth one (second artist) opens the breaker
+    assert.equal(server().requests.length, 5);
+    assert.equal(isScrapingPaused(), true);
+    const { breaker } = getRateLimiterStatus();
+    assert.equal(breaker.state, 'open');
+    assert.equal(breaker.trips, 1);
+    assert.ok(breaker.reopens_at);
+
+    // The failed artist is retried later; the paused ones wait for the breaker without using an attempt
+    const job = (await db.getScrapeJob(queued.id))!;
+    assert.ok(job.items.every(item => item.status === 'pending'));
+    const failed = job.items.filter(item => item.attempts === 1);
+    assert.equal(failed.length, 1);
+    assert.equal(failed[0].last_error, RATE_LIMITED);
+    const paused = job.items.filter(item => item.attempts === 0);
+    assert.equal(paused.length, 2);
+    assert.ok(paused.every(item => item.next_attempt_at === breaker.reopens_at));
+
+    const run = (await db.getScrapeRunForJob(queued.id))!;
+    const outcomes = await db.getScrapeOutcomes(run.id);
+    assert.deepEqual(outcomes.map(outcome => outcome.status).sort(), ['failed', 'paused', 'paused']);
+  });
+
+  it('probes again after the cooldown and closes on success', async () => {
+    server().rateLimitNext(5);
+    const url = artstationUrl('/users/illustrator/projects.json?page=1');
+    await assert.rejects(fetchJson(url, noBrowser), { message: RATE_LIMITED });
+    await assert.rejects(fetchJson(url, noBrowser), { message: SCRAPING_PAUSED });
+    const requestsWhileOpen = server().requests.length;
+    await assert.rejects(fetchJson(url, noBrowser), { message: SCRAPING_PAUSED });
+    assert.equal(server().requests.length, requestsWhileOpen);
+
+    await new Promise(resolve => setTimeout(resolve, 1100)); // CIRCUIT_BREAKER_COOLDOWN_MS in the test setup
+
+    const data = await fetchJson(url, noBrowser);
+    assert.equal(data.data.length, 3);
+    assert.equal(getRateLimiterStatus().breaker.state, 'closed');
+    assert.equal(isScrapingPaused(), false);
+  });
+
+  it('lets a single probe through while half-open', async () => {
+    server().rateLimitNext(5);
+    const url = artstationUrl('/users/illustrator/projects.json?page=1');
+    await assert.rejects(fetchJson(url, noBrowser), { message: RATE_LIMITED });
+    await assert.rejects(fetchJson(url, noBrowser), { message: SCRAPING_PAUSED });
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    const [probe, second] = await Promise.allSettled([fetchJson(url, noBrowser), fetchJson(url, noBrowser)]);
+    assert.equal(probe.status, 'fulfilled');
+    assert.equal(second.status, 'rejected');
+    assert.equal((second as PromiseRejectedResult).reason.message, SCRAPING_PAUSED);
+    assert.equal(getRateLimiterStatus().breaker.state, 'closed');
+  });
+
+  it('keeps the breaker half-open when the probe answers 404', async () => {
+    server().rateLimitNext(5);
+    const url = artstationUrl('/users/illustrator/projects.json?page=1');
+    await assert.rejects(fetchJson(url, noBrowser), { message: RATE_LIMITED });
+    await assert.rejects(fetchJson(url, noBrowser), { message: SCRAPING_PAUSED });
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    assert.equal(await fetchJson(artstationUrl('/users/nobody-here/projects.json?page=1'), noBrowser), null);
+    assert.equal(getRateLimiterStatus().breaker.state, 'half_open');
+
+    // The next request is the new probe
+    const data = await fetchJson(url, noBrowser);
+    assert.equal(data.data.length, 3);
+    assert.equal(getRateLimiterStatus().breaker.state, 'closed');
+  });
+});
@@ -0,0 +1,124 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import * as db from '../src/database';
+import { scrapeArtist, scrapeArtistUpdates, scrapeFollowedAccount } from '../src/scraper';
+import { createTestUser, followArtist, newProject, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+// Stands in for the Discord webhook, collecting the messages sent to it
+const webhookMessages: string[] = [];
+let webhookUrl = '';
+let closeWebhook = () => {};
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.post('/webhook', (req, res) => {
+    webhookMessages.push(req.body.content);
+    res.status(204).end();
+  });
+  const listening = await new Promise<ReturnType<typeof app.listen>>(resolve => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  webhookUrl = `http://127.0.0.1:${(listening.address() as AddressInfo).port}/webhook`;
+  closeWebhook = () => listening.close();
+});
+
+after(() => closeWebhook());
+
+// A fresh account per test, so the shared catalog doesn't carry artworks over from another test
+function addAccount(username: string, projectCount: number): any[] {
+  const template = server().accounts.get('painter')![0];
+  const projects = Array.from({ length: projectCount }, (_, i) =>
+    newProject(template, `${username}-${i}`, `Piece ${i}`)
+  );
+  server().accounts.set(username, projects);
+  return projects;
+}
+
+function fullRescan(artist: db.Artist) {
+  return scrapeArtistUpdates(artist.id, artist.user_id, {
+    fullRescan: true,
+    allowInsert: false,
+    markUpdatesAsNew: false,
+    notify: false
+  });
+}
+
+async function listedArtworkIds(user: db.User): Promise<string[]> {
+  const page = await db.getArtworksPage(user.id, { sort: 'upload_date', order: 'desc', limit: 100 });
+  return page.artworks.map(artwork => artwork.artwork_id).sort();
+}
+
+describe('removed artworks', () => {
+  it('marks artworks missing from a full rescan and only keeps favorites listed', async () => {
+    const user = await createTestUser();
+    const optedIn = await createTestUser();
+    const optedOut = await createTestUser();
+    await db.updateUser(optedIn.id, { discord_webhook_url: webhookUrl, notify_removed_artworks: true });
+    await db.updateUser(optedOut.id, { discord_webhook_url: webhookUrl });
+    const projects = addAccount('takedown', 4);
+    const artist = await followArtist(user, 'takedown');
+    const followers = [artist, await followArtist(optedIn, 'takedown'), await followArtist(optedOut, 'takedown')];
+    for (const follower of followers) {
+      await scrapeArtist(follower.id, follower.user_id);
+    }
+    const favorite = (await db.getAllArtworks(user.id, { artist_id: artist.id }))
+      .find(artwork => artwork.artwork_id === 'takedown-1')!;
+    await db.toggleFavorite(favorite.id, user.id);
+
+    server().accounts.set('takedown', projects.filter(project => !['takedown-1', 'takedown-2'].includes(project.hash_id)));
+    webhookMessages.length = 0;
+
+    const result = await scrapeFollowedAccount(followers, { fullRescan: true });
+
+    assert.equal('removed_artworks' in result && result.removed_artworks, 2);
+    const stored = await db.getAllArtworks(user.id, { artist_id: artist.id });
+    assert.equal(stored.length, 4); // Nothing is deleted
+    assert.ok(stored.find(artwork => artwork.artwork_id === 'takedown-1')?.removed_at);
+    assert.ok(stored.find(artwork => artwork.artwork_id === 'takedown-2')?.removed_at);
+    assert.equal(stored.find(artwork => artwork.artwork_id === 'takedown-0')?.removed_at, undefined);
+
+    assert.deepEqual(await listedArtworkIds(user), ['takedown-0', 'takedown-1', 'takedown-3']);
+    assert.deepEqual(await listedArtworkIds(optedIn), ['takedown-0', 'takedown-3']);
+    assert.equal(await db.getNewArtworksCount(optedIn.id), 2); // Unseen removed artworks don't count as new
+
+    // Only the user who opted in hears about it, once
+    assert.equal(webhookMessages.length, 1);
+    assert.match(webhookMessages[0], /removed 2 artworks from ArtStation/);
+    await fullRescan(artist);
+    assert.equal(webhookMessages.length, 1);
+  });
+
+  it('lists artworks again once they are back on the profile', async () => {
+    const user = await createTestUser();
+    const projects = addAccount('hidden', 3);
+    const artist = await followArtist(user, 'hidden');
+    await scrapeArtist(artist.id, user.id);
+
+    server().accounts.set('hidden', projects.slice(1));
+    await fullRescan(artist);
+    assert.deepEqual(await listedArtworkIds(user), ['hidden-1', 'hidden-2']);
+
+    server().accounts.set('hidden', projects);
+    await fullRescan(artist);
+    assert.deepEqual(await listedArtworkIds(user), ['hidden-0', 'hidden-1', 'hidden-2']);
+  });
+
+  it('leaves artworks alone when incremental checks stop early', async () => {
+    const user = await createTestUser();
+    const projects = addAccount('partial', 3);
+    const artist = await followArtist(user, 'partial');
+    await scrapeArtist(artist.id, user.id);
+
+    server().accounts.set('partial', [newProject(projects[0], 'partial-new', 'Fresh'), ...projects.slice(0, 1)]);
+    await scrapeArtistUpdates(artist.id, user.id);
+
+    const stored = await db.getAllArtworks(user.id, { artist_id: artist.id });
+    assert.ok(stored.every(artwork => !artwork.removed_at));
+  });
+});
@@ -0,0 +1,190 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import * as jpeg from 'jpeg-js';
+import type { AddressInfo } from 'net';
+import { PNG } from 'pngjs';
+import * as db from '../src/database';
+import { storeUpdatesForFollower } from '../src/providers/works';
+import type { ScrapedArtwork } from '../src/providers/types';
+import { annotateReposts, hashScrapedArtworks } from '../src/reposts';
+import { scrapeArtist } from '../src/scraper';
+import { hammingDistance, perceptualHash } from '../src/utils/imageHash';
+import { createTestUser, followArtist, newProject, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+// Grayscale test pictures drawn from relative coordinates, so every size shows the same picture
+const PICTURES: Record<string, (u: number, v: number) => number> = {
+  landscape: (u, v) => (u < 0.4 && v < 0.5 ? 230 : 40 + 150 * v) - 30 * u,
+  waves: (u, v) => 128 + 120 * Math.sin(u * 12) * Math.cos(v * 7),
+  rings: (u, v) => 128 + 120 * Math.cos(20 * Math.hypot(u - 0.3, v - 0.6))
+};
+
+function pixels(picture: string, width: number, height: number): Buffer {
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.round(PICTURES[picture](x / width, y / height));
+      data.fill(value, (y * width + x) * 4, (y * width + x) * 4 + 3);
+      data[(y * width + x) * 4 + 3] = 255;
+    }
+  }
+  return data;
+}
+
+function png(picture: string, width: number, height: number): Buffer {
+  const image = new PNG({ width, height });
+  pixels(picture, width, height).copy(image.data);
+  return PNG.sync.write(image);
+}
+
+function jpg(picture: string, width: number, height: number): Buffer {
+  return jpeg.encode({ data: pixels(picture, width, height), width, height }, 70).data;
+}
+
+// Stands in for the image CDN and a Discord webhook per user
+const images = new Map<string, Buffer>();
+const notified = new Map<string, string[]>();
+let baseUrl = '';
+let closeServer = () => {};
+
+before(async () => {
+  images.set('landscape.png', png('landscape', 160, 120));
+  images.set('landscape-small.jpg', jpg('landscape', 96, 72));
+  images.set('waves.png', png('waves', 160, 120));
+  images.set('rings.png', png('rings', 160, 120));
+
+  const app = express();
+  app.use(express.json());
+  app.get('/images/:name', (req, res) => {
+    const data = images.get(req.params.name);
+    if (!data) {
+      return res.status(404).end();
+    }
+    res.type(req.params.name.endsWith('.png') ? 'image/png' : 'image/jpeg').send(data);
+  });
+  app.post('/webhook/:user', (req, res) => {
+    const titles = (req.body.embeds || []).map((embed: any) => embed.title);
+    notified.set(req.params.user, [...(notified.get(req.params.user) || []), ...titles]);
+    res.status(204).end();
+  });
+  const listening = await new Promise<ReturnType<typeof app.listen>>(resolve => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  baseUrl = `http://127.0.0.1:${(listening.address() as AddressInfo).port}`;
+  closeServer = () => listening.close();
+});
+
+after(() => closeServer());
+
+function addAccount(username: string, imageName: string, uploadDate: string) {
+  const template = server().accounts.get('painter')![0];
+  const url = `${baseUrl}/images/${imageName}`;
+  server().accounts.set(username, [{
+    ...newProject(template, `${username}-0`, `${username} piece`),
+    published_at: uploadDate,
+    cover: { thumb_url: url, small_square_url: url, url }
+  }]);
+}
+
+async function scraped(user: db.User, artist: db.Artist): Promise<ScrapedArtwork[]> {
+  return (await db.getAllArtworks(user.id, { artist_id: artist.id })).map(artwork => ({
+    artwork_id: artwork.artwork_id,
+    title: artwork.title,
+    thumbnail_url: artwork.thumbnail_url,
+    artwork_url: artwork.artwork_url,
+    upload_date: artwork.upload_date
+  }));
+}
+
+describe('reposts', () => {
+  it('gives copies of a picture nearby hashes', () => {
+    const original = perceptualHash(images.get('landscape.png')!)!;
+    const copy = perceptualHash(images.get('landscape-small.jpg')!)!;
+    const other = perceptualHash(images.get('waves.png')!)!;
+
+    assert.match(original, /^[0-9a-f]{16}$/);
+    assert.ok(hammingDistance(original, copy) <= 6, `copy is ${hammingDistance(original, copy)} bits off`);
+    assert.ok(hammingDistance(original, other) > 16, `other picture is only ${hammingDistance(original, other)} bits off`);
+    assert.equal(perceptualHash(Buffer.from('GIF89a')), null);
+    assert.equal(hammingDistance(original, original.slice(0, 8)), 64);
+  });
+
+  it('refuses PNGs that claim more pixels than allowed before decoding them', () => {
+    // A real header of a 160x120 picture, patched to say 100000x100000
+    const bomb = Buffer.from(images.get('landscape.png')!);
+    bomb.writeUInt32BE(100000, 16);
+    bomb.writeUInt32BE(100000, 20);
+    assert.throws(() => perceptualHash(bomb), /too large/);
+  });
+
+  it('hashes thumbnails, flags reposts across artists and mutes their notifications', async () => {
+    const muted = await createTestUser();
+    const notMuted = await createTestUser();
+    await db.updateUser(muted.id, { discord_webhook_url: `${baseUrl}/webhook/muted`, mute_repost_notifications: true });
+    await db.updateUser(notMuted.id, { discord_webhook_url: `${baseUrl}/webhook/not-muted` });
+
+    addAccount('original', 'landscape.png', '2024-01-01T00:00:00Z');
+    addAccount('copycat', 'waves.png', '2024-02-01T00:00:00Z');
+    const followers = new Map<db.User, db.Artist[]>();
+    for (const user of [muted, notMuted]) {
+      const artists = [await followArtist(user, 'original'), await followArtist(user, 'copycat')];
+      for (const artist of artists) {
+        await scrapeArtist(artist.id, user.id);
+      }
+      followers.set(user, artists);
+    }
+
+    // Hashed once for the shared catalog, then reused
+    for (const artist of followers.get(muted)!) {
+      const works = await scraped(muted, artist);
+      const computed = await hashScrapedArtworks(artist, works, 10);
+      assert.equal(computed.size, 1);
+      assert.equal(await db.saveCatalogImageHashes(artist.catalog_artist_id, computed), 1);
+    }
+    const [originalArtist, copycatArtist] = followers.get(notMuted)!;
+    const again = await scraped(notMuted, originalArtist);
+    assert.equal((await hashScrapedArtworks(originalArtist, again, 10)).size, 0);
+    assert.ok(again[0].image_hash);
+
+    // An update check finds a smaller copy of the first artist's piece and a new picture
+    const repost: ScrapedArtwork = {
+      artwork_id: 'copycat-repost',
+      title: 'Reposted landscape',
+      thumbnail_url: `${baseUrl}/images/landscape-small.jpg`,
+      artwork_url: 'https://www.artstation.com/artwork/copycat-repost',
+      upload_date: '2024-03-01T00:00:00Z',
+      image_hash: perceptualHash(images.get('landscape-small.jpg')!)!
+    };
+    const fresh: ScrapedArtwork = {
+      artwork_id: 'copycat-fresh',
+      title: 'Rings',
+      thumbnail_url: `${baseUrl}/images/rings.png`,
+      artwork_url: 'https://www.artstation.com/artwork/copycat-fresh',
+      upload_date: '2024-03-02T00:00:00Z',
+      image_hash: perceptualHash(images.get('rings.png')!)!
+    };
+    for (const user of [muted, notMuted]) {
+      const artist = followers.get(user)![1];
+      const existing = new Set((await db.getAllArtworks(user.id, { artist_id: artist.id })).map(artwork => artwork.artwork_id));
+      await storeUpdatesForFollower(artist, existing, [fresh, repost], undefined);
+    }
+    await db.saveCatalogImageHashes(copycatArtist.catalog_artist_id, new Map([
+      [repost.artwork_id, { image_hash: repost.image_hash!, image_hash_url: repost.thumbnail_url }],
+      [fresh.artwork_id, { image_hash: fresh.image_hash!, image_hash_url: fresh.thumbnail_url }]
+    ]));
+
+    assert.deepEqual(notified.get('muted'), ['Rings']);
+    assert.deepEqual(notified.get('not-muted')?.sort(), ['Reposted landscape', 'Rings']);
+
+    // The copy points to the original, whatever artist it came from
+    const annotated = await annotateReposts(notMuted.id, await db.getAllArtworks(notMuted.id));
+    const byArtworkId = new Map(annotated.map(artwork => [artwork.artwork_id, artwork]));
+    assert.equal(byArtworkId.get('copycat-repost')?.repost_of, byArtworkId.get('original-0')?.id);
+    assert.equal(byArtworkId.get('original-0')?.repost_of, undefined);
+    assert.equal(byArtworkId.get('copycat-fresh')?.repost_of, undefined);
+    assert.equal(byArtworkId.get('copycat-0')?.repost_of, undefined);
+  });
+});
@@ -0,0 +1,157 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import * as db from '../src/database';
+import { resolveArtistInput } from '../src/providers';
+import { checkAndScrapeArtist, scrapeArtist } from '../src/scraper';
+import { parseFeed } from '../src/utils/feed';
+import { createTestUser, useFakeArtStation } from './helpers/context';
+
+useFakeArtStation();
+
+// Stands in for a blog: feeds by path, and a page that links to one of them
+const feeds = new Map<string, { type: string; body: string }>();
+let siteUrl = '';
+let closeSite = () => {};
+
+before(async () => {
+  const app = express();
+  app.get('/', (req, res) => {
+    res.type('html').send(
+      '<html><head><title>Sketchbook</title>' +
+      '<link rel="alternate" type="application/rss+xml" href="/sketchbook/feed.xml"></head><body></body></html>'
+    );
+  });
+  app.get('/:name/:file', (req, res) => {
+    const feed = feeds.get(`/${req.params.name}/${req.params.file}`);
+    if (!feed) {
+      return res.status(404).send('Not found');
+    }
+    res.type(feed.type).send(feed.body);
+  });
+  const listening = await new Promise<ReturnType<typeof app.listen>>(resolve => {
+    const s = app.listen(0, '127.0.0.1', () => resolve(s));
+  });
+  siteUrl = `http://127.0.0.1:${(listening.address() as AddressInfo).port}`;
+  closeSite = () => listening.close();
+});
+
+after(() => closeSite());
+
+function rssFeed(title: string, items: Array<{ guid: string; title: string; date: string }>): string {
+  return `<?xml version="1.0"?>
+<rss version="2.0" xmlns:media="http://search.yahoo.com/mrss/">
+  <channel>
+    <title>${title}</title>
+    <link>${siteUrl}/</link>
+    <image><url>/avatar.png</url></image>
+    ${items.map(item => `<item>
+      <title>${item.title}</title>
+      <link>${siteUrl}/posts/${item.guid}</link>
+      <guid>${item.guid}</guid>
+      <pubDate>${new Date(item.date).toUTCString()}</pubDate>
+      <media:content url="/images/${item.guid}.jpg" medium="image" />
+    </item>`).join('\n')}
+  </channel>
+</rss>`;
+}
+
+// A fresh feed per test, so the shared catalog doesn't carry artworks over from another test
+function addFeed(name: string, items: Array<{ guid: string; title: string; date: string }>): string {
+  feeds.set(`/${name}/feed.xml`, { type: 'application/rss+xml', body: rssFeed(`${name} art`, items) });
+  return `${siteUrl}/${name}/feed.xml`;
+}
+
+async function followFeed(user: db.User, url: string): Promise<db.Artist> {
+  const profile = (await resolveArtistInput(url))!;
+  return db.addArtist(user.id, profile.username, profile.profile_url, profile.source, profile.feed_url);
+}
+
+describe('rss provider', () => {
+  it('resolves feed URLs, pages that link to a feed and ArtStation handles', async () => {
+    addFeed('sketchbook', [{ guid: 'a', title: 'First', date: '2026-01-01T00:00:00Z' }]);
+
+    const fromPage = (await resolveArtistInput(`${siteUrl}/`))!;
+    assert.equal(fromPage.source, 'rss');
+    assert.equal(fromPage.feed_url, `${siteUrl}/sketchbook/feed.xml`);
+    assert.equal(fromPage.username, `${siteUrl.replace('http://', '')}/sketchbook/feed.xml`);
+    assert.equal(fromPage.profile_url, `${siteUrl}/`);
+    assert.equal(fromPage.display_name, 'sketchbook art');
+    assert.equal(fromPage.avatar_url, `${siteUrl}/avatar.png`);
+
+    const handle = (await resolveArtistInput('https://www.artstation.com/painter/albums/all'))!;
+    assert.deepEqual(handle, { source: 'artstation', username: 'painter', profile_url: 'https://www.artstation.com/painter' });
+    assert.equal(await resolveArtistInput('not a handle'), null);
+    await assert.rejects(resolveArtistInput(`${siteUrl}/missing/feed.xml`), /FEED_NOT_FOUND/);
+  });
+
+  it('stores feed items as artworks and picks up new ones', async () => {
+    const user = await createTestUser();
+    const url = addFeed('gallery', [
+      { guid: 'g2', title: 'Second', date: '2026-02-01T00:00:00Z' },
+      { guid: 'g1', title: 'First', date: '2026-01-01T00:00:00Z' }
+    ]);
+    const artist = await followFeed(user, url);
+    assert.equal(artist.source, 'rss');
+    assert.equal(artist.feed_url, url);
+
+    const initial = await scrapeArtist(artist.id, user.id);
+    assert.equal(initial.new_artworks, 2);
+    const stored = await db.getAllArtworks(user.id, { artist_id: artist.id });
+    assert.deepEqual(stored.map(artwork => artwork.title), ['Second', 'First']);
+    assert.equal(stored[0].artwork_url, `${siteUrl}/posts/g2`);
+    assert.equal(stored[0].thumbnail_url, `${siteUrl}/images/g2.jpg`);
+    assert.equal((await db.getArtistById(artist.id, user.id))!.display_name, 'gallery art');
+
+    assert.equal((await checkAndScrapeArtist(artist.id, user.id)).status, 'skipped');
+
+    addFeed('gallery', [
+      { guid: 'g3', title: 'Third', date: '2026-03-01T00:00:00Z' },
+      { guid: 'g2', title: 'Second', date: '2026-02-01T00:00:00Z' }
+    ]);
+    const update = await checkAndScrapeArtist(artist.id, user.id);
+    assert.equal(update.status, 'completed');
+    assert.equal(update.new_artworks, 1);
+    // Older items dropping out of the feed weren't removed by the artist
+    const afterUpdate = await db.getAllArtworks(user.id, { artist_id: artist.id });
+    assert.equal(afterUpdate.length, 3);
+    assert.ok(afterUpdate.every(artwork => !artwork.removed_at));
+  });
+
+  it('reads Atom and JSON Feed', () => {
+    const atom = parseFeed(`<feed xmlns="http://www.w3.org/2005/Atom">
+      <title>Atom art</title>
+      <link href="https://atom.example.com/" />
+      <entry>
+        <id>tag:atom.example.com,2026:1</id>
+        <title type="html">&lt;b&gt;Bold&lt;/b&gt; piece</title>
+        <link href="/posts/1" />
+        <updated>2026-01-02T00:00:00Z</updated>
+        <content type="html">&lt;p&gt;&lt;img src="/img/1.png"&gt;&lt;/p&gt;</content>
+      </entry>
+    </feed>`, 'https://atom.example.com/feed.atom')!;
+    assert.equal(atom.title, 'Atom art');
+    assert.deepEqual(atom.items, [{
+      id: 'tag:atom.example.com,2026:1',
+      title: 'Bold piece',
+      link: 'https://atom.example.com/posts/1',
+      image_url: 'https://atom.example.com/img/1.png',
+      published_at: '2026-01-02T00:00:00.000Z',
+      updated_at: '2026-01-02T00:00:00.000Z'
+    }]);
+
+    const json = parseFeed(JSON.stringify({
+      version: 'https://jsonfeed.org/version/1.1',
+      title: 'JSON art',
+      items: [
+        { id: 1, url: 'https://json.example.com/1', title: 'Older', date_published: '2026-01-01T00:00:00Z' },
+        { id: 2, url: 'https://json.example.com/2', title: 'Newer', image: '/2.jpg', date_published: '2026-02-01T00:00:00Z' }
+      ]
+    }), 'https://json.example.com/feed.json')!;
+    assert.deepEqual(json.items.map(item => [item.id, item.image_url]), [['2', 'https://json.example.com/2.jpg'], ['1', undefined]]);
+
+    assert.equal(parseFeed('<html><body>Not a feed</body></html>', 'https://example.com/'), null);
+  });
+});
@@ -0,0 +1,94 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as db from '../src/database';
+import { enqueueJob, runDueJobs } from '../src/jobQueue';
+import { createTestUser, followArtist, newProject, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+// A fresh account per test, so the shared catalog doesn't carry artworks over from another test
+function addAccount(username: string, projectCount: number) {
+  const template = server().accounts.get('painter')![0];
+  const projects = Array.from({ length: projectCount }, (_, i) =>
+    newProject(template, `${username}-${i}`, `Piece ${i}`)
+  );
+  server().accounts.set(username, projects);
+}
+
+describe('scrape run history', () => {
+  it('records the run and an outcome per artist', async () => {
+    const user = await createTestUser();
+    addAccount('etcher', 4);
+    const artist = await followArtist(user, 'etcher');
+
+    const job = await enqueueJob('check', user.id);
+    await runDueJobs();
+
+    const run = (await db.getScrapeRunForJob(job.id))!;
+    assert.equal(run.trigger, 'manual');
+    assert.equal(run.type, 'check');
+    assert.equal(run.status, 'completed');
+    assert.ok(run.started_at && run.finished_at);
+    assert.ok(run.duration_ms! >= 0);
+    assert.deepEqual(
+      [run.total, run.completed, run.skipped, run.failed, run.new_artworks],
+      [1, 1, 0, 0, 4]
+    );
+
+    const [outcome] = await db.getScrapeOutcomes(run.id);
+    assert.equal(outcome.status, 'completed');
+    assert.equal(outcome.catalog_artist_id, artist.catalog_artist_id);
+    assert.equal(outcome.pages_fetched, 3); // The quick check, the profile and one page of projects
+    assert.equal(outcome.new_artworks, 4);
+    assert.equal(outcome.block_reason, undefined);
+  });
+
+  it('keeps failed attempts with their error and the block reason', async () => {
+    const user = await createTestUser();
+    addAccount('weaver', 2);
+    const artist = await followArtist(user, 'weaver');
+    const baseUrl = process.env.ARTSTATION_BASE_URL;
+    process.env.ARTSTATION_BASE_URL = 'http://127.0.0.1:1'; // Nothing listens there
+
+    try {
+      await enqueueJob('check', user.id);
+      await runDueJobs();
+      await new Promise(resolve => setTimeout(resolve, 350)); // JOB_RETRY_BASE_MS in the test setup
+      await runDueJobs();
+    } finally {
+      process.env.ARTSTATION_BASE_URL = baseUrl;
+    }
+
+    // Queued by a cron service this time, and it runs into one HTTP 429 on the way
+    server().rateLimitNext(1);
+    await enqueueJob('check', user.id, {}, 'cron');
+    await runDueJobs();
+
+    const history = await db.getArtistScrapeHistory(artist.catalog_artist_id, user.id, 10);
+    assert.deepEqual(history.map(entry => [entry.status, entry.trigger, entry.attempt]), [
+      ['completed', 'cron', 1],
+      ['failed', 'manual', 2],
+      ['failed', 'manual', 1]
+    ]);
+    assert.match(history[1].error!, /ECONNREFUSED/);
+    assert.equal(history[0].block_reason, 'rate_limited');
+    assert.equal(history[0].new_artworks, 2);
+  });
+
+  it("shows users their own runs and the scheduled ones, but not other users' runs", async () => {
+    const user = await createTestUser();
+    const other = await createTestUser();
+    addAccount('potter', 1);
+    await followArtist(other, 'potter');
+
+    const otherJob = await enqueueJob('check', other.id);
+    const scheduledJob = (await enqueueJob('check', null))!;
+    await runDueJobs();
+
+    const runs = await db.getScrapeRuns(user.id, 100);
+    assert.ok(runs.some(run => run.job_id === scheduledJob.id));
+    assert.ok(!runs.some(run => run.job_id === otherJob.id));
+    assert.ok((await db.getScrapeRuns(other.id, 100)).some(run => run.job_id === otherJob.id));
+  });
+});
@@ -0,0 +1,130 @@
+import './helpers/setup';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as db from '../src/database';
+import { checkArtistForUpdates, scrapeArtist, scrapeArtistUpdates } from '../src/scraper';
+import { createTestUser, followArtist, newProject, useFakeArtStation } from './helpers/context';
+
+const { server } = useFakeArtStation();
+
+const projectPages = (username: string) =>
+  server().requests.filter(url => url.startsWith(`/users/${username}/projects.json`));
+
+describe('scrapeArtist', () => {
+  it('follows pagination until a page has fewer than 50 projects', async () => {
+    const user = await createTestUser();
+    const artist = await followArtist(user, 'painter');
+
+    const result = await scrapeArtist(artist.id, user.id);
+
+    assert.equal(result.total_found, 55);
+    assert.equal(result.new_artworks, 55);
+    assert.deepEqual(projectPages('painter'), [
+      '/users/painter/projects.json?page=1',
+      '/users/painter/projects.json?page=2'
+    ]);
+
+    const artworks = await db.getAllArtworks(user.id, { artist_id: artist.id });
+    assert.equal(artworks.length, 55);
+    assert.equal(artworks[0].artwork_id, 'pA001'); // Newest first
+
+    const updated = await db.getArtistById(artist.id, user.id);
+    assert.equal(updated?.display_name, 'Pat Painter');
+    assert.ok(updated?.last_checked);
+  });
+
+  it('decodes HTML entities in titles', async () => {
+    const user = await createTestUser();
+    const artist = await followArtist(user, 'sculptor');
+
+    await scrapeArtist(artist.id, user.id);
+
+    const artworks = await db.getAllArtworks(user.id, { artist_id: artist.id });
+    assert.ok(artworks.some(artwork => artwork.title === 'Creature & rider'));
+  });
+});
+
+describe('scrapeArtistUpdates', () => {
+  it('stops at the first artwork that is already known', async () => {
+    const user = await createTestUser();
+    const artist = await followArtist(user, 'painter');
+    await scrapeArtist(artist.id, user.id);
+
+    const projects = server().accounts.get('painter')!;
+    projects.unshift(newProject(projects[0], 'pAnew1', 'Brand new piece'));
+    server().requests.length = 0;
+
+    const result = await scrapeArtistUpdates(artist.id, user.id);
+
+    assert.deepEqual(result.followers, [{ user_id: user.id, artist_id: artist.id, new_artworks: 1, updated_artworks: 0 }]);
+    assert.deepEqual(projectPages('painter'), ['/users/painter/projects.json?page=1']);
+
+    const artworks = await db.getAllArtworks(user.id, { artist_id: artist.id });
+    const added = artworks.find(artwork => artwork.artwork_id === 'pAnew1');
+    assert.equal(added?.is_new, 1);
+  });
+
+  it('revisits every page on a full rescan and picks up edited artworks', async () => {
+    const user = await createTestUser();
+    const artist = await followArtist(user, 'painter');
+    await scrapeArtist(artist.id, user.id);
+    await db.markAllArtworksSeen(user.id, artist.id);
+    const storedBefore = (await db.getAllArtworks(user.id, { artist_id: artist.id })).length;
+
+    // An old project on the second page gets a new title, and a new upload appears
+    const projects = server().accounts.get('painter')!;
+    const edited = projects.find(project => project.hash_id === 'pA053')!;
+    edited.title = 'Repainted harbor';
+    projects.unshift(newProject(projects[0], 'pAnew2', 'Not for a rescan'));
+    server().requests.length = 0;
+
+    const result = await scrapeArtistUpdates(artist.id, user.id, {
+      fullRescan: true,
+      allowInsert: false,
+      markUpdatesAsNew: false,
+      notify: false
+    });
+
+    assert.deepEqual(result.followers, [{ user_id: user.id, artist_id: artist.id, new_artworks: 0, updated_artworks: 1 }]);
+    assert.equal(projectPages('painter').length, 2);
+
+    const artworks = await db.getAllArtworks(user.id, { artist_id: artist.id });
+    assert.equal(artworks.length, storedBefore); // The rescan doesn't insert new uploads
+    assert.ok(!artworks.some(artwork => artwork.artwork_id === 'pAnew2'));
+    const stored = artworks.find(artwork => artwork.artwork_id === 'pA053');
+    assert.equal(stored?.title, 'Repainted harbor');
+    assert.equal(stored?.is_new, 0);
+  });
+
+  it('skips a full rescan for an artist without stored artworks', async () => {
+    const user = await createTestUser();
+    const artist = await followArtist(user, 'newcomer'); // Never scraped, so nothing in the catalog either
+
+    const result = await scrapeArtistUpdates(artist.id, user.id, { fullRescan: true });
+
+    assert.equal('skipped_reason' in result && result.skipped_reason, 'no_existing_artworks');
+    assert.deepEqual(projectPages('newcomer'), []);
+  });
+});
+
+describe('checkArtistForUpdates', () => {
+  it('reports updates only when ArtStation has something newer', async () => {
+    const user = await createTestUser();
+    const artist = await followArtist(user, 'illustrator');
+
+    assert.equal((await checkArtistForUpdates(artist.id, user.id)).hasUpdates, true); // Nothing stored yet
+
+    await scrapeArtist(artist.id, user.id);
+    assert.equal((await checkArtistForUpdates(artist.id, user.id)).hasUpdates, false);
+
+    const projects = server().accounts.get('illustrator')!;
+    projects.unshift(newProject(projects[0], 'iLnew1', 'Fresh sketch'));
+    server().requests.length = 0;
+
+    const result = await checkArtistForUpdates(artist.id, user.id);
+    assert.equal(result.hasUpdates, true);
+    assert.ok(result.latestArtStationDate);
+    // The quick check only needs the first page
+    assert.deepEqual(projectPages('illustrator'), ['/users/illustrator/projects.json?page=1']);
+  });
+});
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Toaster, toast } from 'react-hot-toast';
 import Header from './components/Header';
 import ArtistList from './components/ArtistList';
@@ -8,17 +8,28 @@ import ScrapeProgressModal from './components/ScrapeProgressModal';
 import SyncProgressModal from './components/SyncProgressModal';
 import LoginModal from './components/LoginModal';
 import SettingsModal from './components/SettingsModal';
-import { Artist, Artwork, getArtists, getArtworks, getNewCount, importFollowing, scrapeArtist, getCurrentUser, logout, getAuthToken, User, wakeUpBackend } from './api';
+import ScrapeHistoryModal from './components/ScrapeHistoryModal';
+import ArtistProfileModal from './components/ArtistProfileModal';
+import { Artist, Artwork, ArtworkPageOptions, ArtworkSort, getArtists, getArtworks, getNewCount, importFollowing, scrapeArtist, getCurrentUser, logout, getAuthToken, User, wakeUpBackend } from './api';
 import { loadCachedData, saveCachedData, clearCachedData } from './offlineCache.ts';
 import { deduplicateRequest } from './utils/requestDeduplication';
 import './App.css';
 
+const ARTWORK_PAGE_SIZE = 60;
+
 function App() {
   const [user, setUser] = useState<User | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isCheckingAuth, setIsCheckingAuth] = useState(true);
   const [artists, setArtists] = useState<Artist[]>([]);
   const [artworks, setArtworks] = useState<Artwork[]>([]);
+  const [artworksCursor, setArtworksCursor] = useState<string | null>(null);
+  const [isLoadingMoreArtworks, setIsLoadingMoreArtworks] = useState(false);
+  const [artworkSort, setArtworkSort] = useState<ArtworkSort>('upload_date');
+  // Bumped on every first-page load so pages from a previous view are dropped
+  const artworksRequestRef = useRef(0);
+  // Cursor of the page already requested, so the same page is never appended twice
+  const requestedCursorRef = useRef<string | null>(null);
   const [selectedArtistId, setSelectedArtistId] = useState<number | null>(null);
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [isScraping, setIsScraping] = useState(false);
@@ -35,6 +46,9 @@ function App() {
   const [isLoadingArtworks, setIsLoadingArtworks] = useState(false);
   const [isMobileArtistListOpen, setIsMobileArtistListOpen] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [showScrapeHistory, setShowScrapeHistory] = useState(false);
+  const [scrapeHistoryArtist, setScrapeHistoryArtist] = useState<Artist | null>(null); // null: all runs
+  const [profileArtist, setProfileArtist] = useState<Artist | null>(null);
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
 
   useEffect(() => {
@@ -140,6 +154,7 @@ function App() {
     setIsAuthenticated(false);
     setArtists([]);
     setArtworks([]);
+    setArtworksCursor(null);
     setSelectedArtistId(null);
     clearCachedData();
     toast.success('Logged out');
@@ -150,7 +165,7 @@ function App() {
     if (isAuthenticated) {
       loadArtworks();
     }
-  }, [selectedArtistId, showNewOnly, showFavorites, isAuthenticated]);
+  }, [selectedArtistId, showNewOnly, showFavorites, artworkSort, isAuthenticated]);
 
   const loadArtists = async (showLoading = false) => {
     if (showLoading) {
@@ -185,7 +200,22 @@ function App() {
     }
   };
 
-  const loadArtworks = async (showLoading = false) => {
+  const fetchArtworkPage = (options: ArtworkPageOptions) => {
+    // Show only latest per artist when viewing "All Artists" (but not when showing favorites)
+    const latestPerArtist = selectedArtistId === null && !showFavorites;
+    const requestKey = `loadArtworks:${selectedArtistId ?? 'all'}:${showNewOnly}:${showFavorites}:${latestPerArtist}:${artworkSort}:${options.cursor ?? ''}:${options.limit}`;
+    return deduplicateRequest(requestKey, async () => {
+      return await getArtworks(selectedArtistId, showNewOnly && !showFavorites, latestPerArtist, showFavorites, {
+        ...options,
+        sort: artworkSort
+      });
+    });
+  };
+
+  // keepLoaded: refresh in place (e.g. after marking as seen) instead of going back to the first page
+  const loadArtworks = async (showLoading = false, keepLoaded = false) => {
+    const request = ++artworksRequestRef.current;
+    requestedCursorRef.current = null;
     if (showLoading) {
       setIsLoadingArtworks(true);
     }
@@ -194,6 +224,7 @@ function App() {
       const cached = loadCachedData();
       if (cached?.artworks && cached.selectedArtistId === selectedArtistId) {
         setArtworks(cached.artworks);
+        setArtworksCursor(null);
       } else {
         toast.error('Offline and no cached artworks for this view');
       }
@@ -204,14 +235,12 @@ function App() {
     }
 
     try {
-      // Show only latest per artist when viewing "All Artists" (but not when showing favorites)
-      const latestPerArtist = selectedArtistId === null && !showFavorites;
-      const requestKey = `loadArtworks:${selectedArtistId ?? 'all'}:${showNewOnly}:${showFavorites}:${latestPerArtist}`;
-      const data = await deduplicateRequest(requestKey, async () => {
-        return await getArtworks(selectedArtistId, showNewOnly && !showFavorites, latestPerArtist, showFavorites);
-      });
-      setArtworks(data);
-      saveCachedData({ artworks: data, selectedArtistId });
+      const limit = keepLoaded ? Math.max(artworks.length, ARTWORK_PAGE_SIZE) : ARTWORK_PAGE_SIZE;
+      const page = await fetchArtworkPage({ limit });
+      if (request !== artworksRequestRef.current) return;
+      setArtworks(page.artworks);
+      setArtworksCursor(page.next_cursor);
+      saveCachedData({ artworks: page.artworks, selectedArtistId });
     } catch (error) {
       toast.error('Failed to load artworks');
     } finally {
@@ -221,6 +250,25 @@ function App() {
     }
   };
 
+  const loadMoreArtworks = async () => {
+    if (!artworksCursor || requestedCursorRef.current === artworksCursor || !navigator.onLine) return;
+
+    const request = artworksRequestRef.current;
+    requestedCursorRef.current = artworksCursor;
+    setIsLoadingMoreArtworks(true);
+    try {
+      const page = await fetchArtworkPage({ cursor: artworksCursor, limit: ARTWORK_PAGE_SIZE });
+      if (request !== artworksRequestRef.current) return;
+      setArtworks(prev => [...prev, ...page.artworks]);
+      setArtworksCursor(page.next_cursor);
+    } catch (error) {
+      requestedCursorRef.current = null; // Allow a retry on the next scroll
+      toast.error('Failed to load more artworks');
+    } finally {
+      setIsLoadingMoreArtworks(false);
+    }
+  };
+
   const loadNewCount = async () => {
     if (!navigator.onLine) {
       const cached = loadCachedData();
@@ -412,8 +460,14 @@ function App() {
     }
   };
 
+  const handleArtistRestored = () => {
+    loadArtists();
+    loadArtworks(false);
+    loadNewCount();
+  };
+
   const handleArtworkSeen = () => {
-    loadArtworks();
+    loadArtworks(false, true);
     loadNewCount();
   };
 
@@ -479,6 +533,20 @@ function App() {
         user={user}
         onLogout={handleLogout}
         onOpenSettings={() => setShowSettingsModal(true)}
+        onOpenHistory={() => {
+          setScrapeHistoryArtist(null);
+          setShowScrapeHistory(true);
+        }}
+        searchFilters={{
+          artistId: selectedArtistId,
+          newOnly: showNewOnly && !showFavorites,
+          favoritesOnly: showFavorites
+        }}
+        searchScopeLabel={[
+          selectedArtistId !== null ? `@${artists.find(a => a.id === selectedArtistId)?.username ?? 'artist'}` : null,
+          showFavorites ? 'favorites' : showNewOnly ? 'new only' : null
+        ].filter(Boolean).join(' · ') || undefined}
+        onArtworkChanged={handleArtworkSeen}
       />
       
       <div className="main-container">
@@ -490,7 +558,13 @@ function App() {
             setIsMobileArtistListOpen(false); // Close mobile drawer when artist is selected
           }}
           onArtistDeleted={handleArtistDeleted}
+          onArtistRestored={handleArtistRestored}
           onSyncWithArtStation={handleSyncWithArtStation}
+          onShowHistory={(artist) => {
+            setScrapeHistoryArtist(artist);
+            setShowScrapeHistory(true);
+          }}
+          onShowProfile={setProfileArtist}
           isLoading={isLoadingArtists}
           isMobileOpen={isMobileArtistListOpen}
           onMobileClose={() => setIsMobileArtistListOpen(false)}
@@ -512,6 +586,11 @@ function App() {
           selectedArtist={artists.find(a => a.id === selectedArtistId)}
           onScrapeArtist={handleScrapeSingleArtist}
           isLoading={isLoadingArtworks}
+          hasMore={artworksCursor !== null}
+          isLoadingMore={isLoadingMoreArtworks}
+          onLoadMore={loadMoreArtworks}
+          sort={artworkSort}
+          onSortChange={setArtworkSort}
           onOpenMobileArtistList={() => setIsMobileArtistListOpen(true)}
         />
       </div>
@@ -544,6 +623,21 @@ function App() {
           onClose={() => setShowSettingsModal(false)}
         />
       )}
+
+      {showScrapeHistory && (
+        <ScrapeHistoryModal
+          artist={scrapeHistoryArtist}
+          onArtistUpdated={() => loadArtists()}
+          onClose={() => setShowScrapeHistory(false)}
+        />
+      )}
+
+      {profileArtist && (
+        <ArtistProfileModal
+          artist={profileArtist}
+          onClose={() => setProfileArtist(null)}
+        />
+      )}
     </div>
   );
 }
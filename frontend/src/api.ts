@@ -52,6 +52,7 @@ export function setAuthToken(token: string | null) {
   } else {
     localStorage.removeItem('auth_token');
     delete axios.defaults.headers.common['Authorization'];
+    clearArchivedImages();
   }
 }
 
@@ -72,14 +73,27 @@ axios.interceptors.response.use(
   }
 );
 
+// 'renamed' accounts were followed to their new handle; 'gone' and 'private' ones can't be checked
+export type ArtistAccountStatus = 'active' | 'renamed' | 'gone' | 'private';
+
+// Where an artist's works come from
+export type ArtistSource = 'artstation' | 'rss';
+
 export interface Artist {
   id: number;
   user_id?: number;
-  username: string;
+  source: ArtistSource;
+  username: string; // ArtStation handle, or the feed address without its scheme
   display_name?: string;
   profile_url: string;
+  feed_url?: string;
   avatar_url?: string;
   last_checked?: string;
+  account_status: ArtistAccountStatus;
+  account_status_changed_at?: string;
+  previous_username?: string;
+  check_interval_hours?: number; // Pinned interval; unset means adaptive
+  next_check_at?: string; // When the scheduled check looks at this artist next
   created_at: string;
 }
 
@@ -96,10 +110,55 @@ export interface Artwork {
   is_new: number;
   is_favorite?: number;
   discovered_at: string;
+  removed_at?: string; // Taken down on ArtStation; only favorites are still listed
+  repost_of?: number; // id of the earlier artwork it looks like, if any
   username?: string;
   display_name?: string;
 }
 
+export interface ArtworkRevision {
+  id: number;
+  revision: number;
+  title: string;
+  thumbnail_url: string;
+  high_quality_image_url?: string;
+  artwork_url: string;
+  upload_date?: string;
+  last_updated_at?: string;
+  replaced_at: string;
+}
+
+export interface ArtworkHistory {
+  artwork: Artwork;
+  revisions: ArtworkRevision[]; // Newest first
+}
+
+export interface ArtworkAsset {
+  position: number;
+  asset_type: string; // image, video, video_clip, ...
+  image_url?: string;
+  video_url?: string;
+  width?: number;
+  height?: number;
+  title?: string;
+}
+
+export interface ArtworkDetails {
+  description?: string;
+  tags: string[];
+  mediums: string[];
+  software: string[];
+  categories: string[];
+  likes_count?: number;
+  views_count?: number;
+  assets: ArtworkAsset[];
+  fetched_at: string;
+}
+
+export type ArtworkWithDetails = Artwork & {
+  details: ArtworkDetails | null; // null until the project page has been scraped
+};
+
 export interface FeaturedArtworkPreview {
   id: number;
   artist_id: number;
@@ -119,9 +178,10 @@ export const getArtists = async (): Promise<Artist[]> => {
   });
 };
 
-export const addArtist = async (username: string): Promise<Artist> => {
+// An ArtStation handle or profile URL, a feed URL, or a page that links to its feed
+export const addArtist = async (url: string): Promise<Artist> => {
   return retryRequest(async () => {
-    const response = await axios.post(`${API_BASE}/artists`, { username });
+    const response = await axios.post(`${API_BASE}/artists`, { url });
     return response.data;
   });
 };
@@ -132,24 +192,100 @@ export const deleteArtist = async (id: number): Promise<void> => {
   });
 };
 
+// An unfollowed artist that can still be restored with all its artworks
+export interface TrashedArtist extends Artist {
+  deleted_at: string;
+  purge_at: string;
+  artwork_count: number;
+}
+
+export interface ArtistTrash {
+  retention_days: number;
+  artists: TrashedArtist[];
+}
+
+export const getArtistTrash = async (): Promise<ArtistTrash> => {
+  return retryRequest(async () => {
+    const response = await axios.get(`${API_BASE}/artists/trash`);
+    return response.data;
+  });
+};
+
+export const restoreArtist = async (id: number): Promise<Artist> => {
+  return retryRequest(async () => {
+    const response = await axios.post(`${API_BASE}/artists/${id}/restore`);
+    return response.data;
+  });
+};
+
+export type ArtworkSort = 'upload_date' | 'discovered_at' | 'last_updated_at' | 'artist';
+
+export interface ArtworkPage {
+  artworks: Artwork[];
+  next_cursor: string | null; // Pass back as cursor to get the next page
+}
+
+export interface ArtworkPageOptions {
+  cursor?: string | null;
+  limit?: number;
+  sort?: ArtworkSort;
+  order?: 'asc' | 'desc';
+  from?: string;
+  to?: string;
+}
+
 export const getArtworks = async (
   artistId: number | null = null, 
   newOnly: boolean = false,
   latestPerArtist: boolean = false,
-  favoritesOnly: boolean = false
-): Promise<Artwork[]> => {
+  favoritesOnly: boolean = false,
+  options: ArtworkPageOptions = {}
+): Promise<ArtworkPage> => {
   return retryRequest(async () => {
     const params = new URLSearchParams();
     if (artistId) params.append('artist_id', artistId.toString());
     if (newOnly) params.append('new_only', 'true');
     if (latestPerArtist) params.append('latest_per_artist', 'true');
     if (favoritesOnly) params.append('favorites_only', 'true');
+    if (options.cursor) params.append('cursor', options.cursor);
+    if (options.limit) params.append('limit', options.limit.toString());
+    if (options.sort) params.append('sort', options.sort);
+    if (options.order) params.append('order', options.order);
+    if (options.from) params.append('from', options.from);
+    if (options.to) params.append('to', options.to);
     
     const response = await axios.get(`${API_BASE}/artworks?${params}`);
     return response.data;
   });
 };
 
+export interface ArtworkSearchResult extends Artwork {
+  rank: number;
+  title_highlight: string; // Matching words wrapped in <mark></mark>
+  artist_highlight: string;
+}
+
+export interface ArtworkSearchFilters {
+  artistId?: number | null;
+  newOnly?: boolean;
+  favoritesOnly?: boolean;
+}
+
+export const searchArtworks = async (
+  query: string,
+  filters: ArtworkSearchFilters = {},
+  limit: number = 20
+): Promise<ArtworkSearchResult[]> => {
+  const params = new URLSearchParams({ q: query, limit: limit.toString() });
+  if (filters.artistId) params.append('artist_id', filters.artistId.toString());
+  if (filters.newOnly) params.append('new_only', 'true');
+  if (filters.favoritesOnly) params.append('favorites_only', 'true');
+
+  // Not retried: a newer keystroke replaces the request anyway
+  const response = await axios.get(`${API_BASE}/artworks/search?${params}`);
+  return response.data.results;
+};
+
 export const getFeaturedArtworks = async (limit: number = 10): Promise<FeaturedArtworkPreview[]> => {
   return retryRequest(async () => {
     const response = await axios.get(`${API_BASE}/public/featured-artworks`, {
@@ -177,6 +313,62 @@ export const toggleFavorite = async (id: number): Promise<void> => {
   });
 };
 
+export const getArtworkDetails = async (id: number): Promise<ArtworkWithDetails> => {
+  return retryRequest(async () => {
+    const response = await axios.get(`${API_BASE}/artworks/${id}`);
+    return response.data;
+  });
+};
+
+// Archived copies as blob: URLs, downloaded with the Authorization header like every other
+// request (a token in an <img> src would end up in server logs, history and Referer headers).
+// Kept until logout, so an image that fails again doesn't download its copy twice.
+const archivedImages = new Map<string, Promise<string | null>>();
+
+// Archived copy of one of the artwork's images (0 is the cover), for when the original URL is
+// gone; null when there is none
+export function getArchivedImageUrl(artworkId: number, position: number = 0): Promise<string | null> {
+  const key = `${artworkId}/${position}`;
+  let url = archivedImages.get(key);
+  if (!url) {
+    url = axios
+      .get<Blob>(`${API_BASE}/artworks/${artworkId}/archive/${position}`, { responseType: 'blob' })
+      .then(response => URL.createObjectURL(response.data))
+      .catch(() => null); // Not archived, or the archive is turned off
+    archivedImages.set(key, url);
+  }
+  return url;
+}
+
+function clearArchivedImages() {
+  for (const url of archivedImages.values()) {
+    url.then(blobUrl => blobUrl && URL.revokeObjectURL(blobUrl));
+  }
+  archivedImages.clear();
+}
+
+// onError of an artwork image: switch to the archived copy, once (the archive may not have it
+// either, or the user may have it turned off)
+export function showArchivedImage(img: HTMLImageElement, artworkId: number, position: number = 0): void {
+  const key = `${artworkId}/${position}`;
+  if (img.dataset.archivedImage === key) {
+    return;
+  }
+  img.dataset.archivedImage = key;
+  getArchivedImageUrl(artworkId, position).then(url => {
+    if (url && img.dataset.archivedImage === key) {
+      img.src = url;
+    }
+  });
+}
+
+export const getArtworkHistory = async (id: number): Promise<ArtworkHistory> => {
+  return retryRequest(async () => {
+    const response = await axios.get(`${API_BASE}/artworks/${id}/history`);
+    return response.data;
+  });
+};
+
 export const getNewCount = async (): Promise<{ count: number }> => {
   return retryRequest(async () => {
     const response = await axios.get(`${API_BASE}/artworks/new-count`);
@@ -184,22 +376,102 @@ export const getNewCount = async (): Promise<{ count: number }> => {
   });
 };
 
-export const scrapeArtist = async (id: number): Promise<any> => {
+// Scrapes and imports run in the backend's job queue: the POST returns a job id right away
+// and the result is read from the job once it is finished
+export type ScrapeJobType = 'check' | 'update' | 'rescan' | 'import_following' | 'import_list';
+export type ScrapeJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ScrapeJobItem {
+  id: number;
+  target_id: number;
+  label: string;
+  status: 'pending' | 'completed' | 'dead'; // dead: gave up after the maximum number of attempts
+  attempts: number;
+  next_attempt_at: string;
+  last_error?: string;
+  result?: any;
+  finished_at?: string;
+}
+
+export interface ScrapeJob {
+  id: number;
+  type: ScrapeJobType;
+  status: ScrapeJobStatus;
+  payload: any;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+  items: ScrapeJobItem[];
+  summary: {
+    total: number;
+    pending: number;
+    completed: number;
+    skipped: number;
+    dead: number;
+    new_artworks: number;
+    updated_artworks: number;
+  };
+}
+
+const JOB_POLL_INTERVAL = 2000;
+
+export const getJob = async (id: number): Promise<ScrapeJob> => {
   return retryRequest(async () => {
-    const response = await axios.post(`${API_BASE}/scrape/artist/${id}`);
+    const response = await axios.get(`${API_BASE}/jobs/${id}`);
     return response.data;
   });
 };
 
-export const scrapeAll = async (): Promise<any> => {
+export const retryJob = async (id: number): Promise<ScrapeJob> => {
   return retryRequest(async () => {
+    const response = await axios.post(`${API_BASE}/jobs/${id}/retry`);
+    return response.data.job;
+  });
+};
+
+// Poll until the job is completed or failed
+export const waitForJob = async (id: number): Promise<ScrapeJob> => {
+  for (;;) {
+    const job = await getJob(id);
+    if (job.status === 'completed' || job.status === 'failed') {
+      return job;
+    }
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL));
+  }
+};
+
+// Result of a job with a single item; a dead item is thrown as its last error
+function singleItemResult(job: ScrapeJob): any {
+  const [item] = job.items;
+  if (!item) {
+    throw new Error('Nothing to scrape');
+  }
+  if (item.status === 'dead') {
+    throw new Error(item.last_error || 'Failed to scrape');
+  }
+  return item.result;
+}
+
+// optimized: check for new artworks first and only scrape those (result has status 'skipped' without updates)
+export const scrapeArtist = async (id: number, optimized: boolean = false): Promise<any> => {
+  // Retrying the POST is safe: the backend returns the job that is already queued
+  const { job_id } = await retryRequest(async () => {
+    const response = await axios.post(`${API_BASE}/scrape/artist/${id}${optimized ? '?optimized=true' : ''}`);
+    return response.data;
+  });
+  return singleItemResult(await waitForJob(job_id));
+};
+
+export const scrapeAll = async (): Promise<ScrapeJob['summary']> => {
+  const { job_id } = await retryRequest(async () => {
     const response = await axios.post(`${API_BASE}/scrape/all`);
     return response.data;
   });
+  return (await waitForJob(job_id)).summary;
 };
 
 export const importFollowing = async (username: string = '', clearExisting: boolean = true, skipArtworkScraping: boolean = false): Promise<any> => {
-  return retryRequest(async () => {
+  const { job_id } = await retryRequest(async () => {
     // If username is empty, backend will use user's stored ArtStation username
     const response = await axios.post(`${API_BASE}/import/following`, { 
       username: username || undefined, 
@@ -208,15 +480,185 @@ export const importFollowing = async (username: string = '', clearExisting: bool
     });
     return response.data;
   });
+  return singleItemResult(await waitForJob(job_id));
+};
+
+// Follow artists from a CSV, OPML or plain-text list of usernames and URLs
+export type ImportListFormat = 'csv' | 'opml' | 'text';
+export type ImportListStatus = 'ready' | 'added' | 'exists' | 'duplicate' | 'invalid' | 'not_found' | 'failed';
+
+export interface ImportListEntry {
+  line: number;
+  input: string;
+  source?: ArtistSource;
+  username?: string;
+  status: ImportListStatus;
+  duplicate_of?: number;
+  artist_id?: number;
+  error?: string;
+}
+
+export interface ImportListResult {
+  format: ImportListFormat;
+  total: number;
+  added: number;
+  already_exists: number;
+  duplicates: number;
+  invalid: number;
+  not_found: number;
+  failed: number;
+  entries: ImportListEntry[];
+  newly_added_artist_ids: number[];
+}
+
+export const importList = async (content: string, dryRun: boolean = false, format?: ImportListFormat): Promise<ImportListResult> => {
+  if (dryRun) {
+    return retryRequest(async () => {
+      const response = await axios.post(`${API_BASE}/import/list`, { content, format, dryRun });
+      return response.data;
+    });
+  }
+  // Retrying the POST is safe: the backend returns the job that is already queued
+  const { job_id } = await retryRequest(async () => {
+    const response = await axios.post(`${API_BASE}/import/list`, { content, format });
+    return response.data;
+  });
+  await waitForJob(job_id);
+  return retryRequest(async () => {
+    const response = await axios.get(`${API_BASE}/import/list/${job_id}`);
+    return response.data;
+  });
+};
+
+// Scrape history: every job becomes a run, with an outcome for every attempt at an artist
+export type ScrapeRunTrigger = 'manual' | 'scheduled' | 'cron';
+
+export interface ScrapeRun {
+  id: number;
+  job_id: number;
+  type: ScrapeJobType;
+  trigger: ScrapeRunTrigger;
+  user_id: number | null; // null for scheduled runs
+  status: ScrapeJobStatus;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+  duration_ms?: number;
+  total: number;
+  completed: number;
+  skipped: number;
+  failed: number;
+  new_artworks: number;
+  updated_artworks: number;
+}
+
+export interface ScrapeOutcome {
+  id: number;
+  run_id: number;
+  catalog_artist_id: number | null;
+  username: string;
+  attempt: number;
+  status: 'completed' | 'skipped' | 'failed' | 'paused';
+  pages_fetched: number;
+  new_artworks: number;
+  updated_artworks: number;
+  duration_ms: number;
+  reason?: string;
+  error?: string;
+  block_reason?: 'rate_limited' | 'challenge';
+  created_at: string;
+}
+
+export type ScrapeHistoryEntry = ScrapeOutcome & Pick<ScrapeRun, 'type' | 'trigger'>;
+
+export interface ArtistScrapeHistory {
+  artist_id: number;
+  username: string;
+  last_checked?: string;
+  last_success_at: string | null;
+  consecutive_failures: number;
+  history: ScrapeHistoryEntry[];
+}
+
+// hours: null goes back to the adaptive schedule
+export const setArtistCheckInterval = async (artistId: number, hours: number | null): Promise<Artist> => {
+  return retryRequest(async () => {
+    const response = await axios.patch(`${API_BASE}/artists/${artistId}/check-interval`, { hours });
+    return response.data;
+  });
+};
+
+export const getScrapeRuns = async (limit: number = 20): Promise<{ retention_days: number; runs: ScrapeRun[] }> => {
+  return retryRequest(async () => {
+    const response = await axios.get(`${API_BASE}/scrape/runs`, { params: { limit } });
+    return response.data;
+  });
+};
+
+export const getScrapeRun = async (id: number): Promise<ScrapeRun & { outcomes: ScrapeOutcome[] }> => {
+  return retryRequest(async () => {
+    const response = await axios.get(`${API_BASE}/scrape/runs/${id}`);
+    return response.data;
+  });
+};
+
+export const getArtistScrapeHistory = async (artistId: number): Promise<ArtistScrapeHistory> => {
+  return retryRequest(async () => {
+    const response = await axios.get(`${API_BASE}/artists/${artistId}/scrape-history`);
+    return response.data;
+  });
+};
+
+// Artist profile, refreshed from ArtStation on every check
+export interface ArtistLink {
+  network: string; // ArtStation's name for it, e.g. 'twitter', 'instagram', 'website'
+  url: string;
+}
+
+export interface ArtistProfile {
+  display_name?: string;
+  avatar_url?: string;
+  headline?: string;
+  bio?: string;
+  location?: string;
+  cover_url?: string;
+  links: ArtistLink[];
+  followers_count?: number;
+  following_count?: number;
+  fetched_at: string;
+}
+
+export interface FollowerCountPoint {
+  date: string; // YYYY-MM-DD
+  followers_count: number;
+  following_count?: number;
+}
+
+export interface ArtistProfileDetails {
+  artist: Artist;
+  profile: ArtistProfile | null; // null until the artist has been checked
+  follower_history: FollowerCountPoint[]; // Oldest first
+}
+
+export const getArtistProfile = async (artistId: number): Promise<ArtistProfileDetails> => {
+  return retryRequest(async () => {
+    const response = await axios.get(`${API_BASE}/artists/${artistId}/profile`);
+    return response.data;
+  });
 };
 
 // Auth API
+export type ImageArchiveMode = 'off' | 'covers' | 'all';
+
 export interface User {
   id: number;
   username: string;
   artstation_username?: string;
   discord_webhook_url?: string | null;
   discord_user_id?: string | null;
+  notify_removed_artworks?: boolean;
+  mute_repost_notifications?: boolean;
+  image_archive?: ImageArchiveMode;
   token?: string; // Only present in login/register responses
   created_at: string;
 }
@@ -268,6 +710,9 @@ export const getUserProfile = async (): Promise<User> => {
 export const updateUserProfile = async (updates: {
   discord_webhook_url?: string | null;
   discord_user_id?: string | null;
+  notify_removed_artworks?: boolean;
+  mute_repost_notifications?: boolean;
+  image_archive?: ImageArchiveMode;
 }): Promise<{ success: boolean; user: User }> => {
   return retryRequest(async () => {
     const response = await axios.patch(`${API_BASE}/user`, updates);
@@ -275,6 +720,20 @@ export const updateUserProfile = async (updates: {
   });
 };
 
+export interface ImageArchiveUsage {
+  mode: ImageArchiveMode;
+  files: number;
+  bytes: number;
+  quota_bytes: number; // 0 when the server has the archive turned off
+}
+
+export const getImageArchiveUsage = async (): Promise<ImageArchiveUsage> => {
+  return retryRequest(async () => {
+    const response = await axios.get(`${API_BASE}/user/image-archive`);
+    return response.data;
+  });
+};
+
 export const testDiscordNotification = async (): Promise<{ success: boolean; message: string; artwork?: { title: string; artist: string } }> => {
   return retryRequest(async () => {
     const response = await axios.post(`${API_BASE}/user/test-discord`);
@@ -289,6 +748,34 @@ export const sendCustomDiscordMessage = async (message: string): Promise<{ succe
   });
 };
 
+// Account archive API (move an account between ArtTracker instances)
+export interface AccountImportSummary {
+  success: boolean;
+  artists_added: number;
+  artists_existing: number;
+  artists_skipped: number;
+  artworks_added: number;
+  artworks_existing: number;
+  artworks_skipped: number; // Not scraped yet: they show up after the next check
+  marked_seen: number;
+  favorites_restored: number;
+  persistent_favorites: number;
+  profile_fields_updated: string[];
+}
+
+export const exportAccount = async (): Promise<Blob> => {
+  return retryRequest(async () => {
+    const response = await axios.get(`${API_BASE}/user/export`, { responseType: 'blob' });
+    return response.data;
+  });
+};
+
+export const importAccount = async (archive: unknown): Promise<AccountImportSummary> => {
+  // Not retried: a retry after a partial import would only repeat the merge
+  const response = await axios.post(`${API_BASE}/user/import`, archive);
+  return response.data;
+};
+
 export const logout = () => {
   setAuthToken(null);
 };
@@ -28,6 +28,8 @@ function AddArtistModal({ onClose, onArtistAdded }: AddArtistModalProps) {
     } catch (error: any) {
       if (error.response?.status === 409) {
         toast.error('Artist already exists');
+      } else if (error.response?.status === 400 && error.response.data?.error) {
+        toast.error(error.response.data.error);
       } else {
         toast.error('Failed to add artist');
       }
@@ -55,20 +57,21 @@ function AddArtistModal({ onClose, onArtistAdded }: AddArtistModalProps) {
         <form onSubmit={handleSubmit}>
           <div className="modal-body">
             <label htmlFor="username" className="form-label">
-              ArtStation Username or Profile URL
+              ArtStation Username, Profile URL or Feed URL
             </label>
             <input
               id="username"
               type="text"
               className="form-input"
-              placeholder="e.g., 'bobby_rebholz' or full URL"
+              placeholder="e.g., 'bobby_rebholz' or https://example.com/feed.xml"
               value={username}
               onChange={(e) => setUsername(e.target.value)}
               autoFocus
               disabled={isLoading}
             />
             <p className="form-hint">
-              Enter just the username or paste the full ArtStation profile URL
+              Enter an ArtStation username or profile URL, or the URL of an RSS/Atom feed (a blog or portfolio
+              page that links to its feed works too)
             </p>
           </div>
 
@@ -1,25 +1,104 @@
 import { useState } from 'react';
-import { Artist, deleteArtist } from '../api';
+import { Artist, ArtistTrash, deleteArtist, getArtistTrash, restoreArtist } from '../api';
 import { toast } from 'react-hot-toast';
 import ConfirmModal from './ConfirmModal';
 import './ArtistList.css';
 
+const ACCOUNT_STATUS_LABELS: Record<Exclude<Artist['account_status'], 'active'>, string> = {
+  renamed: 'Renamed',
+  gone: 'Deleted',
+  private: 'Private'
+};
+
+function accountStatusTitle(artist: Artist): string {
+  const since = artist.account_status_changed_at
+    ? ` since ${new Date(artist.account_status_changed_at).toLocaleDateString()}`
+    : '';
+  switch (artist.account_status) {
+    case 'renamed':
+      return artist.previous_username
+        ? `Previously @${artist.previous_username}, renamed${since}`
+        : `This account moved to a new handle${since}`;
+    case 'gone':
+      return `This account no longer exists on ArtStation${since}. Its artworks are kept.`;
+    case 'private':
+      return `This profile is private${since}. Checks resume once it's public again.`;
+    default:
+      return '';
+  }
+}
+
+// @handle for ArtStation, the site for feeds
+function artistHandle(artist: Artist): string {
+  if (artist.source !== 'rss') {
+    return `@${artist.username}`;
+  }
+  try {
+    return `RSS · ${new URL(artist.profile_url).host}`;
+  } catch {
+    return 'RSS';
+  }
+}
+
+function formatNextCheck(date: string): string {
+  const hours = (new Date(date).getTime() - Date.now()) / 3600000;
+  if (hours <= 0) return 'due';
+  if (hours < 1) return 'in <1h';
+  if (hours < 48) return `in ${Math.round(hours)}h`;
+  return `in ${Math.round(hours / 24)}d`;
+}
+
 interface ArtistListProps {
   artists: Artist[];
   selectedArtistId: number | null;
   onSelectArtist: (id: number | null) => void;
   onArtistDeleted: () => void;
+  onArtistRestored: () => void;
   onSyncWithArtStation: () => void;
+  onShowHistory: (artist: Artist) => void;
+  onShowProfile: (artist: Artist) => void;
   isLoading?: boolean;
   isMobileOpen?: boolean;
   onMobileClose?: () => void;
 }
 
-function ArtistList({ artists, selectedArtistId, onSelectArtist, onArtistDeleted, onSyncWithArtStation, isLoading = false, isMobileOpen = false, onMobileClose }: ArtistListProps) {
+function ArtistList({ artists, selectedArtistId, onSelectArtist, onArtistDeleted, onArtistRestored, onSyncWithArtStation, onShowHistory, onShowProfile, isLoading = false, isMobileOpen = false, onMobileClose }: ArtistListProps) {
   const [deletingId, setDeletingId] = useState<number | null>(null);
   const [pendingDeleteId, setPendingDeleteId] = useState<number | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [trash, setTrash] = useState<ArtistTrash | null>(null);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  const loadTrash = async () => {
+    try {
+      setTrash(await getArtistTrash());
+    } catch (error) {
+      toast.error('Failed to load recently unfollowed artists');
+    }
+  };
+
+  const handleToggleTrash = () => {
+    if (!isTrashOpen) {
+      loadTrash();
+    }
+    setIsTrashOpen(!isTrashOpen);
+  };
+
+  const handleRestore = async (artistId: number) => {
+    setRestoringId(artistId);
+    try {
+      await restoreArtist(artistId);
+      toast.success('Artist restored');
+      onArtistRestored();
+      await loadTrash();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to restore artist');
+    } finally {
+      setRestoringId(null);
+    }
+  };
 
   const handleDelete = async (artistId: number) => {
     setDeletingId(artistId);
@@ -27,6 +106,9 @@ function ArtistList({ artists, selectedArtistId, onSelectArtist, onArtistDeleted
       await deleteArtist(artistId);
       toast.success('Artist removed');
       onArtistDeleted();
+      if (isTrashOpen) {
+        loadTrash();
+      }
     } catch (error) {
       toast.error('Failed to remove artist');
     } finally {
@@ -65,7 +147,7 @@ function ArtistList({ artists, selectedArtistId, onSelectArtist, onArtistDeleted
       {pendingDeleteId !== null && (
         <ConfirmModal
           title="Unfollow artist"
-          message="Are you sure you want to unfollow this artist? This will also stop checking for new artworks from them."
+          message="Are you sure you want to unfollow this artist? This will also stop checking for new artworks from them. You can restore them with their artworks from Recently unfollowed."
           confirmText="Unfollow"
           cancelText="Cancel"
           confirmButtonClass="btn-error"
@@ -191,15 +273,58 @@ function ArtistList({ artists, selectedArtistId, onSelectArtist, onArtistDeleted
                   <div className="artist-name">
                     {artist.display_name || artist.username}
                   </div>
-                  <div className="artist-username">@{artist.username}</div>
+                  <div className="artist-username" title={artist.feed_url}>{artistHandle(artist)}</div>
+                  {artist.account_status && artist.account_status !== 'active' && (
+                    <span
+                      className={`artist-status-badge artist-status-${artist.account_status}`}
+                      title={accountStatusTitle(artist)}
+                    >
+                      {ACCOUNT_STATUS_LABELS[artist.account_status]}
+                    </span>
+                  )}
                   {artist.last_checked && (
                     <div className="artist-last-checked">
                       Last checked: {new Date(artist.last_checked).toLocaleDateString()}
                     </div>
                   )}
+                  {artist.next_check_at && (
+                    <div
+                      className="artist-last-checked"
+                      title={artist.check_interval_hours
+                        ? `Pinned to every ${artist.check_interval_hours}h`
+                        : 'Adapts to how often this artist posts'}
+                    >
+                      Next check: {formatNextCheck(artist.next_check_at)}
+                      {artist.check_interval_hours && ' 📌'}
+                    </div>
+                  )}
                 </div>
               </div>
 
+              {artist.source !== 'rss' && (
+                <button
+                  className="btn-history"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onShowProfile(artist);
+                  }}
+                  title="Artist profile"
+                  aria-label={`Profile of @${artist.username}`}
+                >
+                  👤
+                </button>
+              )}
+              <button
+                className="btn-history"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onShowHistory(artist);
+                }}
+                title="Scrape history"
+                aria-label={`Scrape history for @${artist.username}`}
+              >
+                🕘
+              </button>
               <button
                 className="btn-delete"
                 onClick={(e) => handleDeleteClick(e, artist.id)}
@@ -212,6 +337,47 @@ function ArtistList({ artists, selectedArtistId, onSelectArtist, onArtistDeleted
           ))
         )}
       </div>
+
+      <div className="artist-trash">
+        <button
+          type="button"
+          className="artist-trash-toggle"
+          onClick={handleToggleTrash}
+          aria-expanded={isTrashOpen}
+        >
+          <span>Recently unfollowed{trash ? ` (${trash.artists.length})` : ''}</span>
+          <span aria-hidden="true">{isTrashOpen ? '▾' : '▸'}</span>
+        </button>
+
+        {isTrashOpen && trash && (
+          <div className="artist-trash-list">
+            {trash.artists.length === 0 ? (
+              <p className="artist-trash-empty">
+                Unfollowed artists stay here for {trash.retention_days} days
+              </p>
+            ) : (
+              trash.artists.map((artist) => (
+                <div key={artist.id} className="artist-trash-item">
+                  <div className="artist-details">
+                    <div className="artist-name">{artist.display_name || artist.username}</div>
+                    <div className="artist-trash-meta">
+                      {artist.artwork_count} artwork{artist.artwork_count === 1 ? '' : 's'} · kept until {new Date(artist.purge_at).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    className="btn-restore"
+                    onClick={() => handleRestore(artist.id)}
+                    disabled={restoringId === artist.id}
+                  >
+                    Restore
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </div>
     </aside>
     </>
   );
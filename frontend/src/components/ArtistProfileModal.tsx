@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { Artist, ArtistProfileDetails, FollowerCountPoint, getArtistProfile } from '../api';
+import { toast } from 'react-hot-toast';
+import './ArtistProfileModal.css';
+
+interface ArtistProfileModalProps {
+  artist: Artist;
+  onClose: () => void;
+}
+
+const NETWORK_LABELS: Record<string, string> = {
+  artstation: 'ArtStation',
+  behance: 'Behance',
+  deviantart: 'DeviantArt',
+  facebook: 'Facebook',
+  instagram: 'Instagram',
+  linkedin: 'LinkedIn',
+  patreon: 'Patreon',
+  tumblr: 'Tumblr',
+  twitch: 'Twitch',
+  twitter: 'Twitter / X',
+  vimeo: 'Vimeo',
+  website: 'Website',
+  youtube: 'YouTube'
+};
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 120;
+
+function formatCount(count?: number): string {
+  return count === undefined ? '–' : count.toLocaleString();
+}
+
+function networkLabel(network: string): string {
+  return NETWORK_LABELS[network] || network.replace(/_/g, ' ');
+}
+
+// Followers over time as a line; one point per day the artist was checked
+function FollowerChart({ history }: { history: FollowerCountPoint[] }) {
+  if (history.length < 2) {
+    return <p className="profile-hint">The follower graph fills in as the artist gets checked on more days.</p>;
+  }
+
+  const counts = history.map(point => point.followers_count);
+  const min = Math.min(...counts);
+  const range = Math.max(1, Math.max(...counts) - min);
+  const first = new Date(history[0].date).getTime();
+  const span = Math.max(1, new Date(history[history.length - 1].date).getTime() - first);
+  const points = history
+    .map(point => {
+      const x = ((new Date(point.date).getTime() - first) / span) * CHART_WIDTH;
+      const y = CHART_HEIGHT - ((point.followers_count - min) / range) * CHART_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+  const change = counts[counts.length - 1] - counts[0];
+
+  return (
+    <div className="profile-chart">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`Followers from ${formatCount(counts[0])} to ${formatCount(counts[counts.length - 1])}`}
+      >
+        <polyline points={points} fill="none" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="profile-chart-meta">
+        <span>{history[0].date}</span>
+        <span className={change >= 0 ? 'profile-growth' : 'profile-decline'}>
+          {change >= 0 ? '+' : ''}{change.toLocaleString()} followers
+        </span>
+        <span>{history[history.length - 1].date}</span>
+      </div>
+    </div>
+  );
+}
+
+function ArtistProfileModal({ artist, onClose }: ArtistProfileModalProps) {
+  const [details, setDetails] = useState<ArtistProfileDetails | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setDetails(await getArtistProfile(artist.id));
+      } catch (error) {
+        toast.error('Failed to load the artist profile');
+      }
+    };
+    load();
+  }, [artist]);
+
+  const profile = details?.profile;
+  const name = profile?.display_name || artist.display_name || artist.username;
+  const avatarUrl = profile?.avatar_url || artist.avatar_url;
+
+  return (
+    <div className="modal-backdrop profile-backdrop" onClick={onClose}>
+      <div className="modal profile-modal" onClick={(e) => e.stopPropagation()}>
+        {profile?.cover_url && (
+          <div className="profile-cover" style={{ backgroundImage: `url("${profile.cover_url}")` }} />
+        )}
+
+        <div className="modal-header">
+          <div className="profile-identity">
+            {avatarUrl ? (
+              <img src={avatarUrl} alt="" className="profile-avatar" />
+            ) : (
+              <div className="profile-avatar profile-avatar-placeholder">{artist.username[0].toUpperCase()}</div>
+            )}
+            <div>
+              <h2>{name}</h2>
+              <a href={artist.profile_url} target="_blank" rel="noopener noreferrer" className="profile-handle">
+                @{artist.username}
+              </a>
+            </div>
+          </div>
+          <button className="modal-close" onClick={onClose} title="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {details === null ? (
+            <div className="profile-hint">
+              <span className="spinner" aria-hidden="true"></span> Loading...
+            </div>
+          ) : !profile ? (
+            <p className="profile-hint">No profile details yet. They are fetched the next time this artist is checked.</p>
+          ) : (
+            <>
+              {profile.headline && <p className="profile-headline">{profile.headline}</p>}
+              {profile.location && <p className="profile-location">📍 {profile.location}</p>}
+
+              <div className="profile-counts">
+                <div>
+                  <span className="profile-count">{formatCount(profile.followers_count)}</span>
+                  <span className="profile-count-label">followers</span>
+                </div>
+                <div>
+                  <span className="profile-count">{formatCount(profile.following_count)}</span>
+                  <span className="profile-count-label">following</span>
+                </div>
+              </div>
+
+              {profile.bio && <p className="profile-bio">{profile.bio}</p>}
+
+              {profile.links.length > 0 && (
+                <ul className="profile-links">
+                  {profile.links.map(link => (
+                    <li key={link.url}>
+                      <a href={link.url} target="_blank" rel="noopener noreferrer">
+                        {networkLabel(link.network)}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <h3 className="profile-section-title">Followers over time</h3>
+              <FollowerChart history={details.follower_history} />
+
+              <p className="profile-updated">Updated {new Date(profile.fetched_at).toLocaleString()}</p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ArtistProfileModal;
@@ -1,5 +1,5 @@
-import { useState, useEffect, useRef } from 'react';
-import { Artist, Artwork, markArtworkSeen, markAllSeen, toggleFavorite } from '../api';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Artist, Artwork, ArtworkSort, markArtworkSeen, markAllSeen, showArchivedImage, toggleFavorite } from '../api';
 import { toast } from 'react-hot-toast';
 import ArtworkPreviewModal from './ArtworkPreviewModal';
 import './ArtworkGrid.css';
@@ -14,15 +14,45 @@ interface ArtworkGridProps {
   selectedArtist?: Artist;
   onScrapeArtist?: (artistId: number) => Promise<void>;
   isLoading?: boolean;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  sort: ArtworkSort;
+  onSortChange: (sort: ArtworkSort) => void;
   onOpenMobileArtistList?: () => void;
 }
 
-function ArtworkGrid({ artworks, showNewOnly, onToggleNewOnly, showFavorites, onToggleFavorites, onArtworkSeen, selectedArtist, onScrapeArtist, isLoading = false, onOpenMobileArtistList }: ArtworkGridProps) {
+const SORT_LABELS: Record<ArtworkSort, string> = {
+  upload_date: 'Upload date',
+  discovered_at: 'Date added',
+  last_updated_at: 'Last updated',
+  artist: 'Artist name'
+};
+
+// Likely reposts right after their original when both are listed; the rest keeps its order
+function groupReposts(artworks: Artwork[]): Artwork[] {
+  const listed = new Set(artworks.map(a => a.id));
+  const reposts = new Map<number, Artwork[]>();
+  for (const artwork of artworks) {
+    if (artwork.repost_of && listed.has(artwork.repost_of)) {
+      reposts.set(artwork.repost_of, [...(reposts.get(artwork.repost_of) || []), artwork]);
+    }
+  }
+  if (reposts.size === 0) return artworks;
+
+  return artworks
+    .filter(a => !a.repost_of || !listed.has(a.repost_of))
+    .flatMap(a => [a, ...(reposts.get(a.id) || [])]);
+}
+
+function ArtworkGrid({ artworks, showNewOnly, onToggleNewOnly, showFavorites, onToggleFavorites, onArtworkSeen, selectedArtist, onScrapeArtist, isLoading = false, hasMore = false, isLoadingMore = false, onLoadMore, sort, onSortChange, onOpenMobileArtistList }: ArtworkGridProps) {
   const newCount = artworks.filter(a => a.is_new).length;
+  const groupedArtworks = useMemo(() => groupReposts(artworks), [artworks]);
   const [isScraping, setIsScraping] = useState(false);
   const [showBackToTop, setShowBackToTop] = useState(false);
   const [previewArtwork, setPreviewArtwork] = useState<Artwork | null>(null);
   const gridRef = useRef<HTMLDivElement | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
     const target = gridRef.current;
@@ -43,7 +73,25 @@ function ArtworkGrid({ artworks, showNewOnly, onToggleNewOnly, showFavorites, on
   useEffect(() => {
     if (!gridRef.current) return;
     gridRef.current.scrollTo({ top: 0 });
-  }, [selectedArtist?.id, showNewOnly]);
+  }, [selectedArtist?.id, showNewOnly, sort]);
+
+  // Infinite scroll: fetch the next page shortly before the end of the grid comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          onLoadMore();
+        }
+      },
+      { root: gridRef.current, rootMargin: '600px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore, artworks.length]);
 
   const scrollToTop = () => {
     gridRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
@@ -154,9 +202,9 @@ function ArtworkGrid({ artworks, showNewOnly, onToggleNewOnly, showFavorites, on
             </h2>
             <span className="artwork-count">
               {selectedArtist ? (
-                `${artworks.length} artwork${artworks.length !== 1 ? 's' : ''}`
+                `${artworks.length}${hasMore ? '+' : ''} artwork${artworks.length !== 1 ? 's' : ''}`
               ) : (
-                `Latest from ${artworks.length} artist${artworks.length !== 1 ? 's' : ''}`
+                `Latest from ${artworks.length}${hasMore ? '+' : ''} artist${artworks.length !== 1 ? 's' : ''}`
               )}
               {newCount > 0 && ` · ${newCount} new`}
             </span>
@@ -164,6 +212,17 @@ function ArtworkGrid({ artworks, showNewOnly, onToggleNewOnly, showFavorites, on
         </div>
 
         <div className="artwork-actions">
+          <select
+            className="artwork-sort-select"
+            value={sort}
+            onChange={(e) => onSortChange(e.target.value as ArtworkSort)}
+            aria-label="Sort artworks"
+          >
+            {(Object.keys(SORT_LABELS) as ArtworkSort[]).map((key) => (
+              <option key={key} value={key}>{SORT_LABELS[key]}</option>
+            ))}
+          </select>
+
           {newCount > 0 && !showFavorites && (
             <button 
               className="btn btn-secondary"
@@ -242,13 +301,13 @@ function ArtworkGrid({ artworks, showNewOnly, onToggleNewOnly, showFavorites, on
         </div>
       ) : (
         <div className="artwork-grid">
-          {artworks.map((artwork) => (
+          {groupedArtworks.map((artwork) => (
             <a
               key={artwork.id}
               href={artwork.artwork_url}
               target="_blank"
               rel="noopener noreferrer"
-              className="artwork-card"
+              className={`artwork-card${artwork.repost_of ? ' artwork-card-repost' : ''}`}
             >
               <button
                 className="artwork-preview-btn"
@@ -297,6 +356,7 @@ function ArtworkGrid({ artworks, showNewOnly, onToggleNewOnly, showFavorites, on
                     alt={artwork.title}
                     className="artwork-image"
                     loading="lazy"
+                    onError={(e) => showArchivedImage(e.currentTarget, artwork.id)}
                   />
                 ) : (
                   <div className="artwork-placeholder">
@@ -307,6 +367,22 @@ function ArtworkGrid({ artworks, showNewOnly, onToggleNewOnly, showFavorites, on
 
               <div className="artwork-info">
                 <h3 className="artwork-title">{artwork.title}</h3>
+                {artwork.removed_at && (
+                  <span
+                    className="artwork-removed-badge"
+                    title={`No longer on ArtStation since ${new Date(artwork.removed_at).toLocaleDateString()}`}
+                  >
+                    Removed by artist
+                  </span>
+                )}
+                {artwork.repost_of && (
+                  <span
+                    className="artwork-repost-badge"
+                    title="The image looks like an earlier artwork of an artist you follow"
+                  >
+                    Possible repost
+                  </span>
+                )}
                 <p className="artwork-artist">
                   @{artwork.username || 'Unknown'}
                 </p>
@@ -320,6 +396,17 @@ function ArtworkGrid({ artworks, showNewOnly, onToggleNewOnly, showFavorites, on
           ))}
         </div>
       )}
+      {!isLoading && hasMore && (
+        <div className="artwork-load-more" ref={loadMoreRef}>
+          {isLoadingMore && (
+            <img 
+              src="/icons/Refresh.svg" 
+              alt="Loading more artworks" 
+              className="loading-indicator loading-spin"
+            />
+          )}
+        </div>
+      )}
       </main>
       {showBackToTop && (
         <button 
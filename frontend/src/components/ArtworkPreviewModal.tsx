@@ -1,5 +1,5 @@
-import { useEffect } from 'react';
-import { Artwork, toggleFavorite } from '../api';
+import { useEffect, useState } from 'react';
+import { Artwork, ArtworkAsset, ArtworkDetails, ArtworkRevision, getArtworkDetails, getArtworkHistory, showArchivedImage, toggleFavorite } from '../api';
 import { toast } from 'react-hot-toast';
 import './ArtworkPreviewModal.css';
 
@@ -10,7 +10,98 @@ interface ArtworkPreviewModalProps {
   onFavoriteToggle?: () => void;
 }
 
+// Clips are plain video files; other videos are YouTube/Vimeo/ArtStation player embeds
+function isVideoFile(url: string) {
+  return /\.(mp4|webm|mov)(\?|$)/i.test(url);
+}
+
+// ArtStation handles never contain a dot; feed artists are keyed by their feed address, so
+// they link to the site the artwork is on instead
+function artistLink(artwork: Artwork): { href: string; label: string } {
+  if (artwork.username && !artwork.username.includes('.')) {
+    return { href: `https://www.artstation.com/${artwork.username}`, label: `@${artwork.username}` };
+  }
+  try {
+    const site = new URL(artwork.artwork_url);
+    return { href: site.origin, label: artwork.display_name || site.host };
+  } catch {
+    return { href: artwork.artwork_url, label: artwork.display_name || 'Unknown' };
+  }
+}
+
+// position is the asset's place in the image archive (the cover is 0, assets follow from 1)
+function AssetView({ asset, title, artworkId, position }: { asset: ArtworkAsset; title: string; artworkId: number; position: number }) {
+  if (asset.video_url) {
+    return isVideoFile(asset.video_url) ? (
+      <video src={asset.video_url} poster={asset.image_url} controls className="artwork-preview-image" />
+    ) : (
+      <iframe
+        src={asset.video_url}
+        title={asset.title || title}
+        className="artwork-preview-video"
+        allow="autoplay; fullscreen; picture-in-picture"
+        allowFullScreen
+      />
+    );
+  }
+  return (
+    <img
+      src={asset.image_url}
+      alt={asset.title || title}
+      className="artwork-preview-image"
+      onError={(e) => showArchivedImage(e.currentTarget, artworkId, position)}
+    />
+  );
+}
+
 function ArtworkPreviewModal({ artwork, onClose, onMarkSeen, onFavoriteToggle }: ArtworkPreviewModalProps) {
+  const [revisions, setRevisions] = useState<ArtworkRevision[]>([]);
+  const [details, setDetails] = useState<ArtworkDetails | null>(null);
+  const [activeAssetIndex, setActiveAssetIndex] = useState(0);
+
+  // Load the project details (all assets, description, tags, ...) once they have been scraped
+  useEffect(() => {
+    setDetails(null);
+    setActiveAssetIndex(0);
+    if (!artwork) return;
+
+    let cancelled = false;
+    getArtworkDetails(artwork.id)
+      .then(result => {
+        if (!cancelled) {
+          setDetails(result.details);
+        }
+      })
+      .catch(() => {
+        // Falls back to the cover image
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [artwork?.id]);
+
+  // Load previous versions (only edited artworks have any)
+  useEffect(() => {
+    setRevisions([]);
+    if (!artwork) return;
+
+    let cancelled = false;
+    getArtworkHistory(artwork.id)
+      .then(history => {
+        if (!cancelled) {
+          setRevisions(history.revisions);
+        }
+      })
+      .catch(() => {
+        // History is optional, the preview works without it
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [artwork?.id]);
+
   useEffect(() => {
     if (!artwork) return;
 
@@ -57,6 +148,16 @@ function ArtworkPreviewModal({ artwork, onClose, onMarkSeen, onFavoriteToggle }:
     }
   };
 
+  const assets = details?.assets ?? [];
+  const activeAsset = assets[Math.min(activeAssetIndex, assets.length - 1)];
+  const metadataRows = details
+    ? ([
+        ['Medium', details.mediums],
+        ['Software', details.software],
+        ['Categories', details.categories]
+      ] as const).filter(([, values]) => values.length > 0)
+    : [];
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return null;
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -80,17 +181,55 @@ function ArtworkPreviewModal({ artwork, onClose, onMarkSeen, onFavoriteToggle }:
 
         <div className="artwork-preview-content">
           <div className="artwork-preview-image-container">
-            {artwork.high_quality_image_url ? (
+            {activeAsset ? (
+              <>
+                <AssetView
+                  asset={activeAsset}
+                  title={artwork.title}
+                  artworkId={artwork.id}
+                  position={assets.indexOf(activeAsset) + 1}
+                />
+                {assets.length > 1 && (
+                  <div className="artwork-preview-assets">
+                    {assets.map((asset, index) => (
+                      <button
+                        key={`${asset.position}-${index}`}
+                        type="button"
+                        className={`artwork-preview-asset-thumb ${asset === activeAsset ? 'active' : ''}`}
+                        onClick={() => setActiveAssetIndex(index)}
+                        aria-label={`Show asset ${index + 1} of ${assets.length}`}
+                      >
+                        {asset.image_url ? (
+                          <img
+                            src={asset.image_url}
+                            alt=""
+                            loading="lazy"
+                            onError={(e) => showArchivedImage(e.currentTarget, artwork.id, index + 1)}
+                          />
+                        ) : (
+                          <span aria-hidden="true">▶</span>
+                        )}
+                        {asset.video_url && asset.image_url && (
+                          <span className="artwork-preview-asset-play" aria-hidden="true">▶</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : artwork.high_quality_image_url ? (
               <img
                 src={artwork.high_quality_image_url}
                 alt={artwork.title}
                 className="artwork-preview-image"
+                onError={(e) => showArchivedImage(e.currentTarget, artwork.id)}
               />
             ) : artwork.thumbnail_url ? (
               <img
                 src={artwork.thumbnail_url}
                 alt={artwork.title}
                 className="artwork-preview-image"
+                onError={(e) => showArchivedImage(e.currentTarget, artwork.id)}
               />
             ) : (
               <div className="artwork-preview-placeholder">
@@ -125,12 +264,12 @@ function ArtworkPreviewModal({ artwork, onClose, onMarkSeen, onFavoriteToggle }:
               <p className="artwork-preview-artist">
                 <span className="meta-label">Artist:</span>
                 <a
-                  href={"https://www.artstation.com/" + artwork.username}
+                  href={artistLink(artwork).href}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="artist-link"
                 >
-                  @{artwork.username || artwork.display_name || 'Unknown'}
+                  {artistLink(artwork).label}
                 </a>
               </p>
 
@@ -140,8 +279,61 @@ function ArtworkPreviewModal({ artwork, onClose, onMarkSeen, onFavoriteToggle }:
                   {formatDate(artwork.upload_date || artwork.discovered_at)}
                 </p>
               )}
+
+              {details && (details.likes_count !== undefined || details.views_count !== undefined) && (
+                <p className="artwork-preview-stats">
+                  {details.likes_count !== undefined && <span>♥ {details.likes_count.toLocaleString()} likes</span>}
+                  {details.views_count !== undefined && <span>👁 {details.views_count.toLocaleString()} views</span>}
+                </p>
+              )}
+
+              {metadataRows.map(([label, values]) => (
+                <p key={label} className="artwork-preview-detail">
+                  <span className="meta-label">{label}:</span>
+                  {values.join(', ')}
+                </p>
+              ))}
             </div>
 
+            {details?.description && (
+              <p className="artwork-preview-description">{details.description}</p>
+            )}
+
+            {details && details.tags.length > 0 && (
+              <div className="artwork-preview-tags">
+                {details.tags.map(tag => (
+                  <span key={tag} className="artwork-preview-tag">#{tag}</span>
+                ))}
+              </div>
+            )}
+
+            {revisions.length > 0 && (
+              <div className="artwork-preview-history">
+                <h3 className="artwork-history-heading">Edit history</h3>
+                {revisions.map((revision, index) => {
+                  // Each edit is compared with the version that replaced it
+                  const after = index === 0 ? artwork : revisions[index - 1];
+                  return (
+                    <div key={revision.id} className="artwork-history-entry">
+                      <p className="artwork-history-date">Changed {formatDate(revision.replaced_at)}</p>
+                      <div className="artwork-history-compare">
+                        <figure className="artwork-history-side">
+                          <span className="artwork-history-label">Before</span>
+                          <img src={revision.thumbnail_url} alt={revision.title} className="artwork-history-thumb" />
+                          <figcaption>{revision.title}</figcaption>
+                        </figure>
+                        <figure className="artwork-history-side">
+                          <span className="artwork-history-label">After</span>
+                          <img src={after.thumbnail_url} alt={after.title} className="artwork-history-thumb" />
+                          <figcaption>{after.title}</figcaption>
+                        </figure>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             <div className="artwork-preview-actions">
               <a
                 href={artwork.artwork_url}
@@ -1,6 +1,7 @@
 import './Header.css';
-import { User } from '../api';
+import { ArtworkSearchFilters, User } from '../api';
 import { useState } from 'react';
+import SearchBar from './SearchBar';
 
 interface HeaderProps {
   onImportFollowing: () => void;
@@ -10,9 +11,13 @@ interface HeaderProps {
   user: User | null;
   onLogout: () => void;
   onOpenSettings: () => void;
+  onOpenHistory: () => void;
+  searchFilters: ArtworkSearchFilters;
+  searchScopeLabel?: string;
+  onArtworkChanged: () => void;
 }
 
-function Header({ onImportFollowing, onScrapeAll, isScraping, newCount, user, onLogout, onOpenSettings }: HeaderProps) {
+function Header({ onImportFollowing, onScrapeAll, isScraping, newCount, user, onLogout, onOpenSettings, onOpenHistory, searchFilters, searchScopeLabel, onArtworkChanged }: HeaderProps) {
   const [isMobileActionsOpen, setIsMobileActionsOpen] = useState(false);
 
   const toggleMobileActions = () => {
@@ -38,6 +43,11 @@ function Header({ onImportFollowing, onScrapeAll, isScraping, newCount, user, on
             <span className="user-badge">@{user.username}</span>
           )}
         </div>
+        <SearchBar
+          filters={searchFilters}
+          scopeLabel={searchScopeLabel}
+          onArtworkChanged={onArtworkChanged}
+        />
         <div className="header-actions-wrapper">
           <button
             className="header-actions-toggle"
@@ -71,6 +81,13 @@ function Header({ onImportFollowing, onScrapeAll, isScraping, newCount, user, on
 
             {user && (
               <>
+                <button
+                  className="btn btn-secondary"
+                  onClick={onOpenHistory}
+                  title="Recent scrape runs and which artists failed"
+                >
+                  🕘 History
+                </button>
                 <button
                   className="btn btn-secondary"
                   onClick={onOpenSettings}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { importFollowing, getArtists, Artist } from '../api';
+import { importFollowing, importList, getArtists, Artist, ImportListEntry, ImportListResult, ImportListStatus } from '../api';
 import { toast } from 'react-hot-toast';
 import './ImportFollowingModal.css';
 
@@ -18,7 +18,210 @@ interface ImportFollowingModalProps {
   onShowProgress: (artists: Artist[]) => void;
 }
 
+const LIST_STATUS_LABELS: Record<ImportListStatus, string> = {
+  ready: 'Will be added',
+  added: 'Added',
+  exists: 'Already exists',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+  not_found: 'Not found',
+  failed: 'Failed'
+};
+
+function listEntryAccount(entry: ImportListEntry): string {
+  if (!entry.username) return '—';
+  return entry.source === 'rss' ? `RSS · ${entry.username}` : `@${entry.username}`;
+}
+
+function listEntryNote(entry: ImportListEntry): string {
+  if (entry.duplicate_of) return `Same as line ${entry.duplicate_of}`;
+  return entry.error || '';
+}
+
+interface ImportListTabProps extends ImportFollowingModalProps {
+  onBusyChange: (busy: boolean) => void;
+}
+
+// CSV, OPML or one username/URL per line: previewed first, then followed
+function ImportListTab({ onClose, onImportComplete, onShowProgress, onBusyChange }: ImportListTabProps) {
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<ImportListResult | null>(null);
+  const [results, setResults] = useState<ImportListResult | null>(null);
+  const [phase, setPhase] = useState<'idle' | 'previewing' | 'importing'>('idle');
+
+  const shown = results || preview;
+  const readyCount = preview ? preview.entries.filter(entry => entry.status === 'ready').length : 0;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setContent(await file.text());
+    setFileName(file.name);
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    setPhase('previewing');
+    try {
+      setPreview(await importList(content, true));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to read the list');
+    } finally {
+      setPhase('idle');
+    }
+  };
+
+  const handleImport = async () => {
+    setPhase('importing');
+    onBusyChange(true);
+    try {
+      const importResults = await importList(content);
+      setResults(importResults);
+
+      if (importResults.newly_added_artist_ids.length > 0) {
+        toast.success(`Added ${importResults.added} artist${importResults.added > 1 ? 's' : ''}! Loading their artworks...`);
+        const allArtists = await getArtists();
+        const newlyAddedArtists = allArtists.filter(artist =>
+          importResults.newly_added_artist_ids.includes(artist.id)
+        );
+        onClose();
+        onShowProgress(newlyAddedArtists);
+      } else {
+        toast('No new artists were added', { icon: '✓' });
+        onImportComplete();
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to import list');
+    } finally {
+      setPhase('idle');
+      onBusyChange(false);
+    }
+  };
+
+  const busy = phase !== 'idle';
+
+  return (
+    <>
+      <div className="modal-body">
+        {!results && (
+          <>
+            <p className="import-description">
+              Follow artists from a list: ArtStation usernames or profile URLs and feed URLs, one per line,
+              a CSV file or an OPML export from a feed reader.
+            </p>
+
+            <label htmlFor="import-list-content" className="form-label">
+              List
+            </label>
+            <textarea
+              id="import-list-content"
+              className="form-input import-list-input"
+              placeholder={'artist-handle\nhttps://www.artstation.com/another-artist\nhttps://example.com/feed.xml'}
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value);
+                setFileName('');
+                setPreview(null);
+              }}
+              rows={6}
+              disabled={busy}
+              autoFocus
+            />
+            <label className="import-list-file">
+              <input type="file" accept=".csv,.opml,.xml,.txt,text/plain,text/csv" onChange={handleFile} disabled={busy} />
+              <span>{fileName ? `Loaded ${fileName}` : 'Or choose a .csv, .opml or .txt file'}</span>
+            </label>
+          </>
+        )}
+
+        {shown && (
+          <div className="import-results">
+            <h3>{results ? 'Import Results' : 'Preview'}</h3>
+            <p className="form-hint">
+              {shown.total} entr{shown.total === 1 ? 'y' : 'ies'} ({shown.format.toUpperCase()})
+              {results
+                ? ` · ${results.added} added · ${results.already_exists} already existed`
+                : ` · ${readyCount} to add · ${shown.already_exists} already followed`}
+              {shown.duplicates > 0 && ` · ${shown.duplicates} duplicate${shown.duplicates > 1 ? 's' : ''}`}
+              {shown.invalid > 0 && ` · ${shown.invalid} invalid`}
+              {shown.not_found > 0 && ` · ${shown.not_found} not found`}
+              {shown.failed > 0 && ` · ${shown.failed} failed`}
+            </p>
+            <div className="import-list-table-wrapper">
+              <table className="import-list-table">
+                <thead>
+                  <tr>
+                    <th>Line</th>
+                    <th>Entry</th>
+                    <th>Account</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shown.entries.map(entry => (
+                    <tr key={entry.line}>
+                      <td>{entry.line}</td>
+                      <td className="import-list-input-cell" title={entry.input}>{entry.input || '—'}</td>
+                      <td>{listEntryAccount(entry)}</td>
+                      <td>
+                        <span className={`import-list-status import-list-status-${entry.status}`}>
+                          {LIST_STATUS_LABELS[entry.status]}
+                        </span>
+                        {listEntryNote(entry) && <span className="import-list-note">{listEntryNote(entry)}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="modal-footer">
+        {!results ? (
+          <>
+            <button type="button" className="btn btn-secondary" onClick={onClose} disabled={busy}>
+              Cancel
+            </button>
+            {preview ? (
+              <button type="button" className="btn btn-primary" onClick={handleImport} disabled={busy || readyCount === 0}>
+                {phase === 'importing' ? (
+                  <>
+                    <span className="spinner" aria-hidden="true"></span>
+                    Importing...
+                  </>
+                ) : (
+                  `Import ${readyCount} artist${readyCount !== 1 ? 's' : ''}`
+                )}
+              </button>
+            ) : (
+              <button type="button" className="btn btn-primary" onClick={handlePreview} disabled={busy || !content.trim()}>
+                {phase === 'previewing' ? (
+                  <>
+                    <span className="spinner" aria-hidden="true"></span>
+                    Reading...
+                  </>
+                ) : (
+                  'Preview'
+                )}
+              </button>
+            )}
+          </>
+        ) : (
+          <button type="button" className="btn btn-primary" onClick={onClose}>
+            Done
+          </button>
+        )}
+      </div>
+    </>
+  );
+}
+
 function ImportFollowingModal({ onClose, onImportComplete, onShowProgress }: ImportFollowingModalProps) {
+  const [mode, setMode] = useState<'following' | 'list'>('following');
+  const [listBusy, setListBusy] = useState(false);
   const [username, setUsername] = useState('');
   const [clearExisting, setClearExisting] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
@@ -112,8 +315,10 @@ function ImportFollowingModal({ onClose, onImportComplete, onShowProgress }: Imp
     }
   };
 
+  const busy = isLoading || listBusy;
+
   const handleBackdropClick = (e: React.MouseEvent) => {
-    if (e.target === e.currentTarget && !isLoading) {
+    if (e.target === e.currentTarget && !busy) {
       onClose();
     }
   };
@@ -123,173 +328,209 @@ function ImportFollowingModal({ onClose, onImportComplete, onShowProgress }: Imp
       <div className="modal import-modal">
         <div className="modal-header">
           <h2>Import Following List</h2>
-          {!isLoading && (
+          {!busy && (
             <button className="btn-close" onClick={onClose}>
               ✕
             </button>
           )}
         </div>
 
-        <form onSubmit={handleSubmit}>
-          <div className="modal-body">
-            {!isLoading && !results && (
-              <>
-                <p className="import-description">
-                  Import all artists you follow on ArtStation. Your ArtStation username is stored privately and not displayed.
-                </p>
-                
-                <label htmlFor="username" className="form-label">
-                  ArtStation Username (Optional)
-                </label>
-              </>
-            )}
+        {!isLoading && !results && (
+          <div className="import-tabs" role="tablist">
+            <button
+              type="button"
+              role="tab"
+              aria-selected={mode === 'following'}
+              className={`import-tab ${mode === 'following' ? 'active' : ''}`}
+              onClick={() => setMode('following')}
+              disabled={listBusy}
+            >
+              ArtStation following
+            </button>
+            <button
+              type="button"
+              role="tab"
+              aria-selected={mode === 'list'}
+              className={`import-tab ${mode === 'list' ? 'active' : ''}`}
+              onClick={() => setMode('list')}
+              disabled={listBusy}
+            >
+              List or file
+            </button>
+          </div>
+        )}
 
-            {isLoading && (
-              <div className="import-progress">
-                <div className="progress-status">
-                  <span className="progress-icon">
-                    {loadingPhase === 'fetching' && '🔍'}
-                    {loadingPhase === 'processing' && '⚙️'}
-                    {loadingPhase === 'complete' && (
-                      <img 
-                        src="/icons/check.svg" 
-                        alt="" 
-                        className="progress-check-icon"
-                        aria-hidden="true"
-                      />
-                    )}
-                  </span>
-                  <div className="progress-text">
-                    <p className="progress-main">{currentStatus}</p>
-                    {artistsFound > 0 && (
-                      <p className="progress-detail">
-                        Found {artistsFound} artist{artistsFound !== 1 ? 's' : ''} 
-                        {artistsAdded > 0 && ` · ${artistsAdded} new`}
-                      </p>
-                    )}
-                  </div>
-                </div>
-                
-                {(loadingPhase === 'fetching' || loadingPhase === 'processing' || 
-                  (loadingPhase === 'complete' && currentStatus.includes('Loading their artworks'))) && (
-                  <div className="progress-bar-container">
-                    <div className="progress-bar-indeterminate">
-                      <div className="progress-bar-fill"></div>
+        {mode === 'list' && (
+          <ImportListTab
+            onClose={onClose}
+            onImportComplete={onImportComplete}
+            onShowProgress={onShowProgress}
+            onBusyChange={setListBusy}
+          />
+        )}
+
+        {mode === 'following' && (
+          <form onSubmit={handleSubmit}>
+            <div className="modal-body">
+              {!isLoading && !results && (
+                <>
+                  <p className="import-description">
+                    Import all artists you follow on ArtStation. Your ArtStation username is stored privately and not displayed.
+                  </p>
+                  
+                  <label htmlFor="username" className="form-label">
+                    ArtStation Username (Optional)
+                  </label>
+                </>
+              )}
+
+              {isLoading && (
+                <div className="import-progress">
+                  <div className="progress-status">
+                    <span className="progress-icon">
+                      {loadingPhase === 'fetching' && '🔍'}
+                      {loadingPhase === 'processing' && '⚙️'}
+                      {loadingPhase === 'complete' && (
+                        <img 
+                          src="/icons/check.svg" 
+                          alt="" 
+                          className="progress-check-icon"
+                          aria-hidden="true"
+                        />
+                      )}
+                    </span>
+                    <div className="progress-text">
+                      <p className="progress-main">{currentStatus}</p>
+                      {artistsFound > 0 && (
+                        <p className="progress-detail">
+                          Found {artistsFound} artist{artistsFound !== 1 ? 's' : ''} 
+                          {artistsAdded > 0 && ` · ${artistsAdded} new`}
+                        </p>
+                      )}
                     </div>
                   </div>
-                )}
-              </div>
-            )}
+                  
+                  {(loadingPhase === 'fetching' || loadingPhase === 'processing' || 
+                    (loadingPhase === 'complete' && currentStatus.includes('Loading their artworks'))) && (
+                    <div className="progress-bar-container">
+                      <div className="progress-bar-indeterminate">
+                        <div className="progress-bar-fill"></div>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
 
-            {!isLoading && !results && (
-              <>
-                <input
-                  id="username"
-                  type="text"
-                  className="form-input"
-                  placeholder="Leave empty to use saved username"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  autoFocus
-                  disabled={isLoading}
-                />
-                <p className="form-hint">
-                  {username.trim() 
-                    ? 'This will update your saved ArtStation username and import artists.' 
-                    : 'If you\'ve set an ArtStation username before, it will be used. Otherwise, enter one now.'}
-                </p>
-
-                <label className="checkbox-label">
+              {!isLoading && !results && (
+                <>
                   <input
-                    type="checkbox"
-                    checked={clearExisting}
-                    onChange={(e) => setClearExisting(e.target.checked)}
+                    id="username"
+                    type="text"
+                    className="form-input"
+                    placeholder="Leave empty to use saved username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    autoFocus
                     disabled={isLoading}
                   />
-                  <span>Replace existing artists (recommended)</span>
-                </label>
-                <p className="form-hint">
-                  {clearExisting 
-                    ? '⚠️ This will remove all current artists and replace them with your followed list.' 
-                    : 'This will add to your existing artists (may create duplicates).'
-                  }
-                </p>
-              </>
-            )}
+                  <p className="form-hint">
+                    {username.trim() 
+                      ? 'This will update your saved ArtStation username and import artists.' 
+                      : 'If you\'ve set an ArtStation username before, it will be used. Otherwise, enter one now.'}
+                  </p>
 
-            {results && (
-              <div className="import-results">
-                <h3>Import Results</h3>
-                <div className="result-stats">
-                  <div className="stat">
-                    <span className="stat-value">{results.total_found}</span>
-                    <span className="stat-label">Found</span>
-                  </div>
-                  <div className="stat stat-success">
-                    <span className="stat-value">{results.added}</span>
-                    <span className="stat-label">Added</span>
-                  </div>
-                  {results.artworks_loaded > 0 && (
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={clearExisting}
+                      onChange={(e) => setClearExisting(e.target.checked)}
+                      disabled={isLoading}
+                    />
+                    <span>Replace existing artists (recommended)</span>
+                  </label>
+                  <p className="form-hint">
+                    {clearExisting 
+                      ? '⚠️ This will remove all current artists and replace them with your followed list.' 
+                      : 'This will add to your existing artists (may create duplicates).'
+                    }
+                  </p>
+                </>
+              )}
+
+              {results && (
+                <div className="import-results">
+                  <h3>Import Results</h3>
+                  <div className="result-stats">
+                    <div className="stat">
+                      <span className="stat-value">{results.total_found}</span>
+                      <span className="stat-label">Found</span>
+                    </div>
                     <div className="stat stat-success">
-                      <span className="stat-value">{results.artworks_loaded}</span>
-                      <span className="stat-label">Artworks loaded</span>
+                      <span className="stat-value">{results.added}</span>
+                      <span className="stat-label">Added</span>
                     </div>
-                  )}
-                  <div className="stat stat-info">
-                    <span className="stat-value">{results.already_exists}</span>
-                    <span className="stat-label">Already existed</span>
-                  </div>
-                  {results.failed > 0 && (
-                    <div className="stat stat-error">
-                      <span className="stat-value">{results.failed}</span>
-                      <span className="stat-label">Failed</span>
+                    {results.artworks_loaded > 0 && (
+                      <div className="stat stat-success">
+                        <span className="stat-value">{results.artworks_loaded}</span>
+                        <span className="stat-label">Artworks loaded</span>
+                      </div>
+                    )}
+                    <div className="stat stat-info">
+                      <span className="stat-value">{results.already_exists}</span>
+                      <span className="stat-label">Already existed</span>
                     </div>
-                  )}
+                    {results.failed > 0 && (
+                      <div className="stat stat-error">
+                        <span className="stat-value">{results.failed}</span>
+                        <span className="stat-label">Failed</span>
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
+              )}
+            </div>
 
-          <div className="modal-footer">
-            {!results && (
-              <>
+            <div className="modal-footer">
+              {!results && (
+                <>
+                  <button
+                    type="button"
+                    className="btn btn-secondary"
+                    onClick={onClose}
+                    disabled={isLoading}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="btn btn-primary"
+                    disabled={isLoading}
+                  >
+                    {isLoading ? (
+                      <>
+                        <span className="spinner" aria-hidden="true"></span>
+                        {loadingPhase === 'fetching' ? 'Fetching...' : 
+                         loadingPhase === 'processing' ? 'Processing...' : 
+                         'Importing...'}
+                      </>
+                    ) : (
+                      'Import Following'
+                    )}
+                  </button>
+                </>
+              )}
+              {results && (
                 <button
                   type="button"
-                  className="btn btn-secondary"
+                  className="btn btn-primary"
                   onClick={onClose}
-                  disabled={isLoading}
                 >
-                  Cancel
+                  Done
                 </button>
-                <button
-                  type="submit"
-                  className="btn btn-primary"
-                  disabled={isLoading}
-                >
-                  {isLoading ? (
-                    <>
-                      <span className="spinner" aria-hidden="true"></span>
-                      {loadingPhase === 'fetching' ? 'Fetching...' : 
-                       loadingPhase === 'processing' ? 'Processing...' : 
-                       'Importing...'}
-                    </>
-                  ) : (
-                    'Import Following'
-                  )}
-                </button>
-              </>
-            )}
-            {results && (
-              <button
-                type="button"
-                className="btn btn-primary"
-                onClick={onClose}
-              >
-                Done
-              </button>
-            )}
-          </div>
-        </form>
+              )}
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+import {
+  Artist,
+  ArtistScrapeHistory,
+  ScrapeOutcome,
+  ScrapeRun,
+  getArtistScrapeHistory,
+  getScrapeRun,
+  getScrapeRuns,
+  setArtistCheckInterval
+} from '../api';
+import { toast } from 'react-hot-toast';
+import './ScrapeHistoryModal.css';
+
+interface ScrapeHistoryModalProps {
+  artist?: Artist | null; // Show this artist's attempts instead of the list of runs
+  onArtistUpdated?: () => void;
+  onClose: () => void;
+}
+
+// Intervals an artist can be pinned to, in hours
+const PINNED_INTERVALS = [1, 3, 6, 12, 24, 72, 168];
+
+function formatInterval(hours: number): string {
+  if (hours % 24 === 0) return hours === 24 ? 'daily' : `every ${hours / 24} days`;
+  return hours === 1 ? 'hourly' : `every ${hours} hours`;
+}
+
+const RUN_TYPE_LABELS: Record<ScrapeRun['type'], string> = {
+  check: 'Update check',
+  update: 'Full scrape',
+  rescan: 'Full rescan',
+  import_following: 'Following sync',
+  import_list: 'List import'
+};
+
+const TRIGGER_LABELS: Record<ScrapeRun['trigger'], string> = {
+  manual: 'by you',
+  scheduled: 'scheduled',
+  cron: 'cron'
+};
+
+const BLOCK_LABELS: Record<NonNullable<ScrapeOutcome['block_reason']>, string> = {
+  rate_limited: 'rate limited (HTTP 429)',
+  challenge: 'Cloudflare challenge'
+};
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return '–';
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60000) return `${Math.round(ms / 1000)} s`;
+  return `${Math.floor(ms / 60000)} min ${Math.round((ms % 60000) / 1000)} s`;
+}
+
+function formatDate(date?: string | null): string {
+  return date ? new Date(date).toLocaleString() : 'never';
+}
+
+function OutcomeRow({ outcome, label }: { outcome: ScrapeOutcome; label: string }) {
+  return (
+    <li className={`history-outcome history-outcome-${outcome.status}`}>
+      <div className="history-outcome-main">
+        <span className="history-outcome-label">{label}</span>
+        <span className={`history-status history-status-${outcome.status}`}>{outcome.status}</span>
+      </div>
+      <div className="history-outcome-meta">
+        {outcome.attempt > 1 && `attempt ${outcome.attempt} · `}
+        {outcome.pages_fetched} page{outcome.pages_fetched === 1 ? '' : 's'} · {outcome.new_artworks} new · {outcome.updated_artworks} updated · {formatDuration(outcome.duration_ms)}
+        {outcome.reason && ` · ${outcome.reason.replace(/_/g, ' ')}`}
+      </div>
+      {outcome.block_reason && (
+        <div className="history-outcome-block">{BLOCK_LABELS[outcome.block_reason]}</div>
+      )}
+      {outcome.error && <div className="history-outcome-error">{outcome.error}</div>}
+    </li>
+  );
+}
+
+function ScrapeHistoryModal({ artist, onArtistUpdated, onClose }: ScrapeHistoryModalProps) {
+  const [runs, setRuns] = useState<ScrapeRun[] | null>(null);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [expandedRunId, setExpandedRunId] = useState<number | null>(null);
+  const [outcomes, setOutcomes] = useState<Record<number, ScrapeOutcome[]>>({});
+  const [artistHistory, setArtistHistory] = useState<ArtistScrapeHistory | null>(null);
+  const [schedule, setSchedule] = useState<Pick<Artist, 'check_interval_hours' | 'next_check_at'> | null>(
+    artist ? { check_interval_hours: artist.check_interval_hours, next_check_at: artist.next_check_at } : null
+  );
+  const [isSavingInterval, setIsSavingInterval] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        if (artist) {
+          setArtistHistory(await getArtistScrapeHistory(artist.id));
+        } else {
+          const result = await getScrapeRuns(30);
+          setRuns(result.runs);
+          setRetentionDays(result.retention_days);
+        }
+      } catch (error) {
+        toast.error('Failed to load scrape history');
+      }
+    };
+    load();
+  }, [artist]);
+
+  const handleToggleRun = async (runId: number) => {
+    if (expandedRunId === runId) {
+      setExpandedRunId(null);
+      return;
+    }
+    setExpandedRunId(runId);
+    if (!outcomes[runId]) {
+      try {
+        const run = await getScrapeRun(runId);
+        setOutcomes(prev => ({ ...prev, [runId]: run.outcomes }));
+      } catch (error) {
+        toast.error('Failed to load run details');
+      }
+    }
+  };
+
+  const handleIntervalChange = async (value: string) => {
+    if (!artist) return;
+    setIsSavingInterval(true);
+    try {
+      const updated = await setArtistCheckInterval(artist.id, value === 'adaptive' ? null : parseInt(value));
+      setSchedule({ check_interval_hours: updated.check_interval_hours, next_check_at: updated.next_check_at });
+      onArtistUpdated?.();
+    } catch (error) {
+      toast.error('Failed to update the check interval');
+    } finally {
+      setIsSavingInterval(false);
+    }
+  };
+
+  const isLoading = artist ? artistHistory === null : runs === null;
+
+  return (
+    <div className="modal-backdrop history-backdrop" onClick={onClose}>
+      <div className="modal history-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{artist ? `Scrape history · @${artist.username}` : 'Scrape history'}</h2>
+          <button className="modal-close" onClick={onClose} title="Close">
+            ✕
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {isLoading ? (
+            <div className="history-empty">
+              <span className="spinner" aria-hidden="true"></span> Loading...
+            </div>
+          ) : artistHistory ? (
+            <>
+              <div className="history-artist-summary">
+                <div>
+                  <span className="history-summary-label">Last successful check</span>
+                  <span>{formatDate(artistHistory.last_success_at)}</span>
+                </div>
+                <div className={artistHistory.consecutive_failures > 0 ? 'history-failing' : ''}>
+                  <span className="history-summary-label">Failures in a row</span>
+                  <span>{artistHistory.consecutive_failures}</span>
+                </div>
+                <div>
+                  <span className="history-summary-label">Next scheduled check</span>
+                  <span>{schedule?.next_check_at ? formatDate(schedule.next_check_at) : 'next run'}</span>
+                </div>
+                <div>
+                  <label className="history-summary-label" htmlFor="check-interval">Check interval</label>
+                  <select
+                    id="check-interval"
+                    className="history-interval-select"
+                    value={schedule?.check_interval_hours ?? 'adaptive'}
+                    onChange={(e) => handleIntervalChange(e.target.value)}
+                    disabled={isSavingInterval}
+                  >
+                    <option value="adaptive">Adaptive (follows posting cadence)</option>
+                    {PINNED_INTERVALS.map((hours) => (
+                      <option key={hours} value={hours}>{formatInterval(hours)}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {artistHistory.history.length === 0 ? (
+                <p className="history-empty">No scrapes recorded for this artist yet</p>
+              ) : (
+                <ul className="history-outcomes">
+                  {artistHistory.history.map((entry) => (
+                    <OutcomeRow
+                      key={entry.id}
+                      outcome={entry}
+                      label={`${formatDate(entry.created_at)} · ${RUN_TYPE_LABELS[entry.type]} (${TRIGGER_LABELS[entry.trigger]})`}
+                    />
+                  ))}
+                </ul>
+              )}
+            </>
+          ) : runs && runs.length === 0 ? (
+            <p className="history-empty">No scrape runs yet</p>
+          ) : (
+            <>
+              <ul className="history-runs">
+                {runs!.map((run) => (
+                  <li key={run.id} className="history-run">
+                    <button
+                      type="button"
+                      className="history-run-toggle"
+                      onClick={() => handleToggleRun(run.id)}
+                      aria-expanded={expandedRunId === run.id}
+                    >
+                      <div className="history-run-main">
+                        <span>
+                          {RUN_TYPE_LABELS[run.type]} <span className="history-trigger">{TRIGGER_LABELS[run.trigger]}</span>
+                        </span>
+                        <span className={`history-status history-status-${run.status}`}>{run.status}</span>
+                      </div>
+                      <div className="history-run-meta">
+                        {formatDate(run.started_at || run.created_at)} · {formatDuration(run.duration_ms)} · {run.completed} updated, {run.skipped} unchanged
+                        {run.failed > 0 && `, ${run.failed} failed`} · {run.new_artworks} new artwork{run.new_artworks === 1 ? '' : 's'}
+                      </div>
+                    </button>
+                    {expandedRunId === run.id && (
+                      outcomes[run.id] ? (
+                        outcomes[run.id].length === 0 ? (
+                          <p className="history-empty">Nothing recorded for this run</p>
+                        ) : (
+                          <ul className="history-outcomes">
+                            {outcomes[run.id].map((outcome) => (
+                              <OutcomeRow key={outcome.id} outcome={outcome} label={`@${outcome.username}`} />
+                            ))}
+                          </ul>
+                        )
+                      ) : (
+                        <div className="history-empty">
+                          <span className="spinner" aria-hidden="true"></span>
+                        </div>
+                      )
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {retentionDays !== null && (
+                <p className="history-hint">Runs are kept for {retentionDays} days</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ScrapeHistoryModal;
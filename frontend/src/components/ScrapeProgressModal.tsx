@@ -1,31 +1,8 @@
 /* eslint-disable jsx-a11y/aria-proptypes */
 import { useEffect, useState } from 'react';
-import { Artist, getAuthToken } from '../api';
-import axios from 'axios';
+import { Artist, scrapeArtist } from '../api';
 import './ScrapeProgressModal.css';
 
-// Use the same API_BASE as api.ts
-const API_BASE = import.meta.env.VITE_API_BASE || '/api';
-
-// Create axios instance with base URL and default auth header
-// Use same timeout as api.ts to handle Render free tier wake-up
-const apiClient = axios.create({
-  baseURL: API_BASE,
-  timeout: 120000, // 2 minutes to allow backend to wake up
-  headers: {
-    'Content-Type': 'application/json'
-  }
-});
-
-// Add auth token interceptor
-apiClient.interceptors.request.use((config) => {
-  const token = getAuthToken();
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
-  }
-  return config;
-});
-
 interface ScrapeProgressModalProps {
   artists: Artist[];
   onComplete: () => void;
@@ -86,14 +63,9 @@ function ScrapeProgressModal({ artists, onComplete, isInitialImport = false }: S
         // Small delay to show scraping state
         await new Promise(resolve => setTimeout(resolve, 150));
         
-        // Use full scrape for initial imports (newly imported artists), optimized for updates
-        const endpoint = isInitialImport 
-          ? `/scrape/artist/${artist.id}`  // Full scrape (no optimized param)
-          : `/scrape/artist/${artist.id}?optimized=true`;  // Optimized check
-        
-        const response = await apiClient.post(endpoint, {});
-        
-        const result = response.data;
+        // Use full scrape for initial imports (newly imported artists), optimized for updates.
+        // Resolves once the backend's job for this artist is finished
+        const result = await scrapeArtist(artist.id, !isInitialImport);
         
         // Handle skipped status (no updates)
         if (result.status === 'skipped') {
@@ -0,0 +1,179 @@
+import { useState, useEffect, useRef } from 'react';
+import { ArtworkSearchFilters, ArtworkSearchResult, markArtworkSeen, searchArtworks } from '../api';
+import { toast } from 'react-hot-toast';
+import ArtworkPreviewModal from './ArtworkPreviewModal';
+import './SearchBar.css';
+
+interface SearchBarProps {
+  filters: ArtworkSearchFilters;
+  scopeLabel?: string; // Describes the active filters, e.g. "@artist · new only"
+  onArtworkChanged: () => void;
+}
+
+const SEARCH_DELAY = 250; // ms after the last keystroke
+
+// Renders <mark>…</mark> from the API as React elements (never as HTML)
+function Highlighted({ text }: { text: string }) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? <mark key={index}>{part}</mark> : part
+      )}
+    </>
+  );
+}
+
+function SearchBar({ filters, scopeLabel, onArtworkChanged }: SearchBarProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ArtworkSearchResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [previewArtwork, setPreviewArtwork] = useState<ArtworkSearchResult | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const searchIdRef = useRef(0);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    const searchId = ++searchIdRef.current;
+
+    if (!trimmed) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const data = await searchArtworks(trimmed, filters);
+        if (searchId === searchIdRef.current) {
+          setResults(data);
+        }
+      } catch (error) {
+        if (searchId === searchIdRef.current) {
+          setResults([]);
+        }
+      } finally {
+        if (searchId === searchIdRef.current) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [query, filters.artistId, filters.newOnly, filters.favoritesOnly]);
+
+  // Close the results when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setQuery('');
+      setIsOpen(false);
+      e.currentTarget.blur();
+    }
+  };
+
+  const handleSelect = (result: ArtworkSearchResult) => {
+    setPreviewArtwork(result);
+    setIsOpen(false);
+  };
+
+  const handlePreviewMarkSeen = async (artworkId: number) => {
+    try {
+      await markArtworkSeen(artworkId);
+      onArtworkChanged();
+      if (previewArtwork?.id === artworkId) {
+        setPreviewArtwork({ ...previewArtwork, is_new: 0 });
+      }
+      toast.success('Marked as seen');
+    } catch (error) {
+      toast.error('Failed to mark as seen');
+    }
+  };
+
+  const showResults = isOpen && query.trim().length > 0;
+
+  return (
+    <div className="header-search" ref={containerRef}>
+      <input
+        type="search"
+        className="header-search-input"
+        placeholder="Search artworks and artists..."
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        aria-label="Search artworks"
+      />
+
+      {showResults && (
+        <div className="header-search-results" role="listbox">
+          {scopeLabel && (
+            <p className="header-search-scope">Searching in {scopeLabel}</p>
+          )}
+          {results.length === 0 ? (
+            <p className="header-search-empty">
+              {isSearching ? 'Searching...' : 'No matching artworks'}
+            </p>
+          ) : (
+            results.map((result) => (
+              <button
+                key={result.id}
+                type="button"
+                className="header-search-result"
+                onClick={() => handleSelect(result)}
+                role="option"
+              >
+                {result.thumbnail_url ? (
+                  <img src={result.thumbnail_url} alt="" className="header-search-thumb" loading="lazy" />
+                ) : (
+                  <span className="header-search-thumb" aria-hidden="true">🖼️</span>
+                )}
+                <span className="header-search-text">
+                  <span className="header-search-title">
+                    <Highlighted text={result.title_highlight} />
+                  </span>
+                  <span className="header-search-artist">
+                    @<Highlighted text={result.artist_highlight} />
+                    {result.is_new === 1 && <span className="header-search-new">NEW</span>}
+                  </span>
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      {previewArtwork && (
+        <ArtworkPreviewModal
+          artwork={previewArtwork}
+          onClose={() => setPreviewArtwork(null)}
+          onMarkSeen={handlePreviewMarkSeen}
+          onFavoriteToggle={() => {
+            onArtworkChanged();
+            const currentFavorite = previewArtwork.is_favorite || 0;
+            setPreviewArtwork({ ...previewArtwork, is_favorite: currentFavorite === 1 ? 0 : 1 });
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+export default SearchBar;
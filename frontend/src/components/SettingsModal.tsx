@@ -1,8 +1,12 @@
-import { useState, useEffect } from 'react';
-import { getUserProfile, updateUserProfile, testDiscordNotification, sendCustomDiscordMessage, User } from '../api';
+import { useState, useEffect, useRef } from 'react';
+import { getUserProfile, updateUserProfile, testDiscordNotification, sendCustomDiscordMessage, exportAccount, importAccount, getImageArchiveUsage, User, ImageArchiveMode, ImageArchiveUsage } from '../api';
 import { toast } from 'react-hot-toast';
 import './SettingsModal.css';
 
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 interface SettingsModalProps {
   onClose: () => void;
 }
@@ -10,12 +14,19 @@ interface SettingsModalProps {
 function SettingsModal({ onClose }: SettingsModalProps) {
   const [discordWebhookUrl, setDiscordWebhookUrl] = useState('');
   const [discordUserId, setDiscordUserId] = useState('');
+  const [notifyRemovedArtworks, setNotifyRemovedArtworks] = useState(false);
+  const [muteRepostNotifications, setMuteRepostNotifications] = useState(false);
+  const [imageArchive, setImageArchive] = useState<ImageArchiveMode>('off');
+  const [archiveUsage, setArchiveUsage] = useState<ImageArchiveUsage | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [customMessage, setCustomMessage] = useState('');
   const [isSendingCustomMessage, setIsSendingCustomMessage] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Load current settings on mount
   useEffect(() => {
@@ -28,7 +39,14 @@ function SettingsModal({ onClose }: SettingsModalProps) {
       const profile = await getUserProfile();
       setDiscordWebhookUrl(profile.discord_webhook_url || '');
       setDiscordUserId(profile.discord_user_id || '');
+      setNotifyRemovedArtworks(!!profile.notify_removed_artworks);
+      setMuteRepostNotifications(!!profile.mute_repost_notifications);
+      setImageArchive(profile.image_archive || 'off');
       setCurrentUser(profile);
+      // Usage is only informational; the rest of the settings work without it
+      getImageArchiveUsage()
+        .then(setArchiveUsage)
+        .catch(error => console.error('Error loading image archive usage:', error));
     } catch (error: any) {
       toast.error('Failed to load settings');
       console.error('Error loading settings:', error);
@@ -44,7 +62,10 @@ function SettingsModal({ onClose }: SettingsModalProps) {
     try {
       await updateUserProfile({
         discord_webhook_url: discordWebhookUrl.trim() || null,
-        discord_user_id: discordUserId.trim() || null
+        discord_user_id: discordUserId.trim() || null,
+        notify_removed_artworks: notifyRemovedArtworks,
+        mute_repost_notifications: muteRepostNotifications,
+        image_archive: imageArchive
       });
       toast.success('Settings saved successfully!');
       onClose();
@@ -103,6 +124,50 @@ function SettingsModal({ onClose }: SettingsModalProps) {
     }
   };
 
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await exportAccount();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `arttracker-${currentUser?.username || 'account'}-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success('Account exported');
+    } catch (error: any) {
+      toast.error('Failed to export account');
+      console.error('Error exporting account:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const archive = JSON.parse(await file.text());
+      const result = await importAccount(archive);
+      toast.success(
+        `Imported ${result.artists_added} new artist(s) and ${result.artworks_added} artwork(s)` +
+        (result.artists_existing > 0 ? ` (${result.artists_existing} artist(s) already followed)` : '') +
+        (result.artists_skipped > 0 ? `, skipped ${result.artists_skipped} feed(s) or unknown account(s)` : ''),
+        { duration: 5000 }
+      );
+    } catch (error: any) {
+      const errorMessage = error instanceof SyntaxError
+        ? 'That file is not a valid ArtTracker export'
+        : error.response?.data?.error || error.message || 'Failed to import account';
+      toast.error(errorMessage);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const isSolana = currentUser?.username === 'Solana';
 
   return (
@@ -158,6 +223,33 @@ function SettingsModal({ onClose }: SettingsModalProps) {
                 Your Discord User ID for @mentions. Enable Developer Mode in Discord, then right-click your name → Copy User ID
               </p>
 
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={notifyRemovedArtworks}
+                  onChange={(e) => setNotifyRemovedArtworks(e.target.checked)}
+                  disabled={isLoading || isSaving || isTesting}
+                />
+                <span>Tell me when artists remove artworks</span>
+              </label>
+              <p className="form-hint">
+                Checked during full rescans (weekly by default). Removed artworks you favorited stay in ArtTracker.
+              </p>
+
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={muteRepostNotifications}
+                  onChange={(e) => setMuteRepostNotifications(e.target.checked)}
+                  disabled={isLoading || isSaving || isTesting}
+                />
+                <span>Don't notify me about likely reposts</span>
+              </label>
+              <p className="form-hint">
+                Skips new artworks whose image looks like one you already have, from the same or another artist.
+                They still show up in your feed, next to the original.
+              </p>
+
               <button
                 type="button"
                 className="btn btn-secondary test-notification-btn"
@@ -210,6 +302,73 @@ function SettingsModal({ onClose }: SettingsModalProps) {
                 </div>
               )}
             </div>
+
+            <div className="settings-section">
+              <h3 className="settings-section-title">🗄️ Image Archive</h3>
+              <p className="settings-description">
+                Keep copies of artwork images on the server, so they still show up after an artist deletes or edits a post.
+                New artworks are archived when updates are found, favorites when you favorite them.
+              </p>
+              {archiveUsage?.quota_bytes === 0 ? (
+                <p className="form-hint">The image archive is turned off on this server.</p>
+              ) : (
+                <>
+                  <label htmlFor="image-archive" className="form-label">
+                    Archive
+                  </label>
+                  <select
+                    id="image-archive"
+                    className="form-input"
+                    value={imageArchive}
+                    onChange={(e) => setImageArchive(e.target.value as ImageArchiveMode)}
+                    disabled={isLoading || isSaving}
+                  >
+                    <option value="off">Nothing</option>
+                    <option value="covers">Cover images</option>
+                    <option value="all">Cover and every image of the project</option>
+                  </select>
+                  {archiveUsage && (
+                    <p className="form-hint">
+                      {archiveUsage.files} image(s) archived, {formatMegabytes(archiveUsage.bytes)} of {formatMegabytes(archiveUsage.quota_bytes)} used.
+                      Archiving stops once the quota is full.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="settings-section">
+              <h3 className="settings-section-title">📦 Export &amp; Import</h3>
+              <p className="settings-description">
+                Download your artists, artworks, seen/favorite state and settings as one file, then import it
+                into another ArtTracker instance. Importing merges with what you already have.
+              </p>
+              <div className="archive-actions">
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={handleExport}
+                  disabled={isLoading || isExporting || isImporting}
+                >
+                  {isExporting ? 'Exporting...' : '⬇️ Export Account'}
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isLoading || isExporting || isImporting}
+                >
+                  {isImporting ? 'Importing...' : '⬆️ Import Account'}
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleImportFile}
+                  hidden
+                />
+              </div>
+            </div>
           </div>
 
           <div className="modal-footer">